@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+
+/**
+ * One-off storage relocation for e-Archiwum
+ * Moves archived files that still live in the temp upload directory (storage/.tmp)
+ * into permanent, content-addressed storage (objects/ab/cd/<sha256>) and repairs
+ * files.file_path / storage_key. The key layout mirrors FileStorageUtil.getObjectKey.
+ * Objects are written to the local storage backend.
+ *
+ * Usage: node relocate-storage.js [environment] [storageDir]
+ * Example: FILE_STORAGE_DIR=/data/files node relocate-storage.js production
+ */
+
+const fs = require('fs')
+const os = require('os')
+const path = require('path')
+const crypto = require('crypto')
+const { Client } = require('pg')
+
+const environment = process.argv[2] || 'development'
+
+// Database config
+const config =
+  environment === 'production'
+    ? {
+        host: process.env.DB_HOST || 'localhost',
+        port: parseInt(process.env.DB_PORT || '5432'),
+        database: process.env.DB_NAME || 'e_archiwum',
+        user: process.env.DB_USER || 'postgres',
+        password: process.env.DB_PASSWORD || '',
+        ssl: process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : false
+      }
+    : {
+        host: 'localhost',
+        port: 5432,
+        database: 'e_archiwum_dev',
+        user: 'postgres',
+        password: 'postgres'
+      }
+
+// Same default as Electron's app.getPath('userData') + '/files'
+const defaultStorageDir = () => {
+  const appName = 'e-archiwum'
+  if (process.platform === 'win32') {
+    return path.join(process.env.APPDATA || os.homedir(), appName, 'files')
+  }
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Application Support', appName, 'files')
+  }
+  return path.join(
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'),
+    appName,
+    'files'
+  )
+}
+
+const storageDir = path.resolve(
+  process.argv[3] || process.env.FILE_STORAGE_DIR || defaultStorageDir()
+)
+const tempDir = path.join(storageDir, '.tmp')
+
+const getObjectKey = (fileHash) =>
+  `objects/${fileHash.slice(0, 2)}/${fileHash.slice(2, 4)}/${fileHash}`
+
+const hashFile = (filePath) =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256')
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+
+const storeObject = async (sourcePath, fileHash) => {
+  const objectPath = path.join(storageDir, ...getObjectKey(fileHash).split('/'))
+  if (fs.existsSync(objectPath)) return objectPath
+
+  fs.mkdirSync(path.dirname(objectPath), { recursive: true })
+  const partialPath = `${objectPath}.partial`
+  try {
+    fs.linkSync(sourcePath, partialPath)
+  } catch {
+    fs.copyFileSync(sourcePath, partialPath)
+    if ((await hashFile(partialPath)) !== fileHash) {
+      fs.rmSync(partialPath, { force: true })
+      throw new Error('copied object does not match stored hash')
+    }
+  }
+  fs.renameSync(partialPath, objectPath)
+  return objectPath
+}
+
+async function relocate() {
+  const client = new Client(config)
+  const summary = { relocated: 0, missing: 0, mismatched: 0, failed: 0 }
+
+  try {
+    console.log(`[${environment}] Connecting to database...`)
+    await client.connect()
+    console.log('✓ Connected')
+    console.log(`Storage directory: ${storageDir}`)
+
+    const result = await client.query(
+      `SELECT id, file_path, file_hash FROM files WHERE file_path LIKE $1 ORDER BY created_at`,
+      [`${tempDir}${path.sep}%`]
+    )
+
+    console.log(`\nFound ${result.rows.length} file(s) in the temp directory`)
+
+    for (const row of result.rows) {
+      if (!fs.existsSync(row.file_path)) {
+        console.error(`  ✗ ${row.id}: file is missing (${row.file_path})`)
+        summary.missing++
+        continue
+      }
+
+      try {
+        const currentHash = await hashFile(row.file_path)
+        if (currentHash !== row.file_hash) {
+          console.error(
+            `  ✗ ${row.id}: hash mismatch - stored: ${row.file_hash}, current: ${currentHash}`
+          )
+          summary.mismatched++
+          continue
+        }
+
+        const objectPath = await storeObject(row.file_path, row.file_hash)
+
+        await client.query('BEGIN')
+        await client.query(
+          `UPDATE files SET file_path = $1, storage_backend = 'local', storage_key = $2 WHERE id = $3`,
+          [objectPath, getObjectKey(row.file_hash), row.id]
+        )
+        await client.query(
+          `INSERT INTO audit_log (action, resource_type, resource_id, previous_value, new_value, reason)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            'UPDATE',
+            'file',
+            row.id,
+            JSON.stringify({ filePath: row.file_path }),
+            JSON.stringify({ filePath: objectPath }),
+            'Relocated from temp upload directory to permanent storage'
+          ]
+        )
+        await client.query('COMMIT')
+
+        fs.rmSync(row.file_path, { force: true })
+        console.log(`  ✓ ${row.id} → ${objectPath}`)
+        summary.relocated++
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => {})
+        console.error(`  ✗ ${row.id}: ${error.message}`)
+        summary.failed++
+      }
+    }
+
+    console.log(
+      `\nRelocated: ${summary.relocated}, missing: ${summary.missing}, hash mismatch: ${summary.mismatched}, failed: ${summary.failed}`
+    )
+    await client.end()
+    process.exit(summary.failed > 0 || summary.mismatched > 0 ? 1 : 0)
+  } catch (error) {
+    console.error('\n✗ Relocation failed:', error.message)
+    await client.end()
+    process.exit(1)
+  }
+}
+
+relocate()
@@ -0,0 +1,54 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { LocalStorageBackend } from '../../storage/localBackend'
+
+const readAll = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk))
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+describe('LocalStorageBackend', () => {
+  let root: string
+  let backend: LocalStorageBackend
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'local-backend-'))
+    backend = new LocalStorageBackend(root)
+    await backend.initialize()
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should put, stat and get an object from a file path', async () => {
+    const source = path.join(root, 'source.txt')
+    fs.writeFileSync(source, 'archived bytes')
+
+    const stored = await backend.put('objects/aa/bb/object', source)
+    expect(stored.size).toBe(14)
+    expect(await readAll(await backend.get('objects/aa/bb/object'))).toBe('archived bytes')
+  })
+
+  it('should put an object from a stream and list it by prefix', async () => {
+    await backend.put('objects/cc/dd/streamed', Readable.from([Buffer.from('chunk')]))
+
+    const keys: string[] = []
+    for await (const object of backend.list('objects/')) keys.push(object.key)
+    expect(keys).toEqual(['objects/cc/dd/streamed'])
+  })
+
+  it('should return null for missing objects and ignore deleting them', async () => {
+    expect(await backend.stat('objects/00/00/missing')).toBeNull()
+    await expect(backend.delete('objects/00/00/missing')).resolves.toBeUndefined()
+  })
+
+  it('should refuse keys that escape the root directory', async () => {
+    await expect(backend.put('../outside', Readable.from([]))).rejects.toThrow(
+      'Invalid storage key'
+    )
+  })
+})
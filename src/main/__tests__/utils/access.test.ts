@@ -0,0 +1,59 @@
+import { effectivePermissions, readableLevels, withImpliedRead } from '../../utils/access'
+import { UserRole } from '../../types'
+
+const reader = { userId: 'u1', role: UserRole.READER }
+const curator = { userId: 'u2', role: UserRole.CURATOR }
+
+describe('file access', () => {
+  it('applies role defaults per access level', () => {
+    expect(effectivePermissions(reader, 'public', [])).toEqual(['read', 'download'])
+    expect(effectivePermissions(reader, 'internal', [])).toEqual([])
+    expect(effectivePermissions(curator, 'restricted', [])).toEqual([
+      'read',
+      'download',
+      'modify',
+      'delete'
+    ])
+    expect(effectivePermissions(curator, 'confidential', [])).toEqual([])
+    expect(readableLevels(UserRole.READER)).toEqual(['public'])
+  })
+
+  it('adds grants to the user or their role, with read implied', () => {
+    const rules = [
+      { userId: 'u1', permissions: ['download' as const] },
+      { role: UserRole.READER, permissions: ['modify' as const] },
+      { userId: 'someone-else', permissions: ['delete' as const] }
+    ]
+    expect(effectivePermissions(reader, 'restricted', rules)).toEqual([
+      'read',
+      'download',
+      'modify'
+    ])
+  })
+
+  it("unions grants of all the user's groups", () => {
+    const rules = [
+      { groupId: 'team-a', permissions: ['read' as const] },
+      { groupId: 'team-b', permissions: ['modify' as const] },
+      { groupId: 'team-c', permissions: ['delete' as const] }
+    ]
+    expect(
+      effectivePermissions({ ...reader, groupIds: ['team-a', 'team-b'] }, 'confidential', rules)
+    ).toEqual(['read', 'modify'])
+    expect(effectivePermissions(reader, 'confidential', rules)).toEqual([])
+  })
+
+  it('ignores expired grants', () => {
+    const now = new Date('2025-06-01T00:00:00Z')
+    const rules = [
+      { userId: 'u2', permissions: ['read' as const], expiresAt: '2025-05-31T23:59:59Z' },
+      { userId: 'u2', permissions: ['download' as const], expiresAt: '2025-06-02T00:00:00Z' }
+    ]
+    expect(effectivePermissions(curator, 'confidential', rules, now)).toEqual(['read', 'download'])
+  })
+
+  it('adds read to any non-empty grant', () => {
+    expect(withImpliedRead(['delete'])).toEqual(['read', 'delete'])
+    expect(withImpliedRead([])).toEqual([])
+  })
+})
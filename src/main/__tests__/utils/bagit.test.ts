@@ -0,0 +1,81 @@
+import {
+  bagInfoToDublinCore,
+  buildBagInfo,
+  buildManifest,
+  buildPayloadOxum,
+  parseBagInfo,
+  parseManifest
+} from '../../utils/bagit'
+import { ValidationError } from '../../utils/errors'
+
+describe('BagIt utilities', () => {
+  describe('Manifests', () => {
+    it('should parse checksum and path per line', () => {
+      const entries = parseManifest(
+        'ABCDEF01  data/report.pdf\n0123abcd data/sub dir/photo.jpg\n\n'
+      )
+      expect(entries).toEqual([
+        { checksum: 'abcdef01', path: 'data/report.pdf' },
+        { checksum: '0123abcd', path: 'data/sub dir/photo.jpg' }
+      ])
+    })
+
+    it('should round-trip percent-encoded paths', () => {
+      const entries = [{ checksum: 'ab', path: 'data/100%\nnew' }]
+      const manifest = buildManifest(entries)
+      expect(manifest).toBe('ab  data/100%25%0Anew\n')
+      expect(parseManifest(manifest)).toEqual(entries)
+    })
+
+    it('should reject malformed lines', () => {
+      expect(() => parseManifest('not-a-checksum')).toThrow('Invalid manifest line')
+      expect(() => parseManifest('not-a-checksum')).toThrow(ValidationError)
+    })
+  })
+
+  describe('bag-info.txt', () => {
+    it('should parse repeated labels and continuation lines', () => {
+      const info = parseBagInfo(
+        'Source-Organization: Archiwum Miejskie\n' +
+          'External-Description: Kolekcja zdjęć\n' +
+          '  z lat 1950-1960\n' +
+          'Subject: fotografia\n' +
+          'Subject: miasto\n'
+      )
+      expect(info['External-Description']).toEqual(['Kolekcja zdjęć z lat 1950-1960'])
+      expect(info['Subject']).toEqual(['fotografia', 'miasto'])
+    })
+
+    it('should reject lines without a label', () => {
+      expect(() => parseBagInfo('Source-Organization: Archiwum\nno label here\n')).toThrow(
+        ValidationError
+      )
+    })
+
+    it('should build one line per value', () => {
+      expect(buildBagInfo({ 'Bag-Group-Identifier': ['a'], Subject: ['x', 'y'] })).toBe(
+        'Bag-Group-Identifier: a\nSubject: x\nSubject: y\n'
+      )
+    })
+
+    it('should map fields onto Dublin Core', () => {
+      const dc = bagInfoToDublinCore(
+        parseBagInfo(
+          'source-organization: Archiwum\nContact-Name: Jan Kowalski\n' +
+            'Bagging-Date: 2024-05-01\nExternal-Identifier: AM/123\n'
+        )
+      )
+      expect(dc).toEqual({
+        'dc:publisher': 'Archiwum',
+        'dc:creator': 'Jan Kowalski',
+        'dc:date': '2024-05-01',
+        'dc:source': 'AM/123'
+      })
+    })
+  })
+
+  it('should compute Payload-Oxum', () => {
+    expect(buildPayloadOxum([10, 20, 5])).toBe('35.3')
+    expect(buildPayloadOxum([])).toBe('0.0')
+  })
+})
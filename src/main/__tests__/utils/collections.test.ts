@@ -0,0 +1,28 @@
+import { applyOrder, canContain } from '../../utils/collections'
+import { ValidationError } from '../../utils/errors'
+
+describe('canContain', () => {
+  it('allows the same or a lower level below a collection', () => {
+    expect(canContain('fonds', 'series')).toBe(true)
+    expect(canContain('fonds', 'item')).toBe(true)
+    expect(canContain('series', 'series')).toBe(true)
+  })
+
+  it('rejects higher levels and anything below an item', () => {
+    expect(canContain('series', 'fonds')).toBe(false)
+    expect(canContain('file', 'series')).toBe(false)
+    expect(canContain('item', 'item')).toBe(false)
+  })
+})
+
+describe('applyOrder', () => {
+  it('puts the listed members first and keeps the rest in place', () => {
+    expect(applyOrder(['a', 'b', 'c', 'd'], ['c', 'a'])).toEqual(['c', 'a', 'b', 'd'])
+    expect(applyOrder(['a', 'b'], [])).toEqual(['a', 'b'])
+  })
+
+  it('rejects unknown and repeated ids', () => {
+    expect(() => applyOrder(['a', 'b'], ['x'])).toThrow(ValidationError)
+    expect(() => applyOrder(['a', 'b'], ['a', 'a'])).toThrow(ValidationError)
+  })
+})
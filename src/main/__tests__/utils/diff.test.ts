@@ -0,0 +1,98 @@
+import { buildHunks, diffFields, diffLines } from '../../utils/diff'
+
+const render = (before: string, after: string): string[] =>
+  diffLines(before, after).map(
+    (line) => `${{ equal: ' ', insert: '+', delete: '-' }[line.type]}${line.text}`
+  )
+
+describe('diffLines', () => {
+  it('keeps every line of both sides in order', () => {
+    expect(render('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([' a', '-b', ' c', '+x', ' d'])
+  })
+
+  it('finds the minimal edit for reordered lines', () => {
+    const lines = diffLines('a\nb\nc\na\nb\nb\na', 'c\nb\na\nb\na\nc')
+    expect(lines.filter((line) => line.type !== 'equal')).toHaveLength(5)
+    expect(lines.filter((line) => line.type !== 'insert').map((line) => line.text)).toEqual([
+      'a',
+      'b',
+      'c',
+      'a',
+      'b',
+      'b',
+      'a'
+    ])
+    expect(lines.filter((line) => line.type !== 'delete').map((line) => line.text)).toEqual([
+      'c',
+      'b',
+      'a',
+      'b',
+      'a',
+      'c'
+    ])
+  })
+
+  it('numbers lines on each side', () => {
+    expect(diffLines('a\nb', 'b\nc')).toEqual([
+      { type: 'delete', text: 'a', oldLine: 1 },
+      { type: 'equal', text: 'b', oldLine: 2, newLine: 1 },
+      { type: 'insert', text: 'c', newLine: 2 }
+    ])
+  })
+
+  it('handles empty texts', () => {
+    expect(diffLines('', '')).toEqual([])
+    expect(render('', 'a\nb')).toEqual(['+a', '+b'])
+    expect(render('a', '')).toEqual(['-a'])
+  })
+})
+
+describe('buildHunks', () => {
+  const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+
+  it('groups changes with context and merges nearby ones', () => {
+    const after = [...before]
+    after[4] = 'changed 5'
+    after[8] = 'changed 9'
+    after[18] = 'changed 19'
+
+    const { hunks, truncated } = buildHunks(diffLines(before.join('\n'), after.join('\n')))
+    expect(truncated).toBe(false)
+    expect(
+      hunks.map(({ oldStart, oldLines, newStart, newLines }) => [
+        oldStart,
+        oldLines,
+        newStart,
+        newLines
+      ])
+    ).toEqual([
+      [2, 11, 2, 11],
+      [16, 5, 16, 5]
+    ])
+  })
+
+  it('stops after the line limit', () => {
+    const after = before.map((line, i) => (i % 10 === 0 ? `${line}!` : line))
+    const { hunks, truncated } = buildHunks(diffLines(before.join('\n'), after.join('\n')), {
+      context: 1,
+      maxLines: 3
+    })
+    expect(hunks).toHaveLength(1)
+    expect(truncated).toBe(true)
+  })
+})
+
+describe('diffFields', () => {
+  it('reports changed, added and removed fields only', () => {
+    expect(
+      diffFields(
+        { 'dc:title': 'Kronika', 'dc:subject': 'film', 'dc:rights': '' },
+        { 'dc:title': 'Kronika 1956', 'dc:creator': 'PKF', 'dc:rights': null }
+      )
+    ).toEqual([
+      { field: 'dc:title', before: 'Kronika', after: 'Kronika 1956' },
+      { field: 'dc:subject', before: 'film', after: undefined },
+      { field: 'dc:creator', before: undefined, after: 'PKF' }
+    ])
+  })
+})
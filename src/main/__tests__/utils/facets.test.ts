@@ -0,0 +1,21 @@
+import { parseFacetFilters } from '../../utils/facets'
+
+describe('Search facet filters', () => {
+  it('should read single and repeated facet keys', () => {
+    expect(
+      parseFacetFilters({ type: ['audio', 'video'], language: 'pl', q: 'kronika', limit: '10' })
+    ).toEqual({ type: ['audio', 'video'], language: ['pl'] })
+  })
+
+  it('should trim, de-duplicate and drop empty values', () => {
+    expect(
+      parseFacetFilters({ creator: [' Kowalski, Jan ', 'Kowalski, Jan', ''], decade: '  ' })
+    ).toEqual({ creator: ['Kowalski, Jan'] })
+  })
+
+  it('should ignore nested query objects', () => {
+    expect(parseFacetFilters({ format: { puid: 'fmt/18' }, accessLevel: 'public' })).toEqual({
+      accessLevel: ['public']
+    })
+  })
+})
@@ -0,0 +1,136 @@
+import xml2js from 'xml2js'
+import { buildMetsDocument, MetsFileEntry, MetsPackage } from '../../utils/mets'
+
+const file: MetsFileEntry = {
+  id: '0b6e8c1a-1111-4222-8333-944455556666',
+  href: 'objects/scan.png',
+  mimeType: 'image/png',
+  size: 1234,
+  checksum: 'a'.repeat(64),
+  createdAt: '2024-01-01T00:00:00.000Z',
+  dublinCore: {
+    'dc:identifier': '0b6e8c1a-1111-4222-8333-944455556666',
+    'dc:title': 'scan.png',
+    'dc:creator': 'Jan',
+    'dc:date': '2024-01-01T00:00:00.000Z',
+    'dc:type': 'image',
+    'dc:format': 'image/png',
+    'dc:language': 'pl',
+    'dc:rights': 'CC BY 4.0'
+  },
+  premis: {
+    'premis:objectIdentifier': '0b6e8c1a-1111-4222-8333-944455556666',
+    'premis:objectCharacteristics': {
+      'premis:compositionLevel': 0,
+      'premis:fixity': {
+        'premis:messageDigestAlgorithm': 'SHA-256',
+        'premis:messageDigest': 'a'.repeat(64),
+        'premis:messageDigestValidation': '2024-01-01T00:00:00.000Z'
+      },
+      'premis:format': { 'premis:formatRegistry': 'PRONOM', 'premis:formatName': 'image/png' }
+    },
+    'premis:preservationLevel': 'fulPreservation',
+    'premis:events': [
+      {
+        'premis:eventIdentifier': 'e1',
+        'premis:eventType': 'creation',
+        'premis:eventDateTime': '2024-01-01T00:00:00.000Z',
+        'premis:linkingAgentIdentifier': 'system',
+        'premis:linkingObjectIdentifier': '0b6e8c1a-1111-4222-8333-944455556666'
+      }
+    ]
+  },
+  accessLevel: 'public',
+  agents: [{ identifier: 'system', name: 'e-Archiwum', type: 'software' }]
+}
+
+// xml2js output: attributes under `$`, child elements always as arrays
+type XmlNode = { $: Record<string, string> } & { [element: string]: XmlNode[] }
+
+const parse = async (pkg: MetsPackage): Promise<XmlNode> => {
+  const doc = await xml2js.parseStringPromise(buildMetsDocument(pkg))
+  return doc['mets:mets']
+}
+
+describe('METS builder', () => {
+  const pkg: MetsPackage = {
+    type: 'aip',
+    objectId: file.id,
+    label: 'scan.png',
+    createdAt: '2024-02-01T00:00:00.000Z',
+    files: [file]
+  }
+
+  it('should build dmdSec, amdSec, fileSec and structMap for an AIP', async () => {
+    const mets = await parse(pkg)
+
+    expect(mets.$.TYPE).toBe('AIP')
+    expect(mets['mets:dmdSec'][0]['mets:mdWrap'][0].$.MDTYPE).toBe('DC')
+
+    const amd = mets['mets:amdSec'][0]
+    expect(amd['mets:techMD']).toHaveLength(1)
+    expect(amd['mets:rightsMD']).toHaveLength(1)
+    expect(amd['mets:digiprovMD'].map((md) => md['mets:mdWrap'][0].$.MDTYPE)).toEqual([
+      'PREMIS:EVENT',
+      'PREMIS:AGENT'
+    ])
+
+    const fileEl = mets['mets:fileSec'][0]['mets:fileGrp'][0]['mets:file'][0]
+    expect(fileEl.$.CHECKSUM).toBe('a'.repeat(64))
+    expect(fileEl['mets:FLocat'][0].$['xlink:href']).toBe('objects/scan.png')
+
+    const div = mets['mets:structMap'][0]['mets:div'][0]['mets:div'][0]
+    expect(div['mets:fptr'][0].$.FILEID).toBe(fileEl.$.ID)
+    expect(div.$.DMDID).toBe(mets['mets:dmdSec'][0].$.ID)
+  })
+
+  it('should keep earlier Dublin Core records as superseded dmdSecs in an AIP', async () => {
+    const metadataHistory = [
+      {
+        revisionNumber: 1,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        record: { ...file.dublinCore, 'dc:title': 'skan' }
+      }
+    ]
+    const mets = await parse({ ...pkg, files: [{ ...file, metadataHistory }] })
+    const [current, superseded] = mets['mets:dmdSec']
+
+    expect(mets['mets:dmdSec']).toHaveLength(2)
+    expect(current.$.STATUS).toBe('current')
+    expect(superseded.$).toMatchObject({
+      GROUPID: current.$.GROUPID,
+      CREATED: '2024-01-01T00:00:00.000Z',
+      STATUS: 'superseded'
+    })
+    expect(superseded['mets:mdWrap'][0]['mets:xmlData'][0]['dc:title']).toEqual(['skan'])
+
+    const div = mets['mets:structMap'][0]['mets:div'][0]['mets:div'][0]
+    expect(div.$.DMDID).toBe(current.$.ID)
+
+    const dip = await parse({ ...pkg, type: 'dip', files: [{ ...file, metadataHistory }] })
+    expect(dip['mets:dmdSec']).toHaveLength(1)
+  })
+
+  it('should write relations as dcterms elements of the current record', async () => {
+    const relations = [
+      { relation: 'isPartOf' as const, fileId: '11111111-2222-4333-8444-555555555555' },
+      { relation: 'references' as const, fileId: '66666666-7777-4888-8999-000000000000' }
+    ]
+    const mets = await parse({ ...pkg, files: [{ ...file, relations }] })
+    const record = mets['mets:dmdSec'][0]['mets:mdWrap'][0]['mets:xmlData'][0]
+
+    expect(mets.$['xmlns:dcterms']).toBe('http://purl.org/dc/terms/')
+    expect(record['dcterms:isPartOf']).toEqual(['urn:uuid:11111111-2222-4333-8444-555555555555'])
+    expect(record['dcterms:references']).toEqual(['urn:uuid:66666666-7777-4888-8999-000000000000'])
+  })
+
+  it('should omit PREMIS objects, events and agents from a DIP', async () => {
+    const mets = await parse({ ...pkg, type: 'dip' })
+    const amd = mets['mets:amdSec'][0]
+
+    expect(mets.$.TYPE).toBe('DIP')
+    expect(amd['mets:rightsMD']).toHaveLength(1)
+    expect(amd['mets:techMD']).toBeUndefined()
+    expect(amd['mets:digiprovMD']).toBeUndefined()
+  })
+})
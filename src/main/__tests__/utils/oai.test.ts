@@ -0,0 +1,147 @@
+import xml2js from 'xml2js'
+import {
+  OaiError,
+  buildOaiResponse,
+  decodeResumptionToken,
+  encodeResumptionToken,
+  parseDatestamp,
+  parseOaiIdentifier,
+  parseOaiRequest
+} from '../../utils/oai'
+
+const expectOaiError = (fn: () => unknown, code: string): void => {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(OaiError)
+    expect((error as OaiError).code).toBe(code)
+    return
+  }
+  throw new Error(`Expected OaiError ${code}`)
+}
+
+describe('OAI-PMH utilities', () => {
+  describe('Request validation', () => {
+    it('should accept a valid ListRecords request', () => {
+      expect(
+        parseOaiRequest({ verb: 'ListRecords', metadataPrefix: 'oai_dc', from: '2024-01-01' })
+      ).toEqual({ verb: 'ListRecords', metadataPrefix: 'oai_dc', from: '2024-01-01' })
+    })
+
+    it('should reject unknown or missing verbs', () => {
+      expectOaiError(() => parseOaiRequest({}), 'badVerb')
+      expectOaiError(() => parseOaiRequest({ verb: 'ListEverything' }), 'badVerb')
+    })
+
+    it('should reject illegal, missing and repeated arguments', () => {
+      expectOaiError(() => parseOaiRequest({ verb: 'Identify', set: 'x' }), 'badArgument')
+      expectOaiError(() => parseOaiRequest({ verb: 'GetRecord', identifier: 'x' }), 'badArgument')
+      expectOaiError(
+        () => parseOaiRequest({ verb: 'ListIdentifiers', metadataPrefix: ['oai_dc', 'oai_dc'] }),
+        'badArgument'
+      )
+    })
+
+    it('should treat resumptionToken as exclusive', () => {
+      expect(parseOaiRequest({ verb: 'ListRecords', resumptionToken: 'abc' })).toEqual({
+        verb: 'ListRecords',
+        resumptionToken: 'abc'
+      })
+      expectOaiError(
+        () => parseOaiRequest({ verb: 'ListRecords', resumptionToken: 'abc', metadataPrefix: 'x' }),
+        'badArgument'
+      )
+    })
+
+    it('should reject mixed granularity and inverted ranges', () => {
+      const base = { verb: 'ListRecords', metadataPrefix: 'oai_dc' }
+      expectOaiError(
+        () => parseOaiRequest({ ...base, from: '2024-01-01', until: '2024-02-01T00:00:00Z' }),
+        'badArgument'
+      )
+      expectOaiError(
+        () => parseOaiRequest({ ...base, from: '2024-02-01', until: '2024-01-01' }),
+        'badArgument'
+      )
+    })
+  })
+
+  describe('Datestamps', () => {
+    it('should parse both granularities as UTC', () => {
+      expect(parseDatestamp('2024-03-05', 'from').toISOString()).toBe('2024-03-05T00:00:00.000Z')
+      expect(parseDatestamp('2024-03-05T10:20:30Z', 'from').toISOString()).toBe(
+        '2024-03-05T10:20:30.000Z'
+      )
+    })
+
+    it('should turn an inclusive until into an exclusive bound', () => {
+      expect(parseDatestamp('2024-03-05', 'until').toISOString()).toBe('2024-03-06T00:00:00.000Z')
+      expect(parseDatestamp('2024-03-05T10:20:30Z', 'until').toISOString()).toBe(
+        '2024-03-05T10:20:31.000Z'
+      )
+    })
+
+    it('should reject malformed and impossible dates', () => {
+      expectOaiError(() => parseDatestamp('2024-3-5', 'from'), 'badArgument')
+      expectOaiError(() => parseDatestamp('2024-02-30', 'from'), 'badArgument')
+      expectOaiError(() => parseDatestamp('2024-03-05T10:20:30+01:00', 'from'), 'badArgument')
+    })
+  })
+
+  describe('Resumption tokens', () => {
+    it('should round-trip the harvest state', () => {
+      const state = {
+        metadataPrefix: 'oai_dc',
+        from: '2024-01-01',
+        after: { datestamp: '2024-01-02T03:04:05.678Z', id: 'abc' },
+        cursor: 100,
+        total: 250
+      }
+      expect(decodeResumptionToken(encodeResumptionToken(state))).toEqual(state)
+    })
+
+    it('should reject garbage tokens', () => {
+      expectOaiError(() => decodeResumptionToken('not-a-token'), 'badResumptionToken')
+      expectOaiError(
+        () => decodeResumptionToken(Buffer.from('{"cursor":1}').toString('base64url')),
+        'badResumptionToken'
+      )
+    })
+  })
+
+  describe('Identifiers', () => {
+    it('should only accept identifiers of this repository', () => {
+      const id = '0b6e8c1a-1111-4222-8333-944455556666'
+      expect(parseOaiIdentifier('e-archiwum.local', `oai:e-archiwum.local:${id}`)).toBe(id)
+      expect(parseOaiIdentifier('e-archiwum.local', `oai:other.org:${id}`)).toBeNull()
+      expect(parseOaiIdentifier('e-archiwum.local', 'oai:e-archiwum.local:1; DROP')).toBeNull()
+    })
+  })
+
+  describe('Response envelope', () => {
+    it('should echo arguments of valid requests', async () => {
+      const xml = buildOaiResponse(
+        'http://localhost/api/oai',
+        { verb: 'Identify' },
+        {
+          verb: 'Identify',
+          content: { repositoryName: 'e-Archiwum' }
+        }
+      )
+      const doc = await xml2js.parseStringPromise(xml)
+      expect(doc['OAI-PMH'].request[0].$).toEqual({ verb: 'Identify' })
+      expect(doc['OAI-PMH'].Identify[0].repositoryName[0]).toBe('e-Archiwum')
+    })
+
+    it('should not echo arguments for badVerb errors', async () => {
+      const xml = buildOaiResponse(
+        'http://localhost/api/oai',
+        { verb: 'Nope' },
+        { error: new OaiError('badVerb', 'Illegal or missing verb') }
+      )
+      const doc = await xml2js.parseStringPromise(xml)
+      expect(doc['OAI-PMH'].request[0]).toBe('http://localhost/api/oai')
+      expect(doc['OAI-PMH'].error[0].$.code).toBe('badVerb')
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { FormatSignature, contradictsDeclaredType, identifyFormat } from '../../utils/pronom'
+
+const { formats } = JSON.parse(
+  readFileSync(join(__dirname, '../../../../resources/pronom-signatures.json'), 'utf8')
+) as { formats: FormatSignature[] }
+
+const bytes = (hex: string, padding = 0): Buffer =>
+  Buffer.concat([Buffer.from(hex.replace(/\s+/g, ''), 'hex'), Buffer.alloc(padding)])
+
+describe('PRONOM format identification', () => {
+  it('should identify PDF versions by header', () => {
+    const match = identifyFormat(Buffer.from('%PDF-1.4\n%âãÏÓ\n1 0 obj'), formats)
+    expect(match?.format.puid).toBe('fmt/18')
+    expect(match?.format.version).toBe('1.4')
+    expect(match?.method).toBe('signature')
+  })
+
+  it('should prefer the most specific signature', () => {
+    const jfif = bytes('FFD8FFE0 0010 4A46494600 0101 00', 32)
+    expect(identifyFormat(jfif, formats)?.format.puid).toBe('fmt/43')
+
+    const exif = bytes('FFD8FFE1 0010 457869660000', 32)
+    expect(identifyFormat(exif, formats)?.format.puid).toBe('fmt/41')
+
+    const quicktime = bytes('00000014 6674797071742020', 32)
+    expect(identifyFormat(quicktime, formats)?.format.puid).toBe('x-fmt/384')
+
+    const mp4 = bytes('00000018 6674797069736F6D', 32)
+    expect(identifyFormat(mp4, formats)?.format.puid).toBe('fmt/199')
+  })
+
+  it('should match sequences at later and variable offsets', () => {
+    const tar = Buffer.alloc(512)
+    tar.write('ustar', 257)
+    expect(identifyFormat(tar, formats)?.format.puid).toBe('x-fmt/265')
+
+    const webm = bytes('1A45DFA3 9F 4286 8101 42F7 8101 42F2 8104 42F3 8108 4282 84 7765626D', 16)
+    expect(identifyFormat(webm, formats)?.format.puid).toBe('fmt/573')
+  })
+
+  it('should identify office documents inside their ZIP container', () => {
+    const localHeader = (name: string, data = ''): Buffer =>
+      Buffer.concat([bytes('504B0304', 26), Buffer.from(name + data)])
+
+    const odt = localHeader('mimetype', 'application/vnd.oasis.opendocument.text')
+    expect(identifyFormat(odt, formats)?.format.puid).toBe('fmt/291')
+
+    const docx = Buffer.concat([
+      localHeader('[Content_Types].xml', 'compressed-bytes'),
+      localHeader('_rels/.rels', 'compressed-bytes'),
+      localHeader('word/document.xml', 'compressed-bytes')
+    ])
+    expect(identifyFormat(docx, formats)?.format.puid).toBe('fmt/412')
+
+    // An unrecognised layout is still a ZIP, which does not contradict an office type
+    const zip = identifyFormat(localHeader('readme.txt', 'hello'), formats)
+    expect(zip?.format.puid).toBe('x-fmt/263')
+    expect(
+      contradictsDeclaredType(
+        zip!.format,
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      )
+    ).toBe(false)
+  })
+
+  it('should fall back to plain text for NUL-free UTF-8', () => {
+    const match = identifyFormat(Buffer.from('Zażółć gęślą jaźń\n'), formats)
+    expect(match?.format.puid).toBe('x-fmt/111')
+    expect(match?.method).toBe('text')
+
+    expect(identifyFormat(bytes('0001020304'), formats)).toBeNull()
+    expect(identifyFormat(Buffer.alloc(0), formats)).toBeNull()
+  })
+
+  it('should support wildcard bytes', () => {
+    const custom: FormatSignature[] = [
+      { puid: 'x', name: 'Test', mimeTypes: [], signatures: [[{ offset: 0, hex: 'AB??CD' }]] }
+    ]
+    expect(identifyFormat(bytes('AB00CD'), custom)?.format.puid).toBe('x')
+    expect(identifyFormat(bytes('AB00CE'), custom)).toBeNull()
+  })
+
+  it('should detect content contradicting the declared MIME type', () => {
+    const png = identifyFormat(bytes('89504E470D0A1A0A0000000D49484452', 16), formats)
+    expect(png?.format.puid).toBe('fmt/11')
+    expect(contradictsDeclaredType(png!.format, 'image/png')).toBe(false)
+    expect(contradictsDeclaredType(png!.format, 'IMAGE/PNG; charset=binary')).toBe(false)
+    expect(contradictsDeclaredType(png!.format, 'application/pdf')).toBe(true)
+  })
+
+  it('should cover every MIME type accepted for upload', () => {
+    const declared = formats.flatMap((format) => format.mimeTypes)
+    for (const mimeType of [
+      'application/pdf',
+      'text/plain',
+      'image/jpeg',
+      'image/png',
+      'image/gif',
+      'image/webp',
+      'audio/mpeg',
+      'audio/wav',
+      'audio/ogg',
+      'video/mp4',
+      'video/webm',
+      'video/quicktime',
+      'application/x-zip-compressed',
+      'application/gzip',
+      'application/x-tar',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/vnd.oasis.opendocument.text',
+      'application/vnd.oasis.opendocument.spreadsheet',
+      'application/vnd.oasis.opendocument.presentation'
+    ]) {
+      expect(declared).toContain(mimeType)
+    }
+  })
+})
@@ -0,0 +1,42 @@
+import {
+  RELATION_TYPES,
+  dctermsElements,
+  inverseRelation,
+  normalizeRelation,
+  relationFrom
+} from '../../utils/relations'
+
+describe('relations', () => {
+  it('pairs every relation with an inverse', () => {
+    expect(RELATION_TYPES).toHaveLength(12)
+    for (const relation of RELATION_TYPES) {
+      expect(inverseRelation(inverseRelation(relation))).toBe(relation)
+    }
+    expect(inverseRelation('hasPart')).toBe('isPartOf')
+  })
+
+  it('stores a relation and its inverse the same way', () => {
+    const stored = { subjectId: 'page', relation: 'isPartOf', objectId: 'book' }
+    expect(normalizeRelation('page', 'isPartOf', 'book')).toEqual(stored)
+    expect(normalizeRelation('book', 'hasPart', 'page')).toEqual(stored)
+  })
+
+  it('reads a stored relation from either file', () => {
+    const stored = normalizeRelation('scan', 'isFormatOf', 'original')
+    expect(relationFrom('scan', stored)).toEqual({ relation: 'isFormatOf', otherId: 'original' })
+    expect(relationFrom('original', stored)).toEqual({ relation: 'hasFormat', otherId: 'scan' })
+  })
+
+  it('groups relations into dcterms elements', () => {
+    expect(
+      dctermsElements([
+        { relation: 'hasPart', fileId: 'a' },
+        { relation: 'hasPart', fileId: 'b' },
+        { relation: 'isFormatOf', fileId: 'c' }
+      ])
+    ).toEqual({
+      'dcterms:hasPart': ['urn:uuid:a', 'urn:uuid:b'],
+      'dcterms:isFormatOf': ['urn:uuid:c']
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import { ValidationError } from '../../utils/errors'
+import { compileSearchQuery, parseSearchQuery } from '../../utils/searchQuery'
+
+const parseError = (input: string): { message: string; position: number } => {
+  try {
+    parseSearchQuery(input)
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError)
+    return ((error as ValidationError).details as Array<{ message: string; position: number }>)[0]
+  }
+  throw new Error(`"${input}" parsed without errors`)
+}
+
+describe('Advanced search query language', () => {
+  it('should parse qualifiers, ranges, negation and implicit AND', () => {
+    expect(
+      parseSearchQuery('creator:"Kowalski" AND type:video date:[1990 TO 1999] -subject:reklama')
+    ).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', field: 'creator', value: 'Kowalski', phrase: true },
+        { type: 'term', field: 'type', value: 'video', phrase: false },
+        { type: 'range', field: 'date', from: '1990-01-01', to: '2000-01-01' },
+        { type: 'not', child: { type: 'term', field: 'subject', value: 'reklama', phrase: false } }
+      ]
+    })
+  })
+
+  it('should bind AND tighter than OR and honour parentheses', () => {
+    expect(parseSearchQuery('a OR b c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', field: 'text', value: 'a', phrase: false },
+        {
+          type: 'and',
+          children: [
+            { type: 'term', field: 'text', value: 'b', phrase: false },
+            { type: 'term', field: 'text', value: 'c', phrase: false }
+          ]
+        }
+      ]
+    })
+    expect(parseSearchQuery('NOT (a OR b)')).toMatchObject({ type: 'not', child: { type: 'or' } })
+  })
+
+  it('should expand single dates and open ranges to periods', () => {
+    expect(parseSearchQuery('date:1995-02')).toEqual({
+      type: 'range',
+      field: 'date',
+      from: '1995-02-01',
+      to: '1995-03-01'
+    })
+    expect(parseSearchQuery('date:[* TO 2000-12-31]')).toEqual({
+      type: 'range',
+      field: 'date',
+      to: '2001-01-01'
+    })
+  })
+
+  it('should keep hyphenated words as one term', () => {
+    expect(parseSearchQuery('Biało-Czerwoni')).toEqual({
+      type: 'term',
+      field: 'text',
+      value: 'Biało-Czerwoni',
+      phrase: false
+    })
+  })
+
+  it('should report syntax errors with their position', () => {
+    expect(parseError('title:"Kronika')).toEqual({
+      field: 'q',
+      message: 'Unterminated quote',
+      position: 6
+    })
+    expect(parseError('author:Nowak')).toMatchObject({ message: "Unknown field 'author'" })
+    expect(parseError('(a OR b')).toMatchObject({ message: "Expected ')'", position: 7 })
+    expect(parseError('date:[2000 TO 1990]')).toMatchObject({ message: 'Empty date range' })
+    expect(parseError('date:1995-13')).toMatchObject({ message: "Invalid date '1995-13'" })
+    expect(parseError('type:')).toMatchObject({ message: "Expected a value after 'type:'" })
+  })
+
+  it('should compile to parameterised SQL', () => {
+    const compiled = compileSearchQuery(
+      parseSearchQuery('kronika -creator:"O\'Brien 50%" date:[1990 TO *]'),
+      3
+    )
+
+    expect(compiled.params).toEqual(['kronika', "O'Brien 50\\%", '1990-01-01'])
+    expect(compiled.text).toBe('kronika')
+    expect(compiled.sql).toBe(
+      "(COALESCE(s.search_vector @@ plainto_tsquery('archiwum', $3), FALSE) AND " +
+        "NOT COALESCE(f_unaccent(lower(dc.creator)) LIKE '%' || f_unaccent(lower($4)) || '%', FALSE) AND " +
+        'COALESCE(dc.date_created >= $5::date, FALSE))'
+    )
+  })
+})
@@ -0,0 +1,90 @@
+import { UserRole } from '../../types'
+import { describeUserAgent, refreshOutcome, sessionRejection } from '../../utils/sessions'
+
+describe('refreshOutcome', () => {
+  const now = new Date('2026-03-01T12:00:00Z')
+  const fresh = { usedAt: null, expiresAt: new Date('2026-03-05T00:00:00Z') }
+  const open = { revokedAt: null, userActive: true }
+
+  it('rotates an unused, unexpired token of an open session', () => {
+    expect(refreshOutcome(fresh, open, now)).toBe('rotate')
+  })
+
+  it('detects reuse of a token that was already exchanged', () => {
+    expect(refreshOutcome({ ...fresh, usedAt: new Date('2026-03-01T11:00:00Z') }, open, now)).toBe(
+      'reused'
+    )
+  })
+
+  it('refuses expired tokens, revoked sessions and disabled accounts', () => {
+    expect(refreshOutcome({ ...fresh, expiresAt: now }, open, now)).toBe('expired')
+    expect(refreshOutcome(fresh, { ...open, userActive: false }, now)).toBe('disabled')
+    expect(
+      refreshOutcome(
+        { ...fresh, usedAt: new Date('2026-03-01T11:00:00Z') },
+        { ...open, revokedAt: new Date('2026-03-01T11:30:00Z') },
+        now
+      )
+    ).toBe('revoked')
+  })
+})
+
+describe('sessionRejection', () => {
+  const session = { revokedAt: null, userActive: true, role: UserRole.CURATOR }
+
+  it('accepts a token of an open session with the current role', () => {
+    expect(sessionRejection(session, UserRole.CURATOR)).toBeNull()
+  })
+
+  it('rejects tokens after revocation, deactivation or a role change', () => {
+    expect(sessionRejection(undefined, UserRole.CURATOR)).toMatch(/not found/)
+    expect(sessionRejection({ ...session, revokedAt: new Date() }, UserRole.CURATOR)).toMatch(
+      /revoked/
+    )
+    expect(sessionRejection({ ...session, userActive: false }, UserRole.CURATOR)).toMatch(
+      /disabled/
+    )
+    expect(sessionRejection({ ...session, role: UserRole.READER }, UserRole.CURATOR)).toMatch(
+      /Role has changed/
+    )
+  })
+})
+
+describe('describeUserAgent', () => {
+  it('names the browser and the system', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0'
+      )
+    ).toBe('Firefox on Windows')
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0'
+      )
+    ).toBe('Edge on Windows')
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Safari on iOS')
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36'
+      )
+    ).toBe('Chrome on Android')
+  })
+
+  it('recognises the desktop app', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) e-archiwum/1.0.0 Chrome/124.0.6367.243 Electron/30.1.2 Safari/537.36'
+      )
+    ).toBe('e-Archiwum on macOS')
+  })
+
+  it('falls back for unknown or missing agents', () => {
+    expect(describeUserAgent('curl/8.5.0')).toBe('curl')
+    expect(describeUserAgent('SomeBot/1.0')).toBe('Unknown device')
+    expect(describeUserAgent(undefined)).toBe('Unknown device')
+  })
+})
@@ -0,0 +1,84 @@
+import {
+  collectionShareRejection,
+  downloadsRemaining,
+  formatShareToken,
+  parseShareToken,
+  shareLinkStatus,
+  sharePermission,
+  shareTokenPayload
+} from '../../utils/shareLinks'
+
+const ID = '3f1c2a9e-7b4d-4c1a-9e2f-0a1b2c3d4e5f'
+const SIGNATURE = 'a'.repeat(43)
+
+describe('share link tokens', () => {
+  it('round-trips a token', () => {
+    expect(parseShareToken(formatShareToken(ID, SIGNATURE))).toEqual({
+      id: ID,
+      signature: SIGNATURE
+    })
+  })
+
+  it('rejects malformed tokens', () => {
+    expect(parseShareToken('')).toBeNull()
+    expect(parseShareToken(ID)).toBeNull()
+    expect(parseShareToken(`not-a-uuid.${SIGNATURE}`)).toBeNull()
+    expect(parseShareToken(`${ID}.short`)).toBeNull()
+    expect(parseShareToken(`${ID}.${SIGNATURE}.extra`)).toBeNull()
+    expect(parseShareToken(`${ID}.${'a'.repeat(42)}+`)).toBeNull()
+  })
+
+  it('signs the expiry, however it is written', () => {
+    expect(shareTokenPayload(ID, '2026-01-01T00:00:00.000Z')).toBe(
+      shareTokenPayload(ID, new Date('2026-01-01T00:00:00Z'))
+    )
+    expect(shareTokenPayload(ID, '2026-01-01T00:00:00Z')).not.toBe(
+      shareTokenPayload(ID, '2026-01-02T00:00:00Z')
+    )
+  })
+})
+
+describe('shareLinkStatus', () => {
+  const now = new Date('2026-06-01T12:00:00Z')
+  const link = { expiresAt: '2026-06-02T00:00:00Z', downloadCount: 0 }
+
+  it('is active until expiry', () => {
+    expect(shareLinkStatus(link, now)).toBe('active')
+    expect(shareLinkStatus({ ...link, expiresAt: '2026-06-01T12:00:00Z' }, now)).toBe('expired')
+  })
+
+  it('reports revocation before expiry', () => {
+    expect(
+      shareLinkStatus(
+        { ...link, expiresAt: '2026-05-01T00:00:00Z', revokedAt: '2026-04-01T00:00:00Z' },
+        now
+      )
+    ).toBe('revoked')
+  })
+
+  it('is exhausted once the download limit is used up', () => {
+    expect(shareLinkStatus({ ...link, maxDownloads: 2, downloadCount: 1 }, now)).toBe('active')
+    expect(shareLinkStatus({ ...link, maxDownloads: 2, downloadCount: 2 }, now)).toBe('exhausted')
+    expect(downloadsRemaining({ maxDownloads: 2, downloadCount: 1 })).toBe(1)
+    expect(downloadsRemaining({ downloadCount: 5 })).toBeUndefined()
+  })
+})
+
+describe('sharing collections', () => {
+  it('needs the permission the link mode uses', () => {
+    expect(sharePermission('view')).toBe('read')
+    expect(sharePermission('download')).toBe('download')
+  })
+
+  it('rejects collections the creator can reach no file of', () => {
+    expect(collectionShareRejection(0, 'view')).toBe('You cannot read any file in this collection')
+    expect(collectionShareRejection(0, 'download')).toBe(
+      'You cannot download any file in this collection'
+    )
+  })
+
+  it('allows collections with at least one reachable file', () => {
+    expect(collectionShareRejection(1, 'view')).toBeNull()
+    expect(collectionShareRejection(12, 'download')).toBeNull()
+  })
+})
@@ -0,0 +1,18 @@
+import { buildCorrection, escapeLikePattern, tokenizeSearchText } from '../../utils/suggestions'
+
+describe('Search suggestion helpers', () => {
+  it('should split a query into lower-cased words', () => {
+    expect(tokenizeSearchText('Kronika  Łodzi, 1956-r.')).toEqual(['kronika', 'łodzi', '1956', 'r'])
+    expect(tokenizeSearchText(' -- ')).toEqual([])
+  })
+
+  it('should escape LIKE wildcards', () => {
+    expect(escapeLikePattern('100%_done\\')).toBe('100\\%\\_done\\\\')
+  })
+
+  it('should only return a correction when a word changed', () => {
+    expect(buildCorrection(['zolw', 'morski'], ['żółw', null])).toBe('żółw morski')
+    expect(buildCorrection(['kronika'], ['kronika'])).toBeUndefined()
+    expect(buildCorrection(['kronika'], [null])).toBeUndefined()
+  })
+})
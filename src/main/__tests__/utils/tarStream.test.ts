@@ -0,0 +1,70 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Readable, Writable } from 'stream'
+import * as tar from 'tar'
+import { TarStreamWriter, buildTarHeader } from '../../utils/tarStream'
+
+describe('TarStreamWriter', () => {
+  let workDir: string
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tar-stream-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('should write an archive readable by tar', async () => {
+    const archivePath = path.join(workDir, 'backup.tar')
+    const output = fs.createWriteStream(archivePath)
+    const closed = new Promise<void>((resolve) => output.on('close', () => resolve()))
+    const writer = new TarStreamWriter(output)
+
+    await writer.addEntry('storage/objects/ab/cd/first', 5, Readable.from([Buffer.from('hello')]))
+    await writer.addEntry('storage/objects/ef/01/second', 0, Readable.from([]))
+    await writer.finalize()
+    await closed
+
+    const extractDir = path.join(workDir, 'out')
+    fs.mkdirSync(extractDir)
+    await tar.x({ file: archivePath, cwd: extractDir })
+
+    expect(fs.readFileSync(path.join(extractDir, 'storage/objects/ab/cd/first'), 'utf8')).toBe(
+      'hello'
+    )
+    expect(fs.statSync(path.join(extractDir, 'storage/objects/ef/01/second')).size).toBe(0)
+  })
+
+  it('should reject entries whose size does not match the stream', async () => {
+    const writer = new TarStreamWriter(fs.createWriteStream(path.join(workDir, 'bad.tar')))
+
+    await expect(writer.addEntry('short', 10, Readable.from([Buffer.from('abc')]))).rejects.toThrow(
+      'size mismatch'
+    )
+  })
+
+  it('should abort and release the source when the output closes mid-entry', async () => {
+    // Never drains, like a response whose client has disconnected
+    const output = new Writable({ highWaterMark: 1, write: () => undefined })
+    const source = new Readable({ read: () => undefined })
+    source.push(Buffer.alloc(1024))
+    const writer = new TarStreamWriter(output)
+
+    const entry = writer.addEntry('stalled', 4096, source)
+    setImmediate(() => output.destroy())
+
+    await expect(entry).rejects.toThrow('closed before the archive was complete')
+    expect(source.destroyed).toBe(true)
+  })
+
+  it('should split long names into ustar prefix and name', () => {
+    const longName = `storage/objects/ab/cd/${'a'.repeat(64)}/${'b'.repeat(60)}`
+    const header = buildTarHeader(longName, 1, new Date(0))
+
+    const name = header.subarray(0, 100).toString('utf8').replace(/\0+$/, '')
+    const prefix = header.subarray(345, 500).toString('utf8').replace(/\0+$/, '')
+    expect(`${prefix}/${name}`).toBe(longName)
+  })
+})
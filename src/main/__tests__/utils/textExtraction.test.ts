@@ -0,0 +1,66 @@
+import {
+  MAX_TEXT_LENGTH,
+  encodePnm,
+  extractKeywords,
+  normalizeText,
+  officeXmlToText
+} from '../../utils/textExtraction'
+
+describe('Text extraction utilities', () => {
+  describe('officeXmlToText', () => {
+    it('should turn WordprocessingML paragraphs into lines', () => {
+      const xml =
+        '<w:document><w:body>' +
+        '<w:p><w:r><w:t>Protokół</w:t></w:r><w:r><w:tab/><w:t xml:space="preserve">nr 5</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:t>Kraków &amp; Gdańsk</w:t><w:br/><w:t>&#x141;ódź</w:t></w:r></w:p>' +
+        '</w:body></w:document>'
+      expect(officeXmlToText(xml)).toBe('Protokół nr 5\nKraków & Gdańsk\nŁódź')
+    })
+
+    it('should read OpenDocument paragraphs, headings and spaces', () => {
+      const xml =
+        '<office:text><text:h text:outline-level="1">Tytuł</text:h>' +
+        '<text:p>Ala<text:s/>ma kota</text:p></office:text>'
+      expect(officeXmlToText(xml)).toBe('Tytuł\nAla ma kota')
+    })
+
+    it('should split shared strings of a spreadsheet', () => {
+      const xml = '<sst><si><t>Nazwa</t></si><si><r><t>Data</t></r></si></sst>'
+      expect(officeXmlToText(xml)).toBe('Nazwa\nData')
+    })
+  })
+
+  describe('normalizeText', () => {
+    it('should collapse whitespace and drop control characters', () => {
+      expect(normalizeText('  a\u0000b \t c\r\n\r\n\r\n\r\nd  ')).toBe('ab c\n\nd')
+    })
+
+    it('should cap the text length', () => {
+      expect(normalizeText('x'.repeat(MAX_TEXT_LENGTH + 10))).toHaveLength(MAX_TEXT_LENGTH)
+    })
+  })
+
+  describe('extractKeywords', () => {
+    it('should rank words by frequency and skip stopwords and short words', () => {
+      const text = 'Archiwum miejskie. Archiwum państwowe, archiwum. Miejskie akta oraz inne był.'
+      expect(extractKeywords(text, 3)).toEqual(['archiwum', 'miejskie', 'akta'])
+    })
+  })
+
+  describe('encodePnm', () => {
+    it('should expand 1 bit grayscale rows into a PGM image', () => {
+      // 3x2 pixels, rows padded to a byte: 101xxxxx / 010xxxxx
+      const pnm = encodePnm(3, 2, 1, new Uint8Array([0b10100000, 0b01000000]))
+      const header = 'P5\n3 2\n255\n'
+      expect(pnm.subarray(0, header.length).toString()).toBe(header)
+      expect([...pnm.subarray(header.length)]).toEqual([255, 0, 255, 0, 255, 0])
+    })
+
+    it('should drop the alpha channel of RGBA data', () => {
+      const pnm = encodePnm(1, 1, 3, new Uint8Array([10, 20, 30, 255]))
+      const header = 'P6\n1 1\n255\n'
+      expect(pnm.subarray(0, header.length).toString()).toBe(header)
+      expect([...pnm.subarray(header.length)]).toEqual([10, 20, 30])
+    })
+  })
+})
@@ -1,4 +1,11 @@
-import { authLoginSchema, authRegisterSchema } from '../../utils/validation'
+import {
+  authLoginSchema,
+  authRegisterSchema,
+  fileSearchSchema,
+  metadataRevertSchema,
+  savedSearchCreateSchema,
+  savedSearchUpdateSchema
+} from '../../utils/validation'
 
 describe('Validation Middleware', () => {
   describe('Schema Validation', () => {
@@ -37,6 +44,45 @@ describe('Validation Middleware', () => {
       expect(error).toBeUndefined()
       expect(value).toEqual(validRegister)
     })
+
+    it('should accept advanced search queries with repeated facet keys', () => {
+      const { error, value } = fileSearchSchema.validate({
+        q: 'creator:"Kowalski" AND date:[1990 TO 1999]',
+        advanced: 'true',
+        type: ['audio', 'video'],
+        limit: '20'
+      })
+      expect(error).toBeUndefined()
+      expect(value).toMatchObject({ advanced: true, type: ['audio', 'video'], limit: 20 })
+    })
+
+    it('should accept a saved search without paging and reject an empty update', () => {
+      const { error, value } = savedSearchCreateSchema.validate({
+        name: ' Kroniki ',
+        query: { q: 'kronika', filters: { type: ['video'] } }
+      })
+      expect(error).toBeUndefined()
+      expect(value).toMatchObject({
+        name: 'Kroniki',
+        notifyEmail: false,
+        query: { advanced: false }
+      })
+
+      expect(
+        savedSearchCreateSchema.validate({ name: 'x', query: { q: 'a', limit: 10 } }).error
+      ).toBeDefined()
+      expect(savedSearchUpdateSchema.validate({}).error).toBeDefined()
+    })
+
+    it('should only revert editable Dublin Core fields', () => {
+      expect(
+        metadataRevertSchema.validate({ revision: 2, fields: ['dc:title', 'dc:subject'] }).error
+      ).toBeUndefined()
+      expect(
+        metadataRevertSchema.validate({ revision: 2, fields: ['dc:identifier'] }).error
+      ).toBeDefined()
+      expect(metadataRevertSchema.validate({ revision: 2, fields: [] }).error).toBeDefined()
+    })
   })
 
   describe('Input Sanitization', () => {
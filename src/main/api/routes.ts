@@ -2,23 +2,72 @@ import { Router, Response, Request, Express } from 'express'
 import axios, { AxiosError } from 'axios'
 import AuthService from '../services/auth'
 import FileService from '../services/files'
+import MetadataService from '../services/metadata'
 import AuditService from '../services/audit'
 import AccountLockoutService from '../services/accountLockout'
 import HashService from '../services/hash'
 import FixityService from '../services/fixity'
 import MonitoringService from '../services/monitoring'
 import BackupService from '../services/backup'
-import { authenticate, authorize, AuthenticatedRequest } from '../middleware/auth'
-import { apiRateLimiter } from '../middleware/rateLimiter'
-import { DublinCoreMetadata, SearchQuery, UserRole } from '../types'
+import StorageService from '../services/storage'
+import UploadService from '../services/uploads'
+import IngestService from '../services/ingest'
+import BagItService from '../services/bagit'
+import PackagingService from '../services/packaging'
+import OaiService from '../services/oai'
+import SavedSearchService from '../services/savedSearches'
+import NotificationService from '../services/notifications'
+import CollectionService from '../services/collections'
+import AccessService from '../services/access'
+import GroupService from '../services/groups'
+import RelationService from '../services/relations'
+import ShareLinkService from '../services/shareLinks'
+import { authenticate, authorize, authorizeFile, AuthenticatedRequest } from '../middleware/auth'
+import { apiRateLimiter, getClientIdentifier } from '../middleware/rateLimiter'
+import {
+  AccessSubject,
+  ClientInfo,
+  CollectionLevel,
+  DublinCoreMetadata,
+  RelationType,
+  SavedSearchQuery,
+  SearchQuery,
+  ShareLinkMode,
+  UserRole
+} from '../types'
 import {
   validate,
+  validateQuery,
   authRegisterSchema,
   authLoginSchema,
   authRefreshSchema,
   fileMetadataUpdateSchema,
-  userUpdateRoleSchema
+  uploadSessionCreateSchema,
+  ingestJobCreateSchema,
+  bagImportSchema,
+  userUpdateRoleSchema,
+  accessRuleCreateSchema,
+  accessRuleQuerySchema,
+  groupCreateSchema,
+  groupUpdateSchema,
+  groupMembersSchema,
+  shareLinkCreateSchema,
+  shareLinkQuerySchema,
+  fileSearchSchema,
+  savedSearchCreateSchema,
+  savedSearchUpdateSchema,
+  paginationSchema,
+  metadataRevertSchema,
+  metadataAsOfSchema,
+  collectionCreateSchema,
+  collectionUpdateSchema,
+  collectionFilesSchema,
+  collectionOrderSchema,
+  relationCreateSchema,
+  versionRestoreSchema
 } from '../utils/validation'
+import { AppError, ValidationError } from '../utils/errors'
+import { parseFacetFilters } from '../utils/facets'
 import FileStorageUtil from '../utils/fileStorage'
 import { createReadStream } from 'fs'
 import { app } from 'electron'
@@ -38,6 +87,30 @@ type UploadRequest = AuthenticatedRequest & {
 
 type AppWithUpload = Express & { upload?: Multer }
 
+const parseVersionNumber = (value: string | string[]): number => {
+  const versionNumber = Number(Array.isArray(value) ? value[0] : value)
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    throw new ValidationError('Version number must be a positive integer')
+  }
+  return versionNumber
+}
+
+// Only curators see non-public records
+const readerAccessLevel = (req: AuthenticatedRequest): string | undefined =>
+  req.user?.role === 'curator' || req.user?.role === 'admin' ? undefined : 'public'
+
+// The caller, for file access rules
+const accessSubject = (req: AuthenticatedRequest): AccessSubject => ({
+  userId: req.user?.userId ?? '',
+  role: req.user?.role ?? UserRole.READER
+})
+
+// Where a request came from, for login sessions and the audit log
+const clientInfo = (req: Request): ClientInfo => ({
+  ipAddress: getClientIdentifier(req),
+  userAgent: req.get('user-agent')
+})
+
 const router = Router()
 
 // ============================================================================
@@ -86,7 +159,9 @@ router.post(
       const { user, token, refreshToken } = await AuthService.register(
         req.body.username,
         req.body.password,
-        req.body.email
+        req.body.email,
+        UserRole.READER,
+        clientInfo(req)
       )
 
       res.status(201).json({
@@ -113,7 +188,8 @@ router.post(
     try {
       const { user, token, refreshToken } = await AuthService.login(
         req.body.username,
-        req.body.password
+        req.body.password,
+        clientInfo(req)
       )
 
       res.json({
@@ -132,16 +208,20 @@ router.post(
 
 /**
  * POST /api/auth/refresh
+ * Single use: returns a new access token and the refresh token to use next time
  */
 router.post(
   '/api/auth/refresh',
   validate(authRefreshSchema),
-  (req: Request, res: Response): void => {
+  async (req: Request, res: Response): Promise<void> => {
     try {
-      const newToken = AuthService.refreshAccessToken(req.body.refreshToken)
+      const { token, refreshToken } = await AuthService.refreshAccessToken(
+        req.body.refreshToken,
+        clientInfo(req)
+      )
       res.json({
         success: true,
-        data: { token: newToken }
+        data: { token, refreshToken }
       })
     } catch (error) {
       const err = error as Error
@@ -153,50 +233,119 @@ router.post(
   }
 )
 
+/**
+ * POST /api/auth/logout
+ * End the current session; its access and refresh tokens stop working
+ */
+router.post(
+  '/api/auth/logout',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      await AuthService.logout(req.user?.sessionId ?? '', req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Logged out' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'LOGOUT_FAILED', message: err.message }
+      })
+    }
+  }
+)
+
 // ============================================================================
 // FILES ROUTES
 // ============================================================================
 
 /**
  * GET /api/files/search
+ * Hits plus facet counts; repeat a facet key to select several values (?type=audio&type=video).
+ * advanced=true parses q as a query language (creator:"Kowalski" AND date:[1990 TO 1999]).
  */
 router.get(
   '/api/files/search',
   authenticate,
   apiRateLimiter,
+  validateQuery(fileSearchSchema),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const {
         q,
+        advanced,
         category,
-        creator,
         dateFrom,
         dateTo,
-        limit = '50',
-        offset = '0'
-      } = req.query as Partial<Record<keyof SearchQuery, string>>
+        collectionId,
+        limit,
+        offset,
+        orderBy,
+        orderDir
+      } = req.query as unknown as Required<
+        Pick<SearchQuery, 'q' | 'advanced' | 'limit' | 'offset' | 'orderBy' | 'orderDir'>
+      > &
+        Pick<SearchQuery, 'category' | 'dateFrom' | 'dateTo' | 'collectionId'>
 
       const results = await FileService.searchFiles({
-        q: (q as string) || '',
-        category: category as string as
-          | 'document'
-          | 'video'
-          | 'audio'
-          | 'image'
-          | 'software'
-          | undefined,
-        creator: creator as string,
-        dateFrom: dateFrom as string,
-        dateTo: dateTo as string,
-        limit: parseInt(limit, 10) || 50,
-        offset: parseInt(offset, 10) || 0,
-        accessLevel: 'public'
+        q,
+        advanced,
+        category,
+        dateFrom,
+        dateTo,
+        collectionId,
+        limit,
+        offset,
+        orderBy,
+        orderDir,
+        filters: parseFacetFilters(req.query),
+        // Only files the user may read are found and counted in facets
+        viewer: accessSubject(req)
       })
 
       res.json({
         success: true,
         data: results
       })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SEARCH_ERROR',
+          message: err.message,
+          ...(err instanceof AppError && err.details ? { details: err.details } : {})
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/files/suggest?prefix=
+ * Ranked title/creator/subject completions for the search box
+ */
+router.get(
+  '/api/files/suggest',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const prefix = typeof req.query.prefix === 'string' ? req.query.prefix : ''
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 10, 50)
+
+      const suggestions = await FileService.suggest(prefix, {
+        limit,
+        viewer: accessSubject(req)
+      })
+
+      res.json({
+        success: true,
+        data: suggestions
+      })
     } catch (error) {
       const err = error as Error
       res.status(500).json({
@@ -218,7 +367,7 @@ router.get(
     try {
       const limitParam = req.query.limit
       const limit = parseInt(typeof limitParam === 'string' ? limitParam : '20', 10)
-      const files = await FileService.getRecentFiles(limit)
+      const files = await FileService.getRecentFiles(limit, accessSubject(req))
 
       res.json({
         success: true,
@@ -241,11 +390,13 @@ router.get(
   '/api/files/:id',
   authenticate,
   apiRateLimiter,
+  authorizeFile('read'),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const file = await FileService.getFile(
         Array.isArray(req.params.id) ? req.params.id[0] : req.params.id,
-        req.user?.userId ?? ''
+        req.user?.userId ?? '',
+        accessSubject(req)
       )
 
       if (!file) {
@@ -277,6 +428,7 @@ router.get(
   '/api/files/:id/versions',
   authenticate,
   apiRateLimiter,
+  authorizeFile('read'),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const versions = await FileService.getVersions(
@@ -298,42 +450,17 @@ router.get(
 )
 
 /**
- * GET /api/files/stats
- */
-router.get(
-  '/api/files/stats',
-  authenticate,
-  apiRateLimiter,
-  async (_req: Request, res: Response): Promise<void> => {
-    try {
-      const stats = await FileService.getFileStatistics()
-
-      res.json({
-        success: true,
-        data: stats
-      })
-    } catch (error) {
-      const err = error as Error
-      res.status(500).json({
-        success: false,
-        error: { code: 'STATS_ERROR', message: err.message }
-      })
-    }
-  }
-)
-
-/**
- * POST /api/files/upload
- * Upload new file to archive
+ * POST /api/files/:id/versions
+ * Upload new content for a file as its next version (multipart field "file")
  */
 router.post(
-  '/api/files/upload',
+  '/api/files/:id/versions',
   authenticate,
   authorize(['curator', 'admin']),
+  authorizeFile('modify'),
   apiRateLimiter,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      // Get upload middleware from app
       const upload = (req.app as AppWithUpload).upload
       if (!upload) {
         res.status(500).json({
@@ -343,9 +470,8 @@ router.post(
         return
       }
 
-      // Handle single file upload
-      const uploadHandler = upload.single('file')
-      uploadHandler(req, res, async (err?: unknown) => {
+      upload.single('file')(req, res, async (err?: unknown) => {
+        const uploadReq = req as UploadRequest & { body: { changeSummary?: string } }
         try {
           if (err) {
             res.status(400).json({
@@ -358,8 +484,6 @@ router.post(
             return
           }
 
-          const uploadReq = req as UploadRequest
-
           if (!uploadReq.file) {
             res.status(400).json({
               success: false,
@@ -368,49 +492,34 @@ router.post(
             return
           }
 
-          const { description = '', accessLevel = 'private' } = uploadReq.body || {}
-
-          // Calculate real SHA-256 hash of the uploaded file
+          const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
           const hash = await HashService.calculateFileHashFromPath(uploadReq.file.path)
 
-          // Register file in database
-          const registeredFile = await FileService.registerFile(
+          const version = await FileService.createVersion(
+            fileId,
             uploadReq.file.path,
             hash,
-            uploadReq.file.mimetype,
-            req.user?.userId ?? '',
-            {
-              title: FileStorageUtil.getSafeFilename(uploadReq.file.originalname),
-              description,
-              creator: req.user?.username || '',
-              language: 'pl',
-              accessLevel
-            }
-          )
-
-          // Log upload
-          await AuditService.logAction(
             req.user?.userId ?? '',
-            'CREATE',
-            'file',
-            registeredFile.id,
-            {
-              newValue: {
-                filename: uploadReq.file.originalname,
-                size: uploadReq.file.size
-              }
-            }
+            uploadReq.body?.changeSummary?.slice(0, 1000) || undefined,
+            { mimeType: uploadReq.file.mimetype }
           )
 
           res.status(201).json({
             success: true,
-            data: registeredFile
+            data: version
           })
         } catch (error) {
+          // Stored uploads are moved out of the temp dir; failed ones are dropped
+          if (uploadReq.file) {
+            await fs.rm(uploadReq.file.path, { force: true }).catch(() => {})
+          }
           const err = error as Error
-          res.status(500).json({
+          res.status(err instanceof AppError ? err.status : 500).json({
             success: false,
-            error: { code: 'REGISTRATION_ERROR', message: err.message }
+            error: {
+              code: err instanceof AppError ? err.code : 'VERSION_ERROR',
+              message: err.message
+            }
           })
         }
       })
@@ -425,18 +534,20 @@ router.post(
 )
 
 /**
- * GET /api/files/:id/download
- * Download file from archive
+ * GET /api/files/:id/versions/:n/download
+ * Download the content of one version
  */
 router.get(
-  '/api/files/:id/download',
+  '/api/files/:id/versions/:n/download',
   authenticate,
   apiRateLimiter,
+  authorizeFile('download'),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-      const file = await FileService.getFile(fileId, req.user?.userId ?? '')
+      const versionNumber = parseVersionNumber(req.params.n)
 
+      const file = await FileService.getFile(fileId)
       if (!file) {
         res.status(404).json({
           success: false,
@@ -444,17 +555,28 @@ router.get(
         })
         return
       }
+      const version = await FileService.getVersion(fileId, versionNumber)
 
-      // Log download
-      await AuditService.logAction(req.user?.userId ?? '', 'READ', 'file', fileId, {
-        reason: 'File download'
+      const stored = await StorageService.statObject(version.storageKey)
+      if (!stored) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Version content not found in storage' }
+        })
+        return
+      }
+
+      await AuditService.logAction(req.user?.userId ?? '', 'READ', 'version', version.id, {
+        reason: `Version ${versionNumber} download`
       })
 
-      // Stream file
-      const stream = createReadStream(file.filePath)
-      res.setHeader('Content-Type', file.mimeType)
-      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`)
+      const { name, ext } = path.parse(file.filename)
+      const stream = await StorageService.openObject(version.storageKey)
+      res.setHeader('Content-Type', version.mimeType || file.mimeType)
+      res.setHeader('Content-Length', stored.size.toString())
+      res.setHeader('Content-Disposition', `attachment; filename="${name}.v${versionNumber}${ext}"`)
       res.setHeader('X-File-ID', fileId)
+      res.setHeader('X-File-Version', String(versionNumber))
 
       stream.pipe(res)
       stream.on('error', (err) => {
@@ -467,233 +589,2606 @@ router.get(
       })
     } catch (error) {
       const err = error as Error
-      res.status(500).json({
+      res.status(err instanceof AppError ? err.status : 500).json({
         success: false,
-        error: { code: 'DOWNLOAD_ERROR', message: err.message }
+        error: {
+          code: err instanceof AppError ? err.code : 'DOWNLOAD_ERROR',
+          message: err.message
+        }
       })
     }
   }
 )
 
 /**
- * DELETE /api/files/:id
- * Soft delete file from archive
+ * POST /api/files/:id/versions/:n/restore
+ * Make the content of an earlier version the new head version
  */
-router.delete(
-  '/api/files/:id',
+router.post(
+  '/api/files/:id/versions/:n/restore',
   authenticate,
   authorize(['curator', 'admin']),
+  authorizeFile('modify'),
   apiRateLimiter,
+  validate(versionRestoreSchema),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-      const { reason = 'User requested deletion' } = (req.body as { reason?: string }) || {}
+      const { reason } = req.body as { reason?: string }
 
-      await FileService.deleteFile(fileId, req.user?.userId ?? '', reason)
-
-      // Log deletion
-      await AuditService.logAction(req.user?.userId ?? '', 'DELETE', 'file', fileId, {
+      const version = await FileService.restoreVersion(
+        fileId,
+        parseVersionNumber(req.params.n),
+        req.user?.userId ?? '',
         reason
-      })
+      )
 
-      res.json({
+      res.status(201).json({
         success: true,
-        data: { message: 'File deleted successfully' }
+        data: version
       })
     } catch (error) {
       const err = error as Error
-      res.status(500).json({
+      res.status(err instanceof AppError ? err.status : 500).json({
         success: false,
-        error: { code: 'DELETE_ERROR', message: err.message }
+        error: {
+          code: err instanceof AppError ? err.code : 'RESTORE_ERROR',
+          message: err.message
+        }
       })
     }
   }
 )
 
 /**
- * POST /api/files/:id/restore
- * Restore soft-deleted file
+ * GET /api/files/:id/versions/:a/diff/:b
+ * Compare two versions: text line diff, Dublin Core field changes, size and format change
  */
-router.post(
-  '/api/files/:id/restore',
+router.get(
+  '/api/files/:id/versions/:a/diff/:b',
   authenticate,
   authorize(['curator', 'admin']),
+  authorizeFile('read'),
   apiRateLimiter,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-
-      // Update is_accessible flag
-      await FileService.restoreFile(fileId)
-
-      // Log restore
-      await AuditService.logAction(req.user?.userId ?? '', 'UPDATE', 'file', fileId, {
-        newValue: { is_accessible: true }
-      })
-
-      res.json({
-        success: true,
-        data: { message: 'File restored successfully' }
-      })
-    } catch (error) {
-      const err = error as Error
-      res.status(500).json({
-        success: false,
-        error: { code: 'RESTORE_ERROR', message: err.message }
-      })
-    }
-  }
-)
-
-// ============================================================================
-// METADATA ROUTES
-// ============================================================================
-
-/**
- * PUT /api/files/:id/metadata
- */
-router.put(
-  '/api/files/:id/metadata',
-  authenticate,
-  authorize(['curator', 'admin']),
-  validate(fileMetadataUpdateSchema),
-  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const body = req.body as { dublinCore?: DublinCoreMetadata }
-      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-      await FileService.updateFileMetadata(
+      const diff = await FileService.diffVersions(
         fileId,
-        { dublinCore: body.dublinCore },
-        req.user?.userId ?? ''
+        parseVersionNumber(req.params.a),
+        parseVersionNumber(req.params.b)
       )
 
       res.json({
         success: true,
-        data: { message: 'Metadata updated' }
+        data: diff
       })
     } catch (error) {
       const err = error as Error
-      res.status(500).json({
+      res.status(err instanceof AppError ? err.status : 500).json({
         success: false,
-        error: { code: 'UPDATE_ERROR', message: err.message }
+        error: {
+          code: err instanceof AppError ? err.code : 'DIFF_ERROR',
+          message: err.message
+        }
       })
     }
   }
 )
 
 /**
- * GET /api/files/:id/audit
+ * GET /api/files/stats
  */
 router.get(
-  '/api/files/:id/audit',
+  '/api/files/stats',
   authenticate,
   apiRateLimiter,
-  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  async (_req: Request, res: Response): Promise<void> => {
     try {
-      const queryParams = req.query as Record<string, string | string[] | undefined>
-      const limit = parseInt(typeof queryParams.limit === 'string' ? queryParams.limit : '100', 10)
-      const offset = parseInt(typeof queryParams.offset === 'string' ? queryParams.offset : '0', 10)
-      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-      const result = await AuditService.getResourceAuditLog(fileId, limit, offset)
+      const stats = await FileService.getFileStatistics()
 
       res.json({
         success: true,
-        data: result
+        data: stats
       })
     } catch (error) {
       const err = error as Error
       res.status(500).json({
         success: false,
-        error: { code: 'AUDIT_ERROR', message: err.message }
+        error: { code: 'STATS_ERROR', message: err.message }
       })
     }
   }
 )
 
-// ============================================================================
-// ADMIN ROUTES
-// ============================================================================
-
 /**
- * GET /api/admin/users
+ * POST /api/files/upload
+ * Upload new file to archive
  */
-router.get(
-  '/api/admin/users',
+router.post(
+  '/api/files/upload',
   authenticate,
-  authorize(['admin']),
+  authorize(['curator', 'admin']),
   apiRateLimiter,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      const users = await AuthService.listUsers(req.user?.userId ?? '')
+      // Get upload middleware from app
+      const upload = (req.app as AppWithUpload).upload
+      if (!upload) {
+        res.status(500).json({
+          success: false,
+          error: { code: 'UPLOAD_ERROR', message: 'Upload middleware not initialized' }
+        })
+        return
+      }
 
-      res.json({
-        success: true,
-        data: users
-      })
-    } catch (error) {
-      const err = error as Error
+      // Handle single file upload
+      const uploadHandler = upload.single('file')
+      uploadHandler(req, res, async (err?: unknown) => {
+        try {
+          if (err) {
+            res.status(400).json({
+              success: false,
+              error: {
+                code: 'UPLOAD_FAILED',
+                message: err instanceof Error ? err.message : 'Upload failed'
+              }
+            })
+            return
+          }
+
+          const uploadReq = req as UploadRequest
+
+          if (!uploadReq.file) {
+            res.status(400).json({
+              success: false,
+              error: { code: 'NO_FILE', message: 'No file provided' }
+            })
+            return
+          }
+
+          const { description = '', accessLevel = 'private' } = uploadReq.body || {}
+
+          // Calculate real SHA-256 hash of the uploaded file
+          const hash = await HashService.calculateFileHashFromPath(uploadReq.file.path)
+
+          // Register file in database
+          const registeredFile = await FileService.registerFile(
+            uploadReq.file.path,
+            hash,
+            uploadReq.file.mimetype,
+            req.user?.userId ?? '',
+            {
+              title: FileStorageUtil.getSafeFilename(uploadReq.file.originalname),
+              description,
+              creator: req.user?.username || '',
+              language: 'pl',
+              accessLevel
+            }
+          )
+
+          // Log upload
+          await AuditService.logAction(
+            req.user?.userId ?? '',
+            'CREATE',
+            'file',
+            registeredFile.id,
+            {
+              newValue: {
+                filename: uploadReq.file.originalname,
+                size: uploadReq.file.size
+              }
+            }
+          )
+
+          res.status(201).json({
+            success: true,
+            data: registeredFile
+          })
+        } catch (error) {
+          const err = error as Error
+          res.status(err instanceof AppError ? err.status : 500).json({
+            success: false,
+            error: {
+              code: err instanceof AppError ? err.code : 'REGISTRATION_ERROR',
+              message: err.message
+            }
+          })
+        }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'UPLOAD_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/files/uploads
+ * Create a resumable upload session (tus-style)
+ */
+router.post(
+  '/api/files/uploads',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  validate(uploadSessionCreateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { filename, mimeType, size, description, accessLevel } = req.body as {
+        filename: string
+        mimeType: string
+        size: number
+        description?: string
+        accessLevel?: string
+      }
+      const session = await UploadService.createSession(req.user?.userId ?? '', {
+        filename,
+        mimeType,
+        size,
+        description,
+        accessLevel,
+        creator: req.user?.username
+      })
+
+      res.set('Location', `/api/files/uploads/${session.id}`)
+      res.set('Upload-Offset', String(session.offset))
+      res.set('Upload-Length', String(session.length))
+      res.status(201).json({
+        success: true,
+        data: session
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'UPLOAD_SESSION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * HEAD /api/files/uploads/:id
+ * Get the current offset of a resumable upload
+ */
+router.head(
+  '/api/files/uploads/:id',
+  authenticate,
+  authorize(['curator', 'admin']),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const session = await UploadService.getSession(sessionId, req.user?.userId ?? '')
+
+      res.set('Cache-Control', 'no-store')
+      res.set('Upload-Offset', String(session.offset))
+      res.set('Upload-Length', String(session.length))
+      res.status(200).end()
+    } catch (error) {
+      res.status(error instanceof AppError ? error.status : 500).end()
+    }
+  }
+)
+
+/**
+ * PATCH /api/files/uploads/:id
+ * Append a chunk (Content-Type: application/offset+octet-stream, Upload-Offset header).
+ * Not behind apiRateLimiter - large files need many chunk requests.
+ */
+router.patch(
+  '/api/files/uploads/:id',
+  authenticate,
+  authorize(['curator', 'admin']),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+
+      if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+        res.status(415).json({
+          success: false,
+          error: {
+            code: 'UNSUPPORTED_MEDIA_TYPE',
+            message: 'Chunks must be sent as application/offset+octet-stream'
+          }
+        })
+        return
+      }
+
+      const offset = Number(req.headers['upload-offset'])
+      if (!Number.isSafeInteger(offset) || offset < 0) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_OFFSET', message: 'Upload-Offset header is required' }
+        })
+        return
+      }
+
+      const { session, file } = await UploadService.appendChunk(
+        sessionId,
+        req.user?.userId ?? '',
+        offset,
+        req
+      )
+
+      if (file) {
+        await AuditService.logAction(req.user?.userId ?? '', 'CREATE', 'file', file.id, {
+          newValue: { filename: session.filename, size: session.length },
+          reason: 'Resumable upload completed'
+        })
+      }
+
+      res.set('Upload-Offset', String(session.offset))
+      res.json({
+        success: true,
+        data: { session, file }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'UPLOAD_CHUNK_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/files/uploads/:id
+ * Abort a resumable upload
+ */
+router.delete(
+  '/api/files/uploads/:id',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await UploadService.abortSession(sessionId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Upload aborted' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'UPLOAD_ABORT_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/files/:id/download
+ * Download file from archive
+ */
+router.get(
+  '/api/files/:id/download',
+  authenticate,
+  apiRateLimiter,
+  authorizeFile('download'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const file = await FileService.getFile(fileId, req.user?.userId ?? '')
+
+      if (!file) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'File not found' }
+        })
+        return
+      }
+
+      // Log download
+      await AuditService.logAction(req.user?.userId ?? '', 'READ', 'file', fileId, {
+        reason: 'File download'
+      })
+
+      // Stream file from the storage backend
+      const stored = await StorageService.statObject(file.storageKey)
+      if (!stored) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'File content not found in storage' }
+        })
+        return
+      }
+
+      const stream = await StorageService.openObject(file.storageKey)
+      res.setHeader('Content-Type', file.mimeType)
+      res.setHeader('Content-Length', stored.size.toString())
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`)
+      res.setHeader('X-File-ID', fileId)
+
+      stream.pipe(res)
+      stream.on('error', (err) => {
+        if (!res.headersSent) {
+          res.status(500).json({
+            success: false,
+            error: { code: 'STREAM_ERROR', message: err.message }
+          })
+        }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'DOWNLOAD_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/files/:id/package?type=aip|dip
+ * Download a METS/PREMIS information package (AIP for curators, DIP for everyone)
+ */
+router.get(
+  '/api/files/:id/package',
+  authenticate,
+  apiRateLimiter,
+  authorizeFile('download'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const type = req.query.type === 'aip' ? 'aip' : 'dip'
+
+      if (type === 'aip' && !['curator', 'admin'].includes(req.user?.role ?? '')) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Insufficient permissions' }
+        })
+        return
+      }
+
+      res.setHeader('Content-Type', 'application/x-tar')
+      res.setHeader('Content-Disposition', `attachment; filename="${type}-${fileId}.tar"`)
+      await PackagingService.buildFilePackage(fileId, type, res)
+
+      await AuditService.logAction(req.user?.userId ?? '', 'DOWNLOAD', 'file', fileId, {
+        reason: `${type.toUpperCase()} package download`
+      })
+    } catch (error) {
+      const err = error as Error
+      if (res.headersSent) {
+        res.destroy(err)
+        return
+      }
+      res.removeHeader('Content-Disposition')
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: { code: err instanceof AppError ? err.code : 'PACKAGE_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/files/:id
+ * Soft delete file from archive
+ */
+router.delete(
+  '/api/files/:id',
+  authenticate,
+  apiRateLimiter,
+  authorizeFile('delete'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const { reason = 'User requested deletion' } = (req.body as { reason?: string }) || {}
+
+      await FileService.deleteFile(fileId, req.user?.userId ?? '', reason)
+
+      // Log deletion
+      await AuditService.logAction(req.user?.userId ?? '', 'DELETE', 'file', fileId, {
+        reason
+      })
+
+      res.json({
+        success: true,
+        data: { message: 'File deleted successfully' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'DELETE_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/files/:id/restore
+ * Restore soft-deleted file
+ */
+router.post(
+  '/api/files/:id/restore',
+  authenticate,
+  authorize(['curator', 'admin']),
+  authorizeFile('delete', true),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+
+      // Update is_accessible flag
+      await FileService.restoreFile(fileId)
+
+      // Log restore
+      await AuditService.logAction(req.user?.userId ?? '', 'UPDATE', 'file', fileId, {
+        newValue: { is_accessible: true }
+      })
+
+      res.json({
+        success: true,
+        data: { message: 'File restored successfully' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'RESTORE_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+// ============================================================================
+// CURRENT USER - SAVED SEARCHES & NOTIFICATIONS
+// ============================================================================
+
+/**
+ * GET /api/me/sessions
+ * Where the caller is logged in: device, address and last use of each session
+ */
+router.get(
+  '/api/me/sessions',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const sessions = await AuthService.listSessions(req.user?.userId ?? '', req.user?.sessionId)
+
+      res.json({
+        success: true,
+        data: sessions
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SESSION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/me/sessions/:id
+ * Sign out one of the caller's sessions (the current one included)
+ */
+router.delete(
+  '/api/me/sessions/:id',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await AuthService.revokeSession(req.user?.userId ?? '', id, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Session signed out' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SESSION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/me/saved-searches
+ * List the user's saved searches
+ */
+router.get(
+  '/api/me/saved-searches',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const savedSearches = await SavedSearchService.list(req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: savedSearches
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SAVED_SEARCH_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/me/saved-searches
+ * Save a search; files matching it now are the baseline, later matches are notified
+ */
+router.post(
+  '/api/me/saved-searches',
+  authenticate,
+  apiRateLimiter,
+  validate(savedSearchCreateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const savedSearch = await SavedSearchService.create(
+        req.user?.userId ?? '',
+        req.body as { name: string; query: SavedSearchQuery; notifyEmail: boolean }
+      )
+
+      res.status(201).json({
+        success: true,
+        data: savedSearch
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SAVED_SEARCH_ERROR',
+          message: err.message,
+          ...(err instanceof AppError && err.details ? { details: err.details } : {})
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/me/saved-searches/:id
+ */
+router.get(
+  '/api/me/saved-searches/:id',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const savedSearch = await SavedSearchService.get(req.user?.userId ?? '', id)
+
+      res.json({
+        success: true,
+        data: savedSearch
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SAVED_SEARCH_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * PUT /api/me/saved-searches/:id
+ * Rename, change the query (restarts the baseline) or toggle e-mail notifications
+ */
+router.put(
+  '/api/me/saved-searches/:id',
+  authenticate,
+  apiRateLimiter,
+  validate(savedSearchUpdateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const savedSearch = await SavedSearchService.update(
+        req.user?.userId ?? '',
+        id,
+        req.body as { name?: string; query?: SavedSearchQuery; notifyEmail?: boolean }
+      )
+
+      res.json({
+        success: true,
+        data: savedSearch
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SAVED_SEARCH_ERROR',
+          message: err.message,
+          ...(err instanceof AppError && err.details ? { details: err.details } : {})
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/me/saved-searches/:id
+ */
+router.delete(
+  '/api/me/saved-searches/:id',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await SavedSearchService.delete(req.user?.userId ?? '', id)
+
+      res.json({
+        success: true,
+        data: { id }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SAVED_SEARCH_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/me/saved-searches/:id/matches?limit=&offset=
+ * Files matched by a saved search, newest matches first
+ */
+router.get(
+  '/api/me/saved-searches/:id/matches',
+  authenticate,
+  apiRateLimiter,
+  validateQuery(paginationSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const { limit, offset } = req.query as unknown as { limit: number; offset: number }
+      const files = await SavedSearchService.getMatches(accessSubject(req), id, {
+        limit,
+        offset
+      })
+
+      res.json({
+        success: true,
+        data: files
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SAVED_SEARCH_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/me/notifications?unread=true&limit=&offset=
+ * The user's notifications, newest first, with the unread count
+ */
+router.get(
+  '/api/me/notifications',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 100)
+      const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0)
+
+      const result = await NotificationService.list(req.user?.userId ?? '', {
+        unreadOnly: req.query.unread === 'true',
+        limit,
+        offset
+      })
+
+      res.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'NOTIFICATION_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/me/notifications/read
+ * Mark all notifications as read
+ */
+router.post(
+  '/api/me/notifications/read',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const updated = await NotificationService.markAllRead(req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { updated }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'NOTIFICATION_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/me/notifications/:id/read
+ */
+router.post(
+  '/api/me/notifications/:id/read',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const notification = await NotificationService.markRead(req.user?.userId ?? '', id)
+
+      res.json({
+        success: true,
+        data: notification
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'NOTIFICATION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+// ============================================================================
+// BATCH INGEST
+// ============================================================================
+
+/**
+ * POST /api/ingest/jobs
+ * Ingest a local folder (recursively) into the archive
+ */
+router.post(
+  '/api/ingest/jobs',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  validate(ingestJobCreateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { folderPath, accessLevel, language } = req.body as {
+        folderPath: string
+        accessLevel?: string
+        language?: string
+      }
+      const job = await IngestService.startJob(
+        folderPath,
+        { userId: req.user?.userId ?? '', username: req.user?.username },
+        { accessLevel, language }
+      )
+
+      res.status(202).json({
+        success: true,
+        data: job
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'INGEST_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/ingest/jobs/:id
+ * Get ingest job progress
+ */
+router.get(
+  '/api/ingest/jobs/:id',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const job = await IngestService.getJob(jobId)
+
+      res.json({
+        success: true,
+        data: job
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'INGEST_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/ingest/jobs/:id/report?format=json|csv
+ * Download the ingest report (successes, skips and failures)
+ */
+router.get(
+  '/api/ingest/jobs/:id/report',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const format = req.query.format === 'csv' ? 'csv' : 'json'
+
+      if (format === 'csv') {
+        const csv = await IngestService.getReportCsv(jobId)
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+        res.setHeader('Content-Disposition', `attachment; filename="ingest-${jobId}.csv"`)
+        res.send(csv)
+        return
+      }
+
+      const report = await IngestService.getReport(jobId)
+      res.setHeader('Content-Disposition', `attachment; filename="ingest-${jobId}.json"`)
+      res.json({
+        success: true,
+        data: report
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'INGEST_REPORT_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+// ============================================================================
+// COLLECTIONS
+// ============================================================================
+
+/**
+ * GET /api/collections
+ * Top-level collections (fonds)
+ */
+router.get(
+  '/api/collections',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collections = await CollectionService.listRoots(readerAccessLevel(req))
+
+      res.json({
+        success: true,
+        data: collections
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/collections
+ */
+router.post(
+  '/api/collections',
+  authenticate,
+  authorize(['curator', 'admin']),
+  validate(collectionCreateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collection = await CollectionService.create(
+        req.body as {
+          parentId?: string
+          level: CollectionLevel
+          title: string
+          accessLevel?: string
+          dublinCore?: Partial<DublinCoreMetadata>
+        },
+        req.user?.userId ?? ''
+      )
+
+      res.status(201).json({
+        success: true,
+        data: collection
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/collections/:id
+ */
+router.get(
+  '/api/collections/:id',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const collection = await CollectionService.get(collectionId, readerAccessLevel(req))
+
+      res.json({
+        success: true,
+        data: collection
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/collections/:id/children
+ * Breadcrumb, sub-collections and files of a collection, in their stored order
+ */
+router.get(
+  '/api/collections/:id/children',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const children = await CollectionService.getChildren(
+        collectionId,
+        readerAccessLevel(req),
+        accessSubject(req)
+      )
+
+      res.json({
+        success: true,
+        data: children
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * PUT /api/collections/:id
+ * Rename, describe, move (parentId) or change the access level (null inherits) of a collection
+ */
+router.put(
+  '/api/collections/:id',
+  authenticate,
+  authorize(['curator', 'admin']),
+  validate(collectionUpdateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const collection = await CollectionService.update(
+        collectionId,
+        req.body as {
+          title?: string
+          level?: CollectionLevel
+          accessLevel?: string | null
+          dublinCore?: Partial<DublinCoreMetadata>
+          parentId?: string | null
+        },
+        req.user?.userId ?? ''
+      )
+
+      res.json({
+        success: true,
+        data: collection
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/collections/:id
+ * Only collections without sub-collections; the files stay in the archive
+ */
+router.delete(
+  '/api/collections/:id',
+  authenticate,
+  authorize(['curator', 'admin']),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await CollectionService.delete(collectionId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Collection deleted' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * PUT /api/collections/:id/order
+ * Reorder sub-collections and/or files; listed ids come first, the rest keep their order
+ */
+router.put(
+  '/api/collections/:id/order',
+  authenticate,
+  authorize(['curator', 'admin']),
+  validate(collectionOrderSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const children = await CollectionService.reorder(
+        collectionId,
+        req.body as { collections?: string[]; files?: string[] }
+      )
+
+      res.json({
+        success: true,
+        data: children
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/collections/:id/files
+ * Add files at the end of a collection
+ */
+router.post(
+  '/api/collections/:id/files',
+  authenticate,
+  authorize(['curator', 'admin']),
+  validate(collectionFilesSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const { fileIds } = req.body as { fileIds: string[] }
+      await AccessService.assertPermissionOnAll(fileIds, accessSubject(req), 'modify')
+      const added = await CollectionService.addFiles(collectionId, fileIds, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { added }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/collections/:id/files/:fileId
+ */
+router.delete(
+  '/api/collections/:id/files/:fileId',
+  authenticate,
+  authorize(['curator', 'admin']),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const fileId = Array.isArray(req.params.fileId) ? req.params.fileId[0] : req.params.fileId
+      await AccessService.assertPermission(fileId, accessSubject(req), 'modify')
+      await CollectionService.removeFile(collectionId, fileId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'File removed from collection' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/collections/:id/package?type=aip|dip
+ * Export a collection and everything below it as one METS/PREMIS package; only files the
+ * caller may download are included
+ */
+router.get(
+  '/api/collections/:id/package',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const type = req.query.type === 'dip' ? 'dip' : 'aip'
+      const collection = await CollectionService.get(collectionId, readerAccessLevel(req))
+      const fileIds = await AccessService.filterPermitted(
+        await CollectionService.getSubtreeFileIds(collectionId, accessSubject(req)),
+        accessSubject(req),
+        'download'
+      )
+      const name = `${type}-collection-${collection.id}`
+
+      res.setHeader('Content-Type', 'application/x-tar')
+      res.setHeader('Content-Disposition', `attachment; filename="${name}.tar"`)
+      await PackagingService.buildPackage(fileIds, type, res, {
+        name,
+        label: collection.title,
+        objectId: collection.id
+      })
+
+      await AuditService.logAction(req.user?.userId ?? '', 'DOWNLOAD', 'collection', collectionId, {
+        newValue: { fileIds },
+        reason: `${type.toUpperCase()} package export of collection`
+      })
+    } catch (error) {
+      const err = error as Error
+      if (res.headersSent) {
+        res.destroy(err)
+        return
+      }
+      res.removeHeader('Content-Disposition')
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: { code: err instanceof AppError ? err.code : 'PACKAGE_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/collections/:id/bag
+ * Export a collection and everything below it as a bag; only files the caller may download
+ * are included
+ */
+router.get(
+  '/api/collections/:id/bag',
+  authenticate,
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const collectionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const collection = await CollectionService.get(collectionId, readerAccessLevel(req))
+      const fileIds = await AccessService.filterPermitted(
+        await CollectionService.getSubtreeFileIds(collectionId, accessSubject(req)),
+        accessSubject(req),
+        'download'
+      )
+      const bagName = `collection-${collection.id}`
+
+      res.setHeader('Content-Type', 'application/x-tar')
+      res.setHeader('Content-Disposition', `attachment; filename="${bagName}.tar"`)
+      await BagItService.exportBag(fileIds, res, {
+        bagName,
+        bagInfo: { 'External-Description': [collection.title] }
+      })
+
+      await AuditService.logAction(req.user?.userId ?? '', 'READ', 'collection', collectionId, {
+        newValue: { fileIds },
+        reason: 'BagIt export of collection'
+      })
+    } catch (error) {
+      const err = error as Error
+      if (res.headersSent) {
+        res.destroy(err)
+        return
+      }
+      res.removeHeader('Content-Disposition')
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'BAG_EXPORT_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/files/:id/collections
+ * Collections a file belongs to
+ */
+router.get(
+  '/api/files/:id/collections',
+  authenticate,
+  apiRateLimiter,
+  authorizeFile('read'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const collections = await CollectionService.getFileCollections(fileId, readerAccessLevel(req))
+
+      res.json({
+        success: true,
+        data: collections
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'COLLECTION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+// ============================================================================
+// FILE RELATIONS
+// ============================================================================
+
+/**
+ * GET /api/files/:id/relations
+ * Files related to a file, each relation read from this file's side
+ */
+router.get(
+  '/api/files/:id/relations',
+  authenticate,
+  apiRateLimiter,
+  authorizeFile('read'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const relations = await RelationService.listForFile(fileId, accessSubject(req))
+
+      res.json({
+        success: true,
+        data: relations
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'RELATION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/files/:id/relations
+ * Relate a file to another one (e.g. isPartOf, hasVersion, references)
+ */
+router.post(
+  '/api/files/:id/relations',
+  authenticate,
+  authorize(['curator', 'admin']),
+  authorizeFile('modify'),
+  validate(relationCreateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const { relation, targetId, note } = req.body as {
+        relation: RelationType
+        targetId: string
+        note?: string
+      }
+      await AccessService.assertPermission(targetId, accessSubject(req), 'modify')
+      const created = await RelationService.create(
+        fileId,
+        relation,
+        targetId,
+        note || undefined,
+        req.user?.userId ?? ''
+      )
+
+      res.status(201).json({
+        success: true,
+        data: created
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'RELATION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/files/:id/relations/:relationId
+ */
+router.delete(
+  '/api/files/:id/relations/:relationId',
+  authenticate,
+  authorize(['curator', 'admin']),
+  authorizeFile('modify'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const relationId = Array.isArray(req.params.relationId)
+        ? req.params.relationId[0]
+        : req.params.relationId
+      await RelationService.delete(fileId, relationId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Relation removed' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'RELATION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+// ============================================================================
+// SHARE LINKS
+// ============================================================================
+
+// Passwords travel in a header so they stay out of URLs and access logs
+const sharePassword = (req: Request): string | undefined =>
+  (req.headers['x-share-password'] as string | undefined) || undefined
+
+/**
+ * GET /api/share-links?includeInactive=true
+ * The caller's share links (admins: everyone's), active ones unless includeInactive
+ */
+router.get(
+  '/api/share-links',
+  authenticate,
+  authorize(['curator', 'admin']),
+  validateQuery(shareLinkQuerySchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { includeInactive } = req.query as unknown as { includeInactive: boolean }
+      const links = await ShareLinkService.list(accessSubject(req), includeInactive)
+
+      res.json({
+        success: true,
+        data: links
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SHARE_LINK_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/share-links
+ * Create an expiring link to a file or a collection for someone without an account
+ */
+router.post(
+  '/api/share-links',
+  authenticate,
+  authorize(['curator', 'admin']),
+  validate(shareLinkCreateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { note, ...input } = req.body as {
+        fileId?: string
+        collectionId?: string
+        mode: ShareLinkMode
+        expiresAt: string
+        password?: string
+        maxDownloads?: number
+        note?: string
+      }
+      const link = await ShareLinkService.create(
+        { ...input, note: note || undefined },
+        accessSubject(req)
+      )
+
+      res.status(201).json({
+        success: true,
+        data: link
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SHARE_LINK_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/share-links/:id
+ * Revoke a share link
+ */
+router.delete(
+  '/api/share-links/:id',
+  authenticate,
+  authorize(['curator', 'admin']),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await ShareLinkService.revoke(id, accessSubject(req))
+
+      res.json({
+        success: true,
+        data: { message: 'Share link revoked' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SHARE_LINK_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/share/:token
+ * Public: the file or collection behind a share link (X-Share-Password if it has one)
+ */
+router.get(
+  '/api/share/:token',
+  apiRateLimiter,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const token = Array.isArray(req.params.token) ? req.params.token[0] : req.params.token
+      const item = await ShareLinkService.open(token, sharePassword(req), clientInfo(req))
+
+      res.json({
+        success: true,
+        data: item
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SHARE_LINK_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/share/:token/files/:fileId/:purpose (purpose: view | download)
+ * Public: a shared file's content, inline to view or as an attachment (download links only)
+ */
+router.get(
+  '/api/share/:token/files/:fileId/:purpose',
+  apiRateLimiter,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const token = Array.isArray(req.params.token) ? req.params.token[0] : req.params.token
+      const fileId = Array.isArray(req.params.fileId) ? req.params.fileId[0] : req.params.fileId
+      const purpose = Array.isArray(req.params.purpose) ? req.params.purpose[0] : req.params.purpose
+      if (purpose !== 'view' && purpose !== 'download') {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Not found' }
+        })
+        return
+      }
+
+      const file = await ShareLinkService.getFile(
+        token,
+        fileId,
+        purpose,
+        sharePassword(req),
+        clientInfo(req)
+      )
+
+      const stored = await StorageService.statObject(file.storageKey)
+      if (!stored) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'File content not found in storage' }
+        })
+        return
+      }
+
+      const stream = await StorageService.openObject(file.storageKey)
+      res.setHeader('Content-Type', file.mimeType)
+      res.setHeader('Content-Length', stored.size.toString())
+      res.setHeader(
+        'Content-Disposition',
+        `${purpose === 'download' ? 'attachment' : 'inline'}; filename="${file.filename}"`
+      )
+      res.setHeader('Cache-Control', 'private, no-store')
+
+      stream.pipe(res)
+      stream.on('error', (err) => {
+        if (!res.headersSent) {
+          res.status(500).json({
+            success: false,
+            error: { code: 'STREAM_ERROR', message: err.message }
+          })
+        }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SHARE_LINK_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+// ============================================================================
+// BAGIT PACKAGES & ACCESSIONS
+// ============================================================================
+
+/**
+ * POST /api/bagit/import
+ * Validate a BagIt bag (directory or .zip) and register its payload as one accession
+ */
+router.post(
+  '/api/bagit/import',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  validate(bagImportSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { path: bagPath, accessLevel } = req.body as { path: string; accessLevel?: string }
+      const result = await BagItService.importBag(
+        bagPath,
+        { userId: req.user?.userId ?? '', username: req.user?.username },
+        { accessLevel }
+      )
+
+      res.status(201).json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'BAG_IMPORT_ERROR',
+          message: err.message,
+          details: err instanceof AppError ? err.details : undefined
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/bagit/export?fileIds=id1,id2
+ * Export a set of files as a tar-serialized bag
+ */
+router.get(
+  '/api/bagit/export',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileIds = String(req.query.fileIds || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+      await AccessService.assertPermissionOnAll(fileIds, accessSubject(req), 'download')
+      const bagName = `bag-${new Date().toISOString().slice(0, 10)}`
+
+      res.setHeader('Content-Type', 'application/x-tar')
+      res.setHeader('Content-Disposition', `attachment; filename="${bagName}.tar"`)
+      await BagItService.exportBag(fileIds, res, { bagName })
+
+      for (const fileId of fileIds) {
+        await AuditService.logAction(req.user?.userId ?? '', 'READ', 'file', fileId, {
+          reason: `BagIt export ${bagName}`
+        })
+      }
+    } catch (error) {
+      const err = error as Error
+      if (res.headersSent) {
+        res.destroy(err)
+        return
+      }
+      res.removeHeader('Content-Disposition')
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'BAG_EXPORT_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/accessions/:id
+ * Get accession with its files
+ */
+router.get(
+  '/api/accessions/:id',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const accessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const accession = await BagItService.getAccession(accessionId)
+
+      res.json({
+        success: true,
+        data: accession
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'ACCESSION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/accessions/:id/package?type=aip|dip
+ * Batch export of an accession as one METS/PREMIS package
+ */
+router.get(
+  '/api/accessions/:id/package',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const accessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const type = req.query.type === 'dip' ? 'dip' : 'aip'
+      const accession = await BagItService.getAccession(accessionId)
+      const fileIds = accession.files.map((f) => f.fileId)
+      await AccessService.assertPermissionOnAll(fileIds, accessSubject(req), 'download')
+      const name = `${type}-accession-${accession.id}`
+
+      res.setHeader('Content-Type', 'application/x-tar')
+      res.setHeader('Content-Disposition', `attachment; filename="${name}.tar"`)
+      await PackagingService.buildPackage(fileIds, type, res, {
+        name,
+        label: accession.sourceName || accession.id,
+        objectId: accession.id
+      })
+
+      for (const fileId of fileIds) {
+        await AuditService.logAction(req.user?.userId ?? '', 'DOWNLOAD', 'file', fileId, {
+          reason: `${type.toUpperCase()} package export of accession ${accessionId}`
+        })
+      }
+    } catch (error) {
+      const err = error as Error
+      if (res.headersSent) {
+        res.destroy(err)
+        return
+      }
+      res.removeHeader('Content-Disposition')
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: { code: err instanceof AppError ? err.code : 'PACKAGE_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/accessions/:id/bag
+ * Export an accession as a bag with its original payload paths
+ */
+router.get(
+  '/api/accessions/:id/bag',
+  authenticate,
+  authorize(['curator', 'admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const accessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const accession = await BagItService.getAccession(accessionId)
+      const fileIds = accession.files.map((f) => f.fileId)
+      await AccessService.assertPermissionOnAll(fileIds, accessSubject(req), 'download')
+
+      res.setHeader('Content-Type', 'application/x-tar')
+      res.setHeader('Content-Disposition', `attachment; filename="accession-${accessionId}.tar"`)
+      await BagItService.exportAccession(accessionId, res)
+
+      for (const fileId of fileIds) {
+        await AuditService.logAction(req.user?.userId ?? '', 'READ', 'file', fileId, {
+          reason: `BagIt export of accession ${accessionId}`
+        })
+      }
+    } catch (error) {
+      const err = error as Error
+      if (res.headersSent) {
+        res.destroy(err)
+        return
+      }
+      res.removeHeader('Content-Disposition')
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'BAG_EXPORT_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+// ============================================================================
+// METADATA ROUTES
+// ============================================================================
+
+/**
+ * PUT /api/files/:id/metadata
+ */
+router.put(
+  '/api/files/:id/metadata',
+  authenticate,
+  authorizeFile('modify'),
+  validate(fileMetadataUpdateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const body = req.body as { dublinCore?: DublinCoreMetadata; reason?: string }
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await FileService.updateFileMetadata(
+        fileId,
+        { dublinCore: body.dublinCore },
+        req.user?.userId ?? '',
+        body.reason
+      )
+
+      res.json({
+        success: true,
+        data: { message: 'Metadata updated' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'UPDATE_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/files/:id/metadata/revisions
+ * Dublin Core change history, newest first
+ */
+router.get(
+  '/api/files/:id/metadata/revisions',
+  authenticate,
+  authorize(['curator', 'admin']),
+  authorizeFile('read'),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const revisions = await MetadataService.getRevisions(fileId)
+
+      res.json({
+        success: true,
+        data: revisions
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'REVISIONS_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/files/:id/metadata/as-of?at=
+ * The Dublin Core record as it was at a point in time, with the revision it comes from
+ */
+router.get(
+  '/api/files/:id/metadata/as-of',
+  authenticate,
+  authorize(['curator', 'admin']),
+  authorizeFile('read'),
+  apiRateLimiter,
+  validateQuery(metadataAsOfSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const { at } = req.query as unknown as { at: Date }
+      const revision = await MetadataService.getRevisionAsOf(fileId, at)
+
+      res.json({
+        success: true,
+        data: revision
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'REVISIONS_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/files/:id/metadata/revert
+ * Set the given Dublin Core fields back to their values in an earlier revision
+ */
+router.post(
+  '/api/files/:id/metadata/revert',
+  authenticate,
+  authorizeFile('modify'),
+  validate(metadataRevertSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const body = req.body as { revision: number; fields: string[]; reason?: string }
+      const record = await MetadataService.revertFields(
+        fileId,
+        body.revision,
+        body.fields,
+        req.user?.userId ?? '',
+        body.reason
+      )
+
+      res.json({
+        success: true,
+        data: record
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'REVERT_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/files/:id/audit
+ */
+router.get(
+  '/api/files/:id/audit',
+  authenticate,
+  apiRateLimiter,
+  authorizeFile('read'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const queryParams = req.query as Record<string, string | string[] | undefined>
+      const limit = parseInt(typeof queryParams.limit === 'string' ? queryParams.limit : '100', 10)
+      const offset = parseInt(typeof queryParams.offset === 'string' ? queryParams.offset : '0', 10)
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const result = await AuditService.getResourceAuditLog(fileId, limit, offset)
+
+      res.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'AUDIT_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+// ============================================================================
+// OAI-PMH
+// ============================================================================
+
+/**
+ * GET|POST /api/oai
+ * OAI-PMH 2.0 data provider (public records, oai_dc); protocol errors are XML with status 200
+ */
+const handleOaiRequest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const params = (req.method === 'POST' ? req.body : req.query) as Record<string, unknown>
+    const baseUrl = process.env.OAI_BASE_URL || `${req.protocol}://${req.get('host')}/api/oai`
+    const xml = await OaiService.handle(params ?? {}, baseUrl)
+
+    res.type('text/xml; charset=utf-8').send(xml)
+  } catch (error) {
+    const err = error as Error
+    res.status(500).json({
+      success: false,
+      error: { code: 'OAI_ERROR', message: err.message }
+    })
+  }
+}
+
+router.get('/api/oai', apiRateLimiter, handleOaiRequest)
+router.post('/api/oai', apiRateLimiter, handleOaiRequest)
+
+// ============================================================================
+// ADMIN ROUTES
+// ============================================================================
+
+/**
+ * GET /api/admin/users
+ */
+router.get(
+  '/api/admin/users',
+  authenticate,
+  authorize(['admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const users = await AuthService.listUsers(req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: users
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'FETCH_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * PUT /api/admin/users/:id/role
+ */
+router.put(
+  '/api/admin/users/:id/role',
+  authenticate,
+  authorize(['admin']),
+  validate(userUpdateRoleSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const body = req.body as { role?: UserRole }
+      const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const user = await AuthService.updateUserRole(
+        userId,
+        body.role || UserRole.READER,
+        req.user?.userId ?? ''
+      )
+
+      res.json({
+        success: true,
+        data: user
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(500).json({
+        success: false,
+        error: { code: 'UPDATE_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/admin/users/:id/unlock
+ */
+router.post(
+  '/api/admin/users/:id/unlock',
+  authenticate,
+  authorize(['admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await AccountLockoutService.unlockAccount(userId, 'Admin unlock')
+
+      res.json({
+        success: true,
+        data: { message: 'User account unlocked' }
+      })
+    } catch (error) {
+      const err = error as Error
       res.status(500).json({
         success: false,
-        error: { code: 'FETCH_ERROR', message: err.message }
+        error: { code: 'UNLOCK_ERROR', message: err.message }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/admin/users/:id/sessions
+ * A user's open sessions
+ */
+router.get(
+  '/api/admin/users/:id/sessions',
+  authenticate,
+  authorize(['admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const sessions = await AuthService.listSessions(userId, req.user?.sessionId)
+
+      res.json({
+        success: true,
+        data: sessions
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SESSION_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/admin/users/:id/sessions/:sessionId
+ * Sign a user out of one session
+ */
+router.delete(
+  '/api/admin/users/:id/sessions/:sessionId',
+  authenticate,
+  authorize(['admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const sessionId = Array.isArray(req.params.sessionId)
+        ? req.params.sessionId[0]
+        : req.params.sessionId
+      await AuthService.revokeSession(userId, sessionId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Session revoked' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SESSION_REVOKE_ERROR',
+          message: err.message
+        }
       })
     }
   }
 )
 
 /**
- * PUT /api/admin/users/:id/role
+ * DELETE /api/admin/users/:id/sessions
+ * Sign a user out everywhere
  */
-router.put(
-  '/api/admin/users/:id/role',
+router.delete(
+  '/api/admin/users/:id/sessions',
   authenticate,
   authorize(['admin']),
-  validate(userUpdateRoleSchema),
+  apiRateLimiter,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      const body = req.body as { role?: UserRole }
       const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-      const user = await AuthService.updateUserRole(
-        userId,
-        body.role || UserRole.READER,
+      const revoked = await AuthService.revokeAllSessions(userId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { revoked }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'SESSION_REVOKE_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/admin/groups
+ */
+router.get(
+  '/api/admin/groups',
+  authenticate,
+  authorize(['admin']),
+  apiRateLimiter,
+  async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const groups = await GroupService.list()
+
+      res.json({
+        success: true,
+        data: groups
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'GROUP_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/admin/groups
+ */
+router.post(
+  '/api/admin/groups',
+  authenticate,
+  authorize(['admin']),
+  validate(groupCreateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const group = await GroupService.create(
+        req.body as { name: string; description?: string },
+        req.user?.userId ?? ''
+      )
+
+      res.status(201).json({
+        success: true,
+        data: group
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'GROUP_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/admin/groups/:id
+ * A group with its members
+ */
+router.get(
+  '/api/admin/groups/:id',
+  authenticate,
+  authorize(['admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const groupId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const group = await GroupService.get(groupId)
+      const members = await GroupService.getMembers(groupId)
+
+      res.json({
+        success: true,
+        data: { ...group, members }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'GROUP_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * PUT /api/admin/groups/:id
+ */
+router.put(
+  '/api/admin/groups/:id',
+  authenticate,
+  authorize(['admin']),
+  validate(groupUpdateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const groupId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const group = await GroupService.update(
+        groupId,
+        req.body as { name?: string; description?: string },
         req.user?.userId ?? ''
       )
 
       res.json({
         success: true,
-        data: user
+        data: group
       })
     } catch (error) {
       const err = error as Error
-      res.status(500).json({
+      res.status(err instanceof AppError ? err.status : 500).json({
         success: false,
-        error: { code: 'UPDATE_ERROR', message: err.message }
+        error: {
+          code: err instanceof AppError ? err.code : 'GROUP_ERROR',
+          message: err.message
+        }
       })
     }
   }
 )
 
 /**
- * POST /api/admin/users/:id/unlock
+ * DELETE /api/admin/groups/:id
+ * Delete a group together with its access rules
+ */
+router.delete(
+  '/api/admin/groups/:id',
+  authenticate,
+  authorize(['admin']),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const groupId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await GroupService.delete(groupId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Group deleted' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'GROUP_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/admin/groups/:id/members
  */
 router.post(
-  '/api/admin/users/:id/unlock',
+  '/api/admin/groups/:id/members',
+  authenticate,
+  authorize(['admin']),
+  validate(groupMembersSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const groupId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const { userIds } = req.body as { userIds: string[] }
+      const added = await GroupService.addMembers(groupId, userIds, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { added }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'GROUP_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/admin/groups/:id/members/:userId
+ */
+router.delete(
+  '/api/admin/groups/:id/members/:userId',
+  authenticate,
+  authorize(['admin']),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const groupId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const userId = Array.isArray(req.params.userId) ? req.params.userId[0] : req.params.userId
+      await GroupService.removeMember(groupId, userId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Member removed from group' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'GROUP_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/admin/users/:id/groups
+ */
+router.get(
+  '/api/admin/users/:id/groups',
   authenticate,
   authorize(['admin']),
   apiRateLimiter,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-      await AccountLockoutService.unlockAccount(userId, 'Admin unlock')
+      const groups = await GroupService.listForUser(userId)
 
       res.json({
         success: true,
-        data: { message: 'User account unlocked' }
+        data: groups
       })
     } catch (error) {
       const err = error as Error
-      res.status(500).json({
+      res.status(err instanceof AppError ? err.status : 500).json({
         success: false,
-        error: { code: 'UNLOCK_ERROR', message: err.message }
+        error: {
+          code: err instanceof AppError ? err.code : 'GROUP_ERROR',
+          message: err.message
+        }
       })
     }
   }
@@ -728,6 +3223,137 @@ router.get(
   }
 )
 
+/**
+ * GET /api/admin/access-rules?fileId=&collectionId=&groupId=
+ * Access grants on a file, on a collection or for a group (all grants without a filter)
+ */
+router.get(
+  '/api/admin/access-rules',
+  authenticate,
+  authorize(['admin']),
+  apiRateLimiter,
+  validateQuery(accessRuleQuerySchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const rules = await AccessService.listRules(
+        req.query as { fileId?: string; collectionId?: string; groupId?: string }
+      )
+
+      res.json({
+        success: true,
+        data: rules
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'ACCESS_RULE_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * POST /api/admin/access-rules
+ * Grant permissions on a file or a collection to a user, a role or a group, optionally until
+ * expiresAt
+ */
+router.post(
+  '/api/admin/access-rules',
+  authenticate,
+  authorize(['admin']),
+  validate(accessRuleCreateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { expiresAt, ...input } = req.body as Omit<
+        Parameters<typeof AccessService.grant>[0],
+        'expiresAt'
+      > & { expiresAt?: Date }
+      const rule = await AccessService.grant(
+        { ...input, expiresAt: expiresAt?.toISOString() },
+        req.user?.userId ?? ''
+      )
+
+      res.status(201).json({
+        success: true,
+        data: rule
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'ACCESS_RULE_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * DELETE /api/admin/access-rules/:id
+ */
+router.delete(
+  '/api/admin/access-rules/:id',
+  authenticate,
+  authorize(['admin']),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const ruleId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await AccessService.revoke(ruleId, req.user?.userId ?? '')
+
+      res.json({
+        success: true,
+        data: { message: 'Access rule revoked' }
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'ACCESS_RULE_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
+/**
+ * GET /api/admin/files/:id/access
+ * Who can see a file: every active user with read access, their permissions and grants
+ */
+router.get(
+  '/api/admin/files/:id/access',
+  authenticate,
+  authorize(['admin']),
+  apiRateLimiter,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const entries = await AccessService.whoCanAccess(fileId)
+
+      res.json({
+        success: true,
+        data: entries
+      })
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'ACCESS_RULE_ERROR',
+          message: err.message
+        }
+      })
+    }
+  }
+)
+
 // ============================================================================
 // FIXITY & INTEGRITY
 // ============================================================================
@@ -740,6 +3366,7 @@ router.get(
   '/api/files/:id/fixity',
   authenticate,
   authorize(['curator', 'admin']),
+  authorizeFile('read'),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
@@ -766,6 +3393,7 @@ router.post(
   '/api/files/:id/fixity/verify',
   authenticate,
   authorize(['curator', 'admin']),
+  authorizeFile('read'),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
@@ -87,6 +87,15 @@ export const query = async <T extends Record<string, unknown> = Record<string, u
   }
 }
 
+// Query on a transaction client when one is given, otherwise on the pool
+export const queryWith = async <T extends Record<string, unknown> = Record<string, unknown>>(
+  client: PoolClient | undefined,
+  text: string,
+  values?: Array<unknown>
+): Promise<QueryResult<T>> => {
+  return client ? client.query<T>(text, values) : query<T>(text, values)
+}
+
 // Transaction support
 export const withTransaction = async <T>(
   callback: (client: PoolClient) => Promise<T>
@@ -141,6 +150,7 @@ export default {
   getPool,
   closePool,
   query,
+  queryWith,
   withTransaction,
   batchInsert
 }
@@ -0,0 +1,18 @@
+/**
+ * Migration: pluggable storage backends
+ * - Adds storage_backend (local | s3) and storage_key (objects/ab/cd/<sha256>)
+ * - file_path is kept as a display location; bytes are read through storage_key
+ * - Backfills keys for files already in content-addressed local storage
+ */
+
+ALTER TABLE files
+  ADD COLUMN IF NOT EXISTS storage_backend VARCHAR(50) DEFAULT 'local',
+  ADD COLUMN IF NOT EXISTS storage_key TEXT;
+
+UPDATE files
+SET storage_key = substring(file_path from '(objects/[0-9a-f]{2}/[0-9a-f]{2}/[0-9a-f]{64})$'),
+    storage_backend = 'local'
+WHERE storage_key IS NULL
+  AND file_path ~ 'objects/[0-9a-f]{2}/[0-9a-f]{2}/[0-9a-f]{64}$';
+
+CREATE INDEX IF NOT EXISTS idx_files_storage_key ON files(storage_key);
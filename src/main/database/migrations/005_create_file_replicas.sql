@@ -0,0 +1,27 @@
+/**
+ * Migration: multi-copy replication
+ * - One row per stored copy of a file's current object (primary + replicas)
+ * - storage_backend is the backend name (e.g. local, s3, local:/mnt/replica)
+ * - Backfills a primary copy row for files already in managed storage
+ */
+
+CREATE TABLE IF NOT EXISTS file_replicas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  storage_backend VARCHAR(255) NOT NULL,
+  storage_key TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'ok', -- ok, failed, missing, repaired
+  last_verified_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (file_id, storage_backend)
+);
+
+CREATE INDEX IF NOT EXISTS idx_replicas_file ON file_replicas(file_id);
+CREATE INDEX IF NOT EXISTS idx_replicas_status ON file_replicas(status);
+
+INSERT INTO file_replicas (file_id, storage_backend, storage_key)
+SELECT id, COALESCE(storage_backend, 'local'), storage_key
+FROM files
+WHERE storage_key IS NOT NULL
+ON CONFLICT (file_id, storage_backend) DO NOTHING;
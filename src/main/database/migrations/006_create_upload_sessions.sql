@@ -0,0 +1,23 @@
+/**
+ * Migration: resumable (chunked) uploads
+ * - One row per upload session; bytes are appended to <storage>/.tmp/sessions/<id>.part
+ * - upload_offset is only advanced after a chunk has been written to disk
+ */
+
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  filename VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  upload_length BIGINT NOT NULL,
+  upload_offset BIGINT NOT NULL DEFAULT 0,
+  metadata JSONB DEFAULT '{}',
+  status VARCHAR(50) NOT NULL DEFAULT 'active', -- active, completed, aborted
+  file_id UUID REFERENCES files(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_user ON upload_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires ON upload_sessions(status, expires_at);
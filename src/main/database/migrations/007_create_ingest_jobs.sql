@@ -0,0 +1,34 @@
+/**
+ * Migration: batch folder ingest
+ * - ingest_jobs: one row per ingested folder, with running totals
+ * - ingest_job_items: per-file outcome (registered, skipped, failed) for the ingest report
+ */
+
+CREATE TABLE IF NOT EXISTS ingest_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  source_path TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'running', -- running, completed, failed
+  total_files INT DEFAULT 0,
+  registered INT DEFAULT 0,
+  skipped INT DEFAULT 0,
+  failed INT DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMP DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS ingest_job_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES ingest_jobs(id) ON DELETE CASCADE,
+  relative_path TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL, -- registered, skipped, failed
+  file_id UUID REFERENCES files(id) ON DELETE SET NULL,
+  file_hash VARCHAR(64),
+  file_size BIGINT,
+  message TEXT,
+  processed_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_jobs_user ON ingest_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_ingest_items_job ON ingest_job_items(job_id);
@@ -0,0 +1,23 @@
+/**
+ * Migration: accessions
+ * - An accession groups the files received together (e.g. one BagIt bag)
+ * - accession_files keeps each file's path inside the received package
+ */
+
+CREATE TABLE IF NOT EXISTS accessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_type VARCHAR(50) NOT NULL, -- bagit
+  source_name TEXT,
+  package_info JSONB DEFAULT '{}',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS accession_files (
+  accession_id UUID NOT NULL REFERENCES accessions(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  original_path TEXT NOT NULL,
+  PRIMARY KEY (accession_id, file_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accession_files_file ON accession_files(file_id);
@@ -0,0 +1,14 @@
+/**
+ * Migration: PRONOM format identification
+ * - format_puid: PRONOM unique identifier found by signature matching (NULL when unidentified)
+ * - format_identification_method: signature | text | none
+ * - original_format keeps the MIME type declared at upload
+ */
+
+ALTER TABLE metadata_premis
+  ADD COLUMN IF NOT EXISTS format_puid VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS format_identification_method VARCHAR(20);
+
+UPDATE metadata_premis SET original_format = format_name WHERE original_format IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_premis_format_puid ON metadata_premis(format_puid);
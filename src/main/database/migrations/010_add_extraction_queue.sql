@@ -0,0 +1,21 @@
+/**
+ * Migration: text extraction queue
+ * - search_index rows double as extraction jobs: pending -> processing -> indexed | skipped | failed
+ * - file_version records which version the text was extracted from; a new version re-queues it
+ * - Every existing file is queued once
+ */
+
+ALTER TABLE search_index
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'indexed', 'skipped', 'failed')),
+  ADD COLUMN IF NOT EXISTS file_version INT,
+  ADD COLUMN IF NOT EXISTS extractor VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS attempts INT DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS error_message TEXT,
+  ADD COLUMN IF NOT EXISTS queued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+INSERT INTO search_index (file_id, file_version, status)
+SELECT id, current_version, 'pending' FROM files WHERE is_deleted = FALSE
+ON CONFLICT (file_id) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_search_status ON search_index(status, queued_at);
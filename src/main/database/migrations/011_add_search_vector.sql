@@ -0,0 +1,99 @@
+/**
+ * Migration: weighted full-text search
+ * - Text search configuration `archiwum`: a Polish ispell dictionary when installed,
+ *   otherwise unaccent + simple (re-run configure_search_config() after installing one)
+ * - search_index.search_vector: title/filename A, subject/creator B, description C,
+ *   extracted and OCR text D; kept up to date by triggers on files, DC metadata and search_index
+ * - Replaces the unused 'english' expression indexes
+ */
+
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'archiwum') THEN
+    CREATE TEXT SEARCH CONFIGURATION archiwum (COPY = simple);
+  END IF;
+END $$;
+
+ALTER TABLE search_index ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION build_search_vector(p_file_id UUID, p_full_text TEXT, p_ocr_text TEXT)
+RETURNS TSVECTOR AS $$
+  SELECT
+    setweight(to_tsvector('archiwum', COALESCE(dc.title, '') || ' ' || f.filename), 'A') ||
+    setweight(to_tsvector('archiwum', COALESCE(dc.subject, '') || ' ' || COALESCE(dc.creator, '')), 'B') ||
+    setweight(to_tsvector('archiwum', COALESCE(f.description, '') || ' ' || COALESCE(dc.description, '')), 'C') ||
+    setweight(to_tsvector('archiwum', COALESCE(p_full_text, '') || ' ' || COALESCE(p_ocr_text, '')), 'D')
+  FROM files f
+  LEFT JOIN metadata_dublin_core dc ON dc.file_id = f.id
+  WHERE f.id = p_file_id
+$$ LANGUAGE sql STABLE;
+
+-- (Re)map the `archiwum` configuration and rebuild every search vector
+CREATE OR REPLACE FUNCTION configure_search_config(p_dictionary TEXT DEFAULT 'polish_ispell')
+RETURNS TEXT AS $$
+DECLARE
+  dictionaries TEXT := 'unaccent, simple';
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_ts_dict WHERE dictname = p_dictionary) THEN
+    dictionaries := quote_ident(p_dictionary) || ', simple';
+  END IF;
+
+  EXECUTE 'ALTER TEXT SEARCH CONFIGURATION archiwum ALTER MAPPING FOR '
+    || 'asciiword, asciihword, hword_asciipart, word, hword, hword_part WITH ' || dictionaries;
+
+  UPDATE search_index SET search_vector = build_search_vector(file_id, full_text, ocr_text);
+  RETURN dictionaries;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := build_search_vector(NEW.file_id, NEW.full_text, NEW.ocr_text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_file_search_vector()
+RETURNS TRIGGER AS $$
+DECLARE
+  target UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'files' THEN
+    target := NEW.id;
+  ELSE
+    target := NEW.file_id;
+  END IF;
+
+  UPDATE search_index
+  SET search_vector = build_search_vector(file_id, full_text, ocr_text)
+  WHERE file_id = target;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_search_index_vector ON search_index;
+CREATE TRIGGER update_search_index_vector BEFORE INSERT OR UPDATE OF full_text, ocr_text ON search_index
+  FOR EACH ROW EXECUTE FUNCTION update_search_vector();
+
+DROP TRIGGER IF EXISTS refresh_files_search_vector ON files;
+CREATE TRIGGER refresh_files_search_vector AFTER UPDATE OF filename, description ON files
+  FOR EACH ROW EXECUTE FUNCTION refresh_file_search_vector();
+
+DROP TRIGGER IF EXISTS refresh_dc_search_vector ON metadata_dublin_core;
+CREATE TRIGGER refresh_dc_search_vector AFTER INSERT OR UPDATE OF title, subject, creator, description
+  ON metadata_dublin_core
+  FOR EACH ROW EXECUTE FUNCTION refresh_file_search_vector();
+
+-- Every file needs a row to be searchable (files deleted before the extraction queue had none)
+INSERT INTO search_index (file_id, file_version, status)
+SELECT id, current_version, 'pending' FROM files
+ON CONFLICT (file_id) DO NOTHING;
+
+SELECT configure_search_config();
+
+DROP INDEX IF EXISTS idx_files_fts;
+DROP INDEX IF EXISTS idx_search_fts;
+CREATE INDEX IF NOT EXISTS idx_search_vector ON search_index USING GIN (search_vector);
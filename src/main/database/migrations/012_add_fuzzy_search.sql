@@ -0,0 +1,31 @@
+/**
+ * Migration: fuzzy search and suggestions
+ * - f_unaccent(): immutable unaccent wrapper so accent-insensitive expressions can be indexed
+ * - Trigram indexes on unaccented, lower-cased DC title, creator and subject
+ * - search_vocabulary: words of titles, creators and subjects for "did you mean" hints,
+ *   refreshed by the scheduler
+ */
+
+CREATE OR REPLACE FUNCTION f_unaccent(TEXT)
+RETURNS TEXT AS $$
+  SELECT public.unaccent('public.unaccent'::regdictionary, $1)
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+CREATE INDEX IF NOT EXISTS idx_dc_title_trgm ON metadata_dublin_core
+  USING GIN (f_unaccent(lower(title)) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_dc_creator_trgm ON metadata_dublin_core
+  USING GIN (f_unaccent(lower(creator)) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_dc_subject_trgm ON metadata_dublin_core
+  USING GIN (f_unaccent(lower(subject)) gin_trgm_ops);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS search_vocabulary AS
+SELECT word, ndoc
+FROM ts_stat($$
+  SELECT to_tsvector('simple', concat_ws(' ', title, creator, subject))
+  FROM metadata_dublin_core
+$$)
+WHERE length(word) >= 3 AND word !~ '^[0-9]+$';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_vocabulary_word ON search_vocabulary(word);
+CREATE INDEX IF NOT EXISTS idx_search_vocabulary_trgm ON search_vocabulary
+  USING GIN (f_unaccent(word) gin_trgm_ops);
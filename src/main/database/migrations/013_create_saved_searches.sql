@@ -0,0 +1,44 @@
+/**
+ * Migration: saved searches and in-app notifications
+ * - saved_searches: a user's named SearchQuery, re-evaluated by the scheduler
+ * - saved_search_matches: files already matched, so only new matches are reported
+ * - notifications: per-user in-app messages (saved search hits for now)
+ */
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  query JSONB NOT NULL,
+  notify_email BOOLEAN DEFAULT FALSE,
+  last_run_at TIMESTAMP, -- NULL until the first run records the baseline
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  matched_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (saved_search_id, file_id)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL, -- saved_search
+  title VARCHAR(500) NOT NULL,
+  message TEXT,
+  data JSONB DEFAULT '{}',
+  read_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_recent ON saved_search_matches(saved_search_id, matched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_saved_searches_timestamp ON saved_searches;
+CREATE TRIGGER update_saved_searches_timestamp BEFORE UPDATE ON saved_searches
+  FOR EACH ROW EXECUTE FUNCTION update_timestamp();
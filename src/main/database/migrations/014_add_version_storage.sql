@@ -0,0 +1,46 @@
+/**
+ * Migration: addressable content for every file version
+ * - file_versions records where each version's object is stored and its MIME type
+ * - restored_from marks versions created by restoring an earlier one
+ * - Backfill: objects are content-addressed (objects/ab/cd/<sha256>) and never overwritten,
+ *   so existing versions - including the never recorded initial ones - can be pointed at them
+ */
+
+ALTER TABLE file_versions
+  ADD COLUMN IF NOT EXISTS storage_backend VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS storage_key TEXT,
+  ADD COLUMN IF NOT EXISTS mime_type VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS restored_from INT;
+
+UPDATE file_versions v SET
+  storage_backend = f.storage_backend,
+  storage_key = 'objects/' || substr(v.file_hash, 1, 2) || '/' || substr(v.file_hash, 3, 2) || '/' || v.file_hash,
+  mime_type = f.mime_type
+FROM files f
+WHERE f.id = v.file_id AND v.storage_key IS NULL AND f.storage_key IS NOT NULL;
+
+-- Initial versions of files that were versioned later (their hash is version 2's previousHash)
+INSERT INTO file_versions (
+  file_id, version_number, file_hash, created_by, change_summary, created_at,
+  storage_backend, storage_key, mime_type
+)
+SELECT v.file_id, 1, v.change_details->>'previousHash', f.created_by, 'Initial version', f.created_at,
+  f.storage_backend,
+  'objects/' || substr(v.change_details->>'previousHash', 1, 2) || '/'
+    || substr(v.change_details->>'previousHash', 3, 2) || '/' || (v.change_details->>'previousHash'),
+  f.mime_type
+FROM file_versions v
+JOIN files f ON f.id = v.file_id
+WHERE v.version_number = 2 AND v.change_details->>'previousHash' IS NOT NULL AND f.storage_key IS NOT NULL
+ON CONFLICT (file_id, version_number) DO NOTHING;
+
+-- Files never versioned only have their current object
+INSERT INTO file_versions (
+  file_id, version_number, file_hash, file_size, created_by, change_summary, created_at,
+  storage_backend, storage_key, mime_type
+)
+SELECT id, current_version, file_hash, file_size, created_by, 'Initial version', created_at,
+  storage_backend, storage_key, mime_type
+FROM files
+WHERE storage_key IS NOT NULL
+ON CONFLICT (file_id, version_number) DO NOTHING;
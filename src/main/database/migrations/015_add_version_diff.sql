@@ -0,0 +1,18 @@
+/**
+ * Migration: version comparison
+ * - file_versions.dublin_core: the Dublin Core record as it was when the version was superseded
+ *   (the current version's record is the live one)
+ * - Recompute change_details size and format changes from the previous version row
+ *   (diffSize used to hold the new size)
+ */
+
+ALTER TABLE file_versions ADD COLUMN IF NOT EXISTS dublin_core JSONB;
+
+UPDATE file_versions v SET change_details = COALESCE(v.change_details, '{}'::jsonb) || jsonb_build_object(
+  'previousSize', p.file_size,
+  'diffSize', v.file_size - p.file_size,
+  'formatChanged', p.mime_type IS DISTINCT FROM v.mime_type
+)
+FROM file_versions p
+WHERE p.file_id = v.file_id AND p.version_number = v.version_number - 1
+  AND p.file_size IS NOT NULL AND v.file_size IS NOT NULL;
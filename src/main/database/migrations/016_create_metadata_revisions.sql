@@ -0,0 +1,43 @@
+/**
+ * Migration: Dublin Core revision history
+ * - metadata_revisions: one row per change of a record, with the changed fields, the full
+ *   record after the change, author and reason
+ * - Existing records get a baseline revision (their earlier changes are only in the audit log)
+ */
+
+CREATE TABLE IF NOT EXISTS metadata_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]',
+  record JSONB NOT NULL,
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(file_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metadata_revisions_file
+  ON metadata_revisions(file_id, created_at);
+
+INSERT INTO metadata_revisions (file_id, revision_number, record, reason, created_at)
+SELECT dc.file_id, 1,
+  jsonb_strip_nulls(jsonb_build_object(
+    'dc:identifier', dc.file_id,
+    'dc:title', COALESCE(dc.title, 'Untitled'),
+    'dc:creator', COALESCE(dc.creator, 'Unknown'),
+    'dc:subject', dc.subject,
+    'dc:description', dc.description,
+    'dc:publisher', dc.publisher,
+    'dc:date', to_char(dc.date_created, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'dc:type', COALESCE(dc.type, 'document'),
+    'dc:format', COALESCE(dc.format, 'application/octet-stream'),
+    'dc:language', COALESCE(dc.language, 'pl'),
+    'dc:rights', dc.rights,
+    'dc:source', dc.source
+  )),
+  'Record before revision tracking',
+  COALESCE(dc.updated_at, dc.created_at, CURRENT_TIMESTAMP)
+FROM metadata_dublin_core dc
+WHERE dc.file_id IS NOT NULL
+ON CONFLICT (file_id, revision_number) DO NOTHING;
@@ -0,0 +1,51 @@
+/**
+ * Migration: hierarchical collections
+ * - collections: fonds / series / file / item tree with sibling order, own Dublin Core
+ *   description and an access level (NULL = inherited from the parent, 'public' at the root)
+ * - collection_files: ordered many-to-many membership of files
+ * - v_collection_tree: every collection with its depth, ancestor path and effective access level
+ */
+
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id UUID REFERENCES collections(id) ON DELETE RESTRICT,
+  level VARCHAR(20) NOT NULL CHECK (level IN ('fonds', 'series', 'file', 'item')),
+  title VARCHAR(500) NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  access_level VARCHAR(50),
+  dublin_core JSONB DEFAULT '{}',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS collection_files (
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  added_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (collection_id, file_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_parent ON collections(parent_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_files_file ON collection_files(file_id);
+CREATE INDEX IF NOT EXISTS idx_collection_files_order ON collection_files(collection_id, position);
+
+DROP TRIGGER IF EXISTS update_collections_timestamp ON collections;
+CREATE TRIGGER update_collections_timestamp BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+CREATE OR REPLACE VIEW v_collection_tree AS
+WITH RECURSIVE tree AS (
+  SELECT c.id, 0 as depth, ARRAY[c.id] as path,
+    COALESCE(c.access_level, 'public')::VARCHAR(50) as effective_access_level
+  FROM collections c
+  WHERE c.parent_id IS NULL
+  UNION ALL
+  SELECT c.id, t.depth + 1, t.path || c.id,
+    COALESCE(c.access_level, t.effective_access_level)::VARCHAR(50)
+  FROM collections c
+  JOIN tree t ON c.parent_id = t.id
+)
+SELECT * FROM tree;
@@ -0,0 +1,23 @@
+/**
+ * Migration: relations between files (Dublin Core Terms)
+ * - file_relations: "subject relation object" in the canonical direction only
+ *   (isPartOf, isVersionOf, isFormatOf, references, replaces, requires);
+ *   the inverse (hasPart, ...) is derived when reading from the object's side
+ */
+
+CREATE TABLE IF NOT EXISTS file_relations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  object_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  relation VARCHAR(30) NOT NULL CHECK (relation IN (
+    'isPartOf', 'isVersionOf', 'isFormatOf', 'references', 'replaces', 'requires'
+  )),
+  note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (subject_id, object_id, relation),
+  CHECK (subject_id <> object_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_relations_subject ON file_relations(subject_id);
+CREATE INDEX IF NOT EXISTS idx_file_relations_object ON file_relations(object_id);
@@ -0,0 +1,16 @@
+/**
+ * Migration: per-file and per-collection access rules
+ * - file_access_rules may target a collection (applies to every file below it) instead of a file
+ * - each rule names exactly one grantee (user or role) and records who granted it
+ */
+
+ALTER TABLE file_access_rules
+  ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS granted_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE file_access_rules
+  ADD CONSTRAINT file_access_rules_target_check CHECK (num_nonnulls(file_id, collection_id) = 1),
+  ADD CONSTRAINT file_access_rules_grantee_check CHECK (num_nonnulls(user_id, role) = 1);
+
+CREATE INDEX IF NOT EXISTS idx_access_collection ON file_access_rules(collection_id);
+CREATE INDEX IF NOT EXISTS idx_access_role ON file_access_rules(role);
@@ -0,0 +1,37 @@
+/**
+ * Migration: user groups
+ * - user_groups / user_group_members: named groups (departments, research teams) of users
+ * - file_access_rules may grant to a group; a rule names exactly one user, role or group
+ */
+
+CREATE TABLE IF NOT EXISTS user_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) UNIQUE NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS user_group_members (
+  group_id UUID NOT NULL REFERENCES user_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  added_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_group_members_user ON user_group_members(user_id);
+
+DROP TRIGGER IF EXISTS update_user_groups_timestamp ON user_groups;
+CREATE TRIGGER update_user_groups_timestamp BEFORE UPDATE ON user_groups
+  FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+ALTER TABLE file_access_rules
+  ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES user_groups(id) ON DELETE CASCADE;
+
+ALTER TABLE file_access_rules
+  DROP CONSTRAINT IF EXISTS file_access_rules_grantee_check,
+  ADD CONSTRAINT file_access_rules_grantee_check CHECK (num_nonnulls(user_id, role, group_id) = 1);
+
+CREATE INDEX IF NOT EXISTS idx_access_group ON file_access_rules(group_id);
@@ -0,0 +1,27 @@
+/**
+ * Migration: share links
+ * - share_links: signed, expiring links to one file or a collection for people without an
+ *   account, optionally password-protected and limited to a number of downloads
+ */
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID REFERENCES files(id) ON DELETE CASCADE,
+  collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+  mode VARCHAR(20) NOT NULL CHECK (mode IN ('view', 'download')),
+  password_hash VARCHAR(255),
+  max_downloads INTEGER CHECK (max_downloads > 0),
+  download_count INTEGER NOT NULL DEFAULT 0,
+  note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  last_accessed_at TIMESTAMP,
+  CONSTRAINT share_links_target_check CHECK (num_nonnulls(file_id, collection_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_creator ON share_links(created_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_share_links_file ON share_links(file_id);
+CREATE INDEX IF NOT EXISTS idx_share_links_collection ON share_links(collection_id);
@@ -0,0 +1,12 @@
+/**
+ * Migration: session devices
+ * - auth_sessions records the device (user agent) and address a session is used from, and when
+ *   it was last used, so users can see where they are logged in
+ */
+
+ALTER TABLE auth_sessions
+  ADD COLUMN IF NOT EXISTS user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS ip_address VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP DEFAULT NOW();
+
+UPDATE auth_sessions SET last_used_at = created_at WHERE last_used_at IS NULL;
@@ -0,0 +1,7 @@
+/**
+ * Migration: version text
+ * - file_versions.extracted_text: text of a superseded version, kept when it is superseded or
+ *   extracted in the background, so version diffs never run extraction (OCR) in a request
+ */
+
+ALTER TABLE file_versions ADD COLUMN IF NOT EXISTS extracted_text TEXT;
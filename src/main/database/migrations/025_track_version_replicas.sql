@@ -0,0 +1,29 @@
+/**
+ * Migration: replicas of every version
+ * - file_replicas has one row per stored object (file version content) and backend instead of
+ *   one per file and backend, so earlier versions are verified and repaired too
+ * - file_replicas.file_hash: SHA-256 the object must have
+ * - Backfills rows for earlier versions on the backends a file already has copies in
+ */
+
+ALTER TABLE file_replicas ADD COLUMN IF NOT EXISTS file_hash VARCHAR(64);
+
+UPDATE file_replicas r SET file_hash = f.file_hash
+FROM files f
+WHERE f.id = r.file_id AND f.storage_key = r.storage_key AND r.file_hash IS NULL;
+
+UPDATE file_replicas r SET file_hash = v.file_hash
+FROM file_versions v
+WHERE v.file_id = r.file_id AND v.storage_key = r.storage_key AND r.file_hash IS NULL;
+
+ALTER TABLE file_replicas
+  DROP CONSTRAINT IF EXISTS file_replicas_file_id_storage_backend_key,
+  DROP CONSTRAINT IF EXISTS file_replicas_object_key,
+  ADD CONSTRAINT file_replicas_object_key UNIQUE (file_id, storage_backend, storage_key);
+
+INSERT INTO file_replicas (file_id, storage_backend, storage_key, file_hash)
+SELECT DISTINCT r.file_id, r.storage_backend, v.storage_key, v.file_hash
+FROM file_replicas r
+JOIN file_versions v ON v.file_id = r.file_id
+WHERE v.storage_key IS NOT NULL
+ON CONFLICT (file_id, storage_backend, storage_key) DO NOTHING;
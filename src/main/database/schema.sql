@@ -7,6 +7,13 @@
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 CREATE EXTENSION IF NOT EXISTS "pg_trgm"; -- For full-text search optimization
+CREATE EXTENSION IF NOT EXISTS "unaccent"; -- Search fallback without a Polish dictionary
+
+-- Immutable unaccent wrapper, usable in index expressions
+CREATE OR REPLACE FUNCTION f_unaccent(TEXT)
+RETURNS TEXT AS $$
+  SELECT public.unaccent('public.unaccent'::regdictionary, $1)
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
 
 -- ============================================================================
 -- CORE TABLES
@@ -53,6 +60,36 @@ CREATE TABLE IF NOT EXISTS account_lockout (
 CREATE INDEX IF NOT EXISTS idx_lockout_user ON account_lockout(user_id);
 CREATE INDEX IF NOT EXISTS idx_lockout_locked_until ON account_lockout(locked_until);
 
+-- ============================================================================
+-- SESSIONS - One per login, with its family of single-use refresh tokens
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_agent TEXT,
+  ip_address VARCHAR(50), -- Last address the session was used from
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  revoked_at TIMESTAMP,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  revoked_reason VARCHAR(50) -- logout | user | reuse | admin
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id) WHERE revoked_at IS NULL;
+
+-- SHA-256 of the token; a used token is kept until it expires to detect reuse
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES auth_sessions(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id);
+
 -- ============================================================================
 -- FILES
 -- ============================================================================
@@ -60,6 +97,8 @@ CREATE TABLE IF NOT EXISTS files (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   filename VARCHAR(255) NOT NULL,
   file_path TEXT NOT NULL,
+  storage_backend VARCHAR(50) DEFAULT 'local',
+  storage_key TEXT,
   file_hash VARCHAR(64) UNIQUE NOT NULL,
   mime_type VARCHAR(100),
   file_size BIGINT,
@@ -83,6 +122,7 @@ CREATE INDEX IF NOT EXISTS idx_files_hash ON files(file_hash);
 CREATE INDEX IF NOT EXISTS idx_files_created ON files(created_at);
 CREATE INDEX IF NOT EXISTS idx_files_media_type ON files(media_type);
 CREATE INDEX IF NOT EXISTS idx_files_access_level ON files(access_level);
+CREATE INDEX IF NOT EXISTS idx_files_storage_key ON files(storage_key);
 
 -- Dublin Core metadata (XML storage)
 CREATE TABLE IF NOT EXISTS metadata_dublin_core (
@@ -110,6 +150,22 @@ CREATE INDEX IF NOT EXISTS idx_dc_file ON metadata_dublin_core(file_id);
 CREATE INDEX IF NOT EXISTS idx_dc_type ON metadata_dublin_core(type);
 CREATE INDEX IF NOT EXISTS idx_dc_language ON metadata_dublin_core(language);
 
+-- Dublin Core revisions (every change with the record after it, author and reason)
+CREATE TABLE IF NOT EXISTS metadata_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]',
+  record JSONB NOT NULL,
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(file_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metadata_revisions_file
+  ON metadata_revisions(file_id, created_at);
+
 -- PREMIS preservation metadata
 CREATE TABLE IF NOT EXISTS metadata_premis (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -117,6 +173,8 @@ CREATE TABLE IF NOT EXISTS metadata_premis (
   object_identifier UUID NOT NULL,
   format_name VARCHAR(255),
   format_version VARCHAR(50),
+  format_puid VARCHAR(50),
+  format_identification_method VARCHAR(20),
   message_digest_algorithm VARCHAR(50) DEFAULT 'SHA-256',
   message_digest VARCHAR(128),
   message_digest_validation TIMESTAMP,
@@ -130,8 +188,9 @@ CREATE TABLE IF NOT EXISTS metadata_premis (
 
 CREATE INDEX IF NOT EXISTS idx_premis_file ON metadata_premis(file_id);
 CREATE INDEX IF NOT EXISTS idx_premis_digest ON metadata_premis(message_digest);
+CREATE INDEX IF NOT EXISTS idx_premis_format_puid ON metadata_premis(format_puid);
 
--- File versions - complete history
+-- File versions - complete history, every version's content stays addressable
 CREATE TABLE IF NOT EXISTS file_versions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
@@ -142,12 +201,104 @@ CREATE TABLE IF NOT EXISTS file_versions (
   change_summary TEXT,
   change_details JSONB,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  -- Content of this version (objects are content-addressed and never overwritten)
+  storage_backend VARCHAR(50),
+  storage_key TEXT,
+  mime_type VARCHAR(100),
+  restored_from INT, -- Version whose content this one restored
+  dublin_core JSONB, -- Dublin Core record when the version was superseded
+  extracted_text TEXT, -- Text of a superseded version (for diffs), NULL until extracted
   UNIQUE (file_id, version_number)
 );
 
 CREATE INDEX IF NOT EXISTS idx_versions_file ON file_versions(file_id);
 CREATE INDEX IF NOT EXISTS idx_versions_version ON file_versions(version_number);
 
+-- Stored copies of the objects of each file version (primary + replicas)
+CREATE TABLE IF NOT EXISTS file_replicas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  storage_backend VARCHAR(255) NOT NULL,
+  storage_key TEXT NOT NULL,
+  file_hash VARCHAR(64), -- SHA-256 the object must have
+  status VARCHAR(50) NOT NULL DEFAULT 'ok', -- ok, failed, missing, repaired
+  last_verified_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT file_replicas_object_key UNIQUE (file_id, storage_backend, storage_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_replicas_file ON file_replicas(file_id);
+CREATE INDEX IF NOT EXISTS idx_replicas_status ON file_replicas(status);
+
+-- Resumable (chunked) upload sessions
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  filename VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  upload_length BIGINT NOT NULL,
+  upload_offset BIGINT NOT NULL DEFAULT 0,
+  metadata JSONB DEFAULT '{}',
+  status VARCHAR(50) NOT NULL DEFAULT 'active', -- active, completed, aborted
+  file_id UUID REFERENCES files(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_user ON upload_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires ON upload_sessions(status, expires_at);
+
+-- Batch folder ingest jobs and their per-file outcomes
+CREATE TABLE IF NOT EXISTS ingest_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  source_path TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'running', -- running, completed, failed
+  total_files INT DEFAULT 0,
+  registered INT DEFAULT 0,
+  skipped INT DEFAULT 0,
+  failed INT DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS ingest_job_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES ingest_jobs(id) ON DELETE CASCADE,
+  relative_path TEXT NOT NULL,
+  status VARCHAR(50) NOT NULL, -- registered, skipped, failed
+  file_id UUID REFERENCES files(id) ON DELETE SET NULL,
+  file_hash VARCHAR(64),
+  file_size BIGINT,
+  message TEXT,
+  processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_jobs_user ON ingest_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_ingest_items_job ON ingest_job_items(job_id);
+
+-- Accessions - files received together (e.g. one BagIt bag)
+CREATE TABLE IF NOT EXISTS accessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_type VARCHAR(50) NOT NULL, -- bagit
+  source_name TEXT,
+  package_info JSONB DEFAULT '{}',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS accession_files (
+  accession_id UUID NOT NULL REFERENCES accessions(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  original_path TEXT NOT NULL,
+  PRIMARY KEY (accession_id, file_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accession_files_file ON accession_files(file_id);
+
 -- ============================================================================
 -- AUDIT & COMPLIANCE
 -- ============================================================================
@@ -218,9 +369,127 @@ CREATE TABLE IF NOT EXISTS search_index (
   extracted_keywords VARCHAR(500)[],
   language VARCHAR(10) DEFAULT 'pl',
   indexed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  -- Extraction queue state (see ExtractionService)
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'indexed', 'skipped', 'failed')),
+  file_version INT,
+  extractor VARCHAR(50),
+  attempts INT DEFAULT 0,
+  error_message TEXT,
+  queued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  -- Weighted document for full-text search (see build_search_vector)
+  search_vector TSVECTOR,
   UNIQUE (file_id)
 );
 
+CREATE INDEX IF NOT EXISTS idx_search_status ON search_index(status, queued_at);
+
+-- Words of titles, creators and subjects for "did you mean" hints (refreshed by the scheduler)
+CREATE MATERIALIZED VIEW IF NOT EXISTS search_vocabulary AS
+SELECT word, ndoc
+FROM ts_stat($$
+  SELECT to_tsvector('simple', concat_ws(' ', title, creator, subject))
+  FROM metadata_dublin_core
+$$)
+WHERE length(word) >= 3 AND word !~ '^[0-9]+$';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_vocabulary_word ON search_vocabulary(word);
+CREATE INDEX IF NOT EXISTS idx_search_vocabulary_trgm ON search_vocabulary
+  USING GIN (f_unaccent(word) gin_trgm_ops);
+
+-- ============================================================================
+-- SAVED SEARCHES & NOTIFICATIONS
+-- ============================================================================
+
+-- Named searches re-run by the scheduler; matches remember what was already reported
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  query JSONB NOT NULL,
+  notify_email BOOLEAN DEFAULT FALSE,
+  last_run_at TIMESTAMP, -- NULL until the first run records the baseline
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  matched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (saved_search_id, file_id)
+);
+
+-- In-app notifications
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL, -- saved_search
+  title VARCHAR(500) NOT NULL,
+  message TEXT,
+  data JSONB DEFAULT '{}',
+  read_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_recent ON saved_search_matches(saved_search_id, matched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+
+-- ============================================================================
+-- COLLECTIONS
+-- ============================================================================
+
+-- Fonds / series / file / item tree; access_level NULL = inherited from the parent
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id UUID REFERENCES collections(id) ON DELETE RESTRICT,
+  level VARCHAR(20) NOT NULL CHECK (level IN ('fonds', 'series', 'file', 'item')),
+  title VARCHAR(500) NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0, -- Order among siblings
+  access_level VARCHAR(50),
+  dublin_core JSONB DEFAULT '{}',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Ordered membership; a file can belong to many collections
+CREATE TABLE IF NOT EXISTS collection_files (
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (collection_id, file_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_parent ON collections(parent_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_files_file ON collection_files(file_id);
+CREATE INDEX IF NOT EXISTS idx_collection_files_order ON collection_files(collection_id, position);
+
+-- ============================================================================
+-- FILE RELATIONS
+-- ============================================================================
+
+-- Dublin Core Terms relations, stored in the canonical direction only (hasPart etc. are derived)
+CREATE TABLE IF NOT EXISTS file_relations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  object_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  relation VARCHAR(30) NOT NULL CHECK (relation IN (
+    'isPartOf', 'isVersionOf', 'isFormatOf', 'references', 'replaces', 'requires'
+  )),
+  note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (subject_id, object_id, relation),
+  CHECK (subject_id <> object_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_relations_subject ON file_relations(subject_id);
+CREATE INDEX IF NOT EXISTS idx_file_relations_object ON file_relations(object_id);
+
 -- ============================================================================
 -- BACKUP & PRESERVATION
 -- ============================================================================
@@ -259,21 +528,73 @@ CREATE INDEX IF NOT EXISTS idx_fixity_checked ON fixity_checks(checked_at);
 -- ACCESS CONTROL
 -- ============================================================================
 
+-- Named groups of users (departments, research teams)
+CREATE TABLE IF NOT EXISTS user_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) UNIQUE NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS user_group_members (
+  group_id UUID NOT NULL REFERENCES user_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_group_members_user ON user_group_members(user_id);
+
+-- Grants on a file, or on a collection and every file below it, to one user, role or group
 CREATE TABLE IF NOT EXISTS file_access_rules (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   file_id UUID REFERENCES files(id) ON DELETE CASCADE,
+  collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
   role VARCHAR(50),
+  group_id UUID REFERENCES user_groups(id) ON DELETE CASCADE,
   can_read BOOLEAN DEFAULT FALSE,
   can_download BOOLEAN DEFAULT FALSE,
   can_modify BOOLEAN DEFAULT FALSE,
   can_delete BOOLEAN DEFAULT FALSE,
+  granted_by UUID REFERENCES users(id) ON DELETE SET NULL,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  expires_at TIMESTAMP
+  expires_at TIMESTAMP,
+  CONSTRAINT file_access_rules_target_check CHECK (num_nonnulls(file_id, collection_id) = 1),
+  CONSTRAINT file_access_rules_grantee_check CHECK (num_nonnulls(user_id, role, group_id) = 1)
 );
 
 CREATE INDEX IF NOT EXISTS idx_access_file ON file_access_rules(file_id);
+CREATE INDEX IF NOT EXISTS idx_access_collection ON file_access_rules(collection_id);
 CREATE INDEX IF NOT EXISTS idx_access_user ON file_access_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_access_role ON file_access_rules(role);
+CREATE INDEX IF NOT EXISTS idx_access_group ON file_access_rules(group_id);
+
+-- Signed, expiring links for people without an account; one file or a collection per link
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID REFERENCES files(id) ON DELETE CASCADE,
+  collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+  mode VARCHAR(20) NOT NULL CHECK (mode IN ('view', 'download')),
+  password_hash VARCHAR(255),
+  max_downloads INTEGER CHECK (max_downloads > 0),
+  download_count INTEGER NOT NULL DEFAULT 0,
+  note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  last_accessed_at TIMESTAMP,
+  CONSTRAINT share_links_target_check CHECK (num_nonnulls(file_id, collection_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_creator ON share_links(created_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_share_links_file ON share_links(file_id);
+CREATE INDEX IF NOT EXISTS idx_share_links_collection ON share_links(collection_id);
 
 -- ============================================================================
 -- TRIGGERS & FUNCTIONS
@@ -300,6 +621,15 @@ CREATE TRIGGER update_metadata_dc_timestamp BEFORE UPDATE ON metadata_dublin_cor
 CREATE TRIGGER update_metadata_premis_timestamp BEFORE UPDATE ON metadata_premis
   FOR EACH ROW EXECUTE FUNCTION update_timestamp();
 
+CREATE TRIGGER update_saved_searches_timestamp BEFORE UPDATE ON saved_searches
+  FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+CREATE TRIGGER update_collections_timestamp BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
+CREATE TRIGGER update_user_groups_timestamp BEFORE UPDATE ON user_groups
+  FOR EACH ROW EXECUTE FUNCTION update_timestamp();
+
 -- Auto-log file changes to audit trail
 CREATE OR REPLACE FUNCTION log_file_change()
 RETURNS TRIGGER AS $$
@@ -322,6 +652,82 @@ $$ LANGUAGE plpgsql;
 CREATE TRIGGER log_files_change AFTER INSERT OR UPDATE OR DELETE ON files
   FOR EACH ROW EXECUTE FUNCTION log_file_change();
 
+-- Full-text search: `archiwum` text search configuration and weighted search vectors
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'archiwum') THEN
+    CREATE TEXT SEARCH CONFIGURATION archiwum (COPY = simple);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION build_search_vector(p_file_id UUID, p_full_text TEXT, p_ocr_text TEXT)
+RETURNS TSVECTOR AS $$
+  SELECT
+    setweight(to_tsvector('archiwum', COALESCE(dc.title, '') || ' ' || f.filename), 'A') ||
+    setweight(to_tsvector('archiwum', COALESCE(dc.subject, '') || ' ' || COALESCE(dc.creator, '')), 'B') ||
+    setweight(to_tsvector('archiwum', COALESCE(f.description, '') || ' ' || COALESCE(dc.description, '')), 'C') ||
+    setweight(to_tsvector('archiwum', COALESCE(p_full_text, '') || ' ' || COALESCE(p_ocr_text, '')), 'D')
+  FROM files f
+  LEFT JOIN metadata_dublin_core dc ON dc.file_id = f.id
+  WHERE f.id = p_file_id
+$$ LANGUAGE sql STABLE;
+
+-- (Re)map the `archiwum` configuration and rebuild every search vector
+CREATE OR REPLACE FUNCTION configure_search_config(p_dictionary TEXT DEFAULT 'polish_ispell')
+RETURNS TEXT AS $$
+DECLARE
+  dictionaries TEXT := 'unaccent, simple';
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_ts_dict WHERE dictname = p_dictionary) THEN
+    dictionaries := quote_ident(p_dictionary) || ', simple';
+  END IF;
+
+  EXECUTE 'ALTER TEXT SEARCH CONFIGURATION archiwum ALTER MAPPING FOR '
+    || 'asciiword, asciihword, hword_asciipart, word, hword, hword_part WITH ' || dictionaries;
+
+  UPDATE search_index SET search_vector = build_search_vector(file_id, full_text, ocr_text);
+  RETURN dictionaries;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := build_search_vector(NEW.file_id, NEW.full_text, NEW.ocr_text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_file_search_vector()
+RETURNS TRIGGER AS $$
+DECLARE
+  target UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'files' THEN
+    target := NEW.id;
+  ELSE
+    target := NEW.file_id;
+  END IF;
+
+  UPDATE search_index
+  SET search_vector = build_search_vector(file_id, full_text, ocr_text)
+  WHERE file_id = target;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_search_index_vector BEFORE INSERT OR UPDATE OF full_text, ocr_text ON search_index
+  FOR EACH ROW EXECUTE FUNCTION update_search_vector();
+
+CREATE TRIGGER refresh_files_search_vector AFTER UPDATE OF filename, description ON files
+  FOR EACH ROW EXECUTE FUNCTION refresh_file_search_vector();
+
+CREATE TRIGGER refresh_dc_search_vector AFTER INSERT OR UPDATE OF title, subject, creator, description
+  ON metadata_dublin_core
+  FOR EACH ROW EXECUTE FUNCTION refresh_file_search_vector();
+
+SELECT configure_search_config();
+
 -- ============================================================================
 -- VIEWS
 -- ============================================================================
@@ -355,6 +761,21 @@ LEFT JOIN ratings r ON f.id = r.file_id
 LEFT JOIN comments c ON f.id = c.file_id AND c.is_deleted = FALSE
 GROUP BY f.id, dc.id, p.id;
 
+-- Collections with depth, ancestor path (root first, self last) and effective access level
+CREATE OR REPLACE VIEW v_collection_tree AS
+WITH RECURSIVE tree AS (
+  SELECT c.id, 0 as depth, ARRAY[c.id] as path,
+    COALESCE(c.access_level, 'public')::VARCHAR(50) as effective_access_level
+  FROM collections c
+  WHERE c.parent_id IS NULL
+  UNION ALL
+  SELECT c.id, t.depth + 1, t.path || c.id,
+    COALESCE(c.access_level, t.effective_access_level)::VARCHAR(50)
+  FROM collections c
+  JOIN tree t ON c.parent_id = t.id
+)
+SELECT * FROM tree;
+
 -- Active users
 CREATE OR REPLACE VIEW v_active_users AS
 SELECT id, username, email, role, last_login, created_at
@@ -372,16 +793,21 @@ LIMIT 1000;
 -- INDEXES (Performance optimization)
 -- ============================================================================
 
-CREATE INDEX IF NOT EXISTS idx_files_fts ON files
-  USING GIN (to_tsvector('english', COALESCE(filename || ' ' || description, filename)));
+CREATE INDEX IF NOT EXISTS idx_search_vector ON search_index USING GIN (search_vector);
+
+-- Fuzzy (trigram) matching and suggestions, accent-insensitive
+CREATE INDEX IF NOT EXISTS idx_dc_title_trgm ON metadata_dublin_core
+  USING GIN (f_unaccent(lower(title)) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_dc_creator_trgm ON metadata_dublin_core
+  USING GIN (f_unaccent(lower(creator)) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_dc_subject_trgm ON metadata_dublin_core
+  USING GIN (f_unaccent(lower(subject)) gin_trgm_ops);
 
 CREATE INDEX IF NOT EXISTS idx_comments_recent ON comments (file_id, created_at DESC)
   WHERE is_deleted = FALSE;
 
 CREATE INDEX IF NOT EXISTS idx_audit_recent ON audit_log (created_at DESC);
 
-CREATE INDEX IF NOT EXISTS idx_search_fts ON search_index USING GIN (to_tsvector('english', full_text));
-
 -- ============================================================================
 -- GRANTS (Role-based permissions)
 -- ============================================================================
@@ -21,12 +21,15 @@ import {
 import { initializeLogger } from './utils/logger'
 import EncryptionService from './services/encryption'
 import FileStorageUtil from './utils/fileStorage'
+import { initializeStorage } from './storage'
 import SchedulerService from './services/scheduler'
+import IngestService from './services/ingest'
+import { IngestJob, IngestProgress } from './types'
 // import FileService from './services/files' // Not used - using REST API instead
 import fs from 'fs/promises'
 import crypto from 'crypto'
 import { existsSync, mkdirSync } from 'fs'
-import { extname, basename } from 'path'
+import { extname } from 'path'
 import path from 'path'
 
 // ============================================================================
@@ -71,6 +74,7 @@ const initializeExpressServer = async (): Promise<void> => {
 
     // Initialize storage
     FileStorageUtil.initialize()
+    await initializeStorage()
 
     // Initialize logger
     initializeLogger()
@@ -136,8 +140,9 @@ const initializeExpressServer = async (): Promise<void> => {
       cors({
         origin: '*', // Allow all origins (safe for Electron + localhost)
         credentials: true,
-        methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization']
+        methods: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'Upload-Offset', 'X-Share-Password'],
+        exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length']
       })
     )
 
@@ -253,11 +258,24 @@ const setupFileProtocol = (): void => {
 // ============================================================================
 
 const setupIPCHandlers = (): void => {
-  // Legacy support - redirect to API
-  ipcMain.handle('scan-directory', async () => {
+  // Folder picker for batch ingest - the ingest itself runs through POST /api/ingest/jobs
+  ipcMain.handle('select-directory', async () => {
     const { canceled, filePaths } = await dialog.showOpenDialog({ properties: ['openDirectory'] })
-    if (canceled || filePaths.length === 0) return []
-    return scanFolderForArchive(filePaths[0])
+    if (canceled || filePaths.length === 0) return null
+    await FileStorageUtil.allowImportFolder(filePaths[0])
+    return filePaths[0]
+  })
+
+  // Forward ingest progress to every window
+  IngestService.events.on('progress', (progress: IngestProgress) => {
+    BrowserWindow.getAllWindows().forEach((window) => {
+      window.webContents.send('ingest-progress', progress)
+    })
+  })
+  IngestService.events.on('finished', (job: IngestJob) => {
+    BrowserWindow.getAllWindows().forEach((window) => {
+      window.webContents.send('ingest-finished', job)
+    })
   })
 
   ipcMain.handle('open-file', async (_, filePath: string) => {
@@ -347,51 +365,6 @@ const setupIPCHandlers = (): void => {
   })
 }
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-const getMediaType = (filename: string): string => {
-  const ext = extname(filename).toLowerCase()
-  if (['.pdf', '.txt', '.doc', '.docx', '.epub'].includes(ext)) return 'teksty'
-  if (['.mp3', '.wav', '.flac', '.ogg'].includes(ext)) return 'audio'
-  if (['.mp4', '.mkv', '.avi', '.mov', '.webm'].includes(ext)) return 'filmy'
-  if (['.iso', '.bin', '.cue', '.exe', '.img'].includes(ext)) return 'oprogramowanie'
-  if (['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp'].includes(ext)) return 'obrazy'
-  return 'inne'
-}
-
-const generateFileHash = async (filePath: string): Promise<string> => {
-  const fileBuffer = await fs.readFile(filePath)
-  return crypto.createHash('sha256').update(fileBuffer).digest('hex')
-}
-
-const scanFolderForArchive = async (folderPath: string): Promise<Record<string, unknown>[]> => {
-  const items = await fs.readdir(folderPath, { withFileTypes: true })
-  const archiveItems: Array<Record<string, unknown>> = []
-
-  for (const item of items) {
-    if (!item.isDirectory()) {
-      const filePath = join(folderPath, item.name)
-      const fileHash = await generateFileHash(filePath)
-      const mediaType = getMediaType(item.name)
-
-      archiveItems.push({
-        id: fileHash,
-        title: basename(item.name, extname(item.name)),
-        filePath,
-        mediaType,
-        coverColor: `bg-gradient-to-br from-slate-600 to-slate-800`,
-        description: `Plik: ${item.name}`,
-        a11yDescription: `Zarchiwizowany plik: ${item.name}`,
-        rating: 0
-      })
-    }
-  }
-
-  return archiveItems
-}
-
 // ============================================================================
 // APP LIFECYCLE
 // ============================================================================
@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from 'express'
 import { IncomingHttpHeaders } from 'http'
+import jwt from 'jsonwebtoken'
 import AuthService from '../services/auth'
-import { JWTPayload } from '../types'
+import AccessService from '../services/access'
+import { FilePermission, JWTPayload } from '../types'
 import { getLogger } from '../utils/logger'
+import { getClientIdentifier } from './rateLimiter'
 import { AppError } from '../utils/errors'
 
 const logger = getLogger('Auth')
@@ -17,13 +20,13 @@ export interface AuthenticatedRequest extends Request {
 }
 
 /**
- * JWT Authentication middleware
+ * JWT Authentication middleware; the token's session must still be open (see AuthService.verifySession)
  */
-export const authenticate = (
+export const authenticate = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const authorizationHeader = (req.headers as Record<string, string | string[] | undefined>)
       .authorization
@@ -43,19 +46,39 @@ export const authenticate = (
 
     const token = authHeader.substring(7)
     const payload = AuthService.verifyToken(token)
+    await AuthService.verifySession(payload, {
+      ipAddress: getClientIdentifier(req),
+      userAgent: req.get('user-agent')
+    })
 
     req.user = payload as JWTPayload
     req.token = token
-    next()
-  } catch {
-    res.status(401).json({
+  } catch (error) {
+    // Only a rejected token is the client's fault; anything else (e.g. the database being
+    // down) is a server error and its message stays in the log
+    if (error instanceof AppError || error instanceof jwt.JsonWebTokenError) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'INVALID_TOKEN',
+          message: (error as Error).message
+        }
+      })
+      return
+    }
+
+    logger.error({ error, path: req.path }, 'Authentication failed')
+    res.status(500).json({
       success: false,
       error: {
-        code: 'INVALID_TOKEN',
-        message: 'Invalid or expired token'
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error'
       }
     })
+    return
   }
+
+  next()
 }
 
 /**
@@ -82,6 +105,49 @@ export const authorize = (allowedRoles: string[]) => {
           message: 'Insufficient permissions'
         }
       })
+      return
+    }
+
+    next()
+  }
+}
+
+/**
+ * Per-file access control: the user must hold `permission` on the file in the :id parameter
+ * (role defaults, access level and grants; see AccessService); includeDeleted for routes
+ * acting on soft-deleted files
+ */
+export const authorizeFile = (permission: FilePermission, includeDeleted = false) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated'
+        }
+      })
+      return
+    }
+
+    try {
+      const fileId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      await AccessService.assertPermission(
+        fileId,
+        { userId: req.user.userId, role: req.user.role },
+        permission,
+        includeDeleted
+      )
+    } catch (error) {
+      const err = error as Error
+      res.status(err instanceof AppError ? err.status : 500).json({
+        success: false,
+        error: {
+          code: err instanceof AppError ? err.code : 'FORBIDDEN',
+          message: err.message
+        }
+      })
+      return
     }
 
     next()
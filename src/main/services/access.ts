@@ -0,0 +1,331 @@
+import { query } from '../database/db'
+import {
+  AccessRule,
+  AccessSubject,
+  ArchiveFile,
+  FileAccessEntry,
+  FilePermission,
+  UserRole
+} from '../types'
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors'
+import { effectivePermissions, readableLevels, ruleApplies, withImpliedRead } from '../utils/access'
+import AuditService from './audit'
+
+// Unexpired rules on the file `fileId` (an SQL expression) or on a collection above it
+const applicableRules = (fileId: string): string => `
+  SELECT r.* FROM file_access_rules r
+  WHERE (r.expires_at IS NULL OR r.expires_at > NOW())
+    AND (r.file_id = ${fileId} OR r.collection_id IN (
+      SELECT unnest(t.path) FROM collection_files cf
+      JOIN v_collection_tree t ON t.id = cf.collection_id
+      WHERE cf.file_id = ${fileId}))`
+
+const mapRule = (row: Record<string, unknown>): AccessRule => ({
+  id: row.id as string,
+  fileId: (row.file_id as string | null) ?? undefined,
+  collectionId: (row.collection_id as string | null) ?? undefined,
+  userId: (row.user_id as string | null) ?? undefined,
+  username: (row.username as string | null) ?? undefined,
+  role: (row.role as UserRole | null) ?? undefined,
+  groupId: (row.group_id as string | null) ?? undefined,
+  groupName: (row.group_name as string | null) ?? undefined,
+  permissions: withImpliedRead(
+    (
+      [
+        ['read', row.can_read],
+        ['download', row.can_download],
+        ['modify', row.can_modify],
+        ['delete', row.can_delete]
+      ] as Array<[FilePermission, unknown]>
+    )
+      .filter(([, granted]) => granted === true)
+      .map(([permission]) => permission)
+  ),
+  grantedBy: (row.granted_by as string | null) ?? undefined,
+  createdAt: (row.created_at as Date).toISOString(),
+  expiresAt: (row.expires_at as Date | null)?.toISOString()
+})
+
+/**
+ * AccessService: Per-file permissions from role defaults, access levels and user, group and
+ * role grants (see utils/access). Files a user may not read are reported as missing rather than forbidden.
+ */
+export class AccessService {
+  /**
+   * SQL condition limiting `alias` (a files row) to what the viewer may read, with its
+   * parameters numbered from paramIndex; no viewer means no limit
+   */
+  static readableCondition(
+    viewer: AccessSubject | undefined,
+    alias: string,
+    paramIndex: number
+  ): { sql: string; params: Array<string | string[]> } {
+    if (!viewer || viewer.role === UserRole.ADMIN) {
+      return { sql: 'TRUE', params: [] }
+    }
+    return {
+      sql: `(${alias}.access_level = ANY($${paramIndex}::text[]) OR EXISTS (
+        SELECT 1 FROM (${applicableRules(`${alias}.id`)}) r
+        WHERE (r.user_id = $${paramIndex + 1}::uuid OR r.role = $${paramIndex + 2}
+            OR r.group_id IN (
+              SELECT group_id FROM user_group_members WHERE user_id = $${paramIndex + 1}::uuid))
+          AND (r.can_read OR r.can_download OR r.can_modify OR r.can_delete)))`,
+      params: [readableLevels(viewer.role), viewer.userId, viewer.role]
+    }
+  }
+
+  /**
+   * A user's permissions on a file; deleted files count as missing unless includeDeleted
+   */
+  static async getPermissions(
+    fileId: string,
+    subject: AccessSubject,
+    includeDeleted = false
+  ): Promise<FilePermission[]> {
+    const file = await query<{ access_level: ArchiveFile['accessLevel'] }>(
+      `SELECT access_level FROM files WHERE id = $1 AND ($2 OR is_deleted = FALSE)`,
+      [fileId, includeDeleted]
+    )
+    if (file.rows.length === 0) {
+      throw new NotFoundError('File')
+    }
+
+    const groupIds = subject.groupIds ?? (await this.getGroupIds(subject.userId))
+    const rules = await query<Record<string, unknown>>(
+      `SELECT * FROM (${applicableRules('$1::uuid')}) r
+       WHERE r.user_id = $2::uuid OR r.role = $3 OR r.group_id = ANY($4::uuid[])`,
+      [fileId, subject.userId, subject.role, groupIds]
+    )
+    return effectivePermissions(
+      { ...subject, groupIds },
+      file.rows[0].access_level,
+      rules.rows.map(mapRule)
+    )
+  }
+
+  /**
+   * Throw unless the user holds `permission` on the file
+   */
+  static async assertPermission(
+    fileId: string,
+    subject: AccessSubject,
+    permission: FilePermission,
+    includeDeleted = false
+  ): Promise<void> {
+    const permissions = await this.getPermissions(fileId, subject, includeDeleted)
+    if (!permissions.includes('read')) {
+      throw new NotFoundError('File')
+    }
+    if (!permissions.includes(permission)) {
+      throw new AuthorizationError(`No ${permission} permission on this file`)
+    }
+  }
+
+  /**
+   * Throw unless the user holds `permission` on every one of the files (batch exports)
+   */
+  static async assertPermissionOnAll(
+    fileIds: string[],
+    subject: AccessSubject,
+    permission: FilePermission
+  ): Promise<void> {
+    for (const fileId of new Set(fileIds)) {
+      await this.assertPermission(fileId, subject, permission)
+    }
+  }
+
+  /**
+   * The files among `fileIds` the user holds `permission` on (exports of a whole collection)
+   */
+  static async filterPermitted(
+    fileIds: string[],
+    subject: AccessSubject,
+    permission: FilePermission
+  ): Promise<string[]> {
+    const permitted: string[] = []
+    for (const fileId of new Set(fileIds)) {
+      const permissions = await this.getPermissions(fileId, subject)
+      if (permissions.includes('read') && permissions.includes(permission)) {
+        permitted.push(fileId)
+      }
+    }
+    return permitted
+  }
+
+  /**
+   * Groups a user belongs to
+   */
+  static async getGroupIds(userId: string): Promise<string[]> {
+    const result = await query<{ group_id: string }>(
+      `SELECT group_id FROM user_group_members WHERE user_id = $1`,
+      [userId]
+    )
+    return result.rows.map((row) => row.group_id)
+  }
+
+  /**
+   * Rules on a file, a collection or for a group (no filter: all rules)
+   */
+  static async listRules(target: {
+    fileId?: string
+    collectionId?: string
+    groupId?: string
+  }): Promise<AccessRule[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT r.*, u.username, g.name as group_name FROM file_access_rules r
+       LEFT JOIN users u ON u.id = r.user_id
+       LEFT JOIN user_groups g ON g.id = r.group_id
+       WHERE ($1::uuid IS NULL OR r.file_id = $1) AND ($2::uuid IS NULL OR r.collection_id = $2)
+         AND ($3::uuid IS NULL OR r.group_id = $3)
+       ORDER BY r.created_at DESC`,
+      [target.fileId ?? null, target.collectionId ?? null, target.groupId ?? null]
+    )
+    return result.rows.map(mapRule)
+  }
+
+  /**
+   * Grant permissions on a file or a collection to a user, a role or a group
+   */
+  static async grant(
+    input: {
+      fileId?: string
+      collectionId?: string
+      userId?: string
+      role?: UserRole
+      groupId?: string
+      permissions: FilePermission[]
+      expiresAt?: string
+    },
+    grantedBy: string
+  ): Promise<AccessRule> {
+    if (Boolean(input.fileId) === Boolean(input.collectionId)) {
+      throw new ValidationError('Give either a file or a collection')
+    }
+    if ([input.userId, input.role, input.groupId].filter(Boolean).length !== 1) {
+      throw new ValidationError('Give exactly one of a user, a role or a group')
+    }
+
+    const target = await query(
+      input.fileId
+        ? `SELECT id FROM files WHERE id = $1 AND is_deleted = FALSE`
+        : `SELECT id FROM collections WHERE id = $1`,
+      [input.fileId ?? input.collectionId]
+    )
+    if (target.rows.length === 0) {
+      throw new NotFoundError(input.fileId ? 'File' : 'Collection')
+    }
+    if (input.userId) {
+      const user = await query(`SELECT id FROM users WHERE id = $1`, [input.userId])
+      if (user.rows.length === 0) {
+        throw new NotFoundError('User')
+      }
+    }
+    if (input.groupId) {
+      const group = await query(`SELECT id FROM user_groups WHERE id = $1`, [input.groupId])
+      if (group.rows.length === 0) {
+        throw new NotFoundError('Group')
+      }
+    }
+
+    const permissions = withImpliedRead(input.permissions)
+    const result = await query<Record<string, unknown>>(
+      `INSERT INTO file_access_rules (file_id, collection_id, user_id, role, group_id, can_read,
+                                      can_download, can_modify, can_delete, granted_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        input.fileId ?? null,
+        input.collectionId ?? null,
+        input.userId ?? null,
+        input.role ?? null,
+        input.groupId ?? null,
+        permissions.includes('read'),
+        permissions.includes('download'),
+        permissions.includes('modify'),
+        permissions.includes('delete'),
+        grantedBy,
+        input.expiresAt ?? null
+      ]
+    )
+    const rule = mapRule(result.rows[0])
+
+    await AuditService.logAction(
+      grantedBy,
+      'SHARE',
+      rule.fileId ? 'file' : 'collection',
+      (rule.fileId ?? rule.collectionId) as string,
+      { newValue: rule, reason: 'Access granted' }
+    )
+    return rule
+  }
+
+  /**
+   * Revoke a rule
+   */
+  static async revoke(ruleId: string, revokedBy: string): Promise<void> {
+    const result = await query<Record<string, unknown>>(
+      `DELETE FROM file_access_rules WHERE id = $1 RETURNING *`,
+      [ruleId]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Access rule')
+    }
+    const rule = mapRule(result.rows[0])
+
+    await AuditService.logAction(
+      revokedBy,
+      'SHARE',
+      rule.fileId ? 'file' : 'collection',
+      (rule.fileId ?? rule.collectionId) as string,
+      { previousValue: rule, reason: 'Access revoked' }
+    )
+  }
+
+  /**
+   * Every active user who can read a file, with their permissions and the grants behind them
+   */
+  static async whoCanAccess(fileId: string): Promise<FileAccessEntry[]> {
+    const file = await query<{ access_level: ArchiveFile['accessLevel'] }>(
+      `SELECT access_level FROM files WHERE id = $1 AND is_deleted = FALSE`,
+      [fileId]
+    )
+    if (file.rows.length === 0) {
+      throw new NotFoundError('File')
+    }
+
+    const rules = (
+      await query<Record<string, unknown>>(`SELECT * FROM (${applicableRules('$1::uuid')}) r`, [
+        fileId
+      ])
+    ).rows.map(mapRule)
+    const users = await query<{
+      id: string
+      username: string
+      role: UserRole
+      group_ids: string[]
+    }>(
+      `SELECT u.id, u.username, u.role,
+              COALESCE(array_agg(m.group_id) FILTER (WHERE m.group_id IS NOT NULL), '{}') as group_ids
+       FROM users u
+       LEFT JOIN user_group_members m ON m.user_id = u.id
+       WHERE u.is_active = TRUE
+       GROUP BY u.id
+       ORDER BY u.username`
+    )
+
+    return users.rows
+      .map((user) => {
+        const subject = { userId: user.id, role: user.role, groupIds: user.group_ids }
+        return {
+          userId: user.id,
+          username: user.username,
+          role: user.role,
+          permissions: effectivePermissions(subject, file.rows[0].access_level, rules),
+          ruleIds: rules.filter((rule) => ruleApplies(rule, subject)).map((rule) => rule.id)
+        }
+      })
+      .filter((entry) => entry.permissions.includes('read'))
+  }
+}
+
+export default AccessService
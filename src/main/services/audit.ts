@@ -8,7 +8,7 @@ export class AuditService {
   static async logAction(
     userId: string | null,
     action: 'CREATE' | 'READ' | 'UPDATE' | 'DELETE' | 'DOWNLOAD' | 'SHARE' | 'VALIDATE',
-    resourceType: 'file' | 'metadata' | 'user' | 'version',
+    resourceType: 'file' | 'metadata' | 'user' | 'version' | 'collection',
     resourceId: string,
     options?: {
       previousValue?: unknown
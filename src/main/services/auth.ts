@@ -1,7 +1,16 @@
 import jwt from 'jsonwebtoken'
 import bcryptjs from 'bcryptjs'
-import { query, withTransaction } from '../database/db'
-import { User, UserRole, JWTPayload } from '../types'
+import { PoolClient } from 'pg'
+import { query, queryWith, withTransaction } from '../database/db'
+import { AuthSession, ClientInfo, User, UserRole, JWTPayload } from '../types'
+import { AuthenticationError, NotFoundError } from '../utils/errors'
+import {
+  REFRESH_TOKEN_TTL_MS,
+  SESSION_TOUCH_INTERVAL_MS,
+  describeUserAgent,
+  refreshOutcome,
+  sessionRejection
+} from '../utils/sessions'
 import AccountLockoutService from './accountLockout'
 import EncryptionService from './encryption'
 
@@ -11,7 +20,6 @@ if (!JWT_SECRET && process.env.NODE_ENV === 'production') {
 }
 const ACTUAL_JWT_SECRET = JWT_SECRET || 'dev-secret-change-in-production'
 // const JWT_EXPIRES_IN = '24h' // Not used - check expiration in token
-const REFRESH_TOKEN_EXPIRES_IN = '7d'
 
 let emailColumnsChecked = false
 let supportsEmailEncryption = false
@@ -57,7 +65,8 @@ export class AuthService {
     username: string,
     password: string,
     email?: string,
-    role: UserRole = UserRole.READER
+    role: UserRole = UserRole.READER,
+    client: ClientInfo = {}
   ): Promise<{ user: User; token: string; refreshToken: string }> {
     await checkEmailColumns()
     const passwordHash = await bcryptjs.hash(password, 10)
@@ -113,8 +122,7 @@ export class AuthService {
         : result.email
     }
 
-    const token = this.generateToken(normalizedUser)
-    const refreshToken = this.generateRefreshToken(normalizedUser)
+    const { token, refreshToken } = await this.startSession(normalizedUser, client)
     return { user: normalizedUser, token, refreshToken }
   }
 
@@ -123,7 +131,8 @@ export class AuthService {
    */
   static async login(
     username: string,
-    password: string
+    password: string,
+    client: ClientInfo = {}
   ): Promise<{ user: User; token: string; refreshToken: string }> {
     await checkEmailColumns()
     // Check if account is locked
@@ -185,8 +194,7 @@ export class AuthService {
       [user.id, 'LOGIN', 'user']
     )
 
-    const token = this.generateToken(normalizedUser)
-    const refreshToken = this.generateRefreshToken(normalizedUser)
+    const { token, refreshToken } = await this.startSession(normalizedUser, client)
 
     return { user: normalizedUser, token, refreshToken }
   }
@@ -199,20 +207,181 @@ export class AuthService {
       const decoded = jwt.verify(token, ACTUAL_JWT_SECRET) as unknown as JWTPayload
       return decoded
     } catch {
-      throw new Error('Invalid or expired token')
+      throw new AuthenticationError('Invalid or expired token')
     }
   }
 
   /**
-   * Generate new access token from refresh token
+   * Throw unless the session of an access token is still open, the account active and the
+   * role the one in the token; checked on every authenticated request, which also marks the
+   * session as used (at most once a minute)
    */
-  static refreshAccessToken(refreshToken: string): string {
-    try {
-      const decoded = jwt.verify(refreshToken, JWT_SECRET + '_refresh') as JWTPayload
-      return this.generateTokenRaw(decoded.userId, decoded.username, decoded.role)
-    } catch {
-      throw new Error('Invalid refresh token')
+  static async verifySession(payload: JWTPayload, client: ClientInfo = {}): Promise<void> {
+    if (!payload.sessionId) {
+      throw new AuthenticationError('Token has no session, log in again')
+    }
+    const result = await query<Record<string, unknown>>(
+      `SELECT s.revoked_at, s.last_used_at, u.is_active, u.role
+       FROM auth_sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.id = $1 AND s.user_id = $2`,
+      [payload.sessionId, payload.userId]
+    )
+    const row = result.rows[0]
+    const rejection = sessionRejection(
+      row && {
+        revokedAt: row.revoked_at as Date | null,
+        userActive: row.is_active === true,
+        role: row.role as UserRole
+      },
+      payload.role
+    )
+    if (rejection) {
+      throw new AuthenticationError(rejection)
+    }
+
+    if (Date.now() - (row.last_used_at as Date).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      await query(
+        `UPDATE auth_sessions SET last_used_at = NOW(), ip_address = COALESCE($2, ip_address)
+         WHERE id = $1`,
+        [payload.sessionId, client.ipAddress ?? null]
+      )
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and the next refresh token of the same
+   * session. A token that was already used revokes the session.
+   */
+  static async refreshAccessToken(
+    refreshToken: string,
+    requestClient: ClientInfo = {}
+  ): Promise<{ token: string; refreshToken: string }> {
+    const outcome = await withTransaction(async (client) => {
+      const result = await client.query<Record<string, unknown>>(
+        `SELECT rt.id, rt.session_id, rt.expires_at, rt.used_at, s.revoked_at,
+                u.id as user_id, u.username, u.role, u.is_active
+         FROM refresh_tokens rt
+         JOIN auth_sessions s ON s.id = rt.session_id
+         JOIN users u ON u.id = s.user_id
+         WHERE rt.token_hash = $1
+         FOR UPDATE OF rt, s`,
+        [EncryptionService.hash(refreshToken)]
+      )
+      if (result.rows.length === 0) {
+        return { action: 'invalid' as const }
+      }
+
+      const row = result.rows[0]
+      const sessionId = row.session_id as string
+      const userId = row.user_id as string
+      const action = refreshOutcome(
+        { usedAt: row.used_at as Date | null, expiresAt: row.expires_at as Date },
+        { revokedAt: row.revoked_at as Date | null, userActive: row.is_active === true }
+      )
+
+      if (action === 'reused') {
+        // Returned rather than thrown so the revocation is committed
+        await this.revokeSessions({ userId, sessionId }, 'reuse', null, client)
+        return { action }
+      }
+      if (action !== 'rotate') {
+        return { action }
+      }
+
+      await client.query(`UPDATE refresh_tokens SET used_at = NOW() WHERE id = $1`, [row.id])
+      await client.query(
+        `UPDATE auth_sessions SET last_used_at = NOW(), ip_address = COALESCE($2, ip_address),
+                                  user_agent = COALESCE($3, user_agent)
+         WHERE id = $1`,
+        [sessionId, requestClient.ipAddress ?? null, requestClient.userAgent ?? null]
+      )
+      await client.query(
+        `DELETE FROM refresh_tokens WHERE session_id = $1 AND expires_at < NOW()`,
+        [sessionId]
+      )
+      return {
+        action,
+        token: this.generateTokenRaw(
+          userId,
+          row.username as string,
+          row.role as UserRole,
+          sessionId
+        ),
+        refreshToken: await this.issueRefreshToken(sessionId, client)
+      }
+    })
+
+    switch (outcome.action) {
+      case 'rotate':
+        return { token: outcome.token, refreshToken: outcome.refreshToken }
+      case 'reused':
+        throw new Error('Refresh token was already used, the session has been revoked')
+      case 'expired':
+        throw new Error('Refresh token has expired')
+      case 'revoked':
+        throw new Error('Session has been revoked')
+      case 'disabled':
+        throw new Error('User account is disabled')
+      default:
+        throw new Error('Invalid refresh token')
+    }
+  }
+
+  /**
+   * End the session of the current access token
+   */
+  static async logout(sessionId: string, userId: string): Promise<void> {
+    await this.revokeSessions({ userId, sessionId }, 'logout', userId)
+  }
+
+  /**
+   * A user's sessions that can still be refreshed, most recently used first
+   */
+  static async listSessions(userId: string, currentSessionId?: string): Promise<AuthSession[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT s.* FROM auth_sessions s
+       WHERE s.user_id = $1 AND s.revoked_at IS NULL
+         AND EXISTS (
+           SELECT 1 FROM refresh_tokens rt
+           WHERE rt.session_id = s.id AND rt.used_at IS NULL AND rt.expires_at > NOW())
+       ORDER BY s.last_used_at DESC`,
+      [userId]
+    )
+    return result.rows.map((row) => ({
+      id: row.id as string,
+      device: describeUserAgent((row.user_agent as string | null) ?? undefined),
+      userAgent: (row.user_agent as string | null) ?? undefined,
+      ipAddress: (row.ip_address as string | null) ?? undefined,
+      createdAt: (row.created_at as Date).toISOString(),
+      lastUsedAt: (row.last_used_at as Date).toISOString(),
+      current: row.id === currentSessionId
+    }))
+  }
+
+  /**
+   * Sign out one session of a user, by the user themselves or by an admin
+   */
+  static async revokeSession(userId: string, sessionId: string, revokedBy: string): Promise<void> {
+    const revoked = await this.revokeSessions(
+      { userId, sessionId },
+      revokedBy === userId ? 'user' : 'admin',
+      revokedBy
+    )
+    if (revoked === 0) {
+      throw new NotFoundError('Session')
+    }
+  }
+
+  /**
+   * Revoke every open session of a user (admin function); returns how many there were
+   */
+  static async revokeAllSessions(userId: string, revokedBy: string): Promise<number> {
+    const user = await query('SELECT id FROM users WHERE id = $1', [userId])
+    if (user.rows.length === 0) {
+      throw new NotFoundError('User')
     }
+    return this.revokeSessions({ userId }, 'admin', revokedBy)
   }
 
   /**
@@ -358,37 +527,117 @@ export class AuthService {
     return result.rows as unknown as User[]
   }
 
+  /**
+   * Plain e-mail address of a user (decrypted when stored encrypted)
+   */
+  static async getUserEmail(userId: string): Promise<string | undefined> {
+    await checkEmailColumns()
+    const result = await query<Record<string, unknown>>(
+      `SELECT ${supportsEmailEncryption ? 'email_encrypted, ' : ''}email FROM users WHERE id = $1`,
+      [userId]
+    )
+    const row = result.rows[0]
+    if (!row) return undefined
+
+    // Accounts created before encryption only have the plain column
+    return (
+      decryptEmail(row.email_encrypted as string | null | undefined) ??
+      ((row.email as string | null) || undefined)
+    )
+  }
+
   // ========== PRIVATE METHODS ==========
 
-  private static generateToken(user: User): string {
-    return this.generateTokenRaw(user.id, user.username, user.role)
+  /**
+   * Start a session for a user who just logged in (or registered)
+   */
+  private static async startSession(
+    user: User,
+    requestClient: ClientInfo
+  ): Promise<{ token: string; refreshToken: string }> {
+    return withTransaction(async (client) => {
+      const session = await client.query<{ id: string }>(
+        `INSERT INTO auth_sessions (user_id, user_agent, ip_address) VALUES ($1, $2, $3)
+         RETURNING id`,
+        [user.id, requestClient.userAgent ?? null, requestClient.ipAddress ?? null]
+      )
+      const sessionId = session.rows[0].id
+      return {
+        token: this.generateTokenRaw(user.id, user.username, user.role, sessionId),
+        refreshToken: await this.issueRefreshToken(sessionId, client)
+      }
+    })
+  }
+
+  /**
+   * New refresh token of a session; only its hash is stored
+   */
+  private static async issueRefreshToken(sessionId: string, client: PoolClient): Promise<string> {
+    const refreshToken = EncryptionService.generateRandomKey(32)
+    await client.query(
+      `INSERT INTO refresh_tokens (session_id, token_hash, expires_at) VALUES ($1, $2, $3)`,
+      [sessionId, EncryptionService.hash(refreshToken), new Date(Date.now() + REFRESH_TOKEN_TTL_MS)]
+    )
+    return refreshToken
   }
 
-  private static generateTokenRaw(userId: string, username: string, role: UserRole): string {
+  /**
+   * Revoke a user's open sessions (one, with sessionId) and audit it; returns how many
+   */
+  private static async revokeSessions(
+    target: { userId: string; sessionId?: string },
+    reason: 'logout' | 'user' | 'reuse' | 'admin',
+    revokedBy: string | null,
+    client?: PoolClient
+  ): Promise<number> {
+    const result = await queryWith(
+      client,
+      `UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = $3, revoked_by = $4
+       WHERE user_id = $1 AND ($2::uuid IS NULL OR id = $2) AND revoked_at IS NULL`,
+      [target.userId, target.sessionId ?? null, reason, revokedBy]
+    )
+    const revoked = result.rowCount ?? 0
+    if (revoked > 0) {
+      await queryWith(
+        client,
+        `INSERT INTO audit_log (user_id, action, resource_type, resource_id, new_value, reason, success)
+         VALUES ($1, $2, $3, $4, $5, $6, TRUE)`,
+        [
+          revokedBy,
+          reason === 'logout' || reason === 'user' ? 'LOGOUT' : 'REVOKE_SESSION',
+          'user',
+          target.userId,
+          JSON.stringify({ sessionId: target.sessionId, sessions: revoked }),
+          {
+            logout: 'Logged out',
+            user: 'Session signed out by the user',
+            reuse: 'Refresh token reused, session revoked',
+            admin: target.sessionId ? 'Session revoked by admin' : 'All sessions revoked by admin'
+          }[reason]
+        ]
+      )
+    }
+    return revoked
+  }
+
+  private static generateTokenRaw(
+    userId: string,
+    username: string,
+    role: UserRole,
+    sessionId: string
+  ): string {
     return jwt.sign(
       {
         userId,
         username,
         role,
+        sessionId,
         iat: Math.floor(Date.now() / 1000),
         exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60 // 24 hours
       },
       ACTUAL_JWT_SECRET
     )
   }
-
-  private static generateRefreshToken(user: User): string {
-    return jwt.sign(
-      {
-        userId: user.id,
-        username: user.username,
-        role: user.role,
-        type: 'refresh'
-      },
-      ACTUAL_JWT_SECRET + '_refresh',
-      { expiresIn: REFRESH_TOKEN_EXPIRES_IN }
-    )
-  }
 }
 
 export default AuthService
@@ -2,7 +2,12 @@ import fs from 'fs/promises'
 import path from 'path'
 import { exec } from 'child_process'
 import { promisify } from 'util'
+import { createWriteStream } from 'fs'
+import { pipeline } from 'stream/promises'
+import { createGzip } from 'zlib'
 import AuditService from './audit'
+import { getStorageBackend } from '../storage'
+import TarStreamWriter from '../utils/tarStream'
 
 const execAsync = promisify(exec)
 
@@ -88,20 +93,42 @@ export class BackupService {
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
       const filename = `files_backup_${timestamp}.tar.gz`
       const filepath = path.join(this.backupDir, filename)
-      const storagePath = process.env.STORAGE_PATH || './storage'
 
-      // Create tar.gz archive
-      const command = `tar -czf "${filepath}" -C "${path.dirname(storagePath)}" "${path.basename(storagePath)}"`
-
-      await execAsync(command)
+      // Stream every stored object through the storage backend into a tar.gz archive
+      const backend = getStorageBackend()
+      const gzip = createGzip()
+      const written = pipeline(gzip, createWriteStream(filepath))
+      const tar = new TarStreamWriter(gzip)
+      let filesCount = 0
+
+      try {
+        for await (const object of backend.list('objects/')) {
+          await tar.addEntry(
+            `storage/${object.key}`,
+            object.size,
+            await backend.get(object.key),
+            object.lastModified
+          )
+          filesCount++
+        }
+        await tar.finalize()
+      } catch (error) {
+        gzip.destroy(error as Error)
+        await written.catch(() => undefined)
+        throw error
+      }
+      await written
 
       const stats = await fs.stat(filepath)
 
-      console.log(`[Backup] Files backup created: ${filename} (${stats.size} bytes)`)
+      console.log(
+        `[Backup] Files backup created: ${filename} (${filesCount} objects, ${stats.size} bytes)`
+      )
 
       await AuditService.logAction(null, 'CREATE', 'version', 'files_backup', {
         newValue: {
           filename,
+          filesCount,
           size: stats.size,
           timestamp
         }
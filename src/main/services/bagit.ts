@@ -0,0 +1,485 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { basename, extname, isAbsolute, join, relative, resolve, sep } from 'path'
+import { Readable, Writable } from 'stream'
+import extractZip from 'extract-zip'
+import { query } from '../database/db'
+import { Accession, DublinCoreMetadata } from '../types'
+import FileStorageUtil from '../utils/fileStorage'
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors'
+import TarStreamWriter from '../utils/tarStream'
+import {
+  BAGIT_VERSION,
+  BagInfo,
+  ManifestEntry,
+  bagInfoToDublinCore,
+  buildBagInfo,
+  buildManifest,
+  buildPayloadOxum,
+  getBagInfoValue,
+  parseBagInfo,
+  parseManifest
+} from '../utils/bagit'
+import { getStorageBackend } from '../storage'
+import HashService from './hash'
+import FileService from './files'
+import MetadataService from './metadata'
+import AuditService from './audit'
+
+interface ValidatedBag {
+  root: string
+  name: string
+  bagInfo: BagInfo
+  payload: ManifestEntry[]
+}
+
+const getDublinCoreType = (mimeType: string): DublinCoreMetadata['dc:type'] => {
+  if (mimeType.startsWith('video/')) return 'video'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  if (mimeType.startsWith('image/')) return 'image'
+  return 'document'
+}
+
+const readTextFile = async (path: string): Promise<string | null> => {
+  return fs.readFile(path, 'utf8').catch(() => null)
+}
+
+/**
+ * BagItService: Import BagIt bags as accessions and export files as bags
+ */
+export class BagItService {
+  /**
+   * Import a bag (directory or .zip): validate it against manifest-sha256.txt and
+   * register every payload file as one accession
+   */
+  static async importBag(
+    bagPath: string,
+    user: { userId: string; username?: string },
+    options?: { accessLevel?: string }
+  ): Promise<{
+    accession: Accession
+    registered: number
+    existing: number
+    failed: Array<{ path: string; error: string }>
+  }> {
+    const sourcePath = await FileStorageUtil.resolveImportPath(bagPath)
+    const stats = await fs.stat(sourcePath).catch(() => null)
+    if (!stats) {
+      throw new ValidationError(`Bag not found: ${bagPath}`)
+    }
+
+    // Zipped bags are extracted into the temp dir, so their files are moved (not copied) on ingest
+    let workDir: string | null = null
+    try {
+      let bagRoot = sourcePath
+      if (stats.isFile()) {
+        if (extname(sourcePath).toLowerCase() !== '.zip') {
+          throw new ValidationError('Bag must be a directory or a .zip file')
+        }
+        workDir = join(FileStorageUtil.getTempDir(), 'bags', crypto.randomUUID())
+        await extractZip(sourcePath, { dir: workDir })
+        bagRoot = await this.locateBagRoot(workDir)
+      }
+
+      const bag = await this.validateBag(bagRoot, basename(bagPath, extname(bagPath)))
+      return await this.registerBag(bag, user, options)
+    } finally {
+      if (workDir) {
+        await fs.rm(workDir, { recursive: true, force: true }).catch((e) => {
+          console.error('[BagIt] Failed to remove extracted bag:', e)
+        })
+      }
+    }
+  }
+
+  /**
+   * Get an accession with its files
+   */
+  static async getAccession(accessionId: string): Promise<Accession> {
+    const result = await query<Record<string, unknown>>(`SELECT * FROM accessions WHERE id = $1`, [
+      accessionId
+    ])
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Accession')
+    }
+
+    const files = await query<{ file_id: string; original_path: string }>(
+      `SELECT file_id, original_path FROM accession_files
+       WHERE accession_id = $1 ORDER BY original_path`,
+      [accessionId]
+    )
+
+    const row = result.rows[0]
+    return {
+      id: row.id as string,
+      sourceType: row.source_type as Accession['sourceType'],
+      sourceName: (row.source_name as string | null) ?? undefined,
+      packageInfo: (row.package_info as BagInfo) ?? {},
+      createdBy: (row.created_by as string | null) ?? undefined,
+      createdAt: (row.created_at as Date).toISOString(),
+      files: files.rows.map((f) => ({ fileId: f.file_id, originalPath: f.original_path }))
+    }
+  }
+
+  /**
+   * Stream a set of files as a tar-serialized bag, with DC and PREMIS XML as tag files
+   */
+  static async exportBag(
+    fileIds: string[],
+    output: Writable,
+    options?: { bagName?: string; bagInfo?: BagInfo; paths?: Map<string, string> }
+  ): Promise<void> {
+    if (fileIds.length === 0) {
+      throw new ValidationError('Nothing to export')
+    }
+
+    const result = await query<{
+      id: string
+      filename: string
+      file_hash: string
+      storage_key: string | null
+    }>(
+      `SELECT id, filename, file_hash, storage_key FROM files
+       WHERE id = ANY($1) AND is_deleted = FALSE`,
+      [fileIds]
+    )
+    if (result.rows.length !== new Set(fileIds).size) {
+      throw new NotFoundError('One or more files')
+    }
+
+    const backend = getStorageBackend()
+    const bagName = options?.bagName ?? `bag-${new Date().toISOString().slice(0, 10)}`
+    const usedPaths = new Set<string>()
+
+    const payload: Array<{ id: string; path: string; hash: string; key: string; size: number }> = []
+    for (const file of result.rows) {
+      const stat = file.storage_key ? await backend.stat(file.storage_key) : null
+      if (!file.storage_key || !stat) {
+        throw new Error(`File ${file.id} does not exist in storage`)
+      }
+
+      // Keep original package paths where known; prefix with the id on name clashes
+      let path = `data/${options?.paths?.get(file.id) ?? file.filename}`
+      if (usedPaths.has(path)) path = `data/${file.id}/${file.filename}`
+      usedPaths.add(path)
+
+      payload.push({
+        id: file.id,
+        path,
+        hash: file.file_hash,
+        key: file.storage_key,
+        size: stat.size
+      })
+    }
+
+    const tagFiles = new Map<string, Buffer>()
+    tagFiles.set(
+      'bagit.txt',
+      Buffer.from(`BagIt-Version: ${BAGIT_VERSION}\nTag-File-Character-Encoding: UTF-8\n`)
+    )
+    tagFiles.set(
+      'bag-info.txt',
+      Buffer.from(
+        buildBagInfo({
+          'Source-Organization': ['e-Archiwum'],
+          ...options?.bagInfo,
+          'Bagging-Date': [new Date().toISOString().slice(0, 10)],
+          'Payload-Oxum': [buildPayloadOxum(payload.map((p) => p.size))]
+        })
+      )
+    )
+    tagFiles.set(
+      'manifest-sha256.txt',
+      Buffer.from(buildManifest(payload.map((p) => ({ checksum: p.hash, path: p.path }))))
+    )
+    for (const file of payload) {
+      tagFiles.set(
+        `metadata/dc/${file.id}.xml`,
+        Buffer.from(await MetadataService.getDublinCoreXML(file.id))
+      )
+      tagFiles.set(
+        `metadata/premis/${file.id}.xml`,
+        Buffer.from(await MetadataService.getPremisXML(file.id))
+      )
+    }
+    tagFiles.set(
+      'tagmanifest-sha256.txt',
+      Buffer.from(
+        buildManifest(
+          [...tagFiles].map(([path, content]) => ({
+            checksum: HashService.calculateFileHash(content),
+            path
+          }))
+        )
+      )
+    )
+
+    const tar = new TarStreamWriter(output)
+    for (const [path, content] of tagFiles) {
+      await tar.addEntry(`${bagName}/${path}`, content.length, Readable.from([content]))
+    }
+    for (const file of payload) {
+      await tar.addEntry(`${bagName}/${file.path}`, file.size, await backend.get(file.key))
+    }
+    await tar.finalize()
+  }
+
+  /**
+   * Export an accession as a bag, restoring the original payload paths
+   */
+  static async exportAccession(accessionId: string, output: Writable): Promise<void> {
+    const accession = await this.getAccession(accessionId)
+    await this.exportBag(
+      accession.files.map((f) => f.fileId),
+      output,
+      {
+        bagName: `accession-${accession.id}`,
+        bagInfo: { 'External-Identifier': [accession.id] },
+        paths: new Map(
+          accession.files.map((f) => [f.fileId, f.originalPath.replace(/^data\//, '')])
+        )
+      }
+    )
+  }
+
+  /**
+   * Validate bag structure, payload completeness and SHA-256 checksums
+   */
+  private static async validateBag(root: string, name: string): Promise<ValidatedBag> {
+    const errors: string[] = []
+
+    // Nothing in a bag is read through a link: it could point anywhere on this machine
+    const symlinks = await this.findSymlinks(root, root)
+    if (symlinks.length > 0) {
+      throw new ValidationError(
+        'Bag contains symbolic links',
+        symlinks.map((path) => `Symbolic link: ${path}`)
+      )
+    }
+
+    const declaration = await readTextFile(join(root, 'bagit.txt'))
+    if (declaration === null) {
+      throw new ValidationError('Not a bag: bagit.txt is missing')
+    }
+
+    const manifestContent = await readTextFile(join(root, 'manifest-sha256.txt'))
+    if (manifestContent === null) {
+      throw new ValidationError('Bag has no manifest-sha256.txt')
+    }
+
+    const payload = parseManifest(manifestContent)
+    const listed = new Set(payload.map((entry) => entry.path))
+
+    for (const entry of payload) {
+      const filePath = this.resolveBagPath(root, entry.path)
+      if (!filePath || !entry.path.startsWith('data/')) {
+        errors.push(`Invalid payload path in manifest: ${entry.path}`)
+        continue
+      }
+
+      const exists = await fs.lstat(filePath).catch(() => null)
+      if (!exists?.isFile()) {
+        errors.push(`Missing payload file: ${entry.path}`)
+        continue
+      }
+
+      const currentHash = await HashService.calculateFileHashFromPath(filePath)
+      if (currentHash !== entry.checksum) {
+        errors.push(
+          `Checksum mismatch: ${entry.path} - manifest: ${entry.checksum}, current: ${currentHash}`
+        )
+      }
+    }
+
+    for (const path of await this.listFiles(join(root, 'data'), root)) {
+      if (!listed.has(path)) {
+        errors.push(`Payload file not in manifest: ${path}`)
+      }
+    }
+
+    // Tag manifest is optional, but must hold when present
+    const tagManifest = await readTextFile(join(root, 'tagmanifest-sha256.txt'))
+    if (tagManifest !== null) {
+      for (const entry of parseManifest(tagManifest)) {
+        const filePath = this.resolveBagPath(root, entry.path)
+        const content = filePath ? await fs.readFile(filePath).catch(() => null) : null
+        if (!content) {
+          errors.push(`Missing tag file: ${entry.path}`)
+        } else if (HashService.calculateFileHash(content) !== entry.checksum) {
+          errors.push(`Tag file checksum mismatch: ${entry.path}`)
+        }
+      }
+    }
+
+    const bagInfo = parseBagInfo((await readTextFile(join(root, 'bag-info.txt'))) ?? '')
+
+    const oxum = getBagInfoValue(bagInfo, 'Payload-Oxum')
+    if (oxum) {
+      const sizes = await Promise.all(
+        payload.map(async (entry) => {
+          const filePath = this.resolveBagPath(root, entry.path)
+          return filePath ? ((await fs.lstat(filePath).catch(() => null))?.size ?? 0) : 0
+        })
+      )
+      if (buildPayloadOxum(sizes) !== oxum) {
+        errors.push(`Payload-Oxum mismatch - bag-info: ${oxum}, actual: ${buildPayloadOxum(sizes)}`)
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Bag is not valid', errors)
+    }
+
+    return { root, name, bagInfo, payload }
+  }
+
+  /**
+   * Register validated payload files and group them into an accession
+   */
+  private static async registerBag(
+    bag: ValidatedBag,
+    user: { userId: string; username?: string },
+    options?: { accessLevel?: string }
+  ): Promise<{
+    accession: Accession
+    registered: number
+    existing: number
+    failed: Array<{ path: string; error: string }>
+  }> {
+    const dc = bagInfoToDublinCore(bag.bagInfo)
+
+    const accessionResult = await query<{ id: string }>(
+      `INSERT INTO accessions (source_type, source_name, package_info, created_by)
+       VALUES ('bagit', $1, $2, $3)
+       RETURNING id`,
+      [bag.name, JSON.stringify(bag.bagInfo), user.userId]
+    )
+    const accessionId = accessionResult.rows[0].id
+
+    let registered = 0
+    let existing = 0
+    const failed: Array<{ path: string; error: string }> = []
+
+    for (const entry of bag.payload) {
+      try {
+        const found = await query<{ id: string; is_deleted: boolean }>(
+          `SELECT id, is_deleted FROM files WHERE file_hash = $1`,
+          [entry.checksum]
+        )
+        // file_hash stays unique across deleted files, so their content cannot be registered again
+        if (found.rows[0]?.is_deleted) {
+          throw new ConflictError('Identical content belongs to a deleted file, restore it first')
+        }
+
+        let fileId: string
+        if (found.rows.length > 0) {
+          fileId = found.rows[0].id
+          existing++
+        } else {
+          const mimeType = FileStorageUtil.getMimeTypeFromFilename(entry.path)
+          const file = await FileService.registerFile(
+            this.resolveBagPath(bag.root, entry.path) as string,
+            entry.checksum,
+            mimeType,
+            user.userId,
+            {
+              title: basename(entry.path),
+              description: dc['dc:description'],
+              creator: dc['dc:creator'] || user.username,
+              language: dc['dc:language'],
+              accessLevel: options?.accessLevel,
+              dublinCore: {
+                ...dc,
+                'dc:title': basename(entry.path),
+                'dc:type': getDublinCoreType(mimeType),
+                'dc:source': `${dc['dc:source'] || bag.name}/${entry.path}`
+              }
+            }
+          )
+          await MetadataService.recordPremisEvent(
+            file.id,
+            'validation',
+            `SHA-256 verified against BagIt manifest of ${bag.name}`,
+            user.userId
+          )
+          fileId = file.id
+          registered++
+        }
+
+        await query(
+          `INSERT INTO accession_files (accession_id, file_id, original_path)
+           VALUES ($1, $2, $3)
+           ON CONFLICT DO NOTHING`,
+          [accessionId, fileId, entry.path]
+        )
+      } catch (error) {
+        failed.push({ path: entry.path, error: (error as Error).message })
+      }
+    }
+
+    await AuditService.logAction(user.userId, 'CREATE', 'file', accessionId, {
+      newValue: { bag: bag.name, registered, existing, failed: failed.length },
+      reason: 'BagIt accession imported',
+      success: failed.length === 0
+    })
+
+    return { accession: await this.getAccession(accessionId), registered, existing, failed }
+  }
+
+  /**
+   * Zips often wrap the bag in a single top-level directory
+   */
+  private static async locateBagRoot(dir: string): Promise<string> {
+    if (await readTextFile(join(dir, 'bagit.txt'))) return dir
+
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    const dirs = entries.filter((e) => e.isDirectory() && !e.name.startsWith('__MACOSX'))
+    if (dirs.length === 1 && (await readTextFile(join(dir, dirs[0].name, 'bagit.txt')))) {
+      return join(dir, dirs[0].name)
+    }
+
+    throw new ValidationError('Not a bag: bagit.txt is missing')
+  }
+
+  /**
+   * Resolve a manifest path inside the bag, rejecting paths that escape it
+   */
+  private static resolveBagPath(root: string, path: string): string | null {
+    const resolved = resolve(root, ...path.split('/'))
+    const rel = relative(root, resolved)
+    return rel.startsWith('..') || isAbsolute(rel) ? null : resolved
+  }
+
+  private static async listFiles(dir: string, root: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
+    const files: string[] = []
+    for (const entry of entries) {
+      const entryPath = join(dir, entry.name)
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(entryPath, root)))
+      } else if (entry.isFile()) {
+        files.push(relative(root, entryPath).split(sep).join('/'))
+      }
+    }
+    return files
+  }
+
+  /**
+   * Bag-relative paths of all symbolic links below a folder (links are not followed)
+   */
+  private static async findSymlinks(dir: string, root: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
+    const links: string[] = []
+    for (const entry of entries) {
+      const entryPath = join(dir, entry.name)
+      if (entry.isSymbolicLink()) {
+        links.push(relative(root, entryPath).split(sep).join('/'))
+      } else if (entry.isDirectory()) {
+        links.push(...(await this.findSymlinks(entryPath, root)))
+      }
+    }
+    return links
+  }
+}
+
+export default BagItService
@@ -0,0 +1,442 @@
+import { PoolClient } from 'pg'
+import { query, withTransaction } from '../database/db'
+import {
+  AccessSubject,
+  ArchiveFile,
+  Collection,
+  CollectionChildren,
+  CollectionLevel,
+  DublinCoreMetadata
+} from '../types'
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors'
+import { applyOrder, canContain } from '../utils/collections'
+import AuditService from './audit'
+import AccessService from './access'
+
+// Collection rows with their place in the tree and direct member counts
+const COLLECTION_SELECT = `SELECT c.*, t.depth, t.effective_access_level,
+    (SELECT COUNT(*) FROM collections ch WHERE ch.parent_id = c.id) as child_count,
+    (SELECT COUNT(*) FROM collection_files cf
+       JOIN files f ON f.id = cf.file_id
+       WHERE cf.collection_id = c.id AND f.is_deleted = FALSE) as file_count
+  FROM collections c
+  JOIN v_collection_tree t ON t.id = c.id`
+
+const mapCollection = (row: Record<string, unknown>): Collection => ({
+  id: row.id as string,
+  parentId: (row.parent_id as string | null) ?? undefined,
+  level: row.level as CollectionLevel,
+  title: row.title as string,
+  position: Number(row.position),
+  accessLevel: (row.access_level as Collection['accessLevel'] | null) ?? undefined,
+  effectiveAccessLevel: row.effective_access_level as Collection['effectiveAccessLevel'],
+  dublinCore: {
+    ...(row.dublin_core as Partial<DublinCoreMetadata> | null),
+    'dc:identifier': row.id as string,
+    'dc:title': row.title as string,
+    'dc:type': 'collection'
+  },
+  depth: Number(row.depth),
+  childCount: Number(row.child_count ?? 0),
+  fileCount: Number(row.file_count ?? 0),
+  createdBy: (row.created_by as string | null) ?? undefined,
+  createdAt: (row.created_at as Date).toISOString(),
+  updatedAt: (row.updated_at as Date).toISOString()
+})
+
+// Dublin Core fields kept in the collection's own record (identifier, title and type are fixed)
+const FIXED_DC_FIELDS = ['dc:identifier', 'dc:title', 'dc:type']
+
+const ownDublinCore = (dublinCore: Partial<DublinCoreMetadata> = {}): Partial<DublinCoreMetadata> =>
+  Object.fromEntries(
+    Object.entries(dublinCore).filter(([field]) => !FIXED_DC_FIELDS.includes(field))
+  )
+
+/**
+ * CollectionService: Fonds / series / file / item hierarchy with ordered file membership
+ * Access levels are inherited down the tree: a collection without its own level uses its
+ * parent's, and top-level collections default to public. Readers only see public collections.
+ */
+export class CollectionService {
+  /**
+   * Top-level collections
+   */
+  static async listRoots(accessLevel?: string): Promise<Collection[]> {
+    const result = await query<Record<string, unknown>>(
+      `${COLLECTION_SELECT}
+       WHERE c.parent_id IS NULL ${accessLevel ? 'AND t.effective_access_level = $1' : ''}
+       ORDER BY c.position, c.title`,
+      accessLevel ? [accessLevel] : []
+    )
+    return result.rows.map(mapCollection)
+  }
+
+  /**
+   * Get a collection; with accessLevel set, collections of any other effective level are hidden
+   */
+  static async get(id: string, accessLevel?: string): Promise<Collection> {
+    const result = await query<Record<string, unknown>>(
+      `${COLLECTION_SELECT}
+       WHERE c.id = $1 ${accessLevel ? 'AND t.effective_access_level = $2' : ''}`,
+      accessLevel ? [id, accessLevel] : [id]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Collection')
+    }
+    return mapCollection(result.rows[0])
+  }
+
+  /**
+   * Direct sub-collections and files of a collection, each in their stored order; accessLevel
+   * limits the sub-collections and viewer the files listed
+   */
+  static async getChildren(
+    id: string,
+    accessLevel?: string,
+    viewer?: AccessSubject
+  ): Promise<CollectionChildren> {
+    const collection = await this.get(id, accessLevel)
+
+    const ancestors = await query<Pick<Collection, 'id' | 'title' | 'level'>>(
+      `SELECT c.id, c.title, c.level
+       FROM v_collection_tree t
+       CROSS JOIN LATERAL unnest(t.path) WITH ORDINALITY AS a(id, depth)
+       JOIN collections c ON c.id = a.id
+       WHERE t.id = $1 AND a.id <> $1
+       ORDER BY a.depth`,
+      [id]
+    )
+
+    const collections = await query<Record<string, unknown>>(
+      `${COLLECTION_SELECT}
+       WHERE c.parent_id = $1 ${accessLevel ? 'AND t.effective_access_level = $2' : ''}
+       ORDER BY c.position, c.title`,
+      accessLevel ? [id, accessLevel] : [id]
+    )
+
+    const readable = AccessService.readableCondition(viewer, 'f', 2)
+    const files = await query<Record<string, unknown>>(
+      `SELECT f.id, f.filename, f.mime_type, f.file_size, f.access_level,
+              COALESCE(dc.title, f.filename) as title, cf.position
+       FROM collection_files cf
+       JOIN files f ON f.id = cf.file_id
+       LEFT JOIN metadata_dublin_core dc ON dc.file_id = f.id
+       WHERE cf.collection_id = $1 AND f.is_deleted = FALSE AND ${readable.sql}
+       ORDER BY cf.position, title`,
+      [id, ...readable.params]
+    )
+
+    return {
+      collection,
+      ancestors: ancestors.rows,
+      collections: collections.rows.map(mapCollection),
+      files: files.rows.map((row) => ({
+        id: row.id as string,
+        filename: row.filename as string,
+        mimeType: row.mime_type as string,
+        fileSize: Number(row.file_size),
+        accessLevel: row.access_level as ArchiveFile['accessLevel'],
+        title: row.title as string,
+        position: Number(row.position)
+      }))
+    }
+  }
+
+  /**
+   * Files in a collection and all collections below it that the viewer may read
+   */
+  static async getSubtreeFileIds(id: string, viewer?: AccessSubject): Promise<string[]> {
+    const readable = AccessService.readableCondition(viewer, 'f', 2)
+    const result = await query<{ id: string }>(
+      `SELECT DISTINCT f.id
+       FROM collection_files cf
+       JOIN v_collection_tree t ON t.id = cf.collection_id
+       JOIN files f ON f.id = cf.file_id
+       WHERE $1 = ANY(t.path) AND f.is_deleted = FALSE AND ${readable.sql}`,
+      [id, ...readable.params]
+    )
+    return result.rows.map((row) => row.id)
+  }
+
+  /**
+   * Collections a file belongs to
+   */
+  static async getFileCollections(fileId: string, accessLevel?: string): Promise<Collection[]> {
+    const result = await query<Record<string, unknown>>(
+      `${COLLECTION_SELECT}
+       JOIN collection_files m ON m.collection_id = c.id
+       WHERE m.file_id = $1 ${accessLevel ? 'AND t.effective_access_level = $2' : ''}
+       ORDER BY c.title`,
+      accessLevel ? [fileId, accessLevel] : [fileId]
+    )
+    return result.rows.map(mapCollection)
+  }
+
+  /**
+   * Create a collection at the end of its siblings
+   */
+  static async create(
+    input: {
+      parentId?: string
+      level: CollectionLevel
+      title: string
+      accessLevel?: string
+      dublinCore?: Partial<DublinCoreMetadata>
+    },
+    createdBy: string
+  ): Promise<Collection> {
+    const id = await withTransaction(async (client) => {
+      if (input.parentId) {
+        await this.checkParent(client, input.parentId, input.level)
+      }
+
+      const result = await client.query<{ id: string }>(
+        `INSERT INTO collections (parent_id, level, title, position, access_level, dublin_core,
+                                  created_by)
+         SELECT $1, $2, $3, COALESCE(MAX(position) + 1, 0), $4, $5, $6
+         FROM collections WHERE parent_id IS NOT DISTINCT FROM $1
+         RETURNING id`,
+        [
+          input.parentId ?? null,
+          input.level,
+          input.title,
+          input.accessLevel ?? null,
+          JSON.stringify(ownDublinCore(input.dublinCore)),
+          createdBy
+        ]
+      )
+      return result.rows[0].id
+    })
+
+    const collection = await this.get(id)
+    await AuditService.logAction(createdBy, 'CREATE', 'collection', id, {
+      newValue: collection,
+      reason: 'Collection created'
+    })
+    return collection
+  }
+
+  /**
+   * Change a collection; parentId moves it (null to the top level, at the end of its new
+   * siblings) and accessLevel null makes it inherit again
+   */
+  static async update(
+    id: string,
+    changes: {
+      title?: string
+      level?: CollectionLevel
+      accessLevel?: string | null
+      dublinCore?: Partial<DublinCoreMetadata>
+      parentId?: string | null
+    },
+    updatedBy: string
+  ): Promise<Collection> {
+    const previous = await this.get(id)
+
+    await withTransaction(async (client) => {
+      await client.query(`SELECT id FROM collections WHERE id = $1 FOR UPDATE`, [id])
+
+      const level = changes.level ?? previous.level
+      const parentId = changes.parentId === undefined ? previous.parentId : changes.parentId
+      const moved =
+        changes.parentId !== undefined && changes.parentId !== (previous.parentId ?? null)
+
+      if (parentId && (moved || changes.level)) {
+        await this.checkParent(client, parentId, level, id)
+      }
+      if (changes.level) {
+        const children = await client.query<{ level: CollectionLevel }>(
+          `SELECT DISTINCT level FROM collections WHERE parent_id = $1`,
+          [id]
+        )
+        if (children.rows.some((child) => !canContain(level, child.level))) {
+          throw new ValidationError(`A ${level} cannot contain the current sub-collections`)
+        }
+      }
+
+      await client.query(
+        `UPDATE collections SET
+          title = COALESCE($2, title),
+          level = $3,
+          access_level = CASE WHEN $4 THEN $5 ELSE access_level END,
+          dublin_core = COALESCE($6, dublin_core),
+          parent_id = $7,
+          position = CASE WHEN $8 THEN (
+            SELECT COALESCE(MAX(position) + 1, 0) FROM collections
+            WHERE parent_id IS NOT DISTINCT FROM $7
+          ) ELSE position END
+        WHERE id = $1`,
+        [
+          id,
+          changes.title ?? null,
+          level,
+          changes.accessLevel !== undefined,
+          changes.accessLevel ?? null,
+          changes.dublinCore ? JSON.stringify(ownDublinCore(changes.dublinCore)) : null,
+          parentId ?? null,
+          moved
+        ]
+      )
+    })
+
+    const collection = await this.get(id)
+    await AuditService.logAction(updatedBy, 'UPDATE', 'collection', id, {
+      previousValue: previous,
+      newValue: collection,
+      reason: 'Collection updated'
+    })
+    return collection
+  }
+
+  /**
+   * Delete a collection without sub-collections; its files stay in the archive
+   */
+  static async delete(id: string, deletedBy: string): Promise<void> {
+    const previous = await this.get(id)
+    if (previous.childCount > 0) {
+      throw new ConflictError('Move or delete the sub-collections first')
+    }
+
+    await query(`DELETE FROM collections WHERE id = $1`, [id])
+    await AuditService.logAction(deletedBy, 'DELETE', 'collection', id, {
+      previousValue: previous,
+      reason: 'Collection deleted'
+    })
+  }
+
+  /**
+   * Add files at the end of a collection (files already in it keep their place);
+   * returns the number of files added
+   */
+  static async addFiles(id: string, fileIds: string[], addedBy: string): Promise<number> {
+    await this.get(id)
+
+    const files = await query<{ id: string }>(
+      `SELECT id FROM files WHERE id = ANY($1::uuid[]) AND is_deleted = FALSE`,
+      [fileIds]
+    )
+    if (files.rows.length !== new Set(fileIds).size) {
+      throw new NotFoundError('One or more files')
+    }
+
+    const result = await withTransaction(async (client) => {
+      await client.query(`SELECT id FROM collections WHERE id = $1 FOR UPDATE`, [id])
+      return client.query(
+        `INSERT INTO collection_files (collection_id, file_id, position, added_by)
+         SELECT $1, n.file_id,
+           (SELECT COALESCE(MAX(position), -1) FROM collection_files WHERE collection_id = $1)
+             + n.ordinality,
+           $3
+         FROM unnest($2::uuid[]) WITH ORDINALITY AS n(file_id, ordinality)
+         ON CONFLICT DO NOTHING`,
+        [id, [...new Set(fileIds)], addedBy]
+      )
+    })
+
+    await AuditService.logAction(addedBy, 'UPDATE', 'collection', id, {
+      newValue: { added: fileIds },
+      reason: 'Files added to collection'
+    })
+    return result.rowCount ?? 0
+  }
+
+  /**
+   * Take a file out of a collection
+   */
+  static async removeFile(id: string, fileId: string, removedBy: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM collection_files WHERE collection_id = $1 AND file_id = $2`,
+      [id, fileId]
+    )
+    if (result.rowCount === 0) {
+      throw new NotFoundError('File in collection')
+    }
+
+    await AuditService.logAction(removedBy, 'UPDATE', 'collection', id, {
+      newValue: { removed: fileId },
+      reason: 'File removed from collection'
+    })
+  }
+
+  /**
+   * Reorder sub-collections and/or files; listed ids come first in the given order
+   */
+  static async reorder(
+    id: string,
+    order: { collections?: string[]; files?: string[] }
+  ): Promise<CollectionChildren> {
+    await this.get(id)
+
+    await withTransaction(async (client) => {
+      await client.query(`SELECT id FROM collections WHERE id = $1 FOR UPDATE`, [id])
+
+      if (order.collections) {
+        const current = await client.query<{ id: string }>(
+          `SELECT id FROM collections WHERE parent_id = $1 ORDER BY position, title`,
+          [id]
+        )
+        await client.query(
+          `UPDATE collections c SET position = n.ordinality - 1
+           FROM unnest($1::uuid[]) WITH ORDINALITY AS n(id, ordinality)
+           WHERE c.id = n.id`,
+          [
+            applyOrder(
+              current.rows.map((row) => row.id),
+              order.collections
+            )
+          ]
+        )
+      }
+
+      if (order.files) {
+        const current = await client.query<{ file_id: string }>(
+          `SELECT file_id FROM collection_files WHERE collection_id = $1 ORDER BY position`,
+          [id]
+        )
+        await client.query(
+          `UPDATE collection_files cf SET position = n.ordinality - 1
+           FROM unnest($2::uuid[]) WITH ORDINALITY AS n(file_id, ordinality)
+           WHERE cf.collection_id = $1 AND cf.file_id = n.file_id`,
+          [
+            id,
+            applyOrder(
+              current.rows.map((row) => row.file_id),
+              order.files
+            )
+          ]
+        )
+      }
+    })
+
+    return this.getChildren(id)
+  }
+
+  /**
+   * Check that a collection of `level` may go below `parentId`; when moving collection
+   * `movingId`, the parent must not be the collection itself or one of its descendants
+   */
+  private static async checkParent(
+    client: PoolClient,
+    parentId: string,
+    level: CollectionLevel,
+    movingId?: string
+  ): Promise<void> {
+    const parent = await client.query<{ level: CollectionLevel; path: string[] }>(
+      `SELECT c.level, t.path FROM collections c
+       JOIN v_collection_tree t ON t.id = c.id
+       WHERE c.id = $1`,
+      [parentId]
+    )
+    if (parent.rows.length === 0) {
+      throw new NotFoundError('Parent collection')
+    }
+    if (movingId && parent.rows[0].path.includes(movingId)) {
+      throw new ValidationError('A collection cannot be moved into itself or its descendants')
+    }
+    if (!canContain(parent.rows[0].level, level)) {
+      throw new ValidationError(`A ${parent.rows[0].level} cannot contain a ${level}`)
+    }
+  }
+}
+
+export default CollectionService
@@ -176,6 +176,22 @@ class EncryptionService {
     return this.hash(data, algorithm) === hash
   }
 
+  /**
+   * HMAC-SHA256 signature of data under the encryption key, base64url-encoded
+   */
+  static sign(data: string): string {
+    return crypto.createHmac('sha256', this.getKey()).update(data).digest('base64url')
+  }
+
+  /**
+   * Verify a signature from sign() in constant time
+   */
+  static verifySignature(data: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(data))
+    const given = Buffer.from(signature)
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given)
+  }
+
   /**
    * Generate random key suitable for encryption (for key management)
    */
@@ -0,0 +1,409 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { createWriteStream } from 'fs'
+import { join } from 'path'
+import { pipeline } from 'stream/promises'
+import { PoolClient } from 'pg'
+import { app } from 'electron'
+import extractZip from 'extract-zip'
+import { createWorker, Worker } from 'tesseract.js'
+import { query, queryWith } from '../database/db'
+import FileStorageUtil from '../utils/fileStorage'
+import {
+  MAX_TEXT_LENGTH,
+  OFFICE_TEXT_ENTRIES,
+  encodePnm,
+  extractKeywords,
+  normalizeText,
+  officeXmlToText
+} from '../utils/textExtraction'
+import StorageService from './storage'
+
+const MAX_ATTEMPTS = 3
+
+// Pages with less text than this are treated as scans and sent to OCR
+const MIN_PAGE_TEXT = 20
+
+const OCR_LANGUAGES = 'pol+eng'
+
+type ExtractionResult = {
+  fullText: string
+  ocrText: string
+  extractor: string
+}
+
+type PdfImage = {
+  width: number
+  height: number
+  kind: number // pdf.js ImageKind
+  data?: Uint8Array
+}
+
+type QueueRow = {
+  file_id: string
+  file_version: number | null
+  mime_type: string
+  storage_key: string | null
+}
+
+/**
+ * ExtractionService: Background text extraction and OCR feeding search_index
+ * search_index rows are the queue: registerFile/createVersion mark a file pending,
+ * a single in-process worker drains pending rows one at a time.
+ */
+export class ExtractionService {
+  private static draining: Promise<void> | null = null
+  private static ocrWorker: Promise<Worker> | null = null
+  private static ocrUsers = 0 // Queue drain and version text jobs holding the OCR worker
+  private static versionTexts: Promise<void> = Promise.resolve()
+  private static pendingVersionTexts = new Set<string>()
+
+  /**
+   * Queue a file (again) for extraction - a new version replaces the previous text
+   */
+  static async enqueue(fileId: string, client?: PoolClient): Promise<void> {
+    await queryWith(
+      client,
+      `INSERT INTO search_index (file_id, file_version, status, attempts, error_message, queued_at)
+       SELECT id, current_version, 'pending', 0, NULL, NOW() FROM files WHERE id = $1
+       ON CONFLICT (file_id) DO UPDATE SET
+         file_version = EXCLUDED.file_version,
+         status = 'pending',
+         attempts = 0,
+         error_message = NULL,
+         queued_at = NOW()`,
+      [fileId]
+    )
+  }
+
+  /**
+   * Recover jobs interrupted by a restart and start draining the queue (call once at startup)
+   */
+  static async start(): Promise<void> {
+    await query(`UPDATE search_index SET status = 'pending' WHERE status = 'processing'`)
+    await this.retryFailed()
+  }
+
+  /**
+   * Re-queue failed extractions that have attempts left
+   */
+  static async retryFailed(): Promise<void> {
+    await query(
+      `UPDATE search_index SET status = 'pending' WHERE status = 'failed' AND attempts < $1`,
+      [MAX_ATTEMPTS]
+    )
+    this.kick()
+  }
+
+  /**
+   * Make sure the worker is draining the queue (no-op while it already is)
+   */
+  static kick(): void {
+    if (this.draining) return
+
+    this.draining = this.drain()
+      .catch((error) => console.error('[Extraction] Worker crashed:', error))
+      .finally(() => {
+        this.draining = null
+      })
+  }
+
+  private static async drain(): Promise<void> {
+    await this.withOcrWorker(async () => {
+      let job = await this.claimNext()
+      while (job) {
+        await this.process(job)
+        job = await this.claimNext()
+      }
+    })
+  }
+
+  private static async claimNext(): Promise<QueueRow | null> {
+    const result = await query<QueueRow>(
+      `UPDATE search_index s
+       SET status = 'processing', attempts = s.attempts + 1
+       FROM files f
+       WHERE s.file_id = f.id
+         AND s.id = (
+           SELECT id FROM search_index WHERE status = 'pending'
+           ORDER BY queued_at LIMIT 1 FOR UPDATE SKIP LOCKED
+         )
+       RETURNING s.file_id, s.file_version, f.mime_type, f.storage_key`
+    )
+    return result.rows[0] ?? null
+  }
+
+  private static async process(job: QueueRow): Promise<void> {
+    try {
+      const extract = this.getExtractor(job.mime_type)
+      if (!extract) {
+        await this.finish(job, 'skipped', { fullText: '', ocrText: '', extractor: 'none' })
+        return
+      }
+
+      await this.finish(job, 'indexed', await this.runExtractor(job.storage_key, extract))
+    } catch (error) {
+      console.error(`[Extraction] ${job.file_id} failed:`, error)
+      await query(
+        `UPDATE search_index SET status = 'failed', error_message = $1
+         WHERE file_id = $2 AND status = 'processing'`,
+        [(error as Error).message, job.file_id]
+      )
+    }
+  }
+
+  /**
+   * Whether text can be extracted from a format at all
+   */
+  static canExtract(mimeType: string): boolean {
+    return this.getExtractor(mimeType) !== null
+  }
+
+  /**
+   * Extract the text of an earlier file version into file_versions.extracted_text in the
+   * background (one version at a time, a version already waiting is not queued twice)
+   */
+  static queueVersionText(fileId: string, versionNumber: number): void {
+    const key = `${fileId}:${versionNumber}`
+    if (this.pendingVersionTexts.has(key)) return
+    this.pendingVersionTexts.add(key)
+
+    this.versionTexts = this.versionTexts
+      .then(() => this.withOcrWorker(() => this.extractVersionText(fileId, versionNumber)))
+      .catch((error) =>
+        console.error(`[Extraction] ${fileId} version ${versionNumber} failed:`, error)
+      )
+      .finally(() => {
+        this.pendingVersionTexts.delete(key)
+      })
+  }
+
+  private static async extractVersionText(fileId: string, versionNumber: number): Promise<void> {
+    const version = await query<{ storage_key: string | null; mime_type: string | null }>(
+      `SELECT v.storage_key, COALESCE(v.mime_type, f.mime_type) AS mime_type
+       FROM file_versions v JOIN files f ON f.id = v.file_id
+       WHERE v.file_id = $1 AND v.version_number = $2 AND v.extracted_text IS NULL`,
+      [fileId, versionNumber]
+    )
+    const row = version.rows[0]
+    const extract = row?.mime_type ? this.getExtractor(row.mime_type) : null
+    if (!row?.storage_key || !extract) return
+
+    const result = await this.runExtractor(row.storage_key, extract)
+    await query(
+      `UPDATE file_versions SET extracted_text = $1 WHERE file_id = $2 AND version_number = $3`,
+      [[result.fullText, result.ocrText].filter(Boolean).join('\n\n'), fileId, versionNumber]
+    )
+  }
+
+  private static async runExtractor(
+    storageKey: string | null,
+    extract: (filePath: string, workPath: string) => Promise<ExtractionResult>
+  ): Promise<ExtractionResult> {
+    const workPath = join(FileStorageUtil.getTempDir(), 'extract', crypto.randomUUID())
+
+    try {
+      await fs.mkdir(workPath, { recursive: true })
+      const filePath = join(workPath, 'object')
+      await pipeline(await StorageService.openObject(storageKey), createWriteStream(filePath))
+
+      return await extract(filePath, workPath)
+    } finally {
+      await fs.rm(workPath, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+
+  /**
+   * Store the result - unless the file was re-queued (new version) in the meantime
+   */
+  private static async finish(
+    job: QueueRow,
+    status: 'indexed' | 'skipped',
+    result: ExtractionResult
+  ): Promise<void> {
+    const text = `${result.fullText}\n${result.ocrText}`
+    await query(
+      `UPDATE search_index s SET
+         status = $1,
+         full_text = $2,
+         ocr_text = $3,
+         extracted_keywords = $4,
+         extractor = $5,
+         language = COALESCE(dc.language, s.language),
+         error_message = NULL,
+         indexed_at = NOW()
+       FROM files f
+       LEFT JOIN metadata_dublin_core dc ON dc.file_id = f.id
+       WHERE s.file_id = $6 AND f.id = s.file_id AND s.status = 'processing'`,
+      [
+        status,
+        result.fullText || null,
+        result.ocrText || null,
+        extractKeywords(text),
+        result.extractor,
+        job.file_id
+      ]
+    )
+  }
+
+  private static getExtractor(
+    mimeType: string
+  ): ((filePath: string, workPath: string) => Promise<ExtractionResult>) | null {
+    if (mimeType === 'application/pdf') return (filePath) => this.extractPdf(filePath)
+    if (mimeType === 'text/plain') return (filePath) => this.extractPlainText(filePath)
+    if (mimeType in OFFICE_TEXT_ENTRIES) {
+      return (filePath, workPath) => this.extractOffice(filePath, workPath, mimeType)
+    }
+    if (mimeType.startsWith('image/')) return (filePath) => this.extractImage(filePath)
+    return null
+  }
+
+  private static async extractPlainText(filePath: string): Promise<ExtractionResult> {
+    const handle = await fs.open(filePath, 'r')
+    try {
+      const buffer = Buffer.alloc(MAX_TEXT_LENGTH * 4)
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0)
+      const fullText = normalizeText(buffer.subarray(0, bytesRead).toString('utf8'))
+      return { fullText, ocrText: '', extractor: 'text' }
+    } finally {
+      await handle.close()
+    }
+  }
+
+  private static async extractOffice(
+    filePath: string,
+    workPath: string,
+    mimeType: string
+  ): Promise<ExtractionResult> {
+    const dir = join(workPath, 'unpacked')
+    await extractZip(filePath, { dir })
+
+    const pattern = OFFICE_TEXT_ENTRIES[mimeType]
+    const entries = (await this.listFiles(dir, dir))
+      .filter((entry) => pattern.test(entry))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+
+    const parts: string[] = []
+    for (const entry of entries) {
+      parts.push(officeXmlToText(await fs.readFile(join(dir, entry), 'utf8')))
+    }
+    return { fullText: normalizeText(parts.join('\n\n')), ocrText: '', extractor: 'office' }
+  }
+
+  private static async extractImage(filePath: string): Promise<ExtractionResult> {
+    const ocrText = await this.recognize(await fs.readFile(filePath))
+    return { fullText: '', ocrText, extractor: 'ocr' }
+  }
+
+  /**
+   * PDF text layer page by page; pages without one are OCRed from their embedded images
+   */
+  private static async extractPdf(filePath: string): Promise<ExtractionResult> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(await fs.readFile(filePath)),
+      isOffscreenCanvasSupported: false,
+      useSystemFonts: false
+    }).promise
+
+    const textPages: string[] = []
+    const ocrPages: string[] = []
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber)
+        const content = await page.getTextContent()
+        // Keep the text layer's line breaks, so versions can be compared line by line
+        const pageText = normalizeText(
+          content.items
+            .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+            .join('')
+        )
+
+        if (pageText.length >= MIN_PAGE_TEXT) {
+          textPages.push(pageText)
+          continue
+        }
+
+        const operators = await page.getOperatorList()
+        for (let i = 0; i < operators.fnArray.length; i++) {
+          if (operators.fnArray[i] !== pdfjs.OPS.paintImageXObject) continue
+
+          const name = operators.argsArray[i][0] as string
+          const objs = name.startsWith('g_') ? page.commonObjs : page.objs
+          const image = await new Promise<PdfImage | null>((resolve) => objs.get(name, resolve))
+          if (!image?.data) continue
+
+          ocrPages.push(
+            await this.recognize(encodePnm(image.width, image.height, image.kind, image.data))
+          )
+        }
+        page.cleanup()
+      }
+    } finally {
+      await pdf.destroy()
+    }
+
+    return {
+      fullText: normalizeText(textPages.join('\n\n')),
+      ocrText: normalizeText(ocrPages.join('\n\n')),
+      extractor: ocrPages.length > 0 ? 'pdf+ocr' : 'pdf'
+    }
+  }
+
+  /**
+   * OCR in Polish and English; the worker is shared until its last user is done
+   */
+  private static async recognize(image: Buffer): Promise<string> {
+    if (!this.ocrWorker) {
+      this.ocrWorker = createWorker(OCR_LANGUAGES, undefined, {
+        cachePath: join(app.getPath('userData'), 'tessdata'),
+        // Offline installations point this at a folder with pol/eng .traineddata files
+        ...(process.env.TESSDATA_PATH ? { langPath: process.env.TESSDATA_PATH } : {})
+      })
+    }
+
+    const worker = await this.ocrWorker
+    const result = await worker.recognize(image)
+    return normalizeText(result.data.text)
+  }
+
+  /**
+   * Run work that may OCR; the shared worker is terminated once its last user is done
+   */
+  private static async withOcrWorker<T>(work: () => Promise<T>): Promise<T> {
+    this.ocrUsers++
+    try {
+      return await work()
+    } finally {
+      this.ocrUsers--
+      if (this.ocrUsers === 0) await this.releaseOcrWorker()
+    }
+  }
+
+  private static async releaseOcrWorker(): Promise<void> {
+    if (!this.ocrWorker) return
+    const worker = this.ocrWorker
+    this.ocrWorker = null
+    await worker.then((w) => w.terminate()).catch(() => {})
+  }
+
+  private static async listFiles(dir: string, root: string): Promise<string[]> {
+    const files: string[] = []
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const entryPath = join(dir, entry.name)
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(entryPath, root)))
+      } else if (entry.isFile()) {
+        files.push(
+          entryPath
+            .slice(root.length + 1)
+            .split('\\')
+            .join('/')
+        )
+      }
+    }
+    return files
+  }
+}
+
+export default ExtractionService
@@ -1,9 +1,103 @@
 import { query, withTransaction } from '../database/db'
-import { ArchiveFile, FileVersion, SearchQuery, SearchResult } from '../types'
-// import crypto from 'crypto' // Not used
+import {
+  AccessSubject,
+  ArchiveFile,
+  DublinCoreMetadata,
+  FacetBucket,
+  FileVersion,
+  SearchFacet,
+  SearchHit,
+  SearchQuery,
+  SearchResult,
+  SearchSuggestion,
+  VersionDiff
+} from '../types'
+import crypto from 'crypto'
 import fs from 'fs/promises'
+import { createWriteStream } from 'fs'
+import { join } from 'path'
+import { pipeline } from 'stream/promises'
 import MetadataService from './metadata'
 import AuditService from './audit'
+import AccessService from './access'
+import StorageService from './storage'
+import ReplicationService from './replication'
+import FormatIdentificationService from './formatIdentification'
+import ExtractionService from './extraction'
+import HashService from './hash'
+import FileStorageUtil from '../utils/fileStorage'
+import { ConflictError, NotFoundError } from '../utils/errors'
+import { SEARCH_FACETS } from '../utils/facets'
+import { buildHunks, diffFields, diffLines } from '../utils/diff'
+import { buildCorrection, escapeLikePattern, tokenizeSearchText } from '../utils/suggestions'
+import {
+  QueryNode,
+  SEARCH_CONFIG,
+  compileSearchQuery,
+  parseSearchQuery
+} from '../utils/searchQuery'
+
+// Only the start of long extracted texts is scanned for snippets
+const SNIPPET_SOURCE_LENGTH = 100_000
+const SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2'
+
+// Fewer exact hits than this widen the search to fuzzy matches and ask "did you mean"
+const FUZZY_MIN_HITS = 5
+
+const SUGGEST_LIMIT = 10
+
+// Diff lines returned for a version comparison (whole hunks, so slightly more)
+const DIFF_MAX_LINES = 5000
+
+// Buckets returned per facet, most frequent first
+const FACET_LIMIT = 25
+
+// Facet value/label expressions over files f, metadata_dublin_core dc and metadata_premis p
+const FACET_SQL: Record<SearchFacet, { value: string; label?: string; join?: string }> = {
+  type: { value: 'dc.type' },
+  language: { value: 'dc.language' },
+  creator: { value: 'dc.creator' },
+  decade: { value: `(floor(date_part('year', dc.date_created) / 10) * 10)::int::text` },
+  accessLevel: { value: 'f.access_level' },
+  format: { value: 'COALESCE(p.format_puid, p.format_name)', label: 'MAX(p.format_name)' },
+  collection: {
+    value: 'col.id::text',
+    label: 'MAX(col.title)',
+    join: `JOIN collection_files cf ON cf.file_id = f.id
+         JOIN collections col ON col.id = cf.collection_id`
+  }
+}
+
+const SEARCH_JOINS = `LEFT JOIN metadata_dublin_core dc ON f.id = dc.file_id
+       LEFT JOIN metadata_premis p ON f.id = p.file_id
+       LEFT JOIN search_index s ON f.id = s.file_id`
+
+const mapVersion = (row: Record<string, unknown>): FileVersion => ({
+  id: row.id as string,
+  fileId: row.file_id as string,
+  versionNumber: Number(row.version_number),
+  fileHash: row.file_hash as string,
+  fileSize: row.file_size === null ? undefined : Number(row.file_size),
+  mimeType: (row.mime_type as string | null) ?? undefined,
+  storageBackend: (row.storage_backend as string | null) ?? undefined,
+  storageKey: (row.storage_key as string | null) ?? undefined,
+  restoredFrom: (row.restored_from as number | null) ?? undefined,
+  createdBy: row.created_by as string,
+  changeSummary: (row.change_summary as string | null) ?? undefined,
+  createdAt: (row.created_at as Date).toISOString(),
+  metadata: (row.change_details as FileVersion['metadata'] | null) ?? undefined,
+  dublinCore: (row.dublin_core as DublinCoreMetadata | null) ?? undefined
+})
+
+type SearchFilters = {
+  parsed?: QueryNode
+  hasQuery: boolean
+  tsQuery: string
+  advancedCondition?: string
+  conditions: string[]
+  facetConditions: Partial<Record<SearchFacet, string>>
+  params: Array<string | number | boolean | string[]>
+}
 
 export class FileService {
   /**
@@ -20,270 +114,793 @@ export class FileService {
       creator?: string
       language?: string
       accessLevel?: string
+      dublinCore?: Partial<DublinCoreMetadata> // Additional / inferred DC fields
     }
   ): Promise<ArchiveFile> {
     const filename = metadata?.title || filePath.split('/').pop() || 'unknown'
     const stats = await fs.stat(filePath)
 
-    return withTransaction(async (client) => {
-      // Create file record
-      const fileResult = await client.query<ArchiveFile>(
-        `INSERT INTO files (
-          filename, file_path, file_hash, mime_type, file_size,
-          created_by, access_level, description, a11y_description
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-        RETURNING *`,
-        [
-          filename,
-          filePath,
-          fileHash,
-          mimeType,
-          stats.size,
-          createdBy,
-          metadata?.accessLevel || 'public',
-          metadata?.description,
-          metadata?.description
-        ]
-      )
+    // Reject content that contradicts the declared type before anything is stored
+    const format = await FormatIdentificationService.verifyFile(filePath, mimeType)
 
-      const file = fileResult.rows[0]
+    // Move the upload into permanent storage together with the DB transaction
+    const registered = await StorageService.ingest(filePath, fileHash, (stored, copies) =>
+      withTransaction(async (client) => {
+        // Create file record
+        const fileResult = await client.query<ArchiveFile>(
+          `INSERT INTO files (
+            filename, file_path, storage_backend, storage_key, file_hash, mime_type, file_size,
+            created_by, access_level, description, a11y_description
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          RETURNING *`,
+          [
+            filename,
+            stored.location,
+            stored.backend,
+            stored.key,
+            fileHash,
+            mimeType,
+            stats.size,
+            createdBy,
+            metadata?.accessLevel || 'public',
+            metadata?.description,
+            metadata?.description
+          ]
+        )
 
-      // Create Dublin Core metadata
-      await MetadataService.createDublinCoreMetadata(file.id, {
-        'dc:title': filename,
-        'dc:creator': metadata?.creator || 'Unknown',
-        'dc:description': metadata?.description,
-        'dc:language': metadata?.language || 'pl',
-        'dc:format': mimeType
-      })
+        const file = fileResult.rows[0]
+
+        // Create Dublin Core metadata
+        await MetadataService.createDublinCoreMetadata(
+          file.id,
+          {
+            'dc:title': filename,
+            'dc:creator': metadata?.creator || 'Unknown',
+            'dc:description': metadata?.description,
+            'dc:language': metadata?.language || 'pl',
+            'dc:format': mimeType,
+            ...metadata?.dublinCore
+          },
+          client,
+          createdBy
+        )
+
+        // Create PREMIS metadata
+        await MetadataService.createPremisMetadata(file.id, fileHash, mimeType, format, client)
+
+        // Version 1 keeps pointing at the registered object when new versions are added
+        await client.query(
+          `INSERT INTO file_versions (
+            file_id, version_number, file_hash, file_size, created_by, change_summary,
+            storage_backend, storage_key, mime_type
+          ) VALUES ($1, 1, $2, $3, $4, 'Initial version', $5, $6, $7)`,
+          [file.id, fileHash, stats.size, createdBy, stored.backend, stored.key, mimeType]
+        )
+
+        // Track every stored copy for fixity checks
+        await ReplicationService.recordCopies(file.id, fileHash, copies, createdBy, client)
+
+        // Queue text extraction for search
+        await ExtractionService.enqueue(file.id, client)
 
-      // Create PREMIS metadata
-      await MetadataService.createPremisMetadata(file.id, fileHash, mimeType)
+        // Log to audit
+        await AuditService.logAction(createdBy, 'CREATE', 'file', file.id, {
+          newValue: file,
+          reason: 'File registered in archive'
+        })
 
-      // Log to audit
-      await AuditService.logAction(createdBy, 'CREATE', 'file', file.id, {
-        newValue: file,
-        reason: 'File registered in archive'
+        return file
       })
+    )
 
-      return file
-    })
+    ExtractionService.kick()
+    return registered
   }
 
   /**
    * Create new version of file
+   * The previous versions' objects stay in storage, addressable through file_versions.
    */
   static async createVersion(
     fileId: string,
     newFilePath: string,
     newFileHash: string,
     createdBy: string,
-    changeSummary?: string
+    changeSummary?: string,
+    options: { mimeType?: string; restoredFrom?: number } = {}
   ): Promise<FileVersion> {
-    return withTransaction(async (client) => {
-      // Get current file info
-      const fileResult = await client.query<{ current_version: number; previous_hash: string }>(
-        `SELECT current_version, file_hash as previous_hash FROM files WHERE id = $1`,
-        [fileId]
-      )
+    const stats = await fs.stat(newFilePath)
 
-      if (fileResult.rows.length === 0) {
-        throw new Error('File not found')
-      }
+    const current = await query<{ mime_type: string }>(
+      `SELECT mime_type FROM files WHERE id = $1 AND is_deleted = FALSE`,
+      [fileId]
+    )
+    if (current.rows.length === 0) {
+      throw new NotFoundError('File')
+    }
+    const mimeType = options.mimeType || current.rows[0].mime_type
 
-      const previousVersion = fileResult.rows[0].current_version
-      const newVersion = previousVersion + 1
-      const previousHash = fileResult.rows[0].previous_hash
-
-      const stats = await fs.stat(newFilePath)
-
-      // Create version record
-      const versionResult = await client.query<FileVersion>(
-        `INSERT INTO file_versions (
-          file_id, version_number, file_hash, file_size, created_by,
-          change_summary, change_details
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-        RETURNING *`,
-        [
-          fileId,
-          newVersion,
-          newFileHash,
-          stats.size,
-          createdBy,
-          changeSummary,
-          JSON.stringify({
-            previousHash,
-            previousSize: 0,
-            diffSize: stats.size,
-            formatChanged: false
-          })
-        ]
-      )
+    // file_hash is unique across the archive
+    const duplicate = await query(`SELECT id FROM files WHERE file_hash = $1 AND id <> $2`, [
+      newFileHash,
+      fileId
+    ])
+    if (duplicate.rows.length > 0) {
+      throw new ConflictError('Another file in the archive has identical content')
+    }
 
-      // Update file to new version
-      await client.query(
-        `UPDATE files SET
-          file_path = $1,
-          file_hash = $2,
-          file_size = $3,
-          current_version = $4,
-          updated_at = NOW()
-        WHERE id = $5`,
-        [newFilePath, newFileHash, stats.size, newVersion, fileId]
-      )
+    // Restored content was verified when it was first stored
+    if (options.restoredFrom === undefined) {
+      await FormatIdentificationService.verifyFile(newFilePath, mimeType)
+    }
 
-      // Record PREMIS event
-      await MetadataService.recordPremisEvent(
-        fileId,
-        'modification',
-        `Version ${newVersion} created: ${changeSummary || 'No description'}`,
-        createdBy
-      )
+    const version = await StorageService.ingest(newFilePath, newFileHash, (stored, copies) =>
+      withTransaction(async (client) => {
+        // Get current file info (locked, so concurrent versions get distinct numbers)
+        const fileResult = await client.query<{
+          current_version: number
+          previous_hash: string
+          previous_size: string | null
+          previous_mime_type: string
+        }>(
+          `SELECT current_version, file_hash as previous_hash, file_size as previous_size,
+             mime_type as previous_mime_type
+           FROM files WHERE id = $1 FOR UPDATE`,
+          [fileId]
+        )
+
+        if (fileResult.rows.length === 0) {
+          throw new NotFoundError('File')
+        }
+
+        const previousVersion = fileResult.rows[0].current_version
+        const newVersion = previousVersion + 1
+        const previousHash = fileResult.rows[0].previous_hash
+        const previousSize = Number(fileResult.rows[0].previous_size ?? 0)
 
-      // Audit log
-      await AuditService.logAction(createdBy, 'UPDATE', 'file', fileId, {
-        previousValue: { version: previousVersion },
-        newValue: { version: newVersion },
-        reason: changeSummary
+        // The superseded version keeps the Dublin Core record it was described with
+        await client.query(
+          `UPDATE file_versions SET dublin_core = $1 WHERE file_id = $2 AND version_number = $3`,
+          [
+            JSON.stringify(await MetadataService.getDublinCoreMetadata(fileId, client)),
+            fileId,
+            previousVersion
+          ]
+        )
+
+        // ...and its indexed text, so diffs against it need no extraction
+        await client.query(
+          `UPDATE file_versions v
+           SET extracted_text = concat_ws(E'\n\n', NULLIF(s.full_text, ''), NULLIF(s.ocr_text, ''))
+           FROM search_index s
+           WHERE v.file_id = $1 AND v.version_number = $2
+             AND s.file_id = v.file_id AND s.file_version = v.version_number AND s.status = 'indexed'`,
+          [fileId, previousVersion]
+        )
+
+        // Create version record
+        const versionResult = await client.query<Record<string, unknown>>(
+          `INSERT INTO file_versions (
+            file_id, version_number, file_hash, file_size, created_by,
+            change_summary, change_details, storage_backend, storage_key, mime_type, restored_from
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          RETURNING *`,
+          [
+            fileId,
+            newVersion,
+            newFileHash,
+            stats.size,
+            createdBy,
+            changeSummary,
+            JSON.stringify({
+              previousHash,
+              previousSize,
+              diffSize: stats.size - previousSize,
+              formatChanged: mimeType !== fileResult.rows[0].previous_mime_type
+            }),
+            stored.backend,
+            stored.key,
+            mimeType,
+            options.restoredFrom ?? null
+          ]
+        )
+
+        // Update file to new version
+        await client.query(
+          `UPDATE files SET
+            file_path = $1,
+            storage_backend = $2,
+            storage_key = $3,
+            file_hash = $4,
+            file_size = $5,
+            current_version = $6,
+            mime_type = $7,
+            updated_at = NOW()
+          WHERE id = $8`,
+          [
+            stored.location,
+            stored.backend,
+            stored.key,
+            newFileHash,
+            stats.size,
+            newVersion,
+            mimeType,
+            fileId
+          ]
+        )
+
+        // Record PREMIS event
+        if (options.restoredFrom === undefined) {
+          await MetadataService.recordPremisEvent(
+            fileId,
+            'modification',
+            `Version ${newVersion} created: ${changeSummary || 'No description'}`,
+            createdBy,
+            client
+          )
+        } else {
+          await MetadataService.recordPremisEvent(
+            fileId,
+            'recovery',
+            `Version ${newVersion} restored from version ${options.restoredFrom}${
+              changeSummary ? `: ${changeSummary}` : ''
+            }`,
+            createdBy,
+            client
+          )
+        }
+
+        // Track the new object's copies; earlier versions keep theirs
+        await ReplicationService.recordCopies(fileId, newFileHash, copies, createdBy, client)
+
+        // The indexed text belongs to the previous version now
+        await ExtractionService.enqueue(fileId, client)
+
+        // Audit log
+        await AuditService.logAction(createdBy, 'UPDATE', 'file', fileId, {
+          previousValue: { version: previousVersion, fileHash: previousHash },
+          newValue: {
+            version: newVersion,
+            fileHash: newFileHash,
+            ...(options.restoredFrom !== undefined ? { restoredFrom: options.restoredFrom } : {})
+          },
+          reason:
+            options.restoredFrom !== undefined
+              ? `Restored version ${options.restoredFrom}${changeSummary ? `: ${changeSummary}` : ''}`
+              : changeSummary
+        })
+
+        return mapVersion(versionResult.rows[0])
       })
+    )
 
-      return versionResult.rows[0]
-    })
+    ExtractionService.kick()
+    return version
   }
 
   /**
    * Get file versions
    */
   static async getVersions(fileId: string): Promise<FileVersion[]> {
-    const result = await query<ArchiveFile & Record<string, unknown>>(
+    const result = await query<Record<string, unknown>>(
       `SELECT * FROM file_versions WHERE file_id = $1 ORDER BY version_number DESC`,
       [fileId]
     )
 
-    return result.rows as unknown as FileVersion[]
+    return result.rows.map(mapVersion)
   }
 
   /**
-   * Search files
+   * Get one version of a file
    */
-  static async searchFiles(searchQuery: SearchQuery): Promise<SearchResult> {
-    const {
-      q,
-      category,
-      creator,
-      dateFrom,
-      dateTo,
-      accessLevel = 'public',
-      limit = 50,
-      offset = 0,
-      orderBy = 'relevance',
-      orderDir = 'desc'
-    } = searchQuery
+  static async getVersion(fileId: string, versionNumber: number): Promise<FileVersion> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM file_versions WHERE file_id = $1 AND version_number = $2`,
+      [fileId, versionNumber]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('File version')
+    }
+    return mapVersion(result.rows[0])
+  }
 
-    let whereClause = `WHERE f.is_deleted = FALSE`
-    const selectFields = `f.*,
-      COALESCE(AVG(r.rating), 0) as avg_rating,
-      COUNT(DISTINCT c.id) as comment_count,
-      ts_rank(to_tsvector('polish', COALESCE(f.filename || ' ' || f.description, f.filename)),
-              plainto_tsquery('polish', $1)) as relevance`
-    const params: Array<string | number | boolean> = [q]
-    let paramIndex = 2
-
-    // Full-text search
-    whereClause += ` AND to_tsvector('polish', COALESCE(f.filename || ' ' || f.description, f.filename)) @@ plainto_tsquery('polish', $1)`
-
-    // Access level
-    if (accessLevel) {
-      whereClause += ` AND f.access_level = $${paramIndex}`
-      params.push(accessLevel)
-      paramIndex++
+  /**
+   * Compare two versions: line diff of their (extracted) text, Dublin Core field changes
+   * and size/format change. The current version's text comes from the search index, earlier
+   * versions keep theirs in file_versions; text not extracted yet is queued in the background
+   * and the diff comes back without it (textPending).
+   */
+  static async diffVersions(fileId: string, from: number, to: number): Promise<VersionDiff> {
+    const file = await query<{ current_version: number; mime_type: string }>(
+      `SELECT current_version, mime_type FROM files WHERE id = $1`,
+      [fileId]
+    )
+    if (file.rows.length === 0) {
+      throw new NotFoundError('File')
     }
+    const { current_version: currentVersion, mime_type: currentMimeType } = file.rows[0]
 
-    // Category filter
-    if (category) {
-      whereClause += ` AND f.media_type = $${paramIndex}`
-      params.push(category)
-      paramIndex++
+    const [fromVersion, toVersion] = await Promise.all([
+      this.getVersion(fileId, from),
+      this.getVersion(fileId, to)
+    ])
+
+    const diff: VersionDiff = {
+      fileId,
+      from: fromVersion,
+      to: toVersion,
+      diffSize: (toVersion.fileSize ?? 0) - (fromVersion.fileSize ?? 0),
+      formatChanged:
+        (fromVersion.mimeType ?? currentMimeType) !== (toVersion.mimeType ?? currentMimeType)
     }
 
-    // Creator filter
-    if (creator) {
-      whereClause += ` AND dc.creator ILIKE $${paramIndex}`
-      params.push(`%${creator}%`)
-      paramIndex++
+    const [fromText, toText] = await Promise.all([
+      this.getVersionText(fromVersion, currentVersion, currentMimeType),
+      this.getVersionText(toVersion, currentVersion, currentMimeType)
+    ])
+    if (fromText === undefined || toText === undefined) {
+      diff.textPending = fromText !== null && toText !== null
+    } else if (fromText !== null && toText !== null) {
+      const lines = diffLines(fromText, toText)
+      diff.text = {
+        ...buildHunks(lines, { maxLines: DIFF_MAX_LINES }),
+        added: lines.filter((line) => line.type === 'insert').length,
+        removed: lines.filter((line) => line.type === 'delete').length
+      }
     }
 
-    // Date range
-    if (dateFrom) {
-      whereClause += ` AND f.created_at >= $${paramIndex}::timestamp`
-      params.push(dateFrom)
-      paramIndex++
+    const record = async (version: FileVersion): Promise<DublinCoreMetadata | undefined> =>
+      version.versionNumber === currentVersion
+        ? MetadataService.getDublinCoreMetadata(fileId)
+        : version.dublinCore
+    const [fromRecord, toRecord] = await Promise.all([record(fromVersion), record(toVersion)])
+    if (fromRecord && toRecord) {
+      diff.metadata = diffFields({ ...fromRecord }, { ...toRecord })
     }
-    if (dateTo) {
-      whereClause += ` AND f.created_at <= $${paramIndex}::timestamp`
-      params.push(dateTo)
-      paramIndex++
+
+    return diff
+  }
+
+  /**
+   * Text of a version for comparison, null when its format carries none (images, media) and
+   * undefined while it is not extracted yet
+   */
+  private static async getVersionText(
+    version: FileVersion,
+    currentVersion: number,
+    currentMimeType: string
+  ): Promise<string | null | undefined> {
+    const mimeType = version.mimeType ?? currentMimeType
+    if (!version.storageKey || mimeType.startsWith('image/')) return null
+    if (!ExtractionService.canExtract(mimeType)) return null
+
+    if (version.versionNumber === currentVersion) {
+      const indexed = await query<{
+        status: string
+        full_text: string | null
+        ocr_text: string | null
+      }>(
+        `SELECT status, full_text, ocr_text FROM search_index
+         WHERE file_id = $1 AND file_version = $2`,
+        [version.fileId, version.versionNumber]
+      )
+      const row = indexed.rows[0]
+      if (row?.status === 'indexed') {
+        return [row.full_text, row.ocr_text].filter(Boolean).join('\n\n')
+      }
+      // The search index will have it; failed extractions fall through to a retry below
+      if (row?.status === 'pending' || row?.status === 'processing') return undefined
     }
 
-    // Count total
-    const countResult = await query<{ count: number }>(
-      `SELECT COUNT(*) as count FROM files f
-       LEFT JOIN metadata_dublin_core dc ON f.id = dc.file_id
-       LEFT JOIN ratings r ON f.id = r.file_id
-       LEFT JOIN comments c ON f.id = c.file_id
-       ${whereClause}`,
-      params
+    const stored = await query<{ extracted_text: string | null }>(
+      `SELECT extracted_text FROM file_versions WHERE file_id = $1 AND version_number = $2`,
+      [version.fileId, version.versionNumber]
     )
+    const text = stored.rows[0]?.extracted_text
+    if (text !== null && text !== undefined) return text
+
+    ExtractionService.queueVersionText(version.fileId, version.versionNumber)
+    return undefined
+  }
+
+  /**
+   * Restore an earlier version: its stored content becomes a new head version.
+   * The object is read back and re-hashed first, so damaged content is never restored.
+   */
+  static async restoreVersion(
+    fileId: string,
+    versionNumber: number,
+    restoredBy: string,
+    reason?: string
+  ): Promise<FileVersion> {
+    const version = await this.getVersion(fileId, versionNumber)
+    if (!version.storageKey) {
+      throw new ConflictError(`Content of version ${versionNumber} is not in managed storage`)
+    }
+
+    const current = await query<{ file_hash: string }>(
+      `SELECT file_hash FROM files WHERE id = $1 AND is_deleted = FALSE`,
+      [fileId]
+    )
+    if (current.rows.length === 0) {
+      throw new NotFoundError('File')
+    }
+    if (current.rows[0].file_hash === version.fileHash) {
+      throw new ConflictError(
+        `Version ${versionNumber} has the same content as the current version`
+      )
+    }
+
+    const tempPath = join(FileStorageUtil.getTempDir(), `restore-${crypto.randomUUID()}`)
+    try {
+      await pipeline(
+        await StorageService.openObject(version.storageKey),
+        createWriteStream(tempPath)
+      )
+
+      const hash = await HashService.calculateFileHashFromPath(tempPath)
+      if (hash !== version.fileHash) {
+        throw new Error(
+          `Stored content of version ${versionNumber} failed the fixity check - expected: ${version.fileHash}, got: ${hash}`
+        )
+      }
+
+      return await this.createVersion(fileId, tempPath, hash, restoredBy, reason, {
+        mimeType: version.mimeType,
+        restoredFrom: versionNumber
+      })
+    } finally {
+      await fs.rm(tempPath, { force: true }).catch(() => {})
+    }
+  }
+
+  /**
+   * Search files
+   * Ranks the weighted search vector (title A, subject/creator B, description C,
+   * extracted/OCR text D) and adds an HTML-escaped ts_headline snippet with <mark> highlights.
+   * Facet counts apply every filter except the facet's own, so other values stay selectable.
+   * With fewer than FUZZY_MIN_HITS exact hits, titles and creators are also matched by
+   * accent-insensitive trigram similarity and a "did you mean" correction is suggested.
+   * In advanced mode q uses the query language of utils/searchQuery (no fuzzy widening).
+   */
+  static async searchFiles(searchQuery: SearchQuery): Promise<SearchResult> {
+    const { q, limit = 50, offset = 0, orderBy = 'relevance', orderDir = 'desc' } = searchQuery
+    const { parsed, hasQuery, tsQuery, advancedCondition, conditions, facetConditions, params } =
+      this.buildSearchFilters(searchQuery)
+    const paramIndex = params.length + 1
+
+    const countMatches = async (textCondition?: string): Promise<number> => {
+      const where = [textCondition, ...conditions, ...Object.values(facetConditions)]
+        .filter(Boolean)
+        .join(' AND ')
+      const countResult = await query<{ count: number }>(
+        `SELECT COUNT(DISTINCT f.id) as count FROM files f
+         ${SEARCH_JOINS}
+         WHERE ${where}`,
+        params
+      )
+      return Number(countResult.rows[0].count)
+    }
+
+    // Full-text search, widened to fuzzy title/creator matches when it finds too little
+    const ftsCondition = `s.search_vector @@ ${tsQuery}`
+    let textCondition = advancedCondition ?? (hasQuery ? ftsCondition : undefined)
+    let relevance = hasQuery ? `ts_rank(s.search_vector, ${tsQuery})` : '0'
+    let total = await countMatches(textCondition)
+    const exactTotal = total
+
+    let fuzzy = false
+    if (!parsed && hasQuery && exactTotal < FUZZY_MIN_HITS) {
+      const term = 'f_unaccent(lower($1))'
+      const titleText = 'f_unaccent(lower(dc.title))'
+      const creatorText = 'f_unaccent(lower(dc.creator))'
+
+      textCondition = `(${ftsCondition} OR ${term} <% ${titleText} OR ${term} <% ${creatorText})`
+      relevance = `CASE WHEN ${ftsCondition} THEN 1 + ts_rank(s.search_vector, ${tsQuery})
+        ELSE GREATEST(word_similarity(${term}, ${titleText}), word_similarity(${term}, ${creatorText})) END`
+      total = await countMatches(textCondition)
+      fuzzy = total > exactTotal
+    }
+    if (textCondition) {
+      conditions.unshift(textCondition)
+    }
+
+    const whereClause = `WHERE ${[...conditions, ...Object.values(facetConditions)].join(' AND ')}`
+    const selectFields = `f.*,
+      COALESCE(AVG(r.rating), 0) as avg_rating,
+      COUNT(DISTINCT c.id) as comment_count,
+      ${relevance} as relevance`
+
+    // One query for all facets: each facet drops its own filter
+    const facetQueries = SEARCH_FACETS.map((facet) => {
+      const { value, label = value, join = '' } = FACET_SQL[facet]
+      const facetWhere = [
+        ...conditions,
+        ...Object.entries(facetConditions)
+          .filter(([other]) => other !== facet)
+          .map(([, condition]) => condition),
+        `${value} IS NOT NULL`
+      ].join(' AND ')
+
+      return `(SELECT '${facet}' as facet, ${value} as value, ${label} as label,
+           COUNT(DISTINCT f.id) as count
+         FROM files f
+         ${SEARCH_JOINS}
+         ${join}
+         WHERE ${facetWhere}
+         GROUP BY 2
+         ORDER BY count DESC, value
+         LIMIT ${FACET_LIMIT})`
+    })
+    const facetResult = await query<{
+      facet: SearchFacet
+      value: string
+      label: string
+      count: string
+    }>(facetQueries.join(' UNION ALL '), params)
+
+    const facets = Object.fromEntries(
+      SEARCH_FACETS.map((facet): [SearchFacet, FacetBucket[]] => [facet, []])
+    ) as Record<SearchFacet, FacetBucket[]>
+    for (const row of facetResult.rows) {
+      facets[row.facet].push({ value: row.value, label: row.label, count: Number(row.count) })
+    }
 
     // Build ORDER BY
-    const allowedOrderBy = ['relevance', 'date', 'title']
+    const orderColumns: Record<string, string> = {
+      relevance: 'relevance',
+      date: 'created_at',
+      title: 'filename'
+    }
     const allowedOrderDir = ['asc', 'desc']
 
-    const finalOrderBy = allowedOrderBy.includes(orderBy) ? orderBy : 'relevance'
+    const orderColumn = orderColumns[orderBy] ?? orderColumns.relevance
     const finalOrderDir = allowedOrderDir.includes(orderDir.toLowerCase())
       ? orderDir.toLowerCase()
       : 'desc'
 
-    let orderByClause = ''
-    if (finalOrderBy === 'relevance') {
-      orderByClause = ` ORDER BY relevance ${finalOrderDir}`
-    } else if (finalOrderBy === 'date') {
-      orderByClause = ` ORDER BY f.created_at ${finalOrderDir}`
-    } else if (finalOrderBy === 'title') {
-      orderByClause = ` ORDER BY f.filename ${finalOrderDir}`
-    }
+    // Snippets are built for the current page only (ts_headline re-parses the text)
+    const snippet = hasQuery
+      ? `ts_headline('${SEARCH_CONFIG}',
+           replace(replace(replace(
+             left(concat_ws(' ', page.description, si.full_text, si.ocr_text), ${SNIPPET_SOURCE_LENGTH}),
+             '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+           ${tsQuery},
+           '${SNIPPET_OPTIONS}')`
+      : 'NULL'
 
     // Get results
     const startTime = Date.now()
 
-    const result = await query<
-      (ArchiveFile & Record<string, unknown>) & {
-        avg_rating: number
-        comment_count: number
-        relevance: number
-      }
-    >(
-      `SELECT ${selectFields}
-       FROM files f
-       LEFT JOIN metadata_dublin_core dc ON f.id = dc.file_id
-       LEFT JOIN ratings r ON f.id = r.file_id
-       LEFT JOIN comments c ON f.id = c.file_id AND c.is_deleted = FALSE
-       ${whereClause}
-       GROUP BY f.id, dc.id
-       ${orderByClause}
-       LIMIT $${paramIndex + 1} OFFSET $${paramIndex + 2}`,
+    const result = await query<SearchHit & Record<string, unknown>>(
+      `SELECT page.*, ${snippet} as snippet
+       FROM (
+         SELECT ${selectFields}
+         FROM files f
+         ${SEARCH_JOINS}
+         LEFT JOIN ratings r ON f.id = r.file_id
+         LEFT JOIN comments c ON f.id = c.file_id AND c.is_deleted = FALSE
+         ${whereClause}
+         GROUP BY f.id, dc.id, p.id, s.id
+         ORDER BY ${orderColumn} ${finalOrderDir}
+         LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+       ) page
+       LEFT JOIN search_index si ON si.file_id = page.id
+       ORDER BY page.${orderColumn} ${finalOrderDir}`,
       [...params, limit, offset]
     )
 
+    const didYouMean =
+      !parsed && hasQuery && exactTotal < FUZZY_MIN_HITS
+        ? await this.suggestCorrection(q)
+        : undefined
+
     const executionTime = Date.now() - startTime
 
     return {
       files: result.rows,
-      total: Number(countResult.rows[0].count),
+      facets,
+      total,
       limit,
       offset,
-      executionTime
+      executionTime,
+      fuzzy,
+      didYouMean
+    }
+  }
+
+  /**
+   * Ids of all files matching a query exactly (no fuzzy widening), e.g. for saved searches
+   */
+  static async findMatchingFileIds(searchQuery: SearchQuery): Promise<string[]> {
+    const { advancedCondition, hasQuery, tsQuery, conditions, facetConditions, params } =
+      this.buildSearchFilters(searchQuery)
+    const textCondition =
+      advancedCondition ?? (hasQuery ? `s.search_vector @@ ${tsQuery}` : undefined)
+    const where = [textCondition, ...conditions, ...Object.values(facetConditions)]
+      .filter(Boolean)
+      .join(' AND ')
+
+    const result = await query<{ id: string }>(
+      `SELECT DISTINCT f.id FROM files f
+       ${SEARCH_JOINS}
+       WHERE ${where}`,
+      params
+    )
+    return result.rows.map((row) => row.id)
+  }
+
+  /**
+   * Filters shared by searchFiles and findMatchingFileIds; $1 is the rank text when hasQuery
+   */
+  private static buildSearchFilters(searchQuery: SearchQuery): SearchFilters {
+    const {
+      q,
+      advanced = false,
+      category,
+      filters = {},
+      dateFrom,
+      dateTo,
+      viewer,
+      collectionId
+    } = searchQuery
+
+    // Advanced queries rank and highlight by their free-text terms ($1)
+    const parsed = advanced && q.trim() ? parseSearchQuery(q) : undefined
+    const rankText = parsed ? compileSearchQuery(parsed, 1).text : q
+
+    const hasQuery = rankText.trim().length > 0
+    const tsQuery = `plainto_tsquery('${SEARCH_CONFIG}', $1)`
+
+    const conditions = ['f.is_deleted = FALSE']
+    const params: Array<string | number | boolean | string[]> = hasQuery ? [rankText] : []
+    let paramIndex = params.length + 1
+
+    let advancedCondition: string | undefined
+    if (parsed) {
+      const compiled = compileSearchQuery(parsed, paramIndex)
+      advancedCondition = compiled.sql
+      params.push(...compiled.params)
+      paramIndex += compiled.params.length
+    }
+
+    // Files the viewer may read
+    if (viewer) {
+      const readable = AccessService.readableCondition(viewer, 'f', paramIndex)
+      conditions.push(readable.sql)
+      params.push(...readable.params)
+      paramIndex += readable.params.length
+    }
+
+    // Date range
+    if (dateFrom) {
+      conditions.push(`f.created_at >= $${paramIndex}::timestamp`)
+      params.push(dateFrom)
+      paramIndex++
     }
+    if (dateTo) {
+      conditions.push(`f.created_at <= $${paramIndex}::timestamp`)
+      params.push(dateTo)
+      paramIndex++
+    }
+
+    // Collection subtree (the collection facet below matches direct members only)
+    if (collectionId) {
+      conditions.push(`EXISTS (SELECT 1 FROM collection_files cf
+        WHERE cf.file_id = f.id AND cf.collection_id IN (
+          SELECT id FROM v_collection_tree WHERE $${paramIndex}::uuid = ANY(path)))`)
+      params.push(collectionId)
+      paramIndex++
+    }
+
+    // Facet filters (category is the older single-value form of the type facet)
+    const selected: Partial<Record<SearchFacet, string[]>> = { ...filters }
+    if (category) {
+      selected.type = [...(selected.type ?? []), category]
+    }
+
+    const facetConditions: Partial<Record<SearchFacet, string>> = {}
+    for (const facet of SEARCH_FACETS) {
+      const values = selected[facet]
+      if (!values?.length) continue
+
+      facetConditions[facet] =
+        facet === 'collection'
+          ? `EXISTS (SELECT 1 FROM collection_files cf
+               WHERE cf.file_id = f.id AND cf.collection_id::text = ANY($${paramIndex}::text[]))`
+          : `${FACET_SQL[facet].value} = ANY($${paramIndex}::text[])`
+      params.push(values)
+      paramIndex++
+    }
+
+    return { parsed, hasQuery, tsQuery, advancedCondition, conditions, facetConditions, params }
+  }
+
+  /**
+   * Completions for the search box: titles, creators and subjects starting with (or a word
+   * starting with) the prefix come first, then close trigram matches, then the most used values
+   */
+  static async suggest(
+    prefix: string,
+    options: { viewer?: AccessSubject; limit?: number } = {}
+  ): Promise<SearchSuggestion[]> {
+    const term = prefix.trim()
+    if (!term) return []
+
+    const readable = AccessService.readableCondition(options.viewer, 'f', 4)
+    const params: unknown[] = [
+      term,
+      escapeLikePattern(term),
+      options.limit ?? SUGGEST_LIMIT,
+      ...readable.params
+    ]
+    const accessCondition = `AND ${readable.sql}`
+
+    const result = await query<{ value: string; field: SearchSuggestion['field']; score: number }>(
+      `WITH candidates AS (
+         SELECT field, value, f_unaccent(lower(value)) as folded
+         FROM files f
+         JOIN metadata_dublin_core dc ON dc.file_id = f.id
+         CROSS JOIN LATERAL (VALUES
+           ('title', dc.title), ('creator', dc.creator), ('subject', dc.subject)
+         ) v(field, value)
+         WHERE f.is_deleted = FALSE AND value IS NOT NULL ${accessCondition}
+       )
+       SELECT value, field,
+         CASE
+           WHEN folded LIKE f_unaccent(lower($2)) || '%' THEN 3
+           WHEN ' ' || folded LIKE '% ' || f_unaccent(lower($2)) || '%' THEN 2
+           ELSE word_similarity(f_unaccent(lower($1)), folded)
+         END as score
+       FROM candidates
+       WHERE ' ' || folded LIKE '% ' || f_unaccent(lower($2)) || '%'
+          OR f_unaccent(lower($1)) <% folded
+       GROUP BY value, field, folded
+       ORDER BY score DESC, COUNT(*) DESC, value
+       LIMIT $3`,
+      params
+    )
+
+    return result.rows.map((row) => ({
+      value: row.value,
+      field: row.field,
+      score: Number(row.score)
+    }))
+  }
+
+  /**
+   * "Did you mean": replace each query word missing from the vocabulary with its closest known
+   * word; returns undefined when nothing changes
+   */
+  private static async suggestCorrection(q: string): Promise<string | undefined> {
+    const words = tokenizeSearchText(q)
+    if (words.length === 0) return undefined
+
+    const result = await query<{ word: string; suggestion: string | null }>(
+      `SELECT q.word, v.word as suggestion
+       FROM unnest($1::text[]) WITH ORDINALITY AS q(word, n)
+       LEFT JOIN LATERAL (
+         SELECT word FROM search_vocabulary
+         WHERE f_unaccent(word) % f_unaccent(q.word)
+         ORDER BY word = q.word DESC, similarity(f_unaccent(word), f_unaccent(q.word)) DESC,
+           ndoc DESC
+         LIMIT 1
+       ) v ON TRUE
+       ORDER BY q.n`,
+      [words]
+    )
+
+    return buildCorrection(
+      words,
+      result.rows.map((row) => row.suggestion)
+    )
+  }
+
+  /**
+   * Rebuild the "did you mean" vocabulary from current titles, creators and subjects
+   */
+  static async refreshSearchVocabulary(): Promise<void> {
+    await query(`REFRESH MATERIALIZED VIEW CONCURRENTLY search_vocabulary`)
   }
 
   /**
@@ -316,23 +933,28 @@ export class FileService {
   }
 
   /**
-   * Get file by ID with all metadata
+   * Get file by ID with all metadata; viewer limits the related files listed
    */
-  static async getFile(fileId: string, userId?: string): Promise<ArchiveFile | null> {
+  static async getFile(
+    fileId: string,
+    userId?: string,
+    viewer?: AccessSubject
+  ): Promise<ArchiveFile | null> {
     if (userId) {
       await AuditService.logAction(userId, 'READ', 'file', fileId)
     }
 
-    return MetadataService.getFileWithMetadata(fileId)
+    return MetadataService.getFileWithMetadata(fileId, viewer)
   }
 
   /**
-   * Update file metadata
+   * Update file metadata; Dublin Core changes are kept as metadata revisions
    */
   static async updateFileMetadata(
     fileId: string,
     updates: Partial<ArchiveFile>,
-    updatedBy: string
+    updatedBy: string,
+    reason?: string
   ): Promise<void> {
     return withTransaction(async (client) => {
       // Update basic file info
@@ -348,12 +970,16 @@ export class FileService {
 
       // Update Dublin Core if provided
       if (updates.dublinCore) {
-        await MetadataService.updateDublinCoreMetadata(fileId, updates.dublinCore)
+        await MetadataService.updateDublinCoreMetadata(fileId, updates.dublinCore, {
+          userId: updatedBy,
+          reason,
+          client
+        })
       }
 
       await AuditService.logAction(updatedBy, 'UPDATE', 'file', fileId, {
         newValue: updates,
-        reason: 'Metadata updated'
+        reason: reason ?? 'Metadata updated'
       })
     })
   }
@@ -361,10 +987,11 @@ export class FileService {
   /**
    * Get recently added files
    */
-  static async getRecentFiles(limit: number = 20): Promise<ArchiveFile[]> {
+  static async getRecentFiles(limit: number = 20, viewer?: AccessSubject): Promise<ArchiveFile[]> {
+    const readable = AccessService.readableCondition(viewer, 'v', 2)
     const result = await query<ArchiveFile & Record<string, unknown>>(
-      `SELECT * FROM v_files_full ORDER BY created_at DESC LIMIT $1`,
-      [limit]
+      `SELECT * FROM v_files_full v WHERE ${readable.sql} ORDER BY created_at DESC LIMIT $1`,
+      [limit, ...readable.params]
     )
 
     return result.rows as ArchiveFile[]
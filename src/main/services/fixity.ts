@@ -1,53 +1,89 @@
 import { query } from '../database/db'
-import HashService from './hash'
 import AuditService from './audit'
-import fs from 'fs/promises'
+import ReplicationService, { ReplicaCheck } from './replication'
 
 /**
  * FixityService: Monitor file integrity over time
  */
 export class FixityService {
   /**
-   * Verify integrity of a single file
+   * Verify integrity of every stored copy of a file, repairing bad copies from a good one
    */
-  static async verifyFile(
+  static async verifyFile(fileId: string): Promise<{
     fileId: string
-  ): Promise<{ fileId: string; isValid: boolean; error?: string }> {
+    isValid: boolean
+    repaired: number
+    copies: ReplicaCheck[]
+    error?: string
+  }> {
     try {
       // Get file record
-      const result = await query('SELECT id, file_path, file_hash FROM files WHERE id = $1', [
-        fileId
-      ])
+      const result = await query(
+        'SELECT id, storage_backend, storage_key, file_hash FROM files WHERE id = $1',
+        [fileId]
+      )
 
       if (result.rows.length === 0) {
-        return { fileId, isValid: false, error: 'File not found' }
+        return { fileId, isValid: false, repaired: 0, copies: [], error: 'File not found' }
+      }
+
+      const file = result.rows[0] as {
+        id: string
+        storage_backend: string | null
+        storage_key: string | null
+        file_hash: string
       }
+      const { storage_backend, storage_key, file_hash } = file
 
-      const file = result.rows[0] as { id: string; file_path: string; file_hash: string }
-      const { file_path, file_hash } = file
+      // Files ingested before replication only have their primary copy on the files row
+      let copies: Array<{ storageBackend: string; storageKey: string; fileHash?: string }> =
+        await ReplicationService.getCopies(fileId)
+      if (copies.length === 0 && storage_key) {
+        copies = [{ storageBackend: storage_backend || 'local', storageKey: storage_key }]
+      }
 
-      // Check if file exists
-      try {
-        await fs.stat(file_path)
-      } catch {
-        return { fileId, isValid: false, error: 'File does not exist on disk' }
+      if (copies.length === 0) {
+        return {
+          fileId,
+          isValid: false,
+          repaired: 0,
+          copies: [],
+          error: 'File is not in managed storage'
+        }
       }
 
-      // Calculate current hash
-      const currentHash = await HashService.calculateFileHashFromPath(file_path)
-      const isValid = currentHash === file_hash
+      const checks = await ReplicationService.verifyCopies(fileId, file_hash, copies)
 
-      // Log to audit if mismatch
-      if (!isValid) {
+      // Log every copy that failed its check to audit
+      for (const [index, check] of checks.entries()) {
+        if (check.status === 'ok') continue
+        const reason = check.currentHash
+          ? `stored: ${copies[index].fileHash ?? file_hash}, current: ${check.currentHash}`
+          : check.error
         await AuditService.logAction(null, 'VALIDATE', 'file', fileId, {
-          errorMessage: `Fixity check failed - stored: ${file_hash}, current: ${currentHash}`
+          success: check.status === 'repaired',
+          reason: check.status === 'repaired' ? 'Copy repaired from replica' : undefined,
+          errorMessage: `Fixity check failed (${check.storageBackend}) - ${reason}`
         })
       }
 
-      return { fileId, isValid }
+      const broken = checks.filter(
+        (check) => check.status === 'failed' || check.status === 'missing'
+      )
+      const hasIntactCopy = checks.some(
+        (check) => check.status === 'ok' || check.status === 'repaired'
+      )
+
+      return {
+        fileId,
+        isValid: hasIntactCopy && broken.length === 0,
+        repaired: checks.filter((check) => check.status === 'repaired').length,
+        copies: checks,
+        error: broken[0]?.error ?? (hasIntactCopy ? undefined : checks[0]?.error)
+      }
     } catch (error) {
       const err = error as Error
-      return { fileId, isValid: false, error: err.message }
+      return { fileId, isValid: false, repaired: 0, copies: [], error: err.message }
     }
   }
 
@@ -58,6 +94,7 @@ export class FixityService {
     total: number
     verified: number
     failed: number
+    repaired: number
     errors: Array<{ fileId: string; error?: string }>
   }> {
     try {
@@ -74,10 +111,12 @@ export class FixityService {
       const errors: Array<{ fileId: string; error?: string }> = []
       let verified = 0
       let failed = 0
+      let repaired = 0
 
       // Verify each file
       for (const file of files) {
         const verification = await this.verifyFile(file.id)
+        repaired += verification.repaired
         if (verification.isValid) {
           verified++
         } else {
@@ -90,6 +129,7 @@ export class FixityService {
         total: files.length,
         verified,
         failed,
+        repaired,
         errors
       }
     } catch (error) {
@@ -0,0 +1,67 @@
+import fs from 'fs/promises'
+import signatureFile from '../../../resources/pronom-signatures.json'
+import { FormatIdentification } from '../types'
+import { FormatMismatchError } from '../utils/errors'
+import {
+  FormatSignature,
+  SIGNATURE_WINDOW,
+  contradictsDeclaredType,
+  identifyFormat
+} from '../utils/pronom'
+
+const formats = signatureFile.formats as FormatSignature[]
+
+/**
+ * FormatIdentificationService: PRONOM format identification from file content
+ * Uses the offline signature file bundled in resources/pronom-signatures.json.
+ */
+export class FormatIdentificationService {
+  /**
+   * Identify a file; unidentified files fall back to the declared MIME type as format name
+   */
+  static async identifyFile(
+    filePath: string,
+    declaredMimeType: string
+  ): Promise<FormatIdentification> {
+    const match = identifyFormat(await this.readHead(filePath), formats)
+    if (!match) {
+      return { name: declaredMimeType, method: 'none' }
+    }
+
+    return {
+      puid: match.format.puid,
+      name: match.format.name,
+      version: match.format.version,
+      method: match.method
+    }
+  }
+
+  /**
+   * Identify a file and reject it when its content contradicts the declared MIME type
+   */
+  static async verifyFile(
+    filePath: string,
+    declaredMimeType: string
+  ): Promise<FormatIdentification> {
+    const identification = await this.identifyFile(filePath, declaredMimeType)
+    const format = formats.find((f) => f.puid === identification.puid)
+
+    if (format && contradictsDeclaredType(format, declaredMimeType)) {
+      throw new FormatMismatchError(declaredMimeType, format)
+    }
+    return identification
+  }
+
+  private static async readHead(filePath: string): Promise<Buffer> {
+    const handle = await fs.open(filePath, 'r')
+    try {
+      const buffer = Buffer.alloc(SIGNATURE_WINDOW)
+      const { bytesRead } = await handle.read(buffer, 0, SIGNATURE_WINDOW, 0)
+      return buffer.subarray(0, bytesRead)
+    } finally {
+      await handle.close()
+    }
+  }
+}
+
+export default FormatIdentificationService
@@ -0,0 +1,232 @@
+import { PoolClient } from 'pg'
+import { query, withTransaction } from '../database/db'
+import { UserGroup, UserGroupMember, UserRole } from '../types'
+import { ConflictError, NotFoundError } from '../utils/errors'
+
+const GROUP_SELECT = `SELECT g.*,
+    (SELECT COUNT(*) FROM user_group_members m WHERE m.group_id = g.id) as member_count
+  FROM user_groups g`
+
+const mapGroup = (row: Record<string, unknown>): UserGroup => ({
+  id: row.id as string,
+  name: row.name as string,
+  description: (row.description as string | null) ?? undefined,
+  memberCount: Number(row.member_count ?? 0),
+  createdBy: (row.created_by as string | null) ?? undefined,
+  createdAt: (row.created_at as Date).toISOString(),
+  updatedAt: (row.updated_at as Date).toISOString()
+})
+
+const isUniqueViolation = (error: unknown): boolean => (error as { code?: string }).code === '23505'
+
+// Group changes go to the audit log in the same transaction, as role changes do
+const logGroupChange = async (
+  client: PoolClient,
+  userId: string,
+  action: 'CREATE' | 'UPDATE' | 'DELETE',
+  groupId: string,
+  previousValue: unknown,
+  newValue: unknown
+): Promise<void> => {
+  await client.query(
+    `INSERT INTO audit_log (user_id, action, resource_type, resource_id, previous_value, new_value)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [
+      userId,
+      action,
+      'group',
+      groupId,
+      previousValue ? JSON.stringify(previousValue) : null,
+      newValue ? JSON.stringify(newValue) : null
+    ]
+  )
+}
+
+/**
+ * GroupService: Named groups of users (departments, research teams) that access rules can
+ * be granted to; a member holds every grant of each of their groups
+ */
+export class GroupService {
+  /**
+   * All groups by name
+   */
+  static async list(): Promise<UserGroup[]> {
+    const result = await query<Record<string, unknown>>(`${GROUP_SELECT} ORDER BY g.name`)
+    return result.rows.map(mapGroup)
+  }
+
+  /**
+   * Get a group
+   */
+  static async get(id: string): Promise<UserGroup> {
+    const result = await query<Record<string, unknown>>(`${GROUP_SELECT} WHERE g.id = $1`, [id])
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Group')
+    }
+    return mapGroup(result.rows[0])
+  }
+
+  /**
+   * Members of a group by username
+   */
+  static async getMembers(id: string): Promise<UserGroupMember[]> {
+    await this.get(id)
+    const result = await query<Record<string, unknown>>(
+      `SELECT u.id, u.username, u.role, m.added_by, m.added_at
+       FROM user_group_members m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.group_id = $1
+       ORDER BY u.username`,
+      [id]
+    )
+    return result.rows.map((row) => ({
+      userId: row.id as string,
+      username: row.username as string,
+      role: row.role as UserRole,
+      addedBy: (row.added_by as string | null) ?? undefined,
+      addedAt: (row.added_at as Date).toISOString()
+    }))
+  }
+
+  /**
+   * Groups a user belongs to
+   */
+  static async listForUser(userId: string): Promise<UserGroup[]> {
+    const result = await query<Record<string, unknown>>(
+      `${GROUP_SELECT}
+       JOIN user_group_members um ON um.group_id = g.id
+       WHERE um.user_id = $1
+       ORDER BY g.name`,
+      [userId]
+    )
+    return result.rows.map(mapGroup)
+  }
+
+  /**
+   * Create a group
+   */
+  static async create(
+    input: { name: string; description?: string },
+    createdBy: string
+  ): Promise<UserGroup> {
+    const id = await withTransaction(async (client) => {
+      try {
+        const result = await client.query<{ id: string }>(
+          `INSERT INTO user_groups (name, description, created_by) VALUES ($1, $2, $3)
+           RETURNING id`,
+          [input.name, input.description ?? null, createdBy]
+        )
+        await logGroupChange(client, createdBy, 'CREATE', result.rows[0].id, null, input)
+        return result.rows[0].id
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError(`A group named "${input.name}" already exists`)
+        }
+        throw error
+      }
+    })
+    return this.get(id)
+  }
+
+  /**
+   * Rename a group or change its description
+   */
+  static async update(
+    id: string,
+    changes: { name?: string; description?: string },
+    updatedBy: string
+  ): Promise<UserGroup> {
+    const previous = await this.get(id)
+
+    await withTransaction(async (client) => {
+      try {
+        await client.query(
+          `UPDATE user_groups SET name = COALESCE($2, name), description = COALESCE($3, description)
+           WHERE id = $1`,
+          [id, changes.name ?? null, changes.description ?? null]
+        )
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError(`A group named "${changes.name}" already exists`)
+        }
+        throw error
+      }
+      await logGroupChange(
+        client,
+        updatedBy,
+        'UPDATE',
+        id,
+        { name: previous.name, description: previous.description },
+        changes
+      )
+    })
+    return this.get(id)
+  }
+
+  /**
+   * Delete a group; its access rules go with it
+   */
+  static async delete(id: string, deletedBy: string): Promise<void> {
+    const previous = await this.get(id)
+    const members = await this.getMembers(id)
+
+    await withTransaction(async (client) => {
+      await client.query(`DELETE FROM user_groups WHERE id = $1`, [id])
+      await logGroupChange(
+        client,
+        deletedBy,
+        'DELETE',
+        id,
+        { ...previous, members: members.map((member) => member.userId) },
+        null
+      )
+    })
+  }
+
+  /**
+   * Add users to a group (existing members are skipped); returns the number added
+   */
+  static async addMembers(id: string, userIds: string[], addedBy: string): Promise<number> {
+    await this.get(id)
+
+    const users = await query<{ id: string }>(`SELECT id FROM users WHERE id = ANY($1::uuid[])`, [
+      userIds
+    ])
+    if (users.rows.length !== new Set(userIds).size) {
+      throw new NotFoundError('One or more users')
+    }
+
+    return withTransaction(async (client) => {
+      const result = await client.query<{ user_id: string }>(
+        `INSERT INTO user_group_members (group_id, user_id, added_by)
+         SELECT $1, unnest($2::uuid[]), $3
+         ON CONFLICT DO NOTHING
+         RETURNING user_id`,
+        [id, [...new Set(userIds)], addedBy]
+      )
+      const added = result.rows.map((row) => row.user_id)
+      if (added.length > 0) {
+        await logGroupChange(client, addedBy, 'UPDATE', id, null, { addedMembers: added })
+      }
+      return added.length
+    })
+  }
+
+  /**
+   * Take a user out of a group
+   */
+  static async removeMember(id: string, userId: string, removedBy: string): Promise<void> {
+    await withTransaction(async (client) => {
+      const result = await client.query(
+        `DELETE FROM user_group_members WHERE group_id = $1 AND user_id = $2`,
+        [id, userId]
+      )
+      if (result.rowCount === 0) {
+        throw new NotFoundError('Group member')
+      }
+      await logGroupChange(client, removedBy, 'UPDATE', id, null, { removedMembers: [userId] })
+    })
+  }
+}
+
+export default GroupService
@@ -1,5 +1,6 @@
 import crypto from 'crypto'
 import fs from 'fs'
+import { Readable } from 'stream'
 
 /**
  * HashService: Calculate and verify file hashes
@@ -16,9 +17,15 @@ export class HashService {
    * Calculate SHA-256 hash of file by path (streaming)
    */
   static async calculateFileHashFromPath(filePath: string): Promise<string> {
+    return this.calculateStreamHash(fs.createReadStream(filePath))
+  }
+
+  /**
+   * Calculate SHA-256 hash of a readable stream (e.g. an object from a storage backend)
+   */
+  static async calculateStreamHash(stream: Readable): Promise<string> {
     return new Promise((resolve, reject) => {
       const hash = crypto.createHash('sha256')
-      const stream = fs.createReadStream(filePath)
 
       stream.on('data', (chunk) => {
         hash.update(chunk)
@@ -32,6 +39,29 @@ export class HashService {
     })
   }
 
+  /**
+   * Start an incremental SHA-256 hash (e.g. for chunked uploads)
+   */
+  static createIncrementalHash(): crypto.Hash {
+    return crypto.createHash('sha256')
+  }
+
+  /**
+   * Feed the first `length` bytes of a file into an incremental hash
+   */
+  static async updateHashFromPath(
+    hash: crypto.Hash,
+    filePath: string,
+    length: number
+  ): Promise<crypto.Hash> {
+    if (length === 0) return hash
+
+    for await (const chunk of fs.createReadStream(filePath, { start: 0, end: length - 1 })) {
+      hash.update(chunk as Buffer)
+    }
+    return hash
+  }
+
   /**
    * Verify file integrity by comparing current hash with expected hash
    */
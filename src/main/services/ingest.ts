@@ -0,0 +1,268 @@
+import { EventEmitter } from 'events'
+import fs from 'fs/promises'
+import { basename, join, relative, sep } from 'path'
+import { query } from '../database/db'
+import { DublinCoreMetadata, IngestJob, IngestJobItem, IngestProgress } from '../types'
+import FileStorageUtil from '../utils/fileStorage'
+import { NotFoundError, ValidationError } from '../utils/errors'
+import HashService from './hash'
+import FileService from './files'
+
+const mapJob = (row: Record<string, unknown>): IngestJob => ({
+  id: row.id as string,
+  userId: (row.user_id as string | null) ?? undefined,
+  sourcePath: row.source_path as string,
+  status: row.status as IngestJob['status'],
+  totalFiles: Number(row.total_files),
+  registered: Number(row.registered),
+  skipped: Number(row.skipped),
+  failed: Number(row.failed),
+  errorMessage: (row.error_message as string | null) ?? undefined,
+  startedAt: (row.started_at as Date).toISOString(),
+  finishedAt: (row.finished_at as Date | null)?.toISOString()
+})
+
+const mapItem = (row: Record<string, unknown>): IngestJobItem => ({
+  relativePath: row.relative_path as string,
+  status: row.status as IngestJobItem['status'],
+  fileId: (row.file_id as string | null) ?? undefined,
+  fileHash: (row.file_hash as string | null) ?? undefined,
+  fileSize: row.file_size === null ? undefined : Number(row.file_size),
+  message: (row.message as string | null) ?? undefined,
+  processedAt: (row.processed_at as Date).toISOString()
+})
+
+const getDublinCoreType = (mimeType: string): DublinCoreMetadata['dc:type'] => {
+  if (mimeType.startsWith('video/')) return 'video'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  if (mimeType.startsWith('image/')) return 'image'
+  return 'document'
+}
+
+const csvField = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * IngestService: Batch ingest of a local folder into the archive
+ */
+export class IngestService {
+  // Emits 'progress' (IngestProgress) after each file and 'finished' (IngestJob) per job
+  static readonly events = new EventEmitter()
+
+  /**
+   * Start ingesting a folder in the background; returns the created job immediately
+   */
+  static async startJob(
+    folderPath: string,
+    user: { userId: string; username?: string },
+    options?: { accessLevel?: string; language?: string }
+  ): Promise<IngestJob> {
+    const sourcePath = await FileStorageUtil.resolveImportPath(folderPath)
+    const stats = await fs.stat(sourcePath).catch(() => null)
+    if (!stats?.isDirectory()) {
+      throw new ValidationError(`Not a directory: ${folderPath}`)
+    }
+
+    const result = await query<Record<string, unknown>>(
+      `INSERT INTO ingest_jobs (user_id, source_path) VALUES ($1, $2) RETURNING *`,
+      [user.userId, sourcePath]
+    )
+    const job = mapJob(result.rows[0])
+
+    this.runJob(job, user, options).catch((error) => {
+      console.error(`[Ingest] Job ${job.id} crashed:`, error)
+    })
+
+    return job
+  }
+
+  /**
+   * Get an ingest job
+   */
+  static async getJob(jobId: string): Promise<IngestJob> {
+    const result = await query<Record<string, unknown>>(`SELECT * FROM ingest_jobs WHERE id = $1`, [
+      jobId
+    ])
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Ingest job')
+    }
+    return mapJob(result.rows[0])
+  }
+
+  /**
+   * Get the ingest report: job summary plus the outcome of every file
+   */
+  static async getReport(jobId: string): Promise<{ job: IngestJob; items: IngestJobItem[] }> {
+    const job = await this.getJob(jobId)
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM ingest_job_items WHERE job_id = $1 ORDER BY processed_at, relative_path`,
+      [jobId]
+    )
+    return { job, items: result.rows.map(mapItem) }
+  }
+
+  /**
+   * Render the ingest report as CSV
+   */
+  static async getReportCsv(jobId: string): Promise<string> {
+    const { items } = await this.getReport(jobId)
+    const header = ['path', 'status', 'file_id', 'sha256', 'size', 'message', 'processed_at']
+    const rows = items.map((item) =>
+      [
+        item.relativePath,
+        item.status,
+        item.fileId,
+        item.fileHash,
+        item.fileSize,
+        item.message,
+        item.processedAt
+      ]
+        .map(csvField)
+        .join(',')
+    )
+    return [header.join(','), ...rows].join('\n') + '\n'
+  }
+
+  private static async runJob(
+    job: IngestJob,
+    user: { userId: string; username?: string },
+    options?: { accessLevel?: string; language?: string }
+  ): Promise<void> {
+    try {
+      const files = await this.walk(job.sourcePath)
+      await query(`UPDATE ingest_jobs SET total_files = $1 WHERE id = $2`, [files.length, job.id])
+
+      const seenHashes = new Set<string>()
+      let processed = 0
+
+      for (const filePath of files) {
+        const item = await this.ingestFile(job, filePath, seenHashes, user, options)
+
+        await query(
+          `INSERT INTO ingest_job_items (
+            job_id, relative_path, status, file_id, file_hash, file_size, message
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            job.id,
+            item.relativePath,
+            item.status,
+            item.fileId,
+            item.fileHash,
+            item.fileSize,
+            item.message
+          ]
+        )
+        await query(`UPDATE ingest_jobs SET ${item.status} = ${item.status} + 1 WHERE id = $1`, [
+          job.id
+        ])
+
+        processed++
+        const progress: IngestProgress = { jobId: job.id, processed, total: files.length, item }
+        this.events.emit('progress', progress)
+      }
+
+      await query(
+        `UPDATE ingest_jobs SET status = 'completed', finished_at = NOW() WHERE id = $1`,
+        [job.id]
+      )
+    } catch (error) {
+      await query(
+        `UPDATE ingest_jobs SET status = 'failed', error_message = $1, finished_at = NOW()
+         WHERE id = $2`,
+        [(error as Error).message, job.id]
+      )
+    }
+
+    this.events.emit('finished', await this.getJob(job.id))
+  }
+
+  /**
+   * Register one file, skipping duplicates (by SHA-256) and unsupported types
+   */
+  private static async ingestFile(
+    job: IngestJob,
+    filePath: string,
+    seenHashes: Set<string>,
+    user: { userId: string; username?: string },
+    options?: { accessLevel?: string; language?: string }
+  ): Promise<IngestJobItem> {
+    const relativePath = relative(job.sourcePath, filePath).split(sep).join('/')
+    const item: IngestJobItem = {
+      relativePath,
+      status: 'failed',
+      processedAt: new Date().toISOString()
+    }
+
+    try {
+      const stats = await fs.stat(filePath)
+      item.fileSize = stats.size
+
+      const mimeType = FileStorageUtil.getMimeTypeFromFilename(filePath)
+      if (!FileStorageUtil.isAllowedMimeType(mimeType)) {
+        return { ...item, status: 'skipped', message: `Unsupported file type (${mimeType})` }
+      }
+
+      const fileHash = await HashService.calculateFileHashFromPath(filePath)
+      item.fileHash = fileHash
+
+      if (seenHashes.has(fileHash)) {
+        return { ...item, status: 'skipped', message: 'Duplicate of another file in this folder' }
+      }
+      seenHashes.add(fileHash)
+
+      const existing = await query<{ id: string }>(`SELECT id FROM files WHERE file_hash = $1`, [
+        fileHash
+      ])
+      if (existing.rows.length > 0) {
+        return {
+          ...item,
+          status: 'skipped',
+          fileId: existing.rows[0].id,
+          message: 'Already in archive'
+        }
+      }
+
+      const file = await FileService.registerFile(filePath, fileHash, mimeType, user.userId, {
+        title: basename(filePath),
+        description: `Plik: ${relativePath}`,
+        creator: user.username,
+        language: options?.language,
+        accessLevel: options?.accessLevel,
+        dublinCore: {
+          'dc:type': getDublinCoreType(mimeType),
+          'dc:date': stats.mtime.toISOString(),
+          'dc:source': relativePath
+        }
+      })
+
+      return { ...item, status: 'registered', fileId: file.id }
+    } catch (error) {
+      return { ...item, status: 'failed', message: (error as Error).message }
+    }
+  }
+
+  /**
+   * List regular files below a folder, skipping hidden entries and symlinks
+   */
+  private static async walk(folderPath: string): Promise<string[]> {
+    const files: string[] = []
+    const entries = await fs.readdir(folderPath, { withFileTypes: true })
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue
+      const entryPath = join(folderPath, entry.name)
+      if (entry.isDirectory()) {
+        files.push(...(await this.walk(entryPath)))
+      } else if (entry.isFile()) {
+        files.push(entryPath)
+      }
+    }
+
+    return files
+  }
+}
+
+export default IngestService
@@ -1,12 +1,30 @@
 import xml2js from 'xml2js'
-import { query } from '../database/db'
-import { DublinCoreMetadata, PremisMetadata, ArchiveFile } from '../types'
+import { PoolClient } from 'pg'
+import { query, queryWith, withTransaction } from '../database/db'
+import {
+  AccessSubject,
+  DublinCoreMetadata,
+  PremisMetadata,
+  PremisEvent,
+  ArchiveFile,
+  FormatIdentification,
+  MetadataRevision,
+  FieldChange,
+  FileRelation
+} from '../types'
+import { NotFoundError, ValidationError } from '../utils/errors'
+import { diffFields } from '../utils/diff'
+import { dctermsElements } from '../utils/relations'
+import AuditService from './audit'
+import RelationService from './relations'
 import crypto from 'crypto'
 
 type FileWithMetadataRow = {
   id: string
   filename: string
   file_path: string
+  storage_backend: string | null
+  storage_key: string | null
   file_hash: string
   mime_type: string
   file_size: number
@@ -25,12 +43,48 @@ type FileWithMetadataRow = {
   format: string | null
   preservation_level: PremisMetadata['premis:preservationLevel'] | null
   message_digest: string | null
+  format_puid: string | null
+  format_name: string | null
+  format_version: string | null
+  format_identification_method: FormatIdentification['method'] | null
   premis_json: PremisMetadata | null
 }
 
+// Dublin Core fields that can be edited, with their metadata_dublin_core columns
+// (dc:identifier is the file id and dc:date the creation date, both fixed)
+export const EDITABLE_DC_FIELDS = {
+  'dc:title': 'title',
+  'dc:creator': 'creator',
+  'dc:subject': 'subject',
+  'dc:description': 'description',
+  'dc:publisher': 'publisher',
+  'dc:type': 'type',
+  'dc:format': 'format',
+  'dc:language': 'language',
+  'dc:rights': 'rights',
+  'dc:source': 'source'
+} as const
+
+type EditableDcField = keyof typeof EDITABLE_DC_FIELDS
+
+const mapRevision = (row: Record<string, unknown>): MetadataRevision => ({
+  id: row.id as string,
+  fileId: row.file_id as string,
+  revisionNumber: Number(row.revision_number),
+  changes: row.changes as FieldChange[],
+  record: row.record as DublinCoreMetadata,
+  reason: (row.reason as string | null) ?? undefined,
+  createdBy: (row.created_by as string | null) ?? undefined,
+  createdByName: (row.created_by_name as string | null) ?? undefined,
+  createdAt: (row.created_at as Date).toISOString()
+})
+
 const xmlBuilder = new xml2js.Builder({
   rootName: 'rdf:RDF'
 })
+const premisXmlBuilder = new xml2js.Builder({
+  rootName: 'premis:premis'
+})
 // const xmlParser = new xml2js.Parser() // Not used
 
 export class MetadataService {
@@ -39,7 +93,9 @@ export class MetadataService {
    */
   static async createDublinCoreMetadata(
     fileId: string,
-    metadata: Partial<DublinCoreMetadata>
+    metadata: Partial<DublinCoreMetadata>,
+    client?: PoolClient,
+    createdBy?: string
   ): Promise<DublinCoreMetadata> {
     const defaultMetadata: DublinCoreMetadata = {
       'dc:identifier': fileId,
@@ -48,7 +104,7 @@ export class MetadataService {
       'dc:subject': metadata['dc:subject'],
       'dc:description': metadata['dc:description'],
       'dc:publisher': metadata['dc:publisher'],
-      'dc:date': new Date().toISOString(),
+      'dc:date': metadata['dc:date'] || new Date().toISOString(),
       'dc:type': metadata['dc:type'] || 'document',
       'dc:format': metadata['dc:format'] || 'application/octet-stream',
       'dc:language': metadata['dc:language'] || 'pl',
@@ -58,7 +114,8 @@ export class MetadataService {
 
     const dcXml = this.buildDublinCoreXML(defaultMetadata)
 
-    await query<Record<string, unknown>>(
+    await queryWith<Record<string, unknown>>(
+      client,
       `INSERT INTO metadata_dublin_core (
         file_id, identifier, title, creator, subject, description,
         publisher, date_created, type, format, language, rights, source, dc_xml
@@ -81,17 +138,29 @@ export class MetadataService {
       ]
     )
 
+    // Revision 1 holds the record as stored (dc:date as read back from the database)
+    await this.recordRevision(
+      fileId,
+      {},
+      await this.getDublinCoreMetadata(fileId, client),
+      { userId: createdBy },
+      client
+    )
+
     return defaultMetadata
   }
 
   /**
-   * Create PREMIS metadata
+   * Create PREMIS metadata, including the format identified at ingest
    */
   static async createPremisMetadata(
     fileId: string,
     fileHash: string,
-    mimeType: string
+    mimeType: string,
+    format: FormatIdentification,
+    client?: PoolClient
   ): Promise<PremisMetadata> {
+    const now = new Date().toISOString()
     const premisData: PremisMetadata = {
       'premis:objectIdentifier': fileId,
       'premis:objectCharacteristics': {
@@ -99,11 +168,13 @@ export class MetadataService {
         'premis:fixity': {
           'premis:messageDigestAlgorithm': 'SHA-256',
           'premis:messageDigest': fileHash,
-          'premis:messageDigestValidation': new Date().toISOString()
+          'premis:messageDigestValidation': now
         },
         'premis:format': {
           'premis:formatRegistry': 'PRONOM',
-          'premis:formatName': mimeType
+          ...(format.puid ? { 'premis:formatRegistryKey': format.puid } : {}),
+          'premis:formatName': format.name,
+          ...(format.version ? { 'premis:formatVersion': format.version } : {})
         }
       },
       'premis:preservationLevel': 'fulPreservation',
@@ -111,21 +182,45 @@ export class MetadataService {
         {
           'premis:eventIdentifier': crypto.randomUUID(),
           'premis:eventType': 'creation',
-          'premis:eventDateTime': new Date().toISOString(),
+          'premis:eventDateTime': now,
           'premis:eventDetail': 'File added to archive',
           'premis:linkingAgentIdentifier': 'system',
           'premis:linkingObjectIdentifier': fileId
+        },
+        {
+          'premis:eventIdentifier': crypto.randomUUID(),
+          'premis:eventType': 'format identification',
+          'premis:eventDateTime': now,
+          'premis:eventDetail': format.puid
+            ? `Identified as ${format.puid} (${format.name}) by ${format.method}`
+            : `Not identified, declared as ${mimeType}`,
+          'premis:linkingAgentIdentifier': 'system',
+          'premis:linkingObjectIdentifier': fileId
         }
       ]
     }
 
-    await query<{ premis_json: PremisMetadata }>(
+    await queryWith<{ premis_json: PremisMetadata }>(
+      client,
       `INSERT INTO metadata_premis (
-        file_id, object_identifier, format_name, message_digest,
+        file_id, object_identifier, format_name, format_version, format_puid,
+        format_identification_method, original_format, message_digest,
         message_digest_algorithm, preservation_level, premis_json
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       RETURNING premis_json`,
-      [fileId, fileId, mimeType, fileHash, 'SHA-256', 'fulPreservation', JSON.stringify(premisData)]
+      [
+        fileId,
+        fileId,
+        format.name,
+        format.version,
+        format.puid,
+        format.method,
+        mimeType,
+        fileHash,
+        'SHA-256',
+        'fulPreservation',
+        JSON.stringify(premisData)
+      ]
     )
 
     return premisData
@@ -133,50 +228,160 @@ export class MetadataService {
 
   /**
    * Update Dublin Core metadata
+   * Fields present in `updates` replace the stored ones (undefined clears them). Every actual
+   * change is kept as a revision and recorded as a PREMIS event; returns the updated record.
    */
   static async updateDublinCoreMetadata(
     fileId: string,
-    updates: Partial<DublinCoreMetadata>
+    updates: Partial<DublinCoreMetadata>,
+    options: { userId?: string; reason?: string; client?: PoolClient } = {}
   ): Promise<DublinCoreMetadata> {
-    const result = await query<{ dc_xml: string }>(
-      `SELECT dc_xml FROM metadata_dublin_core WHERE file_id = $1`,
+    const { client } = options
+    if (!client) {
+      return withTransaction((tx) =>
+        this.updateDublinCoreMetadata(fileId, updates, { ...options, client: tx })
+      )
+    }
+
+    const locked = await client.query(
+      `SELECT id FROM metadata_dublin_core WHERE file_id = $1 FOR UPDATE`,
       [fileId]
     )
-
-    if (result.rows.length === 0) {
-      throw new Error('Metadata not found')
+    if (locked.rows.length === 0) {
+      throw new NotFoundError('Metadata')
     }
 
-    const dcXml = this.buildDublinCoreXML(updates)
+    const before = await this.getDublinCoreMetadata(fileId, client)
+    const next: Partial<DublinCoreMetadata> = {
+      ...before,
+      ...Object.fromEntries(
+        (Object.keys(EDITABLE_DC_FIELDS) as EditableDcField[])
+          .filter((field) => field in updates)
+          .map((field) => [field, updates[field]])
+      )
+    }
 
-    await query(
+    await client.query(
       `UPDATE metadata_dublin_core SET
-        title = COALESCE($1, title),
-        creator = COALESCE($2, creator),
-        subject = COALESCE($3, subject),
-        description = COALESCE($4, description),
-        publisher = COALESCE($5, publisher),
-        type = COALESCE($6, type),
-        language = COALESCE($7, language),
-        rights = COALESCE($8, rights),
-        dc_xml = $9,
+        title = $1,
+        creator = $2,
+        subject = $3,
+        description = $4,
+        publisher = $5,
+        type = $6,
+        format = $7,
+        language = $8,
+        rights = $9,
+        source = $10,
+        dc_xml = $11,
         updated_at = NOW()
-      WHERE file_id = $10`,
+      WHERE file_id = $12`,
       [
-        updates['dc:title'],
-        updates['dc:creator'],
-        updates['dc:subject'],
-        updates['dc:description'],
-        updates['dc:publisher'],
-        updates['dc:type'],
-        updates['dc:language'],
-        updates['dc:rights'],
-        dcXml,
+        next['dc:title'] || 'Untitled',
+        next['dc:creator'] ?? null,
+        next['dc:subject'] ?? null,
+        next['dc:description'] ?? null,
+        next['dc:publisher'] ?? null,
+        next['dc:type'] ?? null,
+        next['dc:format'] ?? null,
+        next['dc:language'] ?? null,
+        next['dc:rights'] ?? null,
+        next['dc:source'] ?? null,
+        this.buildDublinCoreXML(next),
         fileId
       ]
     )
 
-    return updates as DublinCoreMetadata
+    const after = await this.getDublinCoreMetadata(fileId, client)
+    const revision = await this.recordRevision(fileId, before, after, options, client)
+    if (revision) {
+      const fields = revision.changes.map((change) => change.field).join(', ')
+      await this.recordPremisEvent(
+        fileId,
+        'metadata modification',
+        `Dublin Core revision ${revision.revisionNumber}: ${fields}` +
+          (options.reason ? ` (${options.reason})` : ''),
+        options.userId || 'system',
+        client
+      )
+    }
+
+    return after
+  }
+
+  /**
+   * Revisions of a file's Dublin Core record, newest first
+   */
+  static async getRevisions(fileId: string): Promise<MetadataRevision[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT r.*, u.username as created_by_name
+       FROM metadata_revisions r
+       LEFT JOIN users u ON u.id = r.created_by
+       WHERE r.file_id = $1
+       ORDER BY r.revision_number DESC`,
+      [fileId]
+    )
+    return result.rows.map(mapRevision)
+  }
+
+  /**
+   * The revision that was current at a point in time (its record is the record as of then)
+   */
+  static async getRevisionAsOf(fileId: string, at: Date): Promise<MetadataRevision> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT r.*, u.username as created_by_name
+       FROM metadata_revisions r
+       LEFT JOIN users u ON u.id = r.created_by
+       WHERE r.file_id = $1 AND r.created_at <= $2
+       ORDER BY r.revision_number DESC
+       LIMIT 1`,
+      [fileId, at]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Metadata revision')
+    }
+    return mapRevision(result.rows[0])
+  }
+
+  /**
+   * Set fields back to their values in an earlier revision; recorded as a new revision
+   */
+  static async revertFields(
+    fileId: string,
+    revisionNumber: number,
+    fields: string[],
+    userId: string,
+    reason?: string
+  ): Promise<DublinCoreMetadata> {
+    const unknown = fields.filter((field) => !(field in EDITABLE_DC_FIELDS))
+    if (unknown.length > 0) {
+      throw new ValidationError(`Fields cannot be reverted: ${unknown.join(', ')}`)
+    }
+
+    const result = await query<{ record: DublinCoreMetadata }>(
+      `SELECT record FROM metadata_revisions WHERE file_id = $1 AND revision_number = $2`,
+      [fileId, revisionNumber]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Metadata revision')
+    }
+
+    const record = result.rows[0].record
+    const updates = Object.fromEntries(
+      fields.map((field) => [field, record[field as EditableDcField]])
+    ) as Partial<DublinCoreMetadata>
+
+    const reverted = await this.updateDublinCoreMetadata(fileId, updates, {
+      userId,
+      reason: reason ?? `Reverted to revision ${revisionNumber}`
+    })
+
+    await AuditService.logAction(userId, 'UPDATE', 'metadata', fileId, {
+      newValue: { revision: revisionNumber, fields },
+      reason: reason ?? `Reverted to revision ${revisionNumber}`
+    })
+
+    return reverted
   }
 
   /**
@@ -184,11 +389,13 @@ export class MetadataService {
    */
   static async recordPremisEvent(
     fileId: string,
-    eventType: 'capture' | 'creation' | 'modification' | 'access' | 'migration' | 'validation',
+    eventType: PremisEvent['premis:eventType'],
     eventDetail: string,
-    userId: string
+    userId: string,
+    client?: PoolClient
   ): Promise<void> {
-    const result = await query<{ premis_json: PremisMetadata }>(
+    const result = await queryWith<{ premis_json: PremisMetadata }>(
+      client,
       `SELECT premis_json FROM metadata_premis WHERE file_id = $1`,
       [fileId]
     )
@@ -210,7 +417,8 @@ export class MetadataService {
 
     premisData['premis:events'].push(newEvent)
 
-    await query(
+    await queryWith(
+      client,
       `UPDATE metadata_premis SET
         premis_json = $1,
         updated_at = NOW()
@@ -249,14 +457,19 @@ export class MetadataService {
   /**
    * Get file with all metadata
    */
-  static async getFileWithMetadata(fileId: string): Promise<ArchiveFile | null> {
+  static async getFileWithMetadata(
+    fileId: string,
+    viewer?: AccessSubject
+  ): Promise<ArchiveFile | null> {
     const result = await query<FileWithMetadataRow>(
       `SELECT
-        f.id, f.filename, f.file_path, f.file_hash, f.mime_type, f.file_size,
+        f.id, f.filename, f.file_path, f.storage_backend, f.storage_key,
+        f.file_hash, f.mime_type, f.file_size,
         f.a11y_description, f.cover_color, f.meta_info, f.rating,
         f.created_at, f.updated_at, f.current_version, f.access_level,
         dc.title, dc.creator, dc.type, dc.language, dc.format,
-        p.preservation_level, p.message_digest, p.premis_json
+        p.preservation_level, p.message_digest, p.premis_json,
+        p.format_puid, p.format_name, p.format_version, p.format_identification_method
       FROM files f
       LEFT JOIN metadata_dublin_core dc ON f.id = dc.file_id
       LEFT JOIN metadata_premis p ON f.id = p.file_id
@@ -274,6 +487,8 @@ export class MetadataService {
       id: row.id,
       filename: row.filename,
       filePath: row.file_path,
+      storageBackend: row.storage_backend ?? undefined,
+      storageKey: row.storage_key ?? undefined,
       fileHash: row.file_hash,
       mimeType: row.mime_type,
       fileSize: Number(row.file_size),
@@ -306,20 +521,134 @@ export class MetadataService {
         'premis:preservationLevel': row.preservation_level || 'fulPreservation',
         'premis:events': []
       }) as PremisMetadata,
+      format: {
+        puid: row.format_puid ?? undefined,
+        name: row.format_name || row.mime_type,
+        version: row.format_version ?? undefined,
+        method: row.format_identification_method || 'none'
+      },
       checksum: row.message_digest || row.file_hash,
       isAccessible: true,
-      accessLevel: row.access_level
+      accessLevel: row.access_level,
+      relations: await RelationService.listForFile(fileId, viewer)
+    }
+  }
+
+  /**
+   * Get the full Dublin Core record of a file
+   */
+  static async getDublinCoreMetadata(
+    fileId: string,
+    client?: PoolClient
+  ): Promise<DublinCoreMetadata> {
+    const result = await queryWith<Record<string, string | Date | null>>(
+      client,
+      `SELECT title, creator, subject, description, publisher, date_created, type, format,
+              language, rights, source
+       FROM metadata_dublin_core WHERE file_id = $1`,
+      [fileId]
+    )
+
+    if (result.rows.length === 0) {
+      throw new Error('Metadata not found')
+    }
+
+    const row = result.rows[0]
+    const text = (value: string | Date | null): string | undefined =>
+      value === null ? undefined : value instanceof Date ? value.toISOString() : value
+
+    return {
+      'dc:identifier': fileId,
+      'dc:title': text(row.title) || 'Untitled',
+      'dc:creator': text(row.creator) || 'Unknown',
+      'dc:subject': text(row.subject),
+      'dc:description': text(row.description),
+      'dc:publisher': text(row.publisher),
+      'dc:date': text(row.date_created) || '',
+      'dc:type': (text(row.type) as DublinCoreMetadata['dc:type']) || 'document',
+      'dc:format': text(row.format) || 'application/octet-stream',
+      'dc:language': text(row.language) || 'pl',
+      'dc:rights': text(row.rights),
+      'dc:source': text(row.source)
+    }
+  }
+
+  /**
+   * Get Dublin Core metadata of a file as RDF/XML
+   */
+  static async getDublinCoreXML(fileId: string): Promise<string> {
+    return this.buildDublinCoreXML(
+      await this.getDublinCoreMetadata(fileId),
+      await RelationService.listForFile(fileId)
+    )
+  }
+
+  /**
+   * Get PREMIS metadata (object + events) of a file as XML
+   */
+  static async getPremisXML(fileId: string): Promise<string> {
+    const result = await query<{ premis_json: PremisMetadata }>(
+      `SELECT premis_json FROM metadata_premis WHERE file_id = $1`,
+      [fileId]
+    )
+
+    if (result.rows.length === 0) {
+      throw new Error('PREMIS metadata not found')
     }
+
+    const { 'premis:events': events, ...object } = result.rows[0].premis_json
+
+    return premisXmlBuilder.buildObject({
+      $: { 'xmlns:premis': 'http://www.loc.gov/premis/v3', version: '3.0' },
+      'premis:object': object,
+      'premis:event': events
+    })
   }
 
   // ========== PRIVATE METHODS ==========
 
-  private static buildDublinCoreXML(metadata: Partial<DublinCoreMetadata>): string {
+  /**
+   * Store the record after a change as the next revision; null when nothing changed
+   */
+  private static async recordRevision(
+    fileId: string,
+    before: Partial<DublinCoreMetadata>,
+    after: DublinCoreMetadata,
+    options: { userId?: string; reason?: string },
+    client?: PoolClient
+  ): Promise<MetadataRevision | null> {
+    const changes = diffFields({ ...before }, { ...after })
+    if (changes.length === 0) {
+      return null
+    }
+
+    const result = await queryWith<Record<string, unknown>>(
+      client,
+      `INSERT INTO metadata_revisions (file_id, revision_number, changes, record, reason, created_by)
+       SELECT $1, COALESCE(MAX(revision_number), 0) + 1, $2, $3, $4, $5
+       FROM metadata_revisions WHERE file_id = $1
+       RETURNING *`,
+      [
+        fileId,
+        JSON.stringify(changes),
+        JSON.stringify(after),
+        options.reason ?? null,
+        options.userId || null
+      ]
+    )
+    return mapRevision(result.rows[0])
+  }
+
+  private static buildDublinCoreXML(
+    metadata: Partial<DublinCoreMetadata>,
+    relations: FileRelation[] = []
+  ): string {
     const dc = {
       'rdf:RDF': {
         $: {
           'xmlns:rdf': 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
-          'xmlns:dc': 'http://purl.org/dc/elements/1.1/'
+          'xmlns:dc': 'http://purl.org/dc/elements/1.1/',
+          ...(relations.length > 0 && { 'xmlns:dcterms': 'http://purl.org/dc/terms/' })
         },
         'rdf:Description': {
           $: {
@@ -336,7 +665,8 @@ export class MetadataService {
           'dc:format': metadata['dc:format'],
           'dc:language': metadata['dc:language'],
           'dc:rights': metadata['dc:rights'],
-          'dc:source': metadata['dc:source']
+          'dc:source': metadata['dc:source'],
+          ...dctermsElements(relations)
         }
       }
     }
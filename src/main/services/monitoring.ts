@@ -1,7 +1,7 @@
 import os from 'os'
-import fs from 'fs/promises'
 import { query } from '../database/db'
 import AuditService from './audit'
+import { getStorageBackend } from '../storage'
 import nodemailer from 'nodemailer'
 
 // Konfiguracja e-maila administratora (możesz przenieść do ENV)
@@ -61,27 +61,16 @@ export class MonitoringService {
     timestamp: string
   }> {
     try {
-      // Get file count and total size
-      const storagePath = process.env.STORAGE_PATH || './storage'
+      // Get object count and total size from the storage backend
       const fileStats = { total: 0, size: 0 }
 
       try {
-        const files = await fs.readdir(storagePath, { recursive: true })
-        fileStats.total = files.length
-
-        for (const file of files) {
-          const path = `${storagePath}/${file}`
-          try {
-            const stat = await fs.stat(path)
-            if (stat.isFile()) {
-              fileStats.size += stat.size
-            }
-          } catch {
-            // Skip files we can't stat
-          }
+        for await (const object of getStorageBackend().list('objects/')) {
+          fileStats.total++
+          fileStats.size += object.size
         }
       } catch {
-        // Storage directory doesn't exist or is not accessible
+        // Storage backend not initialized or not reachable
       }
 
       // Get database metrics
@@ -296,6 +285,21 @@ export class MonitoringService {
     }
   }
 
+  /**
+   * Send an e-mail through the configured SMTP transport; false when mail is not configured
+   */
+  static async sendEmail(to: string, subject: string, text: string): Promise<boolean> {
+    if (!mailTransport) return false
+
+    await mailTransport.sendMail({
+      from: `eArchiwum <${SMTP_USER}>`,
+      to,
+      subject: `[eArchiwum] ${subject}`,
+      text
+    })
+    return true
+  }
+
   /**
    * Check for alerts
    */
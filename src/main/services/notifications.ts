@@ -0,0 +1,114 @@
+import { query } from '../database/db'
+import { Notification } from '../types'
+import { NotFoundError } from '../utils/errors'
+import AuthService from './auth'
+import MonitoringService from './monitoring'
+
+const mapNotification = (row: Record<string, unknown>): Notification => ({
+  id: row.id as string,
+  userId: row.user_id as string,
+  type: row.type as Notification['type'],
+  title: row.title as string,
+  message: (row.message as string | null) ?? undefined,
+  data: (row.data as Record<string, unknown> | null) ?? {},
+  readAt: (row.read_at as Date | null)?.toISOString(),
+  createdAt: (row.created_at as Date).toISOString()
+})
+
+/**
+ * NotificationService: Per-user in-app notifications, optionally mirrored by e-mail
+ */
+export class NotificationService {
+  /**
+   * Store a notification; with email set it is also sent to the user's address (best effort)
+   */
+  static async notify(
+    userId: string,
+    notification: Pick<Notification, 'type' | 'title' | 'message' | 'data'>,
+    options: { email?: boolean } = {}
+  ): Promise<Notification> {
+    const result = await query<Record<string, unknown>>(
+      `INSERT INTO notifications (user_id, type, title, message, data)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [
+        userId,
+        notification.type,
+        notification.title,
+        notification.message ?? null,
+        JSON.stringify(notification.data)
+      ]
+    )
+
+    if (options.email) {
+      try {
+        const address = await AuthService.getUserEmail(userId)
+        if (address) {
+          await MonitoringService.sendEmail(
+            address,
+            notification.title,
+            notification.message ?? notification.title
+          )
+        }
+      } catch (error) {
+        console.error(`[Notifications] Failed to e-mail user ${userId}:`, error)
+      }
+    }
+
+    return mapNotification(result.rows[0])
+  }
+
+  /**
+   * Newest notifications of a user
+   */
+  static async list(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<{ notifications: Notification[]; unread: number }> {
+    const { unreadOnly = false, limit = 50, offset = 0 } = options
+
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM notifications
+       WHERE user_id = $1 ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [userId, limit, offset]
+    )
+    const unread = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM notifications WHERE user_id = $1 AND read_at IS NULL`,
+      [userId]
+    )
+
+    return {
+      notifications: result.rows.map(mapNotification),
+      unread: Number(unread.rows[0].count)
+    }
+  }
+
+  /**
+   * Mark one notification as read
+   */
+  static async markRead(userId: string, notificationId: string): Promise<Notification> {
+    const result = await query<Record<string, unknown>>(
+      `UPDATE notifications SET read_at = COALESCE(read_at, NOW())
+       WHERE id = $1 AND user_id = $2 RETURNING *`,
+      [notificationId, userId]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Notification')
+    }
+    return mapNotification(result.rows[0])
+  }
+
+  /**
+   * Mark all of a user's notifications as read; returns how many were unread
+   */
+  static async markAllRead(userId: string): Promise<number> {
+    const result = await query(
+      `UPDATE notifications SET read_at = NOW() WHERE user_id = $1 AND read_at IS NULL`,
+      [userId]
+    )
+    return result.rowCount ?? 0
+  }
+}
+
+export default NotificationService
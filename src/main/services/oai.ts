@@ -0,0 +1,316 @@
+import { query } from '../database/db'
+import { DublinCoreMetadata } from '../types'
+import {
+  OAI_DC_FORMAT,
+  OAI_GRANULARITY,
+  OaiError,
+  OaiRequest,
+  ResumptionState,
+  buildOaiDc,
+  buildOaiIdentifier,
+  buildOaiResponse,
+  buildRecordHeader,
+  decodeResumptionToken,
+  encodeResumptionToken,
+  formatDatestamp,
+  parseDatestamp,
+  parseOaiIdentifier,
+  parseOaiRequest
+} from '../utils/oai'
+
+const PAGE_SIZE = 100
+
+// Records change when either the file row or its Dublin Core row changes (soft deletes included)
+const DATESTAMP = `date_trunc('milliseconds', GREATEST(f.updated_at, dc.updated_at))`
+
+const RECORD_COLUMNS = `f.id, f.is_deleted, ${DATESTAMP} AS datestamp,
+  dc.title, dc.creator, dc.subject, dc.description, dc.publisher, dc.date_created, dc.type,
+  dc.format, dc.language, dc.rights, dc.source`
+
+const RECORD_SOURCE = `FROM files f
+  JOIN metadata_dublin_core dc ON dc.file_id = f.id
+  WHERE f.access_level = 'public'`
+
+type RecordRow = {
+  id: string
+  is_deleted: boolean
+  datestamp: Date
+  title: string
+  creator: string | null
+  subject: string | null
+  description: string | null
+  publisher: string | null
+  date_created: Date | null
+  type: string | null
+  format: string | null
+  language: string | null
+  rights: string | null
+  source: string | null
+}
+
+const getRepository = (): { name: string; identifier: string; adminEmail: string } => ({
+  name: process.env.OAI_REPOSITORY_NAME || 'e-Archiwum',
+  identifier: process.env.OAI_REPOSITORY_ID || 'e-archiwum.local',
+  adminEmail: process.env.OAI_ADMIN_EMAIL || 'admin@e-archiwum.local'
+})
+
+const typeSetSpec = (type: string): string => `type:${type}`
+
+/**
+ * OaiService: OAI-PMH 2.0 data provider over public records (oai_dc)
+ * Sets group records by Dublin Core type (`type:image`, `type:document`, ...).
+ */
+export class OaiService {
+  /**
+   * Handle one OAI-PMH request and return the response XML (protocol errors included)
+   */
+  static async handle(params: Record<string, unknown>, baseUrl: string): Promise<string> {
+    try {
+      const request = parseOaiRequest(params)
+      const content = await this.dispatch(request, baseUrl)
+      return buildOaiResponse(baseUrl, params, { verb: request.verb, content })
+    } catch (error) {
+      if (error instanceof OaiError) {
+        return buildOaiResponse(baseUrl, params, { error })
+      }
+      throw error
+    }
+  }
+
+  private static async dispatch(
+    request: OaiRequest,
+    baseUrl: string
+  ): Promise<Record<string, unknown>> {
+    switch (request.verb) {
+      case 'Identify':
+        return this.identify(baseUrl)
+      case 'ListMetadataFormats':
+        return this.listMetadataFormats(request.identifier)
+      case 'ListSets':
+        return this.listSets(request.resumptionToken)
+      case 'GetRecord':
+        return this.getRecord(request.identifier as string, request.metadataPrefix as string)
+      case 'ListIdentifiers':
+      case 'ListRecords':
+        return this.listRecords(request, request.verb === 'ListRecords')
+    }
+  }
+
+  private static async identify(baseUrl: string): Promise<Record<string, unknown>> {
+    const repository = getRepository()
+    const result = await query<{ earliest: Date | null }>(
+      `SELECT MIN(${DATESTAMP}) AS earliest ${RECORD_SOURCE}`
+    )
+
+    return {
+      repositoryName: repository.name,
+      baseURL: baseUrl,
+      protocolVersion: '2.0',
+      adminEmail: repository.adminEmail,
+      earliestDatestamp: formatDatestamp(result.rows[0]?.earliest ?? new Date()),
+      // Records leave the feed without a trace when their access level changes
+      deletedRecord: 'transient',
+      granularity: OAI_GRANULARITY,
+      description: {
+        'oai-identifier': {
+          $: {
+            xmlns: 'http://www.openarchives.org/OAI/2.0/oai-identifier',
+            'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+            'xsi:schemaLocation':
+              'http://www.openarchives.org/OAI/2.0/oai-identifier ' +
+              'http://www.openarchives.org/OAI/2.0/oai-identifier.xsd'
+          },
+          scheme: 'oai',
+          repositoryIdentifier: repository.identifier,
+          delimiter: ':',
+          sampleIdentifier: buildOaiIdentifier(
+            repository.identifier,
+            '00000000-0000-0000-0000-000000000000'
+          )
+        }
+      }
+    }
+  }
+
+  private static async listMetadataFormats(identifier?: string): Promise<Record<string, unknown>> {
+    if (identifier !== undefined) {
+      await this.findRecord(identifier)
+    }
+    return { metadataFormat: OAI_DC_FORMAT }
+  }
+
+  private static async listSets(resumptionToken?: string): Promise<Record<string, unknown>> {
+    if (resumptionToken !== undefined) {
+      throw new OaiError('badResumptionToken', 'ListSets is never split into pages')
+    }
+
+    const result = await query<{ type: string }>(
+      `SELECT DISTINCT dc.type ${RECORD_SOURCE} AND dc.type IS NOT NULL ORDER BY dc.type`
+    )
+    if (result.rows.length === 0) {
+      throw new OaiError('noSetHierarchy', 'No sets available')
+    }
+
+    return {
+      set: result.rows.map((row) => ({
+        setSpec: typeSetSpec(row.type),
+        setName: `Typ: ${row.type}`
+      }))
+    }
+  }
+
+  private static async getRecord(
+    identifier: string,
+    metadataPrefix: string
+  ): Promise<Record<string, unknown>> {
+    this.assertMetadataPrefix(metadataPrefix)
+    return { record: this.buildRecord(await this.findRecord(identifier), true) }
+  }
+
+  /**
+   * ListIdentifiers / ListRecords: keyset pages ordered by (datestamp, id)
+   */
+  private static async listRecords(
+    request: OaiRequest,
+    withMetadata: boolean
+  ): Promise<Record<string, unknown>> {
+    const resumed = request.resumptionToken !== undefined
+    const state: Omit<ResumptionState, 'after' | 'total'> & Partial<ResumptionState> = resumed
+      ? decodeResumptionToken(request.resumptionToken as string)
+      : {
+          metadataPrefix: request.metadataPrefix as string,
+          from: request.from,
+          until: request.until,
+          set: request.set,
+          cursor: 0
+        }
+    this.assertMetadataPrefix(state.metadataPrefix)
+
+    const conditions: string[] = []
+    const params: unknown[] = []
+    try {
+      if (state.from) {
+        params.push(parseDatestamp(state.from, 'from'))
+        conditions.push(`${DATESTAMP} >= $${params.length}`)
+      }
+      if (state.until) {
+        params.push(parseDatestamp(state.until, 'until'))
+        conditions.push(`${DATESTAMP} < $${params.length}`)
+      }
+    } catch (error) {
+      // A token carries already validated dates - a bad one means it was tampered with
+      if (resumed) throw new OaiError('badResumptionToken', 'Invalid or expired resumptionToken')
+      throw error
+    }
+    if (state.set) {
+      const type = state.set.startsWith('type:') ? state.set.slice('type:'.length) : null
+      params.push(type)
+      conditions.push(`dc.type = $${params.length}`)
+    }
+    const filter = conditions.map((condition) => ` AND ${condition}`).join('')
+
+    let total = state.total
+    if (total === undefined) {
+      const count = await query<{ count: string }>(
+        `SELECT COUNT(*) AS count ${RECORD_SOURCE}${filter}`,
+        params
+      )
+      total = Number(count.rows[0].count)
+    }
+
+    const pageParams = [...params]
+    let keyset = ''
+    if (state.after) {
+      pageParams.push(new Date(state.after.datestamp), state.after.id)
+      keyset = ` AND (${DATESTAMP}, f.id) > ($${pageParams.length - 1}::timestamp, $${pageParams.length}::uuid)`
+    }
+    pageParams.push(PAGE_SIZE + 1)
+
+    const result = await query<RecordRow>(
+      `SELECT ${RECORD_COLUMNS} ${RECORD_SOURCE}${filter}${keyset}
+       ORDER BY ${DATESTAMP}, f.id
+       LIMIT $${pageParams.length}`,
+      pageParams
+    )
+    if (result.rows.length === 0 && !resumed) {
+      throw new OaiError('noRecordsMatch', 'No records match the request')
+    }
+
+    const rows = result.rows.slice(0, PAGE_SIZE)
+    const hasMore = result.rows.length > PAGE_SIZE
+    const last = rows[rows.length - 1]
+
+    const content: Record<string, unknown> = withMetadata
+      ? { record: rows.map((row) => this.buildRecord(row, true)) }
+      : { header: rows.map((row) => this.buildRecord(row, false).header) }
+
+    if (hasMore || resumed) {
+      // The last page of a split list carries an empty token
+      const token = hasMore
+        ? encodeResumptionToken({
+            metadataPrefix: state.metadataPrefix,
+            from: state.from,
+            until: state.until,
+            set: state.set,
+            after: { datestamp: last.datestamp.toISOString(), id: last.id },
+            cursor: state.cursor + rows.length,
+            total
+          })
+        : ''
+      content.resumptionToken = { _: token, $: { completeListSize: total, cursor: state.cursor } }
+    }
+
+    return content
+  }
+
+  private static async findRecord(identifier: string): Promise<RecordRow> {
+    const fileId = parseOaiIdentifier(getRepository().identifier, identifier)
+    const result = fileId
+      ? await query<RecordRow>(`SELECT ${RECORD_COLUMNS} ${RECORD_SOURCE} AND f.id = $1`, [fileId])
+      : { rows: [] as RecordRow[] }
+
+    if (result.rows.length === 0) {
+      throw new OaiError('idDoesNotExist', `Unknown identifier: ${identifier}`)
+    }
+    return result.rows[0]
+  }
+
+  private static assertMetadataPrefix(metadataPrefix: string): void {
+    if (metadataPrefix !== OAI_DC_FORMAT.metadataPrefix) {
+      throw new OaiError('cannotDisseminateFormat', `Unsupported metadataPrefix: ${metadataPrefix}`)
+    }
+  }
+
+  private static buildRecord(
+    row: RecordRow,
+    withMetadata: boolean
+  ): { header: Record<string, unknown>; metadata?: Record<string, unknown> } {
+    const header = buildRecordHeader({
+      identifier: buildOaiIdentifier(getRepository().identifier, row.id),
+      datestamp: row.datestamp,
+      setSpecs: row.type ? [typeSetSpec(row.type)] : [],
+      deleted: row.is_deleted
+    })
+    if (!withMetadata || row.is_deleted) {
+      return { header }
+    }
+
+    const dc: Partial<DublinCoreMetadata> = {
+      'dc:title': row.title,
+      'dc:creator': row.creator ?? undefined,
+      'dc:subject': row.subject ?? undefined,
+      'dc:description': row.description ?? undefined,
+      'dc:publisher': row.publisher ?? undefined,
+      'dc:date': row.date_created ? formatDatestamp(row.date_created) : undefined,
+      'dc:type': (row.type as DublinCoreMetadata['dc:type']) ?? undefined,
+      'dc:format': row.format ?? undefined,
+      'dc:identifier': buildOaiIdentifier(getRepository().identifier, row.id),
+      'dc:language': row.language ?? undefined,
+      'dc:rights': row.rights ?? undefined,
+      'dc:source': row.source ?? undefined
+    }
+    return { header, metadata: buildOaiDc(dc) }
+  }
+}
+
+export default OaiService
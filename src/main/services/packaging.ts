@@ -0,0 +1,163 @@
+import { Readable, Writable } from 'stream'
+import { query } from '../database/db'
+import { PremisMetadata } from '../types'
+import { NotFoundError, ValidationError } from '../utils/errors'
+import TarStreamWriter from '../utils/tarStream'
+import { MetsAgent, MetsFileEntry, PackageType, buildMetsDocument } from '../utils/mets'
+import { getStorageBackend } from '../storage'
+import MetadataService from './metadata'
+import RelationService from './relations'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * PackagingService: METS/PREMIS information packages (AIP for preservation, DIP for users)
+ * Packages are streamed as tar archives: <name>/METS.xml plus <name>/objects/<files>.
+ */
+export class PackagingService {
+  /**
+   * Stream an AIP or DIP for a set of files
+   */
+  static async buildPackage(
+    fileIds: string[],
+    type: PackageType,
+    output: Writable,
+    options: { name: string; label: string; objectId: string }
+  ): Promise<void> {
+    if (fileIds.length === 0) {
+      throw new ValidationError('Nothing to package')
+    }
+
+    const result = await query<{
+      id: string
+      filename: string
+      mime_type: string
+      file_hash: string
+      storage_key: string | null
+      access_level: string
+      created_at: Date
+    }>(
+      `SELECT f.id, f.filename, f.mime_type, f.file_hash, f.storage_key, f.access_level,
+              f.created_at
+       FROM files f
+       WHERE f.id = ANY($1) AND f.is_deleted = FALSE
+       ORDER BY f.created_at`,
+      [fileIds]
+    )
+    if (result.rows.length !== new Set(fileIds).size) {
+      throw new NotFoundError('One or more files')
+    }
+
+    const backend = getStorageBackend()
+    const usedPaths = new Set<string>()
+    const entries: Array<MetsFileEntry & { storageKey: string }> = []
+
+    for (const file of result.rows) {
+      const stat = file.storage_key ? await backend.stat(file.storage_key) : null
+      if (!file.storage_key || !stat) {
+        throw new Error(`File ${file.id} does not exist in storage`)
+      }
+
+      let href = `objects/${file.filename}`
+      if (usedPaths.has(href)) href = `objects/${file.id}/${file.filename}`
+      usedPaths.add(href)
+
+      const premis = await this.getPremis(file.id)
+      entries.push({
+        id: file.id,
+        href,
+        mimeType: file.mime_type,
+        size: stat.size,
+        checksum: file.file_hash,
+        createdAt: file.created_at.toISOString(),
+        dublinCore: await MetadataService.getDublinCoreMetadata(file.id),
+        premis,
+        accessLevel: file.access_level,
+        agents: type === 'aip' ? await this.getAgents(premis) : [],
+        // The newest revision is the current record
+        metadataHistory:
+          type === 'aip' ? (await MetadataService.getRevisions(file.id)).slice(1) : undefined,
+        relations: await RelationService.listForFile(file.id),
+        storageKey: file.storage_key
+      })
+    }
+
+    const mets = Buffer.from(
+      buildMetsDocument({
+        type,
+        objectId: options.objectId,
+        label: options.label,
+        createdAt: new Date().toISOString(),
+        files: entries
+      })
+    )
+
+    const tar = new TarStreamWriter(output)
+    await tar.addEntry(`${options.name}/METS.xml`, mets.length, Readable.from([mets]))
+    for (const entry of entries) {
+      await tar.addEntry(
+        `${options.name}/${entry.href}`,
+        entry.size,
+        await backend.get(entry.storageKey)
+      )
+    }
+    await tar.finalize()
+  }
+
+  /**
+   * Stream the package of a single file
+   */
+  static async buildFilePackage(
+    fileId: string,
+    type: PackageType,
+    output: Writable
+  ): Promise<void> {
+    const dc = await MetadataService.getDublinCoreMetadata(fileId).catch(() => {
+      throw new NotFoundError('File')
+    })
+
+    await this.buildPackage([fileId], type, output, {
+      name: `${type}-${fileId}`,
+      label: dc['dc:title'],
+      objectId: fileId
+    })
+  }
+
+  private static async getPremis(fileId: string): Promise<PremisMetadata> {
+    const result = await query<{ premis_json: PremisMetadata }>(
+      `SELECT premis_json FROM metadata_premis WHERE file_id = $1`,
+      [fileId]
+    )
+    if (result.rows.length === 0) {
+      throw new Error(`PREMIS metadata not found for file ${fileId}`)
+    }
+    return result.rows[0].premis_json
+  }
+
+  /**
+   * Resolve the agents linked from PREMIS events (users by id, everything else is software)
+   */
+  private static async getAgents(premis: PremisMetadata): Promise<MetsAgent[]> {
+    const identifiers = [
+      ...new Set(premis['premis:events'].map((event) => event['premis:linkingAgentIdentifier']))
+    ].filter(Boolean)
+
+    const userIds = identifiers.filter((id) => UUID_PATTERN.test(id))
+    const usernames = new Map<string, string>()
+    if (userIds.length > 0) {
+      const users = await query<{ id: string; username: string }>(
+        `SELECT id, username FROM users WHERE id = ANY($1)`,
+        [userIds]
+      )
+      users.rows.forEach((user) => usernames.set(user.id, user.username))
+    }
+
+    return identifiers.map((id) =>
+      usernames.has(id)
+        ? { identifier: id, name: usernames.get(id) as string, type: 'person' }
+        : { identifier: id, name: id === 'system' ? 'e-Archiwum' : id, type: 'software' }
+    )
+  }
+}
+
+export default PackagingService
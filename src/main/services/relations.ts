@@ -0,0 +1,147 @@
+import { query, withTransaction } from '../database/db'
+import { AccessSubject, FileRelation, RelationType } from '../types'
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors'
+import {
+  ACYCLIC_RELATIONS,
+  CanonicalRelation,
+  normalizeRelation,
+  relationFrom
+} from '../utils/relations'
+import AuditService from './audit'
+import AccessService from './access'
+
+const isUniqueViolation = (error: unknown): boolean => (error as { code?: string }).code === '23505'
+
+/**
+ * RelationService: Typed links between files (dcterms:isPartOf, hasVersion, references, ...)
+ * A relation and its inverse are one row, so it shows up on both files. Part-of, version-of
+ * and replaces chains must not loop back to where they started.
+ */
+export class RelationService {
+  /**
+   * Relations of a file as seen from it, with the other file's title; with a viewer set,
+   * relations to files they may not read are left out
+   */
+  static async listForFile(fileId: string, viewer?: AccessSubject): Promise<FileRelation[]> {
+    const readable = AccessService.readableCondition(viewer, 'f', 2)
+    const result = await query<Record<string, unknown>>(
+      `SELECT r.*, f.id as other_id, f.filename, f.mime_type, COALESCE(dc.title, f.filename) as title
+       FROM file_relations r
+       JOIN files f ON f.id = CASE WHEN r.subject_id = $1 THEN r.object_id ELSE r.subject_id END
+       LEFT JOIN metadata_dublin_core dc ON dc.file_id = f.id
+       WHERE (r.subject_id = $1 OR r.object_id = $1) AND f.is_deleted = FALSE
+         AND ${readable.sql}
+       ORDER BY r.relation, title`,
+      [fileId, ...readable.params]
+    )
+
+    return result.rows.map((row) => {
+      const { relation } = relationFrom(fileId, {
+        subjectId: row.subject_id as string,
+        relation: row.relation as CanonicalRelation,
+        objectId: row.object_id as string
+      })
+      return {
+        id: row.id as string,
+        relation,
+        fileId: row.other_id as string,
+        title: row.title as string,
+        mimeType: row.mime_type as string,
+        note: (row.note as string | null) ?? undefined,
+        createdBy: (row.created_by as string | null) ?? undefined,
+        createdAt: (row.created_at as Date).toISOString()
+      }
+    })
+  }
+
+  /**
+   * Record "fileId relation targetId"
+   */
+  static async create(
+    fileId: string,
+    relation: RelationType,
+    targetId: string,
+    note: string | undefined,
+    createdBy: string
+  ): Promise<FileRelation> {
+    if (fileId === targetId) {
+      throw new ValidationError('A file cannot be related to itself')
+    }
+
+    const files = await query<{ id: string }>(
+      `SELECT id FROM files WHERE id = ANY($1::uuid[]) AND is_deleted = FALSE`,
+      [[fileId, targetId]]
+    )
+    if (files.rows.length !== 2) {
+      throw new NotFoundError('File')
+    }
+
+    const stored = normalizeRelation(fileId, relation, targetId)
+
+    const id = await withTransaction(async (client) => {
+      if (ACYCLIC_RELATIONS.includes(stored.relation)) {
+        // Serialize writers so two inserts cannot close a loop between them
+        await client.query(`LOCK TABLE file_relations IN SHARE ROW EXCLUSIVE MODE`)
+        const loop = await client.query(
+          `WITH RECURSIVE reachable(id) AS (
+             SELECT $2::uuid
+             UNION
+             SELECT r.object_id FROM file_relations r
+             JOIN reachable ON r.subject_id = reachable.id
+             WHERE r.relation = $3
+           )
+           SELECT 1 FROM reachable WHERE id = $1`,
+          [stored.subjectId, stored.objectId, stored.relation]
+        )
+        if (loop.rows.length > 0) {
+          throw new ValidationError(`This ${stored.relation} relation would create a cycle`)
+        }
+      }
+
+      try {
+        const result = await client.query<{ id: string }>(
+          `INSERT INTO file_relations (subject_id, object_id, relation, note, created_by)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING id`,
+          [stored.subjectId, stored.objectId, stored.relation, note ?? null, createdBy]
+        )
+        return result.rows[0].id
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError('These files are already related this way')
+        }
+        throw error
+      }
+    })
+
+    await AuditService.logAction(createdBy, 'CREATE', 'file', fileId, {
+      newValue: { relationId: id, relation, targetId, note },
+      reason: 'File relation added'
+    })
+
+    const relations = await this.listForFile(fileId)
+    return relations.find((item) => item.id === id) as FileRelation
+  }
+
+  /**
+   * Remove a relation of a file (from either side)
+   */
+  static async delete(fileId: string, relationId: string, deletedBy: string): Promise<void> {
+    const result = await query<Record<string, unknown>>(
+      `DELETE FROM file_relations
+       WHERE id = $1 AND (subject_id = $2 OR object_id = $2)
+       RETURNING subject_id, object_id, relation`,
+      [relationId, fileId]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Relation')
+    }
+
+    await AuditService.logAction(deletedBy, 'DELETE', 'file', fileId, {
+      previousValue: result.rows[0],
+      reason: 'File relation removed'
+    })
+  }
+}
+
+export default RelationService
@@ -0,0 +1,203 @@
+import { PoolClient } from 'pg'
+import { query, queryWith } from '../database/db'
+import { FileReplica } from '../types'
+import { getBackendByName } from '../storage'
+import HashService from './hash'
+import MetadataService from './metadata'
+import { StoredObject } from './storage'
+
+export interface ReplicaCheck {
+  storageBackend: string
+  storageKey: string
+  status: FileReplica['status'] | 'unavailable'
+  currentHash?: string
+  error?: string
+}
+
+const mapReplica = (row: Record<string, unknown>): FileReplica => ({
+  id: row.id as string,
+  fileId: row.file_id as string,
+  storageBackend: row.storage_backend as string,
+  storageKey: row.storage_key as string,
+  fileHash: (row.file_hash as string | null) ?? undefined,
+  status: row.status as FileReplica['status'],
+  lastVerifiedAt: (row.last_verified_at as Date | null)?.toISOString(),
+  createdAt: (row.created_at as Date).toISOString(),
+  updatedAt: (row.updated_at as Date).toISOString()
+})
+
+type StoredCopy = Pick<FileReplica, 'storageBackend' | 'storageKey' | 'fileHash'>
+
+/**
+ * ReplicationService: Track and heal the stored copies of each file version's object
+ */
+export class ReplicationService {
+  /**
+   * Record the copies written at ingest (primary + replicas) of a file version's object
+   */
+  static async recordCopies(
+    fileId: string,
+    fileHash: string,
+    copies: StoredObject[],
+    userId: string,
+    client?: PoolClient
+  ): Promise<void> {
+    for (const copy of copies) {
+      await queryWith(
+        client,
+        `INSERT INTO file_replicas (file_id, storage_backend, storage_key, file_hash, status)
+         VALUES ($1, $2, $3, $4, 'ok')
+         ON CONFLICT (file_id, storage_backend, storage_key) DO UPDATE SET
+           file_hash = EXCLUDED.file_hash,
+           status = 'ok',
+           last_verified_at = NULL,
+           updated_at = NOW()`,
+        [fileId, copy.backend, copy.key, fileHash]
+      )
+    }
+
+    if (copies.length > 1) {
+      await MetadataService.recordPremisEvent(
+        fileId,
+        'replication',
+        `Object replicated to ${copies.length} storage locations: ${copies
+          .map((copy) => copy.backend)
+          .join(', ')}`,
+        userId,
+        client
+      )
+    }
+  }
+
+  /**
+   * Get all recorded copies of a file, for all of its versions
+   */
+  static async getCopies(fileId: string): Promise<FileReplica[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM file_replicas WHERE file_id = $1 ORDER BY created_at`,
+      [fileId]
+    )
+    return result.rows.map(mapReplica)
+  }
+
+  /**
+   * Hash every copy of a file's objects and repair damaged or missing copies from a good copy
+   * of the same object. A copy is checked against its own hash, or `currentHash` (the current
+   * version's) when that was not recorded. Copies on backends that are no longer configured
+   * are reported as unavailable.
+   */
+  static async verifyCopies(
+    fileId: string,
+    currentHash: string,
+    copies: StoredCopy[]
+  ): Promise<ReplicaCheck[]> {
+    const checks: ReplicaCheck[] = []
+
+    for (const copy of copies) {
+      checks.push(await this.checkCopy(copy, copy.fileHash ?? currentHash))
+    }
+
+    for (const [index, copy] of copies.entries()) {
+      const check = checks[index]
+      if (check.status !== 'failed' && check.status !== 'missing') continue
+      const source = copies.find(
+        (other, otherIndex) =>
+          other.storageKey === copy.storageKey && checks[otherIndex].status === 'ok'
+      )
+      if (!source) {
+        check.error = 'No intact copy available for repair'
+        continue
+      }
+
+      try {
+        await this.repairCopy(copy, source, copy.fileHash ?? currentHash)
+        await MetadataService.recordPremisEvent(
+          fileId,
+          'repair',
+          `${check.status === 'missing' ? 'Missing' : 'Corrupted'} copy in ${copy.storageBackend} restored from ${source.storageBackend}`,
+          'system'
+        )
+        check.status = 'repaired'
+      } catch (error) {
+        check.error = `Repair failed: ${(error as Error).message}`
+      }
+    }
+
+    for (const [index, copy] of copies.entries()) {
+      const { status } = checks[index]
+      if (status === 'unavailable') continue
+      await query(
+        `UPDATE file_replicas
+         SET status = $1, last_verified_at = NOW(), updated_at = NOW()
+         WHERE file_id = $2 AND storage_backend = $3 AND storage_key = $4`,
+        [status, fileId, copy.storageBackend, copy.storageKey]
+      )
+    }
+
+    return checks
+  }
+
+  private static async checkCopy(copy: StoredCopy, expectedHash: string): Promise<ReplicaCheck> {
+    const backend = getBackendByName(copy.storageBackend)
+    if (!backend) {
+      return {
+        storageBackend: copy.storageBackend,
+        storageKey: copy.storageKey,
+        status: 'unavailable',
+        error: 'Storage backend is not configured'
+      }
+    }
+
+    if (!(await backend.stat(copy.storageKey))) {
+      return {
+        storageBackend: copy.storageBackend,
+        storageKey: copy.storageKey,
+        status: 'missing',
+        error: 'File does not exist in storage'
+      }
+    }
+
+    const currentHash = await HashService.calculateStreamHash(await backend.get(copy.storageKey))
+    return {
+      storageBackend: copy.storageBackend,
+      storageKey: copy.storageKey,
+      status: currentHash === expectedHash ? 'ok' : 'failed',
+      currentHash
+    }
+  }
+
+  /**
+   * Overwrite a copy with the bytes of an intact copy and re-verify it
+   */
+  private static async repairCopy(
+    target: Pick<FileReplica, 'storageBackend' | 'storageKey'>,
+    source: Pick<FileReplica, 'storageBackend' | 'storageKey'>,
+    expectedHash: string
+  ): Promise<void> {
+    const targetBackend = getBackendByName(target.storageBackend)
+    const sourceBackend = getBackendByName(source.storageBackend)
+    if (!targetBackend || !sourceBackend) {
+      throw new Error('Storage backend is not configured')
+    }
+
+    const sourceStat = await sourceBackend.stat(source.storageKey)
+    if (!sourceStat) {
+      throw new Error(`Source copy disappeared from ${source.storageBackend}`)
+    }
+
+    await targetBackend.put(
+      target.storageKey,
+      await sourceBackend.get(source.storageKey),
+      sourceStat.size
+    )
+
+    const repairedHash = await HashService.calculateStreamHash(
+      await targetBackend.get(target.storageKey)
+    )
+    if (repairedHash !== expectedHash) {
+      throw new Error(`Repaired copy hash mismatch - got: ${repairedHash}`)
+    }
+  }
+}
+
+export default ReplicationService
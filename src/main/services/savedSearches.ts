@@ -0,0 +1,281 @@
+import { query, withTransaction } from '../database/db'
+import { AccessSubject, ArchiveFile, SavedSearch, SavedSearchQuery, UserRole } from '../types'
+import { ConflictError, NotFoundError } from '../utils/errors'
+import { parseSearchQuery } from '../utils/searchQuery'
+import AccessService from './access'
+import FileService from './files'
+import NotificationService from './notifications'
+
+// New matches listed by name in a notification
+const NOTIFY_TITLES = 10
+
+const mapSavedSearch = (row: Record<string, unknown>): SavedSearch => ({
+  id: row.id as string,
+  userId: row.user_id as string,
+  name: row.name as string,
+  query: row.query as SavedSearchQuery,
+  notifyEmail: Boolean(row.notify_email),
+  matchCount: Number(row.match_count ?? 0),
+  lastRunAt: (row.last_run_at as Date | null)?.toISOString(),
+  createdAt: (row.created_at as Date).toISOString(),
+  updatedAt: (row.updated_at as Date).toISOString()
+})
+
+const isUniqueViolation = (error: unknown): boolean => (error as { code?: string }).code === '23505'
+
+/**
+ * SavedSearchService: Named searches re-evaluated by the scheduler
+ * The first run records what already matches; later runs notify the owner about files
+ * that match for the first time (new uploads, or records whose metadata changed).
+ */
+export class SavedSearchService {
+  /**
+   * Saved searches of a user
+   */
+  static async list(userId: string): Promise<SavedSearch[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT ss.*, (SELECT COUNT(*) FROM saved_search_matches m WHERE m.saved_search_id = ss.id)
+         as match_count
+       FROM saved_searches ss
+       WHERE ss.user_id = $1
+       ORDER BY ss.name`,
+      [userId]
+    )
+    return result.rows.map(mapSavedSearch)
+  }
+
+  /**
+   * Get one of the user's saved searches
+   */
+  static async get(userId: string, id: string): Promise<SavedSearch> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT ss.*, (SELECT COUNT(*) FROM saved_search_matches m WHERE m.saved_search_id = ss.id)
+         as match_count
+       FROM saved_searches ss
+       WHERE ss.id = $1 AND ss.user_id = $2`,
+      [id, userId]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Saved search')
+    }
+    return mapSavedSearch(result.rows[0])
+  }
+
+  /**
+   * Save a search and record its current matches as the baseline
+   */
+  static async create(
+    userId: string,
+    input: { name: string; query: SavedSearchQuery; notifyEmail?: boolean }
+  ): Promise<SavedSearch> {
+    this.checkQuery(input.query)
+
+    let id: string
+    try {
+      const result = await query<{ id: string }>(
+        `INSERT INTO saved_searches (user_id, name, query, notify_email)
+         VALUES ($1, $2, $3, $4) RETURNING id`,
+        [userId, input.name, JSON.stringify(input.query), input.notifyEmail ?? false]
+      )
+      id = result.rows[0].id
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`A saved search named '${input.name}' already exists`)
+      }
+      throw error
+    }
+
+    await this.run(id)
+    return this.get(userId, id)
+  }
+
+  /**
+   * Rename a saved search, change its query or e-mail setting; a new query starts a new baseline
+   */
+  static async update(
+    userId: string,
+    id: string,
+    changes: { name?: string; query?: SavedSearchQuery; notifyEmail?: boolean }
+  ): Promise<SavedSearch> {
+    if (changes.query) this.checkQuery(changes.query)
+
+    try {
+      await withTransaction(async (client) => {
+        const result = await client.query(
+          `UPDATE saved_searches SET
+             name = COALESCE($3, name),
+             query = COALESCE($4, query),
+             notify_email = COALESCE($5, notify_email),
+             last_run_at = CASE WHEN $4::jsonb IS NULL THEN last_run_at END
+           WHERE id = $1 AND user_id = $2`,
+          [
+            id,
+            userId,
+            changes.name ?? null,
+            changes.query ? JSON.stringify(changes.query) : null,
+            changes.notifyEmail ?? null
+          ]
+        )
+        if (result.rowCount === 0) {
+          throw new NotFoundError('Saved search')
+        }
+        if (changes.query) {
+          await client.query(`DELETE FROM saved_search_matches WHERE saved_search_id = $1`, [id])
+        }
+      })
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`A saved search named '${changes.name}' already exists`)
+      }
+      throw error
+    }
+
+    if (changes.query) await this.run(id)
+    return this.get(userId, id)
+  }
+
+  /**
+   * Delete a saved search with its recorded matches
+   */
+  static async delete(userId: string, id: string): Promise<void> {
+    const result = await query(`DELETE FROM saved_searches WHERE id = $1 AND user_id = $2`, [
+      id,
+      userId
+    ])
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Saved search')
+    }
+  }
+
+  /**
+   * Files matched by a saved search that the owner may still read, most recently matched first
+   */
+  static async getMatches(
+    viewer: AccessSubject,
+    id: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<Array<ArchiveFile & { matchedAt: string }>> {
+    const { limit = 50, offset = 0 } = options
+    await this.get(viewer.userId, id)
+
+    const readable = AccessService.readableCondition(viewer, 'f', 4)
+    const result = await query<{ id: string; matched_at: Date }>(
+      `SELECT f.id, m.matched_at
+       FROM saved_search_matches m
+       JOIN files f ON f.id = m.file_id
+       WHERE m.saved_search_id = $1 AND f.is_deleted = FALSE AND ${readable.sql}
+       ORDER BY m.matched_at DESC, f.filename
+       LIMIT $2 OFFSET $3`,
+      [id, limit, offset, ...readable.params]
+    )
+
+    const matches: Array<ArchiveFile & { matchedAt: string }> = []
+    for (const row of result.rows) {
+      const file = await FileService.getFile(row.id, undefined, viewer)
+      if (file) {
+        matches.push({ ...file, matchedAt: row.matched_at.toISOString() })
+      }
+    }
+    return matches
+  }
+
+  /**
+   * Re-evaluate every saved search of active users; returns the number of new matches
+   */
+  static async runAll(): Promise<number> {
+    const result = await query<{ id: string }>(
+      `SELECT ss.id FROM saved_searches ss
+       JOIN users u ON u.id = ss.user_id
+       WHERE u.is_active = TRUE
+       ORDER BY ss.last_run_at NULLS FIRST`
+    )
+
+    let total = 0
+    for (const { id } of result.rows) {
+      try {
+        total += await this.run(id)
+      } catch (error) {
+        console.error(`[Saved Searches] ${id} failed:`, error)
+      }
+    }
+    return total
+  }
+
+  /**
+   * Evaluate one saved search with its owner's current access, record files matching for the
+   * first time and notify the owner (not on the baseline run); returns the number of new matches
+   */
+  static async run(id: string): Promise<number> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT ss.*, u.role FROM saved_searches ss
+       JOIN users u ON u.id = ss.user_id
+       WHERE ss.id = $1`,
+      [id]
+    )
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Saved search')
+    }
+    const row = result.rows[0]
+    const saved = mapSavedSearch(row)
+    const fileIds = await FileService.findMatchingFileIds({
+      ...saved.query,
+      viewer: { userId: saved.userId, role: row.role as UserRole }
+    })
+
+    const inserted = await withTransaction(async (client) => {
+      const matches = await client.query<{ file_id: string }>(
+        `INSERT INTO saved_search_matches (saved_search_id, file_id)
+         SELECT $1, unnest($2::uuid[])
+         ON CONFLICT DO NOTHING
+         RETURNING file_id`,
+        [id, fileIds]
+      )
+      await client.query(`UPDATE saved_searches SET last_run_at = NOW() WHERE id = $1`, [id])
+      return matches.rows.map((match) => match.file_id)
+    })
+
+    if (saved.lastRunAt && inserted.length > 0) {
+      await this.notifyNewMatches(saved, inserted)
+    }
+    return saved.lastRunAt ? inserted.length : 0
+  }
+
+  private static async notifyNewMatches(saved: SavedSearch, fileIds: string[]): Promise<void> {
+    const titles = await query<{ title: string }>(
+      `SELECT COALESCE(dc.title, f.filename) as title
+       FROM files f
+       LEFT JOIN metadata_dublin_core dc ON dc.file_id = f.id
+       WHERE f.id = ANY($1::uuid[])
+       ORDER BY f.created_at DESC
+       LIMIT ${NOTIFY_TITLES}`,
+      [fileIds]
+    )
+
+    const lines = titles.rows.map((row) => `- ${row.title}`)
+    if (fileIds.length > titles.rows.length) {
+      lines.push(`... i ${fileIds.length - titles.rows.length} więcej`)
+    }
+
+    await NotificationService.notify(
+      saved.userId,
+      {
+        type: 'saved_search',
+        title: `Nowe wyniki zapisanego wyszukiwania "${saved.name}": ${fileIds.length}`,
+        message: `Nowe pliki pasujące do wyszukiwania "${saved.name}":\n\n${lines.join('\n')}`,
+        data: { savedSearchId: saved.id, fileIds }
+      },
+      { email: saved.notifyEmail }
+    )
+  }
+
+  /**
+   * Reject advanced queries with syntax errors when saving instead of on every run
+   */
+  private static checkQuery(savedQuery: SavedSearchQuery): void {
+    if (savedQuery.advanced && savedQuery.q.trim()) {
+      parseSearchQuery(savedQuery.q)
+    }
+  }
+}
+
+export default SavedSearchService
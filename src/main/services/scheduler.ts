@@ -2,6 +2,10 @@ import FixityService from './fixity'
 import AuditService from './audit'
 import BackupService from './backup'
 import MonitoringService from './monitoring'
+import UploadService from './uploads'
+import ExtractionService from './extraction'
+import FileService from './files'
+import SavedSearchService from './savedSearches'
 
 /**
  * SchedulerService: Background jobs for maintenance tasks
@@ -18,6 +22,10 @@ export class SchedulerService {
     this.startFixityCheckJob()
     this.startBackupJobs()
     this.startMonitoringJob()
+    this.startUploadCleanupJob()
+    this.startExtractionJob()
+    this.startSearchVocabularyJob()
+    this.startSavedSearchJob()
   }
 
   /**
@@ -71,12 +79,12 @@ export class SchedulerService {
       const duration = Date.now() - startTime
 
       console.log(
-        `[Fixity Check] Complete - Total: ${report.total}, Valid: ${report.verified}, Failed: ${report.failed} (${duration}ms)`
+        `[Fixity Check] Complete - Total: ${report.total}, Valid: ${report.verified}, Failed: ${report.failed}, Repaired copies: ${report.repaired} (${duration}ms)`
       )
 
       // Log summary to audit
       await AuditService.logAction(null, 'VALIDATE', 'file', 'batch-check', {
-        errorMessage: `Fixity check: ${report.verified}/${report.total} valid, ${report.failed} failed in ${duration}ms`
+        errorMessage: `Fixity check: ${report.verified}/${report.total} valid, ${report.failed} failed, ${report.repaired} copies repaired in ${duration}ms`
       })
 
       // Alert if there are failures
@@ -179,5 +187,95 @@ export class SchedulerService {
       console.error('[Monitoring] Error during health check:', error)
     }
   }
+
+  /**
+   * Upload cleanup job - every hour
+   */
+  private static startUploadCleanupJob(): void {
+    const interval = setInterval(() => this.runUploadCleanup(), 60 * 60 * 1000)
+    interval.unref() // Allow process to exit
+    this.intervals.set('upload-cleanup', interval)
+
+    console.log('[Scheduler] Expired upload cleanup scheduled: every hour')
+  }
+
+  /**
+   * Abort expired resumable upload sessions
+   */
+  private static async runUploadCleanup(): Promise<void> {
+    try {
+      const aborted = await UploadService.cleanupExpiredSessions()
+      if (aborted > 0) {
+        console.log(`[Upload Cleanup] Aborted ${aborted} expired upload session(s)`)
+      }
+    } catch (error) {
+      console.error('[Upload Cleanup] Error:', error)
+    }
+  }
+
+  /**
+   * Text extraction worker - drains the queue at startup, retries failures every 15 minutes
+   */
+  private static startExtractionJob(): void {
+    ExtractionService.start().catch((e) => console.error('[Extraction] Start error:', e))
+
+    const interval = setInterval(
+      () => {
+        ExtractionService.retryFailed().catch((e) => console.error('[Extraction] Retry error:', e))
+      },
+      15 * 60 * 1000
+    )
+    interval.unref() // Allow process to exit
+    this.intervals.set('extraction-retry', interval)
+
+    console.log('[Scheduler] Text extraction worker started, retries every 15 minutes')
+  }
+
+  /**
+   * Search vocabulary refresh - every hour
+   */
+  private static startSearchVocabularyJob(): void {
+    const interval = setInterval(() => this.runSearchVocabularyRefresh(), 60 * 60 * 1000)
+    interval.unref() // Allow process to exit
+    this.intervals.set('search-vocabulary', interval)
+
+    console.log('[Scheduler] Search vocabulary refresh scheduled: every hour')
+  }
+
+  /**
+   * Rebuild the "did you mean" vocabulary from current metadata
+   */
+  private static async runSearchVocabularyRefresh(): Promise<void> {
+    try {
+      await FileService.refreshSearchVocabulary()
+    } catch (error) {
+      console.error('[Search Vocabulary] Error:', error)
+    }
+  }
+
+  /**
+   * Saved search evaluation - every 6 hours
+   */
+  private static startSavedSearchJob(): void {
+    const interval = setInterval(() => this.runSavedSearches(), 6 * 60 * 60 * 1000)
+    interval.unref() // Allow process to exit
+    this.intervals.set('saved-searches', interval)
+
+    console.log('[Scheduler] Saved search evaluation scheduled: every 6 hours')
+  }
+
+  /**
+   * Re-run saved searches and notify their owners about new matches
+   */
+  private static async runSavedSearches(): Promise<void> {
+    try {
+      const matches = await SavedSearchService.runAll()
+      if (matches > 0) {
+        console.log(`[Saved Searches] ${matches} new match(es) reported`)
+      }
+    } catch (error) {
+      console.error('[Saved Searches] Error:', error)
+    }
+  }
 }
 export default SchedulerService
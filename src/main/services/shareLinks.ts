@@ -0,0 +1,455 @@
+import bcryptjs from 'bcryptjs'
+import { query } from '../database/db'
+import {
+  AccessSubject,
+  ArchiveFile,
+  ClientInfo,
+  Collection,
+  ShareLink,
+  ShareLinkMode,
+  SharedFile,
+  SharedItem,
+  UserRole
+} from '../types'
+import {
+  AppError,
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  ValidationError
+} from '../utils/errors'
+import {
+  SHARE_LINK_MAX_DAYS,
+  collectionShareRejection,
+  downloadsRemaining,
+  formatShareToken,
+  parseShareToken,
+  shareLinkStatus,
+  sharePermission,
+  shareTokenPayload
+} from '../utils/shareLinks'
+import AuditService from './audit'
+import AccessService from './access'
+import CollectionService from './collections'
+import EncryptionService from './encryption'
+import FileService from './files'
+
+const LINK_SELECT = `SELECT l.*, u.username as created_by_username, u.role as created_by_role,
+    COALESCE(c.title, dc.title, f.filename) as title
+  FROM share_links l
+  LEFT JOIN users u ON u.id = l.created_by
+  LEFT JOIN files f ON f.id = l.file_id
+  LEFT JOIN metadata_dublin_core dc ON dc.file_id = l.file_id
+  LEFT JOIN collections c ON c.id = l.collection_id`
+
+const SHARED_FILE_SELECT = `SELECT f.id, f.filename, f.mime_type, f.file_size,
+    COALESCE(dc.title, f.filename) as title, dc.creator, dc.description, dc.date_created
+  FROM files f
+  LEFT JOIN metadata_dublin_core dc ON dc.file_id = f.id`
+
+type StoredLink = ShareLink & { passwordHash?: string; creator?: AccessSubject }
+
+const mapLink = (row: Record<string, unknown>): StoredLink => {
+  const id = row.id as string
+  const expiresAt = (row.expires_at as Date).toISOString()
+  const link = {
+    id,
+    token: formatShareToken(id, EncryptionService.sign(shareTokenPayload(id, expiresAt))),
+    fileId: (row.file_id as string | null) ?? undefined,
+    collectionId: (row.collection_id as string | null) ?? undefined,
+    title: row.title as string,
+    mode: row.mode as ShareLinkMode,
+    hasPassword: Boolean(row.password_hash),
+    maxDownloads: row.max_downloads === null ? undefined : Number(row.max_downloads),
+    downloadCount: Number(row.download_count),
+    note: (row.note as string | null) ?? undefined,
+    createdBy: (row.created_by as string | null) ?? undefined,
+    createdByUsername: (row.created_by_username as string | null) ?? undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+    expiresAt,
+    revokedAt: (row.revoked_at as Date | null)?.toISOString(),
+    lastAccessedAt: (row.last_accessed_at as Date | null)?.toISOString()
+  }
+  return {
+    ...link,
+    status: shareLinkStatus(link),
+    passwordHash: (row.password_hash as string | null) ?? undefined,
+    creator: row.created_by
+      ? { userId: row.created_by as string, role: row.created_by_role as UserRole }
+      : undefined
+  }
+}
+
+// Drop what must not leave the service
+const publicLink = (stored: StoredLink): ShareLink => {
+  const link: Partial<StoredLink> = { ...stored }
+  delete link.passwordHash
+  delete link.creator
+  return link as ShareLink
+}
+
+const mapSharedFile = (row: Record<string, unknown>): SharedFile => ({
+  id: row.id as string,
+  filename: row.filename as string,
+  mimeType: row.mime_type as string,
+  fileSize: Number(row.file_size),
+  title: row.title as string,
+  creator: (row.creator as string | null) ?? undefined,
+  description: (row.description as string | null) ?? undefined,
+  dateCreated: (row.date_created as Date | null)?.toISOString()
+})
+
+/**
+ * ShareLinkService: Signed, expiring links that let someone without an account view or
+ * download one file or a collection. A link never shows more than its creator could read,
+ * and every use of it is audited.
+ */
+export class ShareLinkService {
+  /**
+   * Links created by a user (admins: by anyone), newest first; only active and exhausted
+   * links unless includeInactive
+   */
+  static async list(subject: AccessSubject, includeInactive = false): Promise<ShareLink[]> {
+    const all = subject.role === UserRole.ADMIN
+    const result = await query<Record<string, unknown>>(
+      `${LINK_SELECT}
+       WHERE ($1::boolean OR l.created_by = $2::uuid)
+         AND ($3::boolean OR (l.revoked_at IS NULL AND l.expires_at > NOW()))
+       ORDER BY l.created_at DESC`,
+      [all, subject.userId, includeInactive]
+    )
+    return result.rows.map((row) => publicLink(mapLink(row)))
+  }
+
+  /**
+   * Get a link
+   */
+  static async get(id: string): Promise<ShareLink> {
+    return publicLink(await this.load(id))
+  }
+
+  /**
+   * Create a link to a file or a collection; the creator must be able to read the file, or
+   * at least one file in the collection (download it, for a download link)
+   */
+  static async create(
+    input: {
+      fileId?: string
+      collectionId?: string
+      mode: ShareLinkMode
+      expiresAt: string
+      password?: string
+      maxDownloads?: number
+      note?: string
+    },
+    subject: AccessSubject
+  ): Promise<ShareLink> {
+    if (Boolean(input.fileId) === Boolean(input.collectionId)) {
+      throw new ValidationError('Give either a file or a collection')
+    }
+    const expiresAt = new Date(input.expiresAt)
+    if (expiresAt <= new Date()) {
+      throw new ValidationError('Expiry must be in the future')
+    }
+    if (expiresAt.getTime() - Date.now() > SHARE_LINK_MAX_DAYS * 24 * 60 * 60 * 1000) {
+      throw new ValidationError(`Links can be valid for at most ${SHARE_LINK_MAX_DAYS} days`)
+    }
+    if (input.maxDownloads !== undefined && input.mode !== 'download') {
+      throw new ValidationError('A download limit only applies to download links')
+    }
+
+    if (input.fileId) {
+      await AccessService.assertPermission(input.fileId, subject, sharePermission(input.mode))
+    } else {
+      const collectionId = input.collectionId as string
+      await CollectionService.get(collectionId)
+      const reachable = await AccessService.filterPermitted(
+        await CollectionService.getSubtreeFileIds(collectionId, subject),
+        subject,
+        sharePermission(input.mode)
+      )
+      const rejection = collectionShareRejection(reachable.length, input.mode)
+      if (rejection) {
+        throw new AuthorizationError(rejection)
+      }
+    }
+
+    const passwordHash = input.password ? await bcryptjs.hash(input.password, 10) : null
+    const result = await query<{ id: string }>(
+      `INSERT INTO share_links (file_id, collection_id, mode, password_hash, max_downloads, note,
+                                created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [
+        input.fileId ?? null,
+        input.collectionId ?? null,
+        input.mode,
+        passwordHash,
+        input.maxDownloads ?? null,
+        input.note ?? null,
+        subject.userId,
+        expiresAt
+      ]
+    )
+    const link = await this.get(result.rows[0].id)
+
+    await AuditService.logAction(
+      subject.userId,
+      'SHARE',
+      link.fileId ? 'file' : 'collection',
+      (link.fileId ?? link.collectionId) as string,
+      {
+        newValue: {
+          shareLinkId: link.id,
+          mode: link.mode,
+          expiresAt: link.expiresAt,
+          maxDownloads: link.maxDownloads,
+          hasPassword: link.hasPassword
+        },
+        reason: 'Share link created'
+      }
+    )
+    return link
+  }
+
+  /**
+   * Revoke a link; curators may only revoke their own
+   */
+  static async revoke(id: string, subject: AccessSubject): Promise<void> {
+    const link = await this.load(id)
+    if (subject.role !== UserRole.ADMIN && link.createdBy !== subject.userId) {
+      throw new AuthorizationError('Only the creator of a link or an admin can revoke it')
+    }
+
+    const result = await query(
+      `UPDATE share_links SET revoked_at = NOW(), revoked_by = $2
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [id, subject.userId]
+    )
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Active share link')
+    }
+
+    await AuditService.logAction(
+      subject.userId,
+      'SHARE',
+      link.fileId ? 'file' : 'collection',
+      (link.fileId ?? link.collectionId) as string,
+      { previousValue: { shareLinkId: id }, reason: 'Share link revoked' }
+    )
+  }
+
+  /**
+   * What a link gives access to
+   */
+  static async open(
+    token: string,
+    password: string | undefined,
+    client: ClientInfo
+  ): Promise<SharedItem> {
+    const link = await this.resolve(token, password, client)
+
+    let item: SharedItem
+    if (link.fileId) {
+      // Only while the creator may still read it (access level, role and rules can change)
+      const readable = AccessService.readableCondition(link.creator, 'f', 2)
+      const files = await query<Record<string, unknown>>(
+        `${SHARED_FILE_SELECT} WHERE f.id = $1 AND f.is_deleted = FALSE AND ${readable.sql}`,
+        [link.fileId, ...readable.params]
+      )
+      if (files.rows.length === 0) {
+        throw new NotFoundError('File')
+      }
+      item = { ...this.describe(link), files: files.rows.map(mapSharedFile) }
+    } else {
+      const collection = await query<Record<string, unknown>>(
+        `SELECT id, title, level, dublin_core FROM collections WHERE id = $1`,
+        [link.collectionId]
+      )
+      const readable = AccessService.readableCondition(link.creator, 'f', 2)
+      const files = await query<Record<string, unknown>>(
+        `${SHARED_FILE_SELECT}
+         WHERE f.is_deleted = FALSE AND ${readable.sql} AND f.id IN (
+           SELECT cf.file_id FROM collection_files cf
+           JOIN v_collection_tree t ON t.id = cf.collection_id
+           WHERE $1 = ANY(t.path))
+         ORDER BY title`,
+        [link.collectionId, ...readable.params]
+      )
+      const row = collection.rows[0]
+      item = {
+        ...this.describe(link),
+        collection: {
+          id: row.id as string,
+          title: row.title as string,
+          level: row.level as Collection['level'],
+          dublinCore: (row.dublin_core as Collection['dublinCore']) ?? {}
+        },
+        files: files.rows.map(mapSharedFile)
+      }
+    }
+
+    await AuditService.logAction(
+      null,
+      'READ',
+      link.fileId ? 'file' : 'collection',
+      (link.fileId ?? link.collectionId) as string,
+      { reason: `Opened through share link ${link.id}`, ...client }
+    )
+    return item
+  }
+
+  /**
+   * A file reachable through a link, for viewing or (download links only) downloading;
+   * a download counts against the link's limit
+   */
+  static async getFile(
+    token: string,
+    fileId: string,
+    purpose: 'view' | 'download',
+    password: string | undefined,
+    client: ClientInfo
+  ): Promise<ArchiveFile> {
+    const link = await this.resolve(token, password, client)
+    if (purpose === 'download' && link.mode !== 'download') {
+      throw new AuthorizationError('This link is view-only')
+    }
+    await this.assertReachable(link, fileId, purpose)
+
+    if (purpose === 'download') {
+      // Conditional increment, so concurrent downloads cannot overrun the limit
+      const counted = await query(
+        `UPDATE share_links SET download_count = download_count + 1
+         WHERE id = $1 AND (max_downloads IS NULL OR download_count < max_downloads)`,
+        [link.id]
+      )
+      if (counted.rowCount === 0) {
+        throw new AppError('DOWNLOAD_LIMIT_REACHED', 'This link has no downloads left', 410)
+      }
+    }
+
+    const file = await FileService.getFile(fileId)
+    if (!file) {
+      throw new NotFoundError('File')
+    }
+
+    await AuditService.logAction(
+      null,
+      purpose === 'download' ? 'DOWNLOAD' : 'READ',
+      'file',
+      fileId,
+      {
+        reason: `${purpose === 'download' ? 'Downloaded' : 'Viewed'} through share link ${link.id}`,
+        ...client
+      }
+    )
+    return file
+  }
+
+  /**
+   * Look a link up by token and check it may be used; failed password attempts are audited
+   */
+  private static async resolve(
+    token: string,
+    password: string | undefined,
+    client: ClientInfo
+  ): Promise<StoredLink> {
+    const parsed = parseShareToken(token)
+    if (!parsed) {
+      throw new NotFoundError('Share link')
+    }
+    const link = await this.load(parsed.id)
+    if (
+      !EncryptionService.verifySignature(
+        shareTokenPayload(link.id, link.expiresAt),
+        parsed.signature
+      )
+    ) {
+      throw new NotFoundError('Share link')
+    }
+
+    if (link.status === 'revoked') {
+      throw new AppError('SHARE_LINK_REVOKED', 'This link has been revoked', 410)
+    }
+    if (link.status === 'expired') {
+      throw new AppError('SHARE_LINK_EXPIRED', 'This link has expired', 410)
+    }
+    if (!link.creator) {
+      // Its creator's account is gone, and with it what the link could show
+      throw new AppError('SHARE_LINK_REVOKED', 'This link is no longer valid', 410)
+    }
+
+    if (link.passwordHash) {
+      if (!password) {
+        throw new AppError('SHARE_PASSWORD_REQUIRED', 'This link is password-protected', 401)
+      }
+      if (!(await bcryptjs.compare(password, link.passwordHash))) {
+        await AuditService.logAction(
+          null,
+          'READ',
+          link.fileId ? 'file' : 'collection',
+          (link.fileId ?? link.collectionId) as string,
+          {
+            reason: `Share link ${link.id}`,
+            success: false,
+            errorMessage: 'Wrong password',
+            ...client
+          }
+        )
+        throw new AuthenticationError('Wrong password')
+      }
+    }
+
+    await query(`UPDATE share_links SET last_accessed_at = NOW() WHERE id = $1`, [link.id])
+    return link
+  }
+
+  /**
+   * Throw unless a file is the linked one, or in the linked collection or below it, and the
+   * link's creator may still read it (download it, for a download)
+   */
+  private static async assertReachable(
+    link: StoredLink,
+    fileId: string,
+    purpose: 'view' | 'download'
+  ): Promise<void> {
+    if (link.fileId !== undefined && link.fileId !== fileId) {
+      throw new NotFoundError('File')
+    }
+    if (link.collectionId) {
+      const member = await query(
+        `SELECT 1 FROM collection_files cf
+         JOIN v_collection_tree t ON t.id = cf.collection_id
+         WHERE cf.file_id = $1 AND $2 = ANY(t.path)
+         LIMIT 1`,
+        [fileId, link.collectionId]
+      )
+      if (member.rows.length === 0) {
+        throw new NotFoundError('File')
+      }
+    }
+    await AccessService.assertPermission(
+      fileId,
+      link.creator as AccessSubject,
+      sharePermission(purpose === 'download' ? 'download' : 'view')
+    )
+  }
+
+  private static describe(link: StoredLink): Omit<SharedItem, 'files'> {
+    return {
+      mode: link.mode,
+      expiresAt: link.expiresAt,
+      downloadsRemaining: link.mode === 'download' ? downloadsRemaining(link) : undefined
+    }
+  }
+
+  private static async load(id: string): Promise<StoredLink> {
+    const result = await query<Record<string, unknown>>(`${LINK_SELECT} WHERE l.id = $1`, [id])
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Share link')
+    }
+    return mapLink(result.rows[0])
+  }
+}
+
+export default ShareLinkService
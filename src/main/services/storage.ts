@@ -0,0 +1,134 @@
+import fs from 'fs/promises'
+import { createReadStream } from 'fs'
+import { Readable } from 'stream'
+import FileStorageUtil from '../utils/fileStorage'
+import HashService from './hash'
+import {
+  getReplicaBackends,
+  getStorageBackend,
+  StorageBackend,
+  StorageObjectStat
+} from '../storage'
+
+export interface StoredObject {
+  backend: string
+  key: string
+  location: string
+}
+
+/**
+ * StorageService: Permanent, content-addressed storage for archived objects
+ */
+export class StorageService {
+  /**
+   * Place an object at its content-addressed key in a backend (the primary by default).
+   * The written object is read back and re-hashed, so a key never holds other content.
+   * Returns created = false when an identical object is already stored.
+   */
+  static async storeObject(
+    sourcePath: string,
+    fileHash: string,
+    backend: StorageBackend = getStorageBackend()
+  ): Promise<StoredObject & { created: boolean }> {
+    const key = FileStorageUtil.getObjectKey(fileHash)
+    const stored = { backend: backend.name, key, location: backend.describe(key) }
+
+    if (await backend.stat(key)) {
+      return { ...stored, created: false }
+    }
+
+    const sourceStats = await fs.stat(sourcePath)
+    // Only temp uploads may be hard-linked into the primary backend; anything else is
+    // copied, so edits to an ingested original or a replica never touch the other copies
+    const source =
+      backend === getStorageBackend() && FileStorageUtil.isTempPath(sourcePath)
+        ? sourcePath
+        : createReadStream(sourcePath)
+    const objectStats = await backend.put(key, source, sourceStats.size)
+
+    if (objectStats.size !== sourceStats.size) {
+      await backend.delete(key)
+      throw new Error(
+        `Stored object size mismatch - expected: ${sourceStats.size}, got: ${objectStats.size}`
+      )
+    }
+
+    const objectHash = await HashService.calculateStreamHash(await backend.get(key))
+    if (objectHash !== fileHash) {
+      await backend.delete(key)
+      throw new Error(`Stored object hash mismatch - expected: ${fileHash}, got: ${objectHash}`)
+    }
+
+    return { ...stored, created: true }
+  }
+
+  /**
+   * Ingest an object together with a database transaction.
+   * The object is stored in the primary backend and every replica before `persist`
+   * runs; if persisting fails, newly stored copies are removed again. Temp uploads
+   * are deleted only after a successful commit.
+   */
+  static async ingest<T>(
+    sourcePath: string,
+    fileHash: string,
+    persist: (stored: StoredObject, copies: StoredObject[]) => Promise<T>
+  ): Promise<T> {
+    const backends = [getStorageBackend(), ...getReplicaBackends()]
+    const copies: Array<StoredObject & { created: boolean }> = []
+
+    let result: T
+    try {
+      for (const backend of backends) {
+        copies.push(await this.storeObject(sourcePath, fileHash, backend))
+      }
+      result = await persist(
+        copies[0],
+        copies.map(({ backend, key, location }) => ({ backend, key, location }))
+      )
+    } catch (error) {
+      await this.discardCopies(copies.filter((copy) => copy.created))
+      throw error
+    }
+
+    if (FileStorageUtil.isTempPath(sourcePath)) {
+      await fs.rm(sourcePath, { force: true }).catch((e) => {
+        console.error('[Storage] Failed to remove temp upload:', e)
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Open a stored object for reading
+   */
+  static async openObject(key: string | null | undefined): Promise<Readable> {
+    if (!key) {
+      throw new Error('File is not in managed storage')
+    }
+    return getStorageBackend().get(key)
+  }
+
+  /**
+   * Remove copies stored for an ingest that was rolled back
+   */
+  private static async discardCopies(copies: StoredObject[]): Promise<void> {
+    const backends = [getStorageBackend(), ...getReplicaBackends()]
+    for (const copy of copies) {
+      const backend = backends.find((b) => b.name === copy.backend)
+      await backend?.delete(copy.key).catch((e) => {
+        console.error(`[Storage] Failed to discard ${copy.backend} copy after rollback:`, e)
+      })
+    }
+  }
+
+  /**
+   * Get stored object information, or null when it does not exist
+   */
+  static async statObject(key: string | null | undefined): Promise<StorageObjectStat | null> {
+    if (!key) return null
+    return getStorageBackend().stat(key)
+  }
+}
+
+export default StorageService
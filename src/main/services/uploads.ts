@@ -0,0 +1,330 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { createWriteStream } from 'fs'
+import { dirname } from 'path'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import { query } from '../database/db'
+import { ArchiveFile, UploadSession } from '../types'
+import FileStorageUtil from '../utils/fileStorage'
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../utils/errors'
+import HashService from './hash'
+import FileService from './files'
+import FormatIdentificationService from './formatIdentification'
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days since last chunk
+
+// Incremental hash state per session; rebuilt from the partial file after a restart
+const hashStates = new Map<string, { hash: crypto.Hash; offset: number }>()
+// Sessions with a chunk currently being written
+const activeChunks = new Set<string>()
+
+const isUniqueViolation = (error: unknown): boolean => (error as { code?: string }).code === '23505'
+
+const mapSession = (row: Record<string, unknown>): UploadSession => ({
+  id: row.id as string,
+  userId: row.user_id as string,
+  filename: row.filename as string,
+  mimeType: row.mime_type as string,
+  length: Number(row.upload_length),
+  offset: Number(row.upload_offset),
+  metadata: (row.metadata as UploadSession['metadata']) ?? {},
+  status: row.status as UploadSession['status'],
+  fileId: (row.file_id as string | null) ?? undefined,
+  expiresAt: (row.expires_at as Date).toISOString(),
+  createdAt: (row.created_at as Date).toISOString(),
+  updatedAt: (row.updated_at as Date).toISOString()
+})
+
+/**
+ * UploadService: Resumable, chunked uploads (tus-style create / PATCH offset / HEAD status)
+ */
+export class UploadService {
+  /**
+   * Create an upload session
+   */
+  static async createSession(
+    userId: string,
+    upload: {
+      filename: string
+      mimeType: string
+      size: number
+      description?: string
+      accessLevel?: string
+      creator?: string
+    }
+  ): Promise<UploadSession> {
+    if (!FileStorageUtil.isAllowedMimeType(upload.mimeType)) {
+      throw new ValidationError(`File type ${upload.mimeType} not allowed`)
+    }
+    if (upload.size > FileStorageUtil.MAX_RESUMABLE_FILE_SIZE) {
+      throw new ValidationError(
+        `File exceeds maximum size of ${FileStorageUtil.MAX_RESUMABLE_FILE_SIZE} bytes`
+      )
+    }
+
+    const result = await query<Record<string, unknown>>(
+      `INSERT INTO upload_sessions (
+        user_id, filename, mime_type, upload_length, metadata, expires_at
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *`,
+      [
+        userId,
+        FileStorageUtil.getSafeFilename(upload.filename),
+        upload.mimeType,
+        upload.size,
+        JSON.stringify({
+          description: upload.description,
+          accessLevel: upload.accessLevel,
+          creator: upload.creator
+        }),
+        new Date(Date.now() + SESSION_TTL_MS)
+      ]
+    )
+
+    const session = mapSession(result.rows[0])
+    const partialPath = FileStorageUtil.getUploadSessionPath(session.id)
+    await fs.mkdir(dirname(partialPath), { recursive: true })
+    await fs.writeFile(partialPath, '')
+
+    return session
+  }
+
+  /**
+   * Get an upload session owned by the user
+   */
+  static async getSession(sessionId: string, userId: string): Promise<UploadSession> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM upload_sessions WHERE id = $1 AND user_id = $2 AND status <> 'aborted'`,
+      [sessionId, userId]
+    )
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Upload session')
+    }
+
+    const session = mapSession(result.rows[0])
+    if (session.status === 'active' && new Date(session.expiresAt).getTime() < Date.now()) {
+      throw new AppError('UPLOAD_EXPIRED', 'Upload session has expired', 410)
+    }
+
+    return session
+  }
+
+  /**
+   * Append a chunk at `offset`. When the last byte arrives, the file is registered
+   * in the archive. Sending an empty chunk at the final offset retries registration.
+   */
+  static async appendChunk(
+    sessionId: string,
+    userId: string,
+    offset: number,
+    source: Readable
+  ): Promise<{ session: UploadSession; file?: ArchiveFile }> {
+    if (activeChunks.has(sessionId)) {
+      throw new ConflictError('Another chunk for this upload is still being written')
+    }
+
+    activeChunks.add(sessionId)
+    try {
+      const session = await this.getSession(sessionId, userId)
+
+      if (session.status === 'completed') {
+        throw new ConflictError('Upload is already completed')
+      }
+      if (offset !== session.offset) {
+        throw new ConflictError(
+          `Upload offset mismatch - expected: ${session.offset}, got: ${offset}`
+        )
+      }
+
+      const partialPath = FileStorageUtil.getUploadSessionPath(session.id)
+      const state = await this.restoreHashState(session, partialPath)
+
+      // Hash a copy, so a broken chunk leaves the committed state untouched
+      const chunkHash = state.hash.copy()
+      const maxBytes = Math.min(session.length - offset, FileStorageUtil.MAX_CHUNK_SIZE)
+      let received = 0
+
+      const meter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length
+          if (received > maxBytes) {
+            callback(new ValidationError(`Chunk exceeds the allowed ${maxBytes} bytes`))
+            return
+          }
+          chunkHash.update(chunk)
+          callback(null, chunk)
+        }
+      })
+
+      try {
+        await pipeline(source, meter, createWriteStream(partialPath, { flags: 'a' }))
+      } catch (error) {
+        await fs.truncate(partialPath, offset).catch(() => {})
+        throw error
+      }
+
+      // Catch a contradicting type on the first chunk instead of after the whole upload
+      if (offset === 0) {
+        await FormatIdentificationService.verifyFile(partialPath, session.mimeType).catch(
+          async (error) => {
+            await fs.truncate(partialPath, 0).catch(() => {})
+            throw error
+          }
+        )
+      }
+
+      const newOffset = offset + received
+      hashStates.set(session.id, { hash: chunkHash, offset: newOffset })
+
+      const result = await query<Record<string, unknown>>(
+        `UPDATE upload_sessions
+         SET upload_offset = $1, expires_at = $2, updated_at = NOW()
+         WHERE id = $3
+         RETURNING *`,
+        [newOffset, new Date(Date.now() + SESSION_TTL_MS), session.id]
+      )
+      const updated = mapSession(result.rows[0])
+
+      if (newOffset < updated.length) {
+        return { session: updated }
+      }
+
+      return this.complete(updated, chunkHash.copy().digest('hex'))
+    } finally {
+      activeChunks.delete(sessionId)
+    }
+  }
+
+  /**
+   * Abort an upload session and remove its partial file
+   */
+  static async abortSession(sessionId: string, userId: string): Promise<void> {
+    const session = await this.getSession(sessionId, userId)
+    if (session.status === 'completed') {
+      throw new ConflictError('Upload is already completed')
+    }
+    if (activeChunks.has(sessionId)) {
+      throw new ConflictError('Another chunk for this upload is still being written')
+    }
+
+    await this.discard(sessionId)
+  }
+
+  private static async discard(sessionId: string): Promise<void> {
+    await query(`UPDATE upload_sessions SET status = 'aborted', updated_at = NOW() WHERE id = $1`, [
+      sessionId
+    ])
+    hashStates.delete(sessionId)
+    await fs.rm(FileStorageUtil.getUploadSessionPath(sessionId), { force: true })
+  }
+
+  /**
+   * Abort expired sessions and remove their partial files
+   */
+  static async cleanupExpiredSessions(): Promise<number> {
+    const result = await query<{ id: string }>(
+      `UPDATE upload_sessions SET status = 'aborted', updated_at = NOW()
+       WHERE status = 'active' AND expires_at < NOW()
+       RETURNING id`
+    )
+
+    for (const { id } of result.rows) {
+      if (activeChunks.has(id)) continue
+      hashStates.delete(id)
+      await fs.rm(FileStorageUtil.getUploadSessionPath(id), { force: true })
+    }
+
+    return result.rows.length
+  }
+
+  /**
+   * Register the assembled file in the archive. Content already in the archive can never be
+   * registered (file_hash is unique), so the session is aborted instead of left to retry.
+   */
+  private static async complete(
+    session: UploadSession,
+    fileHash: string
+  ): Promise<{ session: UploadSession; file: ArchiveFile }> {
+    const duplicateMessage = 'A file with identical content is already in the archive'
+    const existing = await query(`SELECT id FROM files WHERE file_hash = $1`, [fileHash])
+    if (existing.rows.length > 0) {
+      await this.discard(session.id)
+      throw new ConflictError(duplicateMessage)
+    }
+
+    let file: ArchiveFile
+    try {
+      file = await FileService.registerFile(
+        FileStorageUtil.getUploadSessionPath(session.id),
+        fileHash,
+        session.mimeType,
+        session.userId,
+        {
+          title: session.filename,
+          description: session.metadata.description,
+          creator: session.metadata.creator,
+          language: 'pl',
+          accessLevel: session.metadata.accessLevel
+        }
+      )
+    } catch (error) {
+      // Registered by someone else since the check above
+      if (isUniqueViolation(error)) {
+        await this.discard(session.id)
+        throw new ConflictError(duplicateMessage)
+      }
+      throw error
+    }
+
+    hashStates.delete(session.id)
+    const result = await query<Record<string, unknown>>(
+      `UPDATE upload_sessions
+       SET status = 'completed', file_id = $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [file.id, session.id]
+    )
+
+    return { session: mapSession(result.rows[0]), file }
+  }
+
+  /**
+   * Get the hash of all committed bytes, re-reading the partial file after a restart
+   */
+  private static async restoreHashState(
+    session: UploadSession,
+    partialPath: string
+  ): Promise<{ hash: crypto.Hash; offset: number }> {
+    const cached = hashStates.get(session.id)
+    if (cached && cached.offset === session.offset) {
+      return cached
+    }
+
+    const stats = await fs.stat(partialPath).catch(() => null)
+    if (!stats || stats.size < session.offset) {
+      throw new AppError(
+        'UPLOAD_DATA_LOST',
+        'Partial upload data is missing - start a new upload',
+        410
+      )
+    }
+
+    // Drop bytes of a chunk that was interrupted before its offset was committed
+    if (stats.size > session.offset) {
+      await fs.truncate(partialPath, session.offset)
+    }
+
+    const hash = await HashService.updateHashFromPath(
+      HashService.createIncrementalHash(),
+      partialPath,
+      session.offset
+    )
+    const state = { hash, offset: session.offset }
+    hashStates.set(session.id, state)
+    return state
+  }
+}
+
+export default UploadService
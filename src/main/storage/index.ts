@@ -0,0 +1,112 @@
+import FileStorageUtil from '../utils/fileStorage'
+import LocalStorageBackend from './localBackend'
+import S3StorageBackend from './s3Backend'
+import { StorageBackend } from './types'
+
+export type { StorageBackend, StorageObjectStat, StorageSource } from './types'
+export { LocalStorageBackend, S3StorageBackend }
+
+let backend: StorageBackend | null = null
+let replicas: StorageBackend[] = []
+
+const createS3Backend = (bucket: string, name?: string): StorageBackend => {
+  const endpoint = process.env.S3_ENDPOINT
+  const accessKey = process.env.S3_ACCESS_KEY
+  const secretKey = process.env.S3_SECRET_KEY
+  if (!endpoint || !accessKey || !secretKey) {
+    throw new Error('S3 storage requires S3_ENDPOINT, S3_ACCESS_KEY and S3_SECRET_KEY')
+  }
+
+  return new S3StorageBackend(
+    { endpoint, bucket, accessKey, secretKey, region: process.env.S3_REGION },
+    name
+  )
+}
+
+/**
+ * Build the backend selected by STORAGE_BACKEND (local | s3)
+ */
+const createStorageBackend = (): StorageBackend => {
+  const type = process.env.STORAGE_BACKEND || 'local'
+
+  if (type === 's3') {
+    return createS3Backend(process.env.S3_BUCKET || 'e-archiwum')
+  }
+
+  if (type !== 'local') {
+    throw new Error(`Unknown storage backend: ${type}`)
+  }
+
+  return new LocalStorageBackend(FileStorageUtil.getStorageDir())
+}
+
+/**
+ * Build replica backends from STORAGE_REPLICAS, a comma-separated list of
+ * `local:/path/to/root` or `s3:bucket-name` entries. The entry doubles as the
+ * backend name recorded in file_replicas, so it must stay stable.
+ */
+const createReplicaBackends = (): StorageBackend[] => {
+  const specs = (process.env.STORAGE_REPLICAS || '')
+    .split(',')
+    .map((spec) => spec.trim())
+    .filter(Boolean)
+
+  return specs.map((spec) => {
+    const separator = spec.indexOf(':')
+    const type = spec.slice(0, separator)
+    const target = spec.slice(separator + 1)
+
+    if (separator === -1 || !target) {
+      throw new Error(`Invalid storage replica: ${spec}`)
+    }
+    if (type === 'local') return new LocalStorageBackend(target, spec)
+    if (type === 's3') return createS3Backend(target, spec)
+    throw new Error(`Unknown storage replica type: ${type}`)
+  })
+}
+
+export const initializeStorage = async (): Promise<StorageBackend> => {
+  if (backend) return backend
+
+  const instance = createStorageBackend()
+  const replicaInstances = createReplicaBackends()
+  await instance.initialize()
+  for (const replica of replicaInstances) {
+    await replica.initialize()
+  }
+
+  backend = instance
+  replicas = replicaInstances
+
+  console.log(
+    `[Storage] Using ${backend.name} backend` +
+      (replicas.length > 0 ? ` with replicas: ${replicas.map((r) => r.name).join(', ')}` : '')
+  )
+  return backend
+}
+
+export const getStorageBackend = (): StorageBackend => {
+  if (!backend) {
+    throw new Error('Storage backend not initialized. Call initializeStorage first.')
+  }
+  return backend
+}
+
+/**
+ * Replica backends holding additional copies of every object
+ */
+export const getReplicaBackends = (): StorageBackend[] => replicas
+
+/**
+ * Find the primary or a replica backend by its recorded name
+ */
+export const getBackendByName = (name: string): StorageBackend | null => {
+  return [getStorageBackend(), ...replicas].find((b) => b.name === name) ?? null
+}
+
+export default {
+  initializeStorage,
+  getStorageBackend,
+  getReplicaBackends,
+  getBackendByName
+}
@@ -0,0 +1,98 @@
+import fs from 'fs/promises'
+import { createReadStream, createWriteStream } from 'fs'
+import { dirname, join, relative, resolve, sep } from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { StorageBackend, StorageObjectStat, StorageSource } from './types'
+
+/**
+ * LocalStorageBackend: Objects stored as files below a root directory
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name: string
+  private readonly root: string
+
+  constructor(root: string, name: string = 'local') {
+    this.root = resolve(root)
+    this.name = name
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.root, { recursive: true })
+  }
+
+  async put(key: string, source: StorageSource): Promise<StorageObjectStat> {
+    const objectPath = this.resolveKey(key)
+    await fs.mkdir(dirname(objectPath), { recursive: true })
+
+    // Write under a temporary name first, so a crash never leaves a truncated object behind
+    const partialPath = `${objectPath}.partial`
+    await fs.rm(partialPath, { force: true })
+
+    if (typeof source === 'string') {
+      try {
+        await fs.link(source, partialPath)
+      } catch {
+        // Different device - fall back to a copy
+        await fs.copyFile(source, partialPath)
+      }
+    } else {
+      await pipeline(source, createWriteStream(partialPath))
+    }
+
+    await fs.rename(partialPath, objectPath)
+    return (await this.stat(key)) as StorageObjectStat
+  }
+
+  async get(key: string): Promise<Readable> {
+    const objectPath = this.resolveKey(key)
+    // Fail early with ENOENT instead of on first read
+    await fs.access(objectPath)
+    return createReadStream(objectPath)
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const stats = await fs.stat(this.resolveKey(key))
+      if (!stats.isFile()) return null
+      return { key, size: stats.size, lastModified: stats.mtime }
+    } catch {
+      return null
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true })
+  }
+
+  async *list(prefix: string = ''): AsyncIterable<StorageObjectStat> {
+    const entries = await fs
+      .readdir(this.resolveKey(prefix), { recursive: true, withFileTypes: true })
+      .catch(() => [])
+
+    for (const entry of entries) {
+      if (!entry.isFile() || entry.name.endsWith('.partial')) continue
+      const fullPath = join(entry.parentPath, entry.name)
+      const key = relative(this.root, fullPath).split(sep).join('/')
+      const stats = await this.stat(key)
+      if (stats) yield stats
+    }
+  }
+
+  describe(key: string): string {
+    return this.resolveKey(key)
+  }
+
+  /**
+   * Map a key onto the root directory, refusing keys that escape it
+   */
+  private resolveKey(key: string): string {
+    const objectPath = resolve(this.root, key)
+    if (objectPath !== this.root && !objectPath.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return objectPath
+  }
+}
+
+export default LocalStorageBackend
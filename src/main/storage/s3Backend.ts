@@ -0,0 +1,91 @@
+import * as Minio from 'minio'
+import { Readable } from 'stream'
+import { StorageBackend, StorageObjectStat, StorageSource } from './types'
+
+export interface S3BackendConfig {
+  endpoint: string // e.g. http://localhost:9000
+  bucket: string
+  accessKey: string
+  secretKey: string
+  region?: string
+}
+
+/**
+ * S3StorageBackend: Objects stored in an S3-compatible bucket (AWS S3, MinIO, Ceph RGW)
+ */
+export class S3StorageBackend implements StorageBackend {
+  readonly name: string
+  private readonly client: Minio.Client
+  private readonly bucket: string
+  private readonly region: string
+  private readonly endpoint: string
+
+  constructor(config: S3BackendConfig, name: string = 's3') {
+    const url = new URL(config.endpoint)
+    const useSSL = url.protocol === 'https:'
+
+    this.name = name
+    this.bucket = config.bucket
+    this.region = config.region || 'us-east-1'
+    this.endpoint = url.origin
+    this.client = new Minio.Client({
+      endPoint: url.hostname,
+      port: url.port ? parseInt(url.port, 10) : useSSL ? 443 : 80,
+      useSSL,
+      accessKey: config.accessKey,
+      secretKey: config.secretKey,
+      region: this.region,
+      pathStyle: true
+    })
+  }
+
+  async initialize(): Promise<void> {
+    const exists = await this.client.bucketExists(this.bucket)
+    if (!exists) {
+      await this.client.makeBucket(this.bucket, this.region)
+      console.log(`[Storage] Created bucket: ${this.bucket}`)
+    }
+  }
+
+  async put(key: string, source: StorageSource, size?: number): Promise<StorageObjectStat> {
+    if (typeof source === 'string') {
+      await this.client.fPutObject(this.bucket, key, source)
+    } else {
+      await this.client.putObject(this.bucket, key, source, size)
+    }
+    return (await this.stat(key)) as StorageObjectStat
+  }
+
+  async get(key: string): Promise<Readable> {
+    return this.client.getObject(this.bucket, key)
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const stats = await this.client.statObject(this.bucket, key)
+      return { key, size: stats.size, lastModified: stats.lastModified }
+    } catch (error) {
+      const code = (error as { code?: string }).code
+      if (code === 'NotFound' || code === 'NoSuchKey') return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.removeObject(this.bucket, key)
+  }
+
+  async *list(prefix: string = ''): AsyncIterable<StorageObjectStat> {
+    const stream = this.client.listObjectsV2(this.bucket, prefix, true)
+    for await (const item of stream as AsyncIterable<Minio.BucketItem>) {
+      if (!item.name) continue
+      yield { key: item.name, size: item.size, lastModified: item.lastModified }
+    }
+  }
+
+  describe(key: string): string {
+    return `${this.endpoint}/${this.bucket}/${key}`
+  }
+}
+
+export default S3StorageBackend
@@ -0,0 +1,55 @@
+import { Readable } from 'stream'
+
+/**
+ * Storage backend contract
+ * Every service reads and writes archived bytes through this interface,
+ * addressing objects by key (e.g. objects/ab/cd/<sha256>) instead of local paths.
+ */
+
+export interface StorageObjectStat {
+  key: string
+  size: number
+  lastModified: Date
+}
+
+// Local file path or a readable stream
+export type StorageSource = string | Readable
+
+export interface StorageBackend {
+  readonly name: string
+
+  /**
+   * Prepare the backend (create root directory, bucket, ...)
+   */
+  initialize(): Promise<void>
+
+  /**
+   * Store an object under the given key
+   */
+  put(key: string, source: StorageSource, size?: number): Promise<StorageObjectStat>
+
+  /**
+   * Open a readable stream for an object
+   */
+  get(key: string): Promise<Readable>
+
+  /**
+   * Get object information, or null when the object does not exist
+   */
+  stat(key: string): Promise<StorageObjectStat | null>
+
+  /**
+   * Delete an object (no-op when missing)
+   */
+  delete(key: string): Promise<void>
+
+  /**
+   * List objects below a key prefix
+   */
+  list(prefix?: string): AsyncIterable<StorageObjectStat>
+
+  /**
+   * Human-readable location of an object (path or URL), for display and audit only
+   */
+  describe(key: string): string
+}
@@ -26,7 +26,9 @@ export interface PremisMetadata {
     }
     'premis:format': {
       'premis:formatRegistry': string
+      'premis:formatRegistryKey'?: string // PRONOM PUID, e.g. fmt/18
       'premis:formatName': string
+      'premis:formatVersion'?: string
     }
   }
   'premis:preservationLevel': 'bitPreservation' | 'referencePreservation' | 'fulPreservation'
@@ -42,17 +44,32 @@ export interface PremisEvent {
     | 'access'
     | 'migration'
     | 'validation'
+    | 'replication'
+    | 'repair'
+    | 'recovery'
+    | 'format identification'
+    | 'metadata modification'
   'premis:eventDateTime': string // ISO 8601
   'premis:eventDetail'?: string
   'premis:linkingAgentIdentifier': string
   'premis:linkingObjectIdentifier': string
 }
 
+// Format identification result (PRONOM signatures)
+export interface FormatIdentification {
+  puid?: string // Missing when the format was not identified
+  name: string // PRONOM format name, or the declared MIME type when unidentified
+  version?: string
+  method: 'signature' | 'text' | 'none'
+}
+
 // File metadata in archive
 export interface ArchiveFile {
   id: string // UUID
   filename: string
-  filePath: string
+  filePath: string // Display location (path or URL) - read bytes via storageKey
+  storageBackend?: string
+  storageKey?: string // Key in the storage backend (objects/ab/cd/<sha256>)
   fileHash: string // SHA-256
   mimeType: string
   fileSize: number
@@ -64,9 +81,148 @@ export interface ArchiveFile {
   a11yDescription?: string
   dublinCore: DublinCoreMetadata
   premis: PremisMetadata
+  format?: FormatIdentification
   checksum: string
   isAccessible: boolean
   accessLevel: 'public' | 'internal' | 'restricted' | 'confidential'
+  relations?: FileRelation[]
+}
+
+// Stored copy of the object of a file version (primary or replica)
+export interface FileReplica {
+  id: string
+  fileId: string
+  storageBackend: string
+  storageKey: string
+  fileHash?: string // SHA-256 of the object; unknown for copies recorded before versions were tracked
+  status: 'ok' | 'failed' | 'missing' | 'repaired'
+  lastVerifiedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Resumable (chunked) upload session
+export interface UploadSession {
+  id: string
+  userId: string
+  filename: string
+  mimeType: string
+  length: number
+  offset: number
+  metadata: {
+    description?: string
+    accessLevel?: string
+    creator?: string
+  }
+  status: 'active' | 'completed' | 'aborted'
+  fileId?: string
+  expiresAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Batch folder ingest
+export interface IngestJob {
+  id: string
+  userId?: string
+  sourcePath: string
+  status: 'running' | 'completed' | 'failed'
+  totalFiles: number
+  registered: number
+  skipped: number
+  failed: number
+  errorMessage?: string
+  startedAt: string
+  finishedAt?: string
+}
+
+export interface IngestJobItem {
+  relativePath: string
+  status: 'registered' | 'skipped' | 'failed'
+  fileId?: string
+  fileHash?: string
+  fileSize?: number
+  message?: string
+  processedAt: string
+}
+
+// Progress event sent to the renderer after each ingested file
+export interface IngestProgress {
+  jobId: string
+  processed: number
+  total: number
+  item: IngestJobItem
+}
+
+// Accession - files received together in one package
+export interface Accession {
+  id: string
+  sourceType: 'bagit'
+  sourceName?: string
+  packageInfo: Record<string, string[]>
+  createdBy?: string
+  createdAt: string
+  files: Array<{ fileId: string; originalPath: string }>
+}
+
+// Relations between files (Dublin Core Terms), each listed with its inverse
+export type RelationType =
+  | 'isPartOf'
+  | 'hasPart'
+  | 'isVersionOf'
+  | 'hasVersion'
+  | 'isFormatOf'
+  | 'hasFormat'
+  | 'references'
+  | 'isReferencedBy'
+  | 'replaces'
+  | 'isReplacedBy'
+  | 'requires'
+  | 'isRequiredBy'
+
+// A relation as seen from one file: "<this file> <relation> <fileId>"
+export interface FileRelation {
+  id: string
+  relation: RelationType
+  fileId: string
+  title: string
+  mimeType: string
+  note?: string
+  createdBy?: string
+  createdAt: string
+}
+
+// Collections - fonds / series / file / item hierarchy (ISAD(G) levels)
+export type CollectionLevel = 'fonds' | 'series' | 'file' | 'item'
+
+export interface Collection {
+  id: string
+  parentId?: string
+  level: CollectionLevel
+  title: string
+  position: number // Order among siblings
+  accessLevel?: ArchiveFile['accessLevel'] // Unset = inherited from the parent
+  effectiveAccessLevel: ArchiveFile['accessLevel']
+  dublinCore: Partial<DublinCoreMetadata>
+  depth: number // 0 for top-level collections
+  childCount: number
+  fileCount: number
+  createdBy?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Direct contents of a collection, both lists in their stored order
+export interface CollectionChildren {
+  collection: Collection
+  ancestors: Array<Pick<Collection, 'id' | 'title' | 'level'>> // Root first
+  collections: Collection[]
+  files: Array<
+    Pick<ArchiveFile, 'id' | 'filename' | 'mimeType' | 'fileSize' | 'accessLevel'> & {
+      title: string
+      position: number
+    }
+  >
 }
 
 // File versioning
@@ -75,14 +231,74 @@ export interface FileVersion {
   fileId: string
   versionNumber: number
   fileHash: string
+  fileSize?: number
+  mimeType?: string
+  storageBackend?: string
+  storageKey?: string // Unset for versions stored before managed storage
+  restoredFrom?: number // Version whose content was restored
   createdBy: string // User ID
   changeSummary?: string
   createdAt: string
   metadata?: {
     previousHash?: string
+    previousSize?: number
     diffSize?: number
     formatChanged?: boolean
   }
+  dublinCore?: DublinCoreMetadata // Record as it was when this version was superseded
+}
+
+// Version comparison
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete'
+  text: string
+  oldLine?: number // 1-based, unset for inserted lines
+  newLine?: number // 1-based, unset for deleted lines
+}
+
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export interface FieldChange {
+  field: string
+  before?: string
+  after?: string
+}
+
+export interface VersionDiff {
+  fileId: string
+  from: FileVersion
+  to: FileVersion
+  diffSize: number // Bytes, to minus from
+  formatChanged: boolean
+  // Line diff of the (extracted) text; unset when either version has no text
+  text?: {
+    hunks: DiffHunk[]
+    added: number
+    removed: number
+    truncated: boolean // Hunks beyond the line limit were left out
+  }
+  textPending?: boolean // Text of a version is still being extracted, compare again later
+  // Dublin Core field changes; unset when the record of a version was not kept
+  metadata?: FieldChange[]
+}
+
+// Dublin Core revision history
+export interface MetadataRevision {
+  id: string
+  fileId: string
+  revisionNumber: number
+  changes: FieldChange[]
+  record: DublinCoreMetadata // Full record after this revision
+  reason?: string
+  createdBy?: string // User ID; unset for system changes and the migration baseline
+  createdByName?: string
+  createdAt: string
 }
 
 // User and RBAC
@@ -103,11 +319,124 @@ export interface User {
   isActive: boolean
 }
 
+// Per-file access control
+export type FilePermission = 'read' | 'download' | 'modify' | 'delete'
+
+// The identity access is evaluated for; groupIds are looked up when not given
+export interface AccessSubject {
+  userId: string
+  role: UserRole
+  groupIds?: string[]
+}
+
+// Explicit grant on a file, or on a collection and every file below it; exactly one of
+// fileId / collectionId and one of userId / role / groupId is set
+export interface AccessRule {
+  id: string
+  fileId?: string
+  collectionId?: string
+  userId?: string
+  username?: string
+  role?: UserRole
+  groupId?: string
+  groupName?: string
+  permissions: FilePermission[]
+  grantedBy?: string
+  createdAt: string
+  expiresAt?: string
+}
+
+// Named set of users that access can be granted to
+export interface UserGroup {
+  id: string
+  name: string
+  description?: string
+  memberCount: number
+  createdBy?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface UserGroupMember {
+  userId: string
+  username: string
+  role: UserRole
+  addedBy?: string
+  addedAt: string
+}
+
+// Link to a file or a collection for someone without an account
+export type ShareLinkMode = 'view' | 'download'
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted'
+
+export interface ShareLink {
+  id: string
+  token: string // Signed; what goes in the URL
+  fileId?: string
+  collectionId?: string
+  title: string // Of the shared file or collection
+  mode: ShareLinkMode
+  hasPassword: boolean
+  maxDownloads?: number
+  downloadCount: number
+  note?: string
+  status: ShareLinkStatus
+  createdBy?: string
+  createdByUsername?: string
+  createdAt: string
+  expiresAt: string
+  revokedAt?: string
+  lastAccessedAt?: string
+}
+
+export type SharedFile = Pick<ArchiveFile, 'id' | 'filename' | 'mimeType' | 'fileSize'> & {
+  title: string
+  creator?: string
+  description?: string
+  dateCreated?: string
+}
+
+// What a link holder sees: the file, or every file in the collection and below it
+export interface SharedItem {
+  mode: ShareLinkMode
+  expiresAt: string
+  downloadsRemaining?: number // Unset = no limit
+  collection?: Pick<Collection, 'id' | 'title' | 'level' | 'dublinCore'>
+  files: SharedFile[]
+}
+
+// One user's effective access to a file ("who can see this file")
+export interface FileAccessEntry {
+  userId: string
+  username: string
+  role: UserRole
+  permissions: FilePermission[]
+  ruleIds: string[] // Grants adding to the role defaults
+}
+
+// Where a request came from, for login sessions and the audit log
+export interface ClientInfo {
+  ipAddress?: string
+  userAgent?: string
+}
+
+// A login session, as shown to its user and to admins
+export interface AuthSession {
+  id: string
+  device: string // From the user agent, e.g. "Firefox on Windows"
+  userAgent?: string
+  ipAddress?: string // Last address it was used from
+  createdAt: string
+  lastUsedAt: string
+  current: boolean // The session of the request listing it
+}
+
 // JWT payload
 export interface JWTPayload {
   userId: string
   username: string
   role: UserRole
+  sessionId: string // auth_sessions row; revoking it invalidates the token
   iat: number
   exp: number
 }
@@ -130,26 +459,87 @@ export interface AuditLogEntry {
   errorMessage?: string
 }
 
+// Search facets: filters combine as AND across facets and OR within one facet
+export type SearchFacet =
+  | 'type'
+  | 'language'
+  | 'creator'
+  | 'decade'
+  | 'accessLevel'
+  | 'format'
+  | 'collection'
+
+export interface FacetBucket {
+  value: string // Filter value (e.g. '1990' for a decade, a PUID for a format)
+  label: string
+  count: number
+}
+
 // Search query
 export interface SearchQuery {
   q: string // Full-text search
-  category?: 'document' | 'video' | 'audio' | 'image' | 'software'
-  creator?: string
+  advanced?: boolean // q uses the field:value / AND / OR / NOT query language
+  category?: 'document' | 'video' | 'audio' | 'image' | 'software' // Same as filters.type
+  filters?: Partial<Record<SearchFacet, string[]>>
   dateFrom?: string
   dateTo?: string
-  accessLevel?: string
+  viewer?: AccessSubject // Only files this user may read
+  collectionId?: string // Only files in this collection or any collection below it
   limit?: number
   offset?: number
   orderBy?: 'relevance' | 'date' | 'title'
   orderDir?: 'asc' | 'desc'
 }
 
+export interface SearchHit extends ArchiveFile {
+  relevance: number
+  snippet?: string // HTML-escaped excerpt, matches wrapped in <mark>
+}
+
 export interface SearchResult {
-  files: ArchiveFile[]
+  files: SearchHit[]
+  facets: Record<SearchFacet, FacetBucket[]>
   total: number
   limit: number
   offset: number
   executionTime: number // ms
+  fuzzy?: boolean // Trigram matches were added because the exact query found too little
+  didYouMean?: string // Query with unknown words replaced by the closest known ones
+}
+
+export interface SearchSuggestion {
+  value: string
+  field: 'title' | 'creator' | 'subject'
+  score: number
+}
+
+// Saved searches: the query without paging, ordering or access level (applied per run)
+export type SavedSearchQuery = Pick<
+  SearchQuery,
+  'q' | 'advanced' | 'category' | 'filters' | 'dateFrom' | 'dateTo' | 'collectionId'
+>
+
+export interface SavedSearch {
+  id: string
+  userId: string
+  name: string
+  query: SavedSearchQuery
+  notifyEmail: boolean
+  matchCount: number
+  lastRunAt?: string // Unset until the first run recorded the existing matches
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Notification {
+  id: string
+  userId: string
+  type: 'saved_search'
+  title: string
+  message?: string
+  data: Record<string, unknown>
+  readAt?: string
+  createdAt: string
 }
 
 // Backup metadata
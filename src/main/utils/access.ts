@@ -0,0 +1,84 @@
+/**
+ * File access evaluation
+ * A user's permissions on a file are the defaults of their role for the file's access level
+ * plus every unexpired rule granted to them, to one of their groups or to their role, on the
+ * file itself or on a collection above it. Rules only add permissions, and any permission implies read.
+ */
+
+import { AccessRule, AccessSubject, ArchiveFile, FilePermission, UserRole } from '../types'
+
+type AccessLevel = ArchiveFile['accessLevel']
+
+export const FILE_PERMISSIONS: FilePermission[] = ['read', 'download', 'modify', 'delete']
+
+// Confidential files are closed to curators unless granted
+export const ROLE_DEFAULTS: Record<UserRole, Record<AccessLevel, FilePermission[]>> = {
+  [UserRole.READER]: {
+    public: ['read', 'download'],
+    internal: [],
+    restricted: [],
+    confidential: []
+  },
+  [UserRole.CURATOR]: {
+    public: FILE_PERMISSIONS,
+    internal: FILE_PERMISSIONS,
+    restricted: FILE_PERMISSIONS,
+    confidential: []
+  },
+  [UserRole.ADMIN]: {
+    public: FILE_PERMISSIONS,
+    internal: FILE_PERMISSIONS,
+    restricted: FILE_PERMISSIONS,
+    confidential: FILE_PERMISSIONS
+  }
+}
+
+/**
+ * Access levels a role may read without a grant
+ */
+export const readableLevels = (role: UserRole): AccessLevel[] =>
+  (Object.keys(ROLE_DEFAULTS[role]) as AccessLevel[]).filter((level) =>
+    ROLE_DEFAULTS[role][level].includes('read')
+  )
+
+/**
+ * Permissions with read added when anything is granted, in FILE_PERMISSIONS order
+ */
+export const withImpliedRead = (permissions: FilePermission[]): FilePermission[] =>
+  permissions.length === 0
+    ? []
+    : FILE_PERMISSIONS.filter(
+        (permission) => permission === 'read' || permissions.includes(permission)
+      )
+
+/**
+ * Whether a rule applies to a user at a given time
+ */
+export const ruleApplies = (
+  rule: Pick<AccessRule, 'userId' | 'role' | 'groupId' | 'expiresAt'>,
+  subject: AccessSubject,
+  now: Date = new Date()
+): boolean =>
+  (rule.userId === subject.userId ||
+    rule.role === subject.role ||
+    (rule.groupId !== undefined && (subject.groupIds ?? []).includes(rule.groupId))) &&
+  (!rule.expiresAt || new Date(rule.expiresAt) > now)
+
+/**
+ * Effective permissions of a user on a file of `accessLevel`, given the rules on the file
+ * and its collections
+ */
+export const effectivePermissions = (
+  subject: AccessSubject,
+  accessLevel: AccessLevel,
+  rules: Pick<AccessRule, 'userId' | 'role' | 'groupId' | 'expiresAt' | 'permissions'>[],
+  now: Date = new Date()
+): FilePermission[] => {
+  const granted = new Set(ROLE_DEFAULTS[subject.role]?.[accessLevel] ?? [])
+  for (const rule of rules) {
+    if (ruleApplies(rule, subject, now)) {
+      withImpliedRead(rule.permissions).forEach((permission) => granted.add(permission))
+    }
+  }
+  return FILE_PERMISSIONS.filter((permission) => granted.has(permission))
+}
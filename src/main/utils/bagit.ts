@@ -0,0 +1,122 @@
+import { DublinCoreMetadata } from '../types'
+import { ValidationError } from './errors'
+
+/**
+ * BagIt (RFC 8493) helpers
+ * Parsing and building of tag files; filesystem and storage access live in BagItService.
+ */
+
+export const BAGIT_VERSION = '1.0'
+
+export type BagInfo = Record<string, string[]>
+
+export interface ManifestEntry {
+  checksum: string
+  path: string
+}
+
+/**
+ * Parse a manifest (`<checksum> <path>` per line); percent-encoded CR, LF and % are decoded
+ */
+export const parseManifest = (content: string): ManifestEntry[] => {
+  return content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const match = /^([0-9a-fA-F]+)\s+(.+)$/.exec(line)
+      if (!match) {
+        throw new ValidationError(`Invalid manifest line: ${line}`)
+      }
+      return { checksum: match[1].toLowerCase(), path: decodeManifestPath(match[2]) }
+    })
+}
+
+export const buildManifest = (entries: ManifestEntry[]): string => {
+  return entries.map((entry) => `${entry.checksum}  ${encodeManifestPath(entry.path)}\n`).join('')
+}
+
+const decodeManifestPath = (path: string): string =>
+  path.replace(/%0D/gi, '\r').replace(/%0A/gi, '\n').replace(/%25/g, '%')
+
+const encodeManifestPath = (path: string): string =>
+  path.replace(/%/g, '%25').replace(/\n/g, '%0A').replace(/\r/g, '%0D')
+
+/**
+ * Parse bag-info.txt; labels may repeat and values may continue on indented lines
+ */
+export const parseBagInfo = (content: string): BagInfo => {
+  const info: BagInfo = {}
+  let current: { label: string; index: number } | null = null
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '') continue
+
+    if (/^\s/.test(line) && current) {
+      info[current.label][current.index] += ` ${line.trim()}`
+      continue
+    }
+
+    const separator = line.indexOf(':')
+    if (separator === -1) {
+      throw new ValidationError(`Invalid bag-info line: ${line}`)
+    }
+
+    const label = line.slice(0, separator).trim()
+    const value = line.slice(separator + 1).trim()
+    info[label] = [...(info[label] ?? []), value]
+    current = { label, index: info[label].length - 1 }
+  }
+
+  return info
+}
+
+export const buildBagInfo = (info: BagInfo): string => {
+  return Object.entries(info)
+    .flatMap(([label, values]) =>
+      values.map((value) => `${label}: ${value.replace(/\s+/g, ' ')}\n`)
+    )
+    .join('')
+}
+
+/**
+ * Get the first value of a bag-info label (labels are case-insensitive)
+ */
+export const getBagInfoValue = (info: BagInfo, label: string): string | undefined => {
+  const key = Object.keys(info).find((k) => k.toLowerCase() === label.toLowerCase())
+  return key ? info[key][0] : undefined
+}
+
+/**
+ * Map bag-info.txt fields onto Dublin Core
+ */
+export const bagInfoToDublinCore = (info: BagInfo): Partial<DublinCoreMetadata> => {
+  const value = (...labels: string[]): string | undefined =>
+    labels.map((label) => getBagInfoValue(info, label)).find((v) => v !== undefined && v !== '')
+
+  const dc: Partial<DublinCoreMetadata> = {
+    'dc:title': value('DC-Title', 'Title', 'Internal-Sender-Identifier'),
+    'dc:creator': value('DC-Creator', 'Author', 'Contact-Name'),
+    'dc:subject': value('DC-Subject', 'Subject', 'Keywords'),
+    'dc:description': value(
+      'DC-Description',
+      'External-Description',
+      'Internal-Sender-Description'
+    ),
+    'dc:publisher': value('DC-Publisher', 'Source-Organization'),
+    'dc:date': value('DC-Date', 'Bagging-Date'),
+    'dc:language': value('DC-Language', 'Language'),
+    'dc:rights': value('DC-Rights', 'Rights'),
+    'dc:source': value('DC-Source', 'External-Identifier')
+  }
+
+  return Object.fromEntries(
+    Object.entries(dc).filter(([, v]) => v !== undefined)
+  ) as Partial<DublinCoreMetadata>
+}
+
+/**
+ * Payload-Oxum value: `<octet count>.<stream count>`
+ */
+export const buildPayloadOxum = (sizes: number[]): string => {
+  return `${sizes.reduce((total, size) => total + size, 0)}.${sizes.length}`
+}
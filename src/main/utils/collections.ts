@@ -0,0 +1,35 @@
+/**
+ * Collection hierarchy helpers
+ * Levels follow ISAD(G): a fonds holds series, a series files, a file items. A level may
+ * repeat below itself (sub-fonds, sub-series), but never sit above a higher level.
+ */
+
+import { CollectionLevel } from '../types'
+import { ValidationError } from './errors'
+
+export const COLLECTION_LEVELS: CollectionLevel[] = ['fonds', 'series', 'file', 'item']
+
+/**
+ * Whether a collection of level `child` may be placed inside one of level `parent`
+ * (items are the lowest level and hold only files)
+ */
+export const canContain = (parent: CollectionLevel, child: CollectionLevel): boolean =>
+  parent !== 'item' && COLLECTION_LEVELS.indexOf(child) >= COLLECTION_LEVELS.indexOf(parent)
+
+/**
+ * New order of a collection's members: the listed ids first, in the given order, then the
+ * unlisted ones in their current order
+ */
+export const applyOrder = (current: string[], ordered: string[]): string[] => {
+  const members = new Set(current)
+  const unknown = ordered.filter((id) => !members.has(id))
+  if (unknown.length > 0) {
+    throw new ValidationError(`Not members of the collection: ${unknown.join(', ')}`)
+  }
+  if (new Set(ordered).size !== ordered.length) {
+    throw new ValidationError('Order lists a member more than once')
+  }
+
+  const listed = new Set(ordered)
+  return [...ordered, ...current.filter((id) => !listed.has(id))]
+}
@@ -0,0 +1,205 @@
+/**
+ * Line and field diffs for comparing file versions
+ * Lines are compared with Myers' O((N+M)D) algorithm after trimming the common
+ * prefix and suffix; very different texts fall back to "all removed, all added".
+ */
+
+import { DiffHunk, DiffLine, FieldChange } from '../types'
+
+// Edit distance above which the exact diff is given up (memory grows with its square)
+const MAX_EDIT_DISTANCE = 2000
+
+type Operation = 'equal' | 'insert' | 'delete'
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.split(/\r?\n/))
+
+/**
+ * Shortest edit script between two line arrays, or null when it is longer than the limit
+ */
+const shortestEdit = (a: string[], b: string[], limit: number): Operation[] | null => {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // trace[d] holds the furthest x per diagonal k (index k + d) before step d
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= Math.min(max, limit); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m)
+      }
+    }
+  }
+
+  return null
+}
+
+const backtrack = (trace: Int32Array[], n: number, m: number): Operation[] => {
+  const operations: Operation[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const before = trace[d]
+    const furthest = (k: number): number => before[k + d]
+    const k = x - y
+    const previousK = k === -d || (k !== d && furthest(k - 1) < furthest(k + 1)) ? k + 1 : k - 1
+    const previousX = furthest(previousK)
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      operations.push('equal')
+      x--
+      y--
+    }
+    operations.push(previousK === k + 1 ? 'insert' : 'delete')
+    x = previousX
+    y = previousY
+  }
+
+  while (x > 0 && y > 0) {
+    operations.push('equal')
+    x--
+    y--
+  }
+
+  return operations.reverse()
+}
+
+/**
+ * Line diff of two texts, every line of both sides in order
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix)
+  const middleB = b.slice(prefix, b.length - suffix)
+  const middle = shortestEdit(middleA, middleB, MAX_EDIT_DISTANCE) ?? [
+    ...middleA.map((): Operation => 'delete'),
+    ...middleB.map((): Operation => 'insert')
+  ]
+  const operations: Operation[] = [
+    ...Array<Operation>(prefix).fill('equal'),
+    ...middle,
+    ...Array<Operation>(suffix).fill('equal')
+  ]
+
+  const lines: DiffLine[] = []
+  let oldIndex = 0
+  let newIndex = 0
+  for (const type of operations) {
+    if (type === 'equal') {
+      lines.push({ type, text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 })
+      oldIndex++
+      newIndex++
+    } else if (type === 'delete') {
+      lines.push({ type, text: a[oldIndex], oldLine: oldIndex + 1 })
+      oldIndex++
+    } else {
+      lines.push({ type, text: b[newIndex], newLine: newIndex + 1 })
+      newIndex++
+    }
+  }
+  return lines
+}
+
+/**
+ * Group changed lines into hunks with `context` unchanged lines around them (as in
+ * unified diffs); stops adding hunks once they hold more than maxLines lines
+ */
+export const buildHunks = (
+  lines: DiffLine[],
+  options: { context?: number; maxLines?: number } = {}
+): { hunks: DiffHunk[]; truncated: boolean } => {
+  const { context = 3, maxLines = Infinity } = options
+  const hunks: DiffHunk[] = []
+  let total = 0
+
+  let index = 0
+  while (index < lines.length) {
+    while (index < lines.length && lines[index].type === 'equal') index++
+    if (index === lines.length) break
+
+    if (total >= maxLines) {
+      return { hunks, truncated: true }
+    }
+
+    // Extend while the next change is close enough for the contexts to touch
+    const start = Math.max(0, index - context)
+    let end = index
+    for (;;) {
+      while (end < lines.length && lines[end].type !== 'equal') end++
+      let next = end
+      while (next < lines.length && lines[next].type === 'equal') next++
+      if (next < lines.length && next - end <= 2 * context) {
+        end = next
+      } else {
+        end = Math.min(lines.length, end + context)
+        break
+      }
+    }
+
+    const hunkLines = lines.slice(start, end)
+    const first = lines[start]
+    const oldLines = hunkLines.filter((line) => line.type !== 'insert').length
+    const newLines = hunkLines.filter((line) => line.type !== 'delete').length
+    hunks.push({
+      oldStart: first.oldLine ?? countBefore(lines, start, 'insert') + (oldLines > 0 ? 1 : 0),
+      oldLines,
+      newStart: first.newLine ?? countBefore(lines, start, 'delete') + (newLines > 0 ? 1 : 0),
+      newLines,
+      lines: hunkLines
+    })
+    total += hunkLines.length
+    index = end
+  }
+
+  return { hunks, truncated: false }
+}
+
+// Lines of one side before `index` (for hunks starting with a line the side lacks)
+const countBefore = (lines: DiffLine[], index: number, excluded: DiffLine['type']): number =>
+  lines.slice(0, index).filter((line) => line.type !== excluded).length
+
+/**
+ * Changed fields between two flat records; missing, null and empty values are equal
+ */
+export const diffFields = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] => {
+  const text = (value: unknown): string | undefined =>
+    value === undefined || value === null || value === '' ? undefined : String(value)
+
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+  return fields
+    .map((field) => ({ field, before: text(before[field]), after: text(after[field]) }))
+    .filter((change) => change.before !== change.after)
+}
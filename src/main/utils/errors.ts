@@ -67,6 +67,18 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class FormatMismatchError extends AppError {
+  constructor(declaredMimeType: string, identified: { puid: string; name: string }) {
+    super(
+      'FORMAT_MISMATCH',
+      `File content is ${identified.name} (${identified.puid}), not ${declaredMimeType}`,
+      415,
+      { declaredMimeType, puid: identified.puid }
+    )
+    Object.setPrototypeOf(this, FormatMismatchError.prototype)
+  }
+}
+
 export class DatabaseError extends AppError {
   constructor(message: string = 'Database error', details?: unknown) {
     super('DATABASE_ERROR', message, 500, details)
@@ -90,6 +102,7 @@ export default {
   ConflictError,
   AccountLockedError,
   RateLimitError,
+  FormatMismatchError,
   DatabaseError,
   InternalServerError
 }
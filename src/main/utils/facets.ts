@@ -0,0 +1,40 @@
+/**
+ * Search facet helpers
+ * Facet names and query-string parsing; the SQL lives in FileService.searchFiles.
+ */
+
+import { SearchFacet } from '../types'
+
+export const SEARCH_FACETS: SearchFacet[] = [
+  'type',
+  'language',
+  'creator',
+  'decade',
+  'accessLevel',
+  'format',
+  'collection'
+]
+
+/**
+ * Read facet filters from a query string; a facet is multi-selected by repeating its key
+ * (?type=audio&type=video). Values are trimmed, de-duplicated and empty ones dropped.
+ */
+export const parseFacetFilters = (
+  query: Record<string, unknown>
+): Partial<Record<SearchFacet, string[]>> => {
+  const filters: Partial<Record<SearchFacet, string[]>> = {}
+
+  for (const facet of SEARCH_FACETS) {
+    const raw = query[facet]
+    const values = (Array.isArray(raw) ? raw : [raw])
+      .filter((value): value is string => typeof value === 'string')
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0)
+
+    if (values.length > 0) {
+      filters[facet] = [...new Set(values)]
+    }
+  }
+
+  return filters
+}
@@ -1,6 +1,13 @@
 import { existsSync, mkdirSync } from 'fs'
-import { join } from 'path'
+import { realpath } from 'fs/promises'
+import { extname, isAbsolute, join, relative, resolve } from 'path'
 import { app } from 'electron'
+import { ValidationError } from './errors'
+
+const isInside = (dir: string, filePath: string): boolean => {
+  const relativePath = relative(dir, filePath)
+  return !relativePath.startsWith('..') && !isAbsolute(relativePath)
+}
 
 /**
  * File Storage Utility
@@ -13,6 +20,13 @@ export class FileStorageUtil {
 
   private static readonly TEMP_UPLOAD_DIR = join(this.STORAGE_DIR, '.tmp')
 
+  // Folder and bag imports read server-side paths, so only from here or picked folders
+  private static readonly IMPORT_DIR =
+    process.env.IMPORT_DIR || join(app.getPath('userData'), 'import')
+
+  // Real paths of folders chosen in this machine's folder dialog
+  private static readonly pickedFolders = new Set<string>()
+
   /**
    * Initialize storage directories
    */
@@ -23,6 +37,9 @@ export class FileStorageUtil {
     if (!existsSync(this.TEMP_UPLOAD_DIR)) {
       mkdirSync(this.TEMP_UPLOAD_DIR, { recursive: true })
     }
+    if (!existsSync(this.IMPORT_DIR)) {
+      mkdirSync(this.IMPORT_DIR, { recursive: true })
+    }
   }
 
   /**
@@ -39,6 +56,64 @@ export class FileStorageUtil {
     return this.TEMP_UPLOAD_DIR
   }
 
+  /**
+   * Get path of a resumable upload session's partial file
+   */
+  static getUploadSessionPath(sessionId: string): string {
+    return join(this.TEMP_UPLOAD_DIR, 'sessions', `${sessionId}.part`)
+  }
+
+  /**
+   * Check whether a path points into the temp upload directory
+   */
+  static isTempPath(filePath: string): boolean {
+    return isInside(this.TEMP_UPLOAD_DIR, resolve(filePath))
+  }
+
+  /**
+   * Get the directory folder and bag imports may read from
+   */
+  static getImportDir(): string {
+    return this.IMPORT_DIR
+  }
+
+  /**
+   * Allow imports from a folder the local user chose in the folder dialog
+   */
+  static async allowImportFolder(folderPath: string): Promise<void> {
+    this.pickedFolders.add(await realpath(folderPath))
+  }
+
+  /**
+   * Real path (symlinks resolved) of an import source, which must lie in the import
+   * directory or in a folder picked on this machine
+   */
+  static async resolveImportPath(sourcePath: string): Promise<string> {
+    if (!isAbsolute(sourcePath)) {
+      throw new ValidationError('Import path must be absolute')
+    }
+    const realSource = await realpath(sourcePath).catch(() => null)
+    if (!realSource) {
+      throw new ValidationError(`Not found: ${sourcePath}`)
+    }
+
+    const importDir = await realpath(this.IMPORT_DIR).catch(() => resolve(this.IMPORT_DIR))
+    const allowed = [importDir, ...this.pickedFolders].some((dir) => isInside(dir, realSource))
+    if (!allowed) {
+      throw new ValidationError(
+        `Imports must come from ${importDir} or a folder chosen in the application`
+      )
+    }
+    return realSource
+  }
+
+  /**
+   * Get permanent, content-addressed storage key for an object (objects/ab/cd/<sha256>)
+   */
+  static getObjectKey(fileHash: string): string {
+    return `objects/${fileHash.slice(0, 2)}/${fileHash.slice(2, 4)}/${fileHash}`
+  }
+
   /**
    * Get file path for a file ID
    */
@@ -58,6 +133,16 @@ export class FileStorageUtil {
    */
   static readonly MAX_FILE_SIZE = 100 * 1024 * 1024
 
+  /**
+   * Max file size for resumable (chunked) uploads (100 GB)
+   */
+  static readonly MAX_RESUMABLE_FILE_SIZE = 100 * 1024 * 1024 * 1024
+
+  /**
+   * Max size of a single resumable upload chunk (256 MB)
+   */
+  static readonly MAX_CHUNK_SIZE = 256 * 1024 * 1024
+
   /**
    * Allowed MIME types
    */
@@ -76,9 +161,53 @@ export class FileStorageUtil {
     'video/quicktime',
     'application/x-zip-compressed',
     'application/gzip',
-    'application/x-tar'
+    'application/x-tar',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation'
   ]
 
+  /**
+   * MIME types by file extension, for files that arrive without one (folder ingest)
+   */
+  private static readonly MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+    '.pdf': 'application/pdf',
+    '.txt': 'text/plain',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.ogg': 'audio/ogg',
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+    '.mov': 'video/quicktime',
+    '.zip': 'application/x-zip-compressed',
+    '.gz': 'application/gzip',
+    '.tgz': 'application/gzip',
+    '.tar': 'application/x-tar',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    '.odt': 'application/vnd.oasis.opendocument.text',
+    '.ods': 'application/vnd.oasis.opendocument.spreadsheet',
+    '.odp': 'application/vnd.oasis.opendocument.presentation'
+  }
+
+  /**
+   * Guess MIME type from a filename's extension
+   */
+  static getMimeTypeFromFilename(filename: string): string {
+    return (
+      this.MIME_TYPES_BY_EXTENSION[extname(filename).toLowerCase()] || 'application/octet-stream'
+    )
+  }
+
   /**
    * Validate MIME type
    */
@@ -0,0 +1,291 @@
+import xml2js from 'xml2js'
+import { DublinCoreMetadata, FileRelation, PremisEvent, PremisMetadata } from '../types'
+import { dctermsElements } from './relations'
+
+/**
+ * METS document builder for information packages
+ * AIP: full PREMIS (object, events, agents, rights) for preservation storage.
+ * DIP: Dublin Core, rights and the file itself - what a user needs to consume the object.
+ */
+
+export type PackageType = 'aip' | 'dip'
+
+export interface MetsAgent {
+  identifier: string
+  name: string
+  type: 'person' | 'software' | 'organization'
+}
+
+export interface MetsFileEntry {
+  id: string
+  href: string // Path of the file inside the package
+  mimeType: string
+  size: number
+  checksum: string // SHA-256
+  createdAt: string
+  dublinCore: DublinCoreMetadata
+  premis: PremisMetadata
+  accessLevel: string
+  agents: MetsAgent[]
+  // Earlier Dublin Core records, kept as superseded dmdSecs in an AIP
+  metadataHistory?: Array<{ revisionNumber: number; createdAt: string; record: DublinCoreMetadata }>
+  // Relations to other files, written as dcterms elements of the current record
+  relations?: Pick<FileRelation, 'relation' | 'fileId'>[]
+}
+
+export interface MetsPackage {
+  type: PackageType
+  objectId: string
+  label: string
+  createdAt: string
+  files: MetsFileEntry[]
+}
+
+const NAMESPACES = {
+  'xmlns:mets': 'http://www.loc.gov/METS/',
+  'xmlns:xlink': 'http://www.w3.org/1999/xlink',
+  'xmlns:dc': 'http://purl.org/dc/elements/1.1/',
+  'xmlns:dcterms': 'http://purl.org/dc/terms/',
+  'xmlns:premis': 'http://www.loc.gov/premis/v3',
+  'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+  'xsi:schemaLocation':
+    'http://www.loc.gov/METS/ http://www.loc.gov/standards/mets/mets.xsd ' +
+    'http://www.loc.gov/premis/v3 http://www.loc.gov/standards/premis/premis.xsd'
+}
+
+const builder = new xml2js.Builder({ rootName: 'mets:mets' })
+
+// XML IDs must not start with a digit, and UUIDs often do
+const xmlId = (prefix: string, id: string): string => `${prefix}-${id}`
+
+const identifier = (type: string, value: string): Record<string, string> => ({
+  'premis:objectIdentifierType': type,
+  'premis:objectIdentifierValue': value
+})
+
+const dcWrap = (
+  record: DublinCoreMetadata,
+  relations: MetsFileEntry['relations'] = []
+): Record<string, unknown> => ({
+  $: { MDTYPE: 'DC' },
+  'mets:xmlData': {
+    ...Object.fromEntries(
+      Object.entries(record).filter(([, value]) => value !== undefined && value !== '')
+    ),
+    ...dctermsElements(relations)
+  }
+})
+
+/**
+ * The current Dublin Core record; in an AIP with history also every earlier revision,
+ * grouped with it and marked as superseded
+ */
+const buildDmdSecs = (file: MetsFileEntry, type: PackageType): Record<string, unknown>[] => {
+  const history = type === 'aip' ? (file.metadataHistory ?? []) : []
+  if (history.length === 0) {
+    return [
+      { $: { ID: xmlId('dmd', file.id) }, 'mets:mdWrap': dcWrap(file.dublinCore, file.relations) }
+    ]
+  }
+
+  const group = xmlId('dmdgroup', file.id)
+  return [
+    {
+      $: { ID: xmlId('dmd', file.id), GROUPID: group, STATUS: 'current' },
+      'mets:mdWrap': dcWrap(file.dublinCore, file.relations)
+    },
+    ...history.map((revision) => ({
+      $: {
+        ID: xmlId('dmd', `${file.id}-r${revision.revisionNumber}`),
+        GROUPID: group,
+        CREATED: revision.createdAt,
+        STATUS: 'superseded'
+      },
+      'mets:mdWrap': dcWrap(revision.record)
+    }))
+  ]
+}
+
+const buildPremisObject = (file: MetsFileEntry): Record<string, unknown> => {
+  const characteristics = file.premis['premis:objectCharacteristics']
+  const format = characteristics['premis:format']
+  return {
+    $: { 'xsi:type': 'premis:file' },
+    'premis:objectIdentifier': identifier('UUID', file.id),
+    'premis:preservationLevel': {
+      'premis:preservationLevelValue': file.premis['premis:preservationLevel']
+    },
+    'premis:objectCharacteristics': {
+      'premis:compositionLevel': characteristics['premis:compositionLevel'],
+      'premis:fixity': {
+        'premis:messageDigestAlgorithm': 'SHA-256',
+        'premis:messageDigest': file.checksum
+      },
+      'premis:size': file.size,
+      'premis:format': {
+        'premis:formatDesignation': {
+          'premis:formatName': format['premis:formatName'],
+          ...(format['premis:formatVersion']
+            ? { 'premis:formatVersion': format['premis:formatVersion'] }
+            : {})
+        },
+        ...(format['premis:formatRegistryKey']
+          ? {
+              'premis:formatRegistry': {
+                'premis:formatRegistryName': format['premis:formatRegistry'],
+                'premis:formatRegistryKey': format['premis:formatRegistryKey']
+              }
+            }
+          : {})
+      }
+    }
+  }
+}
+
+const buildPremisEvent = (event: PremisEvent): Record<string, unknown> => ({
+  'premis:eventIdentifier': {
+    'premis:eventIdentifierType': 'UUID',
+    'premis:eventIdentifierValue': event['premis:eventIdentifier']
+  },
+  'premis:eventType': event['premis:eventType'],
+  'premis:eventDateTime': event['premis:eventDateTime'],
+  ...(event['premis:eventDetail']
+    ? { 'premis:eventDetailInformation': { 'premis:eventDetail': event['premis:eventDetail'] } }
+    : {}),
+  'premis:linkingAgentIdentifier': {
+    'premis:linkingAgentIdentifierType': 'local',
+    'premis:linkingAgentIdentifierValue': event['premis:linkingAgentIdentifier']
+  },
+  'premis:linkingObjectIdentifier': {
+    'premis:linkingObjectIdentifierType': 'UUID',
+    'premis:linkingObjectIdentifierValue': event['premis:linkingObjectIdentifier']
+  }
+})
+
+const buildPremisAgent = (agent: MetsAgent): Record<string, unknown> => ({
+  'premis:agentIdentifier': {
+    'premis:agentIdentifierType': 'local',
+    'premis:agentIdentifierValue': agent.identifier
+  },
+  'premis:agentName': agent.name,
+  'premis:agentType': agent.type
+})
+
+const buildPremisRights = (file: MetsFileEntry): Record<string, unknown> => ({
+  'premis:rightsStatement': {
+    'premis:rightsStatementIdentifier': {
+      'premis:rightsStatementIdentifierType': 'local',
+      'premis:rightsStatementIdentifierValue': xmlId('rights', file.id)
+    },
+    'premis:rightsBasis': 'Other',
+    'premis:otherRightsInformation': {
+      'premis:otherRightsBasis': 'Policy',
+      'premis:otherRightsNote': `Access level: ${file.accessLevel}`
+    },
+    ...(file.dublinCore['dc:rights'] ? { 'premis:rightsNote': file.dublinCore['dc:rights'] } : {}),
+    'premis:rightsGranted': {
+      'premis:act': file.accessLevel === 'public' ? 'disseminate' : 'use',
+      'premis:restriction': file.accessLevel === 'public' ? 'none' : file.accessLevel
+    },
+    'premis:linkingObjectIdentifier': {
+      'premis:linkingObjectIdentifierType': 'UUID',
+      'premis:linkingObjectIdentifierValue': file.id
+    }
+  }
+})
+
+const premisWrap = (mdType: string, data: Record<string, unknown>): Record<string, unknown> => ({
+  'mets:mdWrap': {
+    $: { MDTYPE: 'PREMIS:' + mdType },
+    'mets:xmlData': data
+  }
+})
+
+const buildAmdSec = (file: MetsFileEntry, type: PackageType): Record<string, unknown> => {
+  const rightsMD = {
+    $: { ID: xmlId('rights', file.id) },
+    ...premisWrap('RIGHTS', buildPremisRights(file))
+  }
+
+  if (type === 'dip') {
+    return { $: { ID: xmlId('amd', file.id) }, 'mets:rightsMD': rightsMD }
+  }
+
+  return {
+    $: { ID: xmlId('amd', file.id) },
+    'mets:techMD': {
+      $: { ID: xmlId('tech', file.id) },
+      ...premisWrap('OBJECT', { 'premis:object': buildPremisObject(file) })
+    },
+    'mets:rightsMD': rightsMD,
+    'mets:digiprovMD': [
+      ...file.premis['premis:events'].map((event) => ({
+        $: { ID: xmlId('event', event['premis:eventIdentifier']) },
+        ...premisWrap('EVENT', { 'premis:event': buildPremisEvent(event) })
+      })),
+      ...file.agents.map((agent, index) => ({
+        $: { ID: xmlId(`agent-${index + 1}`, file.id) },
+        ...premisWrap('AGENT', { 'premis:agent': buildPremisAgent(agent) })
+      }))
+    ]
+  }
+}
+
+/**
+ * Build a METS document (dmdSec, amdSec, fileSec, structMap) for an AIP or DIP
+ */
+export const buildMetsDocument = (pkg: MetsPackage): string => {
+  const files = pkg.files
+
+  return builder.buildObject({
+    $: {
+      ...NAMESPACES,
+      OBJID: pkg.objectId,
+      LABEL: pkg.label,
+      TYPE: pkg.type.toUpperCase()
+    },
+    'mets:metsHdr': {
+      $: { CREATEDATE: pkg.createdAt, RECORDSTATUS: 'Complete' },
+      'mets:agent': {
+        $: { ROLE: 'CREATOR', TYPE: 'ORGANIZATION' },
+        'mets:name': 'e-Archiwum'
+      }
+    },
+    'mets:dmdSec': files.flatMap((file) => buildDmdSecs(file, pkg.type)),
+    'mets:amdSec': files.map((file) => buildAmdSec(file, pkg.type)),
+    'mets:fileSec': {
+      'mets:fileGrp': {
+        $: { USE: pkg.type === 'aip' ? 'preservation' : 'access' },
+        'mets:file': files.map((file) => ({
+          $: {
+            ID: xmlId('file', file.id),
+            MIMETYPE: file.mimeType,
+            SIZE: file.size,
+            CREATED: file.createdAt,
+            CHECKSUM: file.checksum,
+            CHECKSUMTYPE: 'SHA-256',
+            ADMID: xmlId('amd', file.id)
+          },
+          'mets:FLocat': {
+            $: { LOCTYPE: 'URL', 'xlink:type': 'simple', 'xlink:href': file.href }
+          }
+        }))
+      }
+    },
+    'mets:structMap': {
+      $: { TYPE: 'physical' },
+      'mets:div': {
+        $: { TYPE: files.length > 1 ? 'collection' : 'object', LABEL: pkg.label },
+        'mets:div': files.map((file) => ({
+          $: {
+            TYPE: 'file',
+            LABEL: file.dublinCore['dc:title'],
+            DMDID: xmlId('dmd', file.id),
+            ADMID: xmlId('amd', file.id)
+          },
+          'mets:fptr': { $: { FILEID: xmlId('file', file.id) } }
+        }))
+      }
+    }
+  })
+}
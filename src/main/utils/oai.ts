@@ -0,0 +1,245 @@
+import xml2js from 'xml2js'
+import { DublinCoreMetadata } from '../types'
+
+/**
+ * OAI-PMH 2.0 protocol helpers
+ * Argument validation, resumption tokens and response XML; queries live in OaiService.
+ */
+
+export type OaiVerb =
+  | 'Identify'
+  | 'ListMetadataFormats'
+  | 'ListSets'
+  | 'ListIdentifiers'
+  | 'ListRecords'
+  | 'GetRecord'
+
+export type OaiErrorCode =
+  | 'badArgument'
+  | 'badResumptionToken'
+  | 'badVerb'
+  | 'cannotDisseminateFormat'
+  | 'idDoesNotExist'
+  | 'noRecordsMatch'
+  | 'noMetadataFormats'
+  | 'noSetHierarchy'
+
+/**
+ * Protocol error - reported inside a normal 200 OAI-PMH response, not as an HTTP error
+ */
+export class OaiError extends Error {
+  constructor(
+    public code: OaiErrorCode,
+    message: string
+  ) {
+    super(message)
+    Object.setPrototypeOf(this, OaiError.prototype)
+  }
+}
+
+export interface OaiRequest {
+  verb: OaiVerb
+  identifier?: string
+  metadataPrefix?: string
+  from?: string
+  until?: string
+  set?: string
+  resumptionToken?: string
+}
+
+export interface ResumptionState {
+  metadataPrefix: string
+  from?: string
+  until?: string
+  set?: string
+  after: { datestamp: string; id: string }
+  cursor: number
+  total: number
+}
+
+export interface OaiHeader {
+  identifier: string
+  datestamp: Date
+  setSpecs: string[]
+  deleted: boolean
+}
+
+export const OAI_GRANULARITY = 'YYYY-MM-DDThh:mm:ssZ'
+
+export const OAI_DC_FORMAT = {
+  metadataPrefix: 'oai_dc',
+  schema: 'http://www.openarchives.org/OAI/2.0/oai_dc.xsd',
+  metadataNamespace: 'http://www.openarchives.org/OAI/2.0/oai_dc/'
+}
+
+// Arguments allowed per verb; resumptionToken is exclusive wherever it is allowed
+const VERB_ARGUMENTS: Record<OaiVerb, { required: string[]; optional: string[] }> = {
+  Identify: { required: [], optional: [] },
+  ListMetadataFormats: { required: [], optional: ['identifier'] },
+  ListSets: { required: [], optional: ['resumptionToken'] },
+  ListIdentifiers: {
+    required: ['metadataPrefix'],
+    optional: ['from', 'until', 'set', 'resumptionToken']
+  },
+  ListRecords: {
+    required: ['metadataPrefix'],
+    optional: ['from', 'until', 'set', 'resumptionToken']
+  },
+  GetRecord: { required: ['identifier', 'metadataPrefix'], optional: [] }
+}
+
+/**
+ * Validate request parameters (query string or form body) against the verb's arguments
+ */
+export const parseOaiRequest = (params: Record<string, unknown>): OaiRequest => {
+  const verb = params.verb
+  if (typeof verb !== 'string' || !(verb in VERB_ARGUMENTS)) {
+    throw new OaiError('badVerb', 'Illegal or missing verb')
+  }
+
+  const { required, optional } = VERB_ARGUMENTS[verb as OaiVerb]
+  const args: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(params)) {
+    if (key === 'verb') continue
+    if (!required.includes(key) && !optional.includes(key)) {
+      throw new OaiError('badArgument', `Illegal argument: ${key}`)
+    }
+    if (typeof value !== 'string') {
+      throw new OaiError('badArgument', `Repeated or malformed argument: ${key}`)
+    }
+    args[key] = value
+  }
+
+  if (args.resumptionToken !== undefined) {
+    if (Object.keys(args).length > 1) {
+      throw new OaiError('badArgument', 'resumptionToken is an exclusive argument')
+    }
+    return { verb: verb as OaiVerb, resumptionToken: args.resumptionToken }
+  }
+
+  const missing = required.filter((key) => args[key] === undefined)
+  if (missing.length > 0) {
+    throw new OaiError('badArgument', `Missing argument: ${missing.join(', ')}`)
+  }
+
+  if (args.from !== undefined && args.until !== undefined) {
+    if (args.from.length !== args.until.length) {
+      throw new OaiError('badArgument', 'from and until must have the same granularity')
+    }
+    if (parseDatestamp(args.from, 'from') > parseDatestamp(args.until, 'until')) {
+      throw new OaiError('badArgument', 'from must not be later than until')
+    }
+  }
+
+  return { verb: verb as OaiVerb, ...args }
+}
+
+/**
+ * Parse a UTC datestamp (YYYY-MM-DD or YYYY-MM-DDThh:mm:ssZ)
+ * `until` is inclusive, so it is returned as the exclusive upper bound of its day/second.
+ */
+export const parseDatestamp = (value: string, bound: 'from' | 'until'): Date => {
+  const match = /^(\d{4}-\d{2}-\d{2})(T\d{2}:\d{2}:\d{2}Z)?$/.exec(value)
+  const date = match ? new Date(match[2] ? value : `${value}T00:00:00Z`) : null
+  if (!match || !date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== match[1]) {
+    throw new OaiError('badArgument', `Invalid datestamp: ${value}`)
+  }
+
+  if (bound === 'until') {
+    date.setTime(date.getTime() + (match[2] ? 1000 : 24 * 60 * 60 * 1000))
+  }
+  return date
+}
+
+export const formatDatestamp = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+
+export const encodeResumptionToken = (state: ResumptionState): string =>
+  Buffer.from(JSON.stringify(state)).toString('base64url')
+
+export const decodeResumptionToken = (token: string): ResumptionState => {
+  try {
+    const state = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as ResumptionState
+    if (
+      typeof state.metadataPrefix !== 'string' ||
+      typeof state.after?.id !== 'string' ||
+      isNaN(new Date(state.after.datestamp).getTime()) ||
+      typeof state.cursor !== 'number' ||
+      typeof state.total !== 'number'
+    ) {
+      throw new Error('Incomplete token')
+    }
+    return state
+  } catch {
+    throw new OaiError('badResumptionToken', 'Invalid or expired resumptionToken')
+  }
+}
+
+export const buildOaiIdentifier = (repositoryId: string, fileId: string): string =>
+  `oai:${repositoryId}:${fileId}`
+
+/**
+ * Extract the file UUID from an OAI identifier; null when it is not one of ours
+ */
+export const parseOaiIdentifier = (repositoryId: string, identifier: string): string | null => {
+  const prefix = `oai:${repositoryId}:`
+  const id = identifier.startsWith(prefix) ? identifier.slice(prefix.length) : ''
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id) ? id : null
+}
+
+export const buildRecordHeader = (header: OaiHeader): Record<string, unknown> => ({
+  ...(header.deleted ? { $: { status: 'deleted' } } : {}),
+  identifier: header.identifier,
+  datestamp: formatDatestamp(header.datestamp),
+  ...(header.setSpecs.length > 0 ? { setSpec: header.setSpecs } : {})
+})
+
+/**
+ * oai_dc record metadata; empty elements are omitted
+ */
+export const buildOaiDc = (dc: Partial<DublinCoreMetadata>): Record<string, unknown> => ({
+  'oai_dc:dc': {
+    $: {
+      'xmlns:oai_dc': OAI_DC_FORMAT.metadataNamespace,
+      'xmlns:dc': 'http://purl.org/dc/elements/1.1/',
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      'xsi:schemaLocation': `${OAI_DC_FORMAT.metadataNamespace} ${OAI_DC_FORMAT.schema}`
+    },
+    ...Object.fromEntries(
+      Object.entries(dc).filter(
+        ([, value]) => value !== undefined && value !== null && value !== ''
+      )
+    )
+  }
+})
+
+const builder = new xml2js.Builder({ rootName: 'OAI-PMH' })
+
+/**
+ * Wrap a verb response (or a protocol error) in the OAI-PMH envelope
+ */
+export const buildOaiResponse = (
+  baseUrl: string,
+  params: Record<string, unknown>,
+  body: { verb: OaiVerb; content: Record<string, unknown> } | { error: OaiError }
+): string => {
+  // Arguments are echoed only when the request was valid
+  const requestAttributes =
+    'error' in body && ['badVerb', 'badArgument'].includes(body.error.code)
+      ? {}
+      : Object.fromEntries(Object.entries(params).filter(([, value]) => typeof value === 'string'))
+
+  return builder.buildObject({
+    $: {
+      xmlns: 'http://www.openarchives.org/OAI/2.0/',
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      'xsi:schemaLocation':
+        'http://www.openarchives.org/OAI/2.0/ http://www.openarchives.org/OAI/2.0/OAI-PMH.xsd'
+    },
+    responseDate: formatDatestamp(new Date()),
+    request: { _: baseUrl, $: requestAttributes },
+    ...('error' in body
+      ? { error: { _: body.error.message, $: { code: body.error.code } } }
+      : { [body.verb]: body.content })
+  })
+}
@@ -0,0 +1,101 @@
+/**
+ * Signature-based format identification (PRONOM internal signatures)
+ * Matching only; the bundled signature file is loaded by FormatIdentificationService.
+ */
+
+export interface ByteSequence {
+  offset: number // Offset from the beginning of the file
+  maxOffset?: number // When set, the sequence may start anywhere in offset..maxOffset
+  hex: string // Upper/lower case hex, `??` matches any byte
+}
+
+export interface FormatSignature {
+  puid: string
+  name: string
+  version?: string
+  mimeTypes: string[]
+  signatures: ByteSequence[][] // Alternatives; every sequence of one alternative must match
+}
+
+export interface FormatMatch {
+  format: FormatSignature
+  method: 'signature' | 'text'
+}
+
+// Bytes read from the start of a file - enough for every bundled signature
+export const SIGNATURE_WINDOW = 4096
+
+export const PLAIN_TEXT_PUID = 'x-fmt/111'
+
+const parseHex = (hex: string): Array<number | null> => {
+  const bytes = hex.replace(/\s+/g, '').match(/.{2}/g) ?? []
+  return bytes.map((byte) => (byte === '??' ? null : parseInt(byte, 16)))
+}
+
+const matchesAt = (head: Buffer, pattern: Array<number | null>, offset: number): boolean => {
+  if (offset + pattern.length > head.length) return false
+  return pattern.every((byte, i) => byte === null || head[offset + i] === byte)
+}
+
+const matchesSequence = (head: Buffer, sequence: ByteSequence): boolean => {
+  const pattern = parseHex(sequence.hex)
+  const last = sequence.maxOffset ?? sequence.offset
+  for (let offset = sequence.offset; offset <= last; offset++) {
+    if (matchesAt(head, pattern, offset)) return true
+  }
+  return false
+}
+
+// Number of fixed bytes - a longer match is the more specific identification
+const specificity = (signature: ByteSequence[]): number =>
+  signature.reduce(
+    (total, sequence) => total + parseHex(sequence.hex).filter((b) => b !== null).length,
+    0
+  )
+
+const isText = (head: Buffer): boolean => {
+  if (head.length === 0 || head.includes(0)) return false
+  try {
+    // `stream` tolerates a multi-byte character cut off at the end of the window
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Identify a format from the first bytes of a file; the most specific signature wins.
+ * Files without a signature match are recognised as plain text when they are NUL-free UTF-8.
+ */
+export const identifyFormat = (head: Buffer, formats: FormatSignature[]): FormatMatch | null => {
+  let best: { format: FormatSignature; score: number } | null = null
+
+  for (const format of formats) {
+    for (const signature of format.signatures) {
+      if (!signature.every((sequence) => matchesSequence(head, sequence))) continue
+      const score = specificity(signature)
+      if (!best || score > best.score) {
+        best = { format, score }
+      }
+    }
+  }
+
+  if (best) {
+    return { format: best.format, method: 'signature' }
+  }
+
+  const text = formats.find((format) => format.puid === PLAIN_TEXT_PUID)
+  return text && isText(head) ? { format: text, method: 'text' } : null
+}
+
+/**
+ * Whether the identified format contradicts a declared MIME type (parameters are ignored)
+ */
+export const contradictsDeclaredType = (
+  format: FormatSignature,
+  declaredMimeType: string
+): boolean => {
+  const mimeType = declaredMimeType.split(';')[0].trim().toLowerCase()
+  return !format.mimeTypes.includes(mimeType)
+}
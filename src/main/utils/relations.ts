@@ -0,0 +1,76 @@
+/**
+ * Relations between files (Dublin Core Terms relation vocabulary)
+ * Every relation has an inverse; only the canonical direction is stored, so "A hasPart B"
+ * and "B isPartOf A" are the same row.
+ */
+
+import { FileRelation, RelationType } from '../types'
+
+// Canonical relation -> its inverse
+const CANONICAL = {
+  isPartOf: 'hasPart',
+  isVersionOf: 'hasVersion',
+  isFormatOf: 'hasFormat',
+  references: 'isReferencedBy',
+  replaces: 'isReplacedBy',
+  requires: 'isRequiredBy'
+} as const satisfies Record<string, RelationType>
+
+export type CanonicalRelation = keyof typeof CANONICAL
+
+export const RELATION_TYPES = Object.entries(CANONICAL).flat() as RelationType[]
+
+// Relations that must not loop back (a whole cannot be part of its own part)
+export const ACYCLIC_RELATIONS: CanonicalRelation[] = ['isPartOf', 'isVersionOf', 'replaces']
+
+const INVERSE = Object.fromEntries(
+  Object.entries(CANONICAL).flatMap(([relation, inverse]) => [
+    [relation, inverse],
+    [inverse, relation]
+  ])
+) as Record<RelationType, RelationType>
+
+export const inverseRelation = (relation: RelationType): RelationType => INVERSE[relation]
+
+export const isCanonical = (relation: RelationType): relation is CanonicalRelation =>
+  relation in CANONICAL
+
+/**
+ * The stored form of "subject relation object"
+ */
+export const normalizeRelation = (
+  subjectId: string,
+  relation: RelationType,
+  objectId: string
+): { subjectId: string; relation: CanonicalRelation; objectId: string } =>
+  isCanonical(relation)
+    ? { subjectId, relation, objectId }
+    : {
+        subjectId: objectId,
+        relation: inverseRelation(relation) as CanonicalRelation,
+        objectId: subjectId
+      }
+
+/**
+ * A stored relation as seen from one of its files
+ */
+export const relationFrom = (
+  fileId: string,
+  stored: { subjectId: string; relation: CanonicalRelation; objectId: string }
+): { relation: RelationType; otherId: string } =>
+  stored.subjectId === fileId
+    ? { relation: stored.relation, otherId: stored.objectId }
+    : { relation: inverseRelation(stored.relation), otherId: stored.subjectId }
+
+/**
+ * dcterms elements for a Dublin Core record, e.g. { 'dcterms:isPartOf': ['urn:uuid:...'] }
+ */
+export const dctermsElements = (
+  relations: Pick<FileRelation, 'relation' | 'fileId'>[]
+): Record<string, string[]> => {
+  const elements: Record<string, string[]> = {}
+  for (const { relation, fileId } of relations) {
+    ;(elements[`dcterms:${relation}`] ??= []).push(`urn:uuid:${fileId}`)
+  }
+  return elements
+}
@@ -0,0 +1,302 @@
+/**
+ * Advanced search query language
+ * Parses `creator:"Kowalski" AND type:video AND date:[1990 TO 1999] -subject:reklama` into a
+ * tree and compiles it to a parameterised SQL condition over files f, metadata_dublin_core dc,
+ * metadata_premis p and search_index s.
+ *
+ * - Terms without a field (or `text:`) search the full-text vector; quoted ones as a phrase
+ * - AND / OR / NOT (upper case), `-` negation and parentheses; adjacent terms are ANDed
+ * - date: takes YYYY, YYYY-MM or YYYY-MM-DD, or a range [from TO to] with * for an open end
+ */
+
+import { ValidationError } from './errors'
+import { escapeLikePattern } from './suggestions'
+
+// Text search configuration built by configure_search_config() (schema.sql)
+export const SEARCH_CONFIG = 'archiwum'
+
+export type QueryField =
+  | 'text'
+  | 'title'
+  | 'creator'
+  | 'subject'
+  | 'description'
+  | 'publisher'
+  | 'type'
+  | 'language'
+  | 'format'
+  | 'date'
+
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; field: QueryField; value: string; phrase: boolean }
+  | { type: 'range'; field: 'date'; from?: string; to?: string } // to is exclusive
+
+export interface CompiledQuery {
+  sql: string
+  params: string[]
+  text: string // Free-text terms outside NOT, for ranking and snippets
+}
+
+type Token = {
+  kind: 'word' | 'phrase' | 'colon' | 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'minus'
+  value: string
+  position: number
+}
+
+const FIELDS: QueryField[] = [
+  'text',
+  'title',
+  'creator',
+  'subject',
+  'description',
+  'publisher',
+  'type',
+  'language',
+  'format',
+  'date'
+]
+
+const queryError = (message: string, position: number): ValidationError =>
+  new ValidationError('Invalid search query', [{ field: 'q', message, position }])
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = []
+  const single: Record<string, Token['kind']> = {
+    ':': 'colon',
+    '(': 'lparen',
+    ')': 'rparen',
+    '[': 'lbracket',
+    ']': 'rbracket'
+  }
+
+  let i = 0
+  while (i < input.length) {
+    const char = input[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char in single) {
+      tokens.push({ kind: single[char], value: char, position: i })
+      i++
+    } else if (char === '"') {
+      const end = input.indexOf('"', i + 1)
+      if (end === -1) throw queryError('Unterminated quote', i)
+      tokens.push({ kind: 'phrase', value: input.slice(i + 1, end), position: i })
+      i = end + 1
+    } else if (
+      char === '-' &&
+      (i === 0 || /[\s(]/.test(input[i - 1])) &&
+      /[^\s)]/.test(input[i + 1] ?? ' ')
+    ) {
+      tokens.push({ kind: 'minus', value: char, position: i })
+      i++
+    } else {
+      const start = i
+      while (i < input.length && !/[\s:()[\]"]/.test(input[i])) i++
+      tokens.push({ kind: 'word', value: input.slice(start, i), position: start })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Start and exclusive end (ISO dates) of a YYYY, YYYY-MM or YYYY-MM-DD period
+ */
+const parsePeriod = (value: string, position: number): { from: string; to: string } => {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value)
+  if (!match) throw queryError(`Invalid date '${value}'`, position)
+
+  const [, year, month, day] = match
+  const start = new Date(Date.UTC(Number(year), Number(month ?? 1) - 1, Number(day ?? 1)))
+  if (start.getUTCMonth() !== Number(month ?? 1) - 1 || start.getUTCDate() !== Number(day ?? 1)) {
+    throw queryError(`Invalid date '${value}'`, position)
+  }
+
+  const end = new Date(start)
+  if (day) end.setUTCDate(end.getUTCDate() + 1)
+  else if (month) end.setUTCMonth(end.getUTCMonth() + 1)
+  else end.setUTCFullYear(end.getUTCFullYear() + 1)
+
+  const iso = (date: Date): string => date.toISOString().slice(0, 10)
+  return { from: iso(start), to: iso(end) }
+}
+
+/**
+ * Parse an advanced query; syntax errors are ValidationErrors with the character position
+ */
+export const parseSearchQuery = (input: string): QueryNode => {
+  const tokens = tokenize(input)
+  let index = 0
+
+  const peek = (): Token | undefined => tokens[index]
+  const isOperator = (token: Token | undefined, operator: string): boolean =>
+    token?.kind === 'word' && token.value === operator
+  const expect = (kind: Token['kind'], description: string): Token => {
+    const token = tokens[index]
+    if (token?.kind !== kind) {
+      throw queryError(`Expected ${description}`, token?.position ?? input.length)
+    }
+    index++
+    return token
+  }
+
+  const parseRange = (): QueryNode => {
+    const open = expect('lbracket', "'['")
+    const from = expect('word', 'a date or *')
+    if (!isOperator(peek(), 'TO')) {
+      throw queryError("Expected 'TO'", peek()?.position ?? input.length)
+    }
+    index++
+    const to = expect('word', 'a date or *')
+    expect('rbracket', "']'")
+
+    const range: QueryNode = { type: 'range', field: 'date' }
+    if (from.value !== '*') range.from = parsePeriod(from.value, from.position).from
+    if (to.value !== '*') range.to = parsePeriod(to.value, to.position).to
+    if (range.from && range.to && range.from >= range.to) {
+      throw queryError('Empty date range', open.position)
+    }
+    return range
+  }
+
+  const parseTerm = (): QueryNode => {
+    const token = peek()
+    if (!token) throw queryError('Unexpected end of query', input.length)
+
+    if (token.kind === 'phrase') {
+      index++
+      return { type: 'term', field: 'text', value: token.value, phrase: true }
+    }
+    if (token.kind !== 'word') {
+      throw queryError(`Unexpected '${token.value}'`, token.position)
+    }
+    index++
+
+    if (peek()?.kind !== 'colon') {
+      return { type: 'term', field: 'text', value: token.value, phrase: false }
+    }
+
+    const field = token.value.toLowerCase() as QueryField
+    if (!FIELDS.includes(field)) {
+      throw queryError(`Unknown field '${token.value}'`, token.position)
+    }
+    index++
+
+    const value = peek()
+    if (field === 'date' && value?.kind === 'lbracket') {
+      return parseRange()
+    }
+    if (value?.kind !== 'word' && value?.kind !== 'phrase') {
+      throw queryError(`Expected a value after '${token.value}:'`, value?.position ?? input.length)
+    }
+    index++
+
+    if (field === 'date') {
+      return { type: 'range', field: 'date', ...parsePeriod(value.value, value.position) }
+    }
+    return { type: 'term', field, value: value.value, phrase: value.kind === 'phrase' }
+  }
+
+  const parseUnary = (): QueryNode => {
+    const token = peek()
+    if (token?.kind === 'minus' || isOperator(token, 'NOT')) {
+      index++
+      return { type: 'not', child: parseUnary() }
+    }
+    if (token?.kind === 'lparen') {
+      index++
+      const node = parseOr()
+      expect('rparen', "')'")
+      return node
+    }
+    return parseTerm()
+  }
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()]
+    for (;;) {
+      const token = peek()
+      if (!token || token.kind === 'rparen' || isOperator(token, 'OR')) break
+      if (isOperator(token, 'AND')) index++
+      children.push(parseUnary())
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children }
+  }
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()]
+    while (isOperator(peek(), 'OR')) {
+      index++
+      children.push(parseAnd())
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children }
+  }
+
+  if (tokens.length === 0) throw queryError('Empty query', 0)
+
+  const root = parseOr()
+  const rest = peek()
+  if (rest) throw queryError(`Unexpected '${rest.value}'`, rest.position)
+  return root
+}
+
+/**
+ * Compile a parsed query to one SQL condition; placeholders start at $firstParam
+ */
+export const compileSearchQuery = (node: QueryNode, firstParam: number): CompiledQuery => {
+  const params: string[] = []
+  const text: string[] = []
+
+  const param = (value: string): string => {
+    params.push(value)
+    return `$${firstParam + params.length - 1}`
+  }
+  const contains = (column: string, value: string): string =>
+    `f_unaccent(lower(${column})) LIKE '%' || f_unaccent(lower(${param(escapeLikePattern(value))})) || '%'`
+
+  const leaf = (term: Extract<QueryNode, { type: 'term' }>): string => {
+    switch (term.field) {
+      case 'text': {
+        const tsQuery = term.phrase ? 'phraseto_tsquery' : 'plainto_tsquery'
+        return `s.search_vector @@ ${tsQuery}('${SEARCH_CONFIG}', ${param(term.value)})`
+      }
+      case 'type':
+      case 'language':
+        return `lower(dc.${term.field}) = lower(${param(term.value)})`
+      case 'format': {
+        const value = param(term.value)
+        return `(p.format_puid = ${value} OR f.mime_type = lower(${value}) OR ${contains('p.format_name', term.value)})`
+      }
+      default:
+        return contains(`dc.${term.field}`, term.value)
+    }
+  }
+
+  const compile = (current: QueryNode, negated: boolean): string => {
+    switch (current.type) {
+      case 'and':
+      case 'or':
+        return `(${current.children
+          .map((child) => compile(child, negated))
+          .join(current.type === 'and' ? ' AND ' : ' OR ')})`
+      case 'not':
+        return `NOT ${compile(current.child, !negated)}`
+      case 'range': {
+        const bounds: string[] = []
+        if (current.from) bounds.push(`dc.date_created >= ${param(current.from)}::date`)
+        if (current.to) bounds.push(`dc.date_created < ${param(current.to)}::date`)
+        return `COALESCE(${bounds.length ? bounds.join(' AND ') : 'dc.date_created IS NOT NULL'}, FALSE)`
+      }
+      case 'term':
+        if (current.field === 'text' && !negated) text.push(current.value)
+        // NULL columns must count as "no match", also under NOT
+        return `COALESCE(${leaf(current)}, FALSE)`
+    }
+  }
+
+  const sql = compile(node, false)
+  return { sql, params, text: text.join(' ') }
+}
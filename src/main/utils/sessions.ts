@@ -0,0 +1,75 @@
+/**
+ * Login sessions and refresh tokens
+ * Each login starts a session, and the session's refresh tokens form one family: every token
+ * is used once and replaced by the next. A used token presented again must have been copied,
+ * so the whole family is revoked.
+ */
+
+import { UserRole } from '../types'
+
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days from the last rotation
+export const SESSION_TOUCH_INTERVAL_MS = 60 * 1000 // How stale "last used" may get
+
+export type RefreshOutcome = 'rotate' | 'reused' | 'expired' | 'revoked' | 'disabled'
+
+/**
+ * What to do with a presented refresh token; a revoked session wins over reuse, as there is
+ * nothing left to revoke
+ */
+export const refreshOutcome = (
+  token: { usedAt?: Date | null; expiresAt: Date },
+  session: { revokedAt?: Date | null; userActive: boolean },
+  now: Date = new Date()
+): RefreshOutcome => {
+  if (session.revokedAt) return 'revoked'
+  if (!session.userActive) return 'disabled'
+  if (token.usedAt) return 'reused'
+  if (token.expiresAt <= now) return 'expired'
+  return 'rotate'
+}
+
+/**
+ * Why an access token may not be used any more, or null if it may: its session is gone or
+ * revoked, the account is disabled, or the user's role is no longer the one in the token
+ */
+export const sessionRejection = (
+  session: { revokedAt?: Date | null; userActive: boolean; role: UserRole } | undefined,
+  tokenRole: UserRole
+): string | null => {
+  if (!session) return 'Session not found'
+  if (session.revokedAt) return 'Session has been revoked'
+  if (!session.userActive) return 'User account is disabled'
+  if (session.role !== tokenRole) return 'Role has changed, refresh the session'
+  return null
+}
+
+// First match wins: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Electron\//, 'e-Archiwum'],
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/^curl\//, 'curl']
+]
+
+// Android says Linux and iOS says Mac OS X, so both come first
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+]
+
+/**
+ * Short device description ("Firefox on Windows") from a User-Agent header
+ */
+export const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device'
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  if (browser && system) return `${browser} on ${system}`
+  return browser ?? system ?? 'Unknown device'
+}
@@ -0,0 +1,74 @@
+/**
+ * Share link tokens and state
+ * A token is "<link id>.<signature>", the signature covering the id and the expiry, so a
+ * token cannot be guessed from an id and stops matching if the expiry is changed.
+ */
+
+import { FilePermission, ShareLink, ShareLinkMode, ShareLinkStatus } from '../types'
+
+export const SHARE_LINK_MAX_DAYS = 90
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const SIGNATURE_PATTERN = /^[A-Za-z0-9_-]{43}$/ // Base64url SHA-256, unpadded
+
+/**
+ * The string a link's signature is computed over
+ */
+export const shareTokenPayload = (id: string, expiresAt: Date | string): string =>
+  `share:${id}:${new Date(expiresAt).getTime()}`
+
+export const formatShareToken = (id: string, signature: string): string => `${id}.${signature}`
+
+/**
+ * Split a token into link id and signature; null when it is not shaped like one
+ */
+export const parseShareToken = (token: string): { id: string; signature: string } | null => {
+  const [id, signature, ...rest] = token.split('.')
+  if (rest.length > 0 || !UUID_PATTERN.test(id ?? '') || !SIGNATURE_PATTERN.test(signature ?? '')) {
+    return null
+  }
+  return { id: id.toLowerCase(), signature }
+}
+
+/**
+ * State of a link at a given time; a revoked link stays revoked after it would have expired
+ */
+export const shareLinkStatus = (
+  link: Pick<ShareLink, 'revokedAt' | 'expiresAt' | 'maxDownloads' | 'downloadCount'>,
+  now: Date = new Date()
+): ShareLinkStatus => {
+  if (link.revokedAt) return 'revoked'
+  if (new Date(link.expiresAt) <= now) return 'expired'
+  if (link.maxDownloads !== undefined && link.downloadCount >= link.maxDownloads) {
+    return 'exhausted'
+  }
+  return 'active'
+}
+
+/**
+ * Permission the creator of a link needs on a file for the link to show it
+ */
+export const sharePermission = (mode: ShareLinkMode): FilePermission =>
+  mode === 'download' ? 'download' : 'read'
+
+/**
+ * Why a collection may not be shared, or null if it may: its creator must be able to reach
+ * (read, or download for a download link) at least one of the files in it or below it
+ */
+export const collectionShareRejection = (
+  reachableFiles: number,
+  mode: ShareLinkMode
+): string | null => {
+  if (reachableFiles > 0) return null
+  return mode === 'download'
+    ? 'You cannot download any file in this collection'
+    : 'You cannot read any file in this collection'
+}
+
+/**
+ * Downloads left on a link, undefined when it has no limit
+ */
+export const downloadsRemaining = (
+  link: Pick<ShareLink, 'maxDownloads' | 'downloadCount'>
+): number | undefined =>
+  link.maxDownloads === undefined ? undefined : Math.max(0, link.maxDownloads - link.downloadCount)
@@ -0,0 +1,26 @@
+/**
+ * Search suggestion helpers
+ * Query tokenizing and "did you mean" assembly; lookups live in FileService.
+ */
+
+/**
+ * Lower-cased words (letters and digits) of a search phrase
+ */
+export const tokenizeSearchText = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+/**
+ * Escape LIKE wildcards so user input only matches literally
+ */
+export const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, '\\$&')
+
+/**
+ * Join words with their corrections (null keeps the word); undefined when nothing changed
+ */
+export const buildCorrection = (
+  words: string[],
+  corrections: Array<string | null>
+): string | undefined => {
+  const corrected = words.map((word, i) => corrections[i] ?? word)
+  return corrected.some((word, i) => word !== words[i]) ? corrected.join(' ') : undefined
+}
@@ -0,0 +1,139 @@
+import { Readable, Writable } from 'stream'
+
+/**
+ * Minimal streaming ustar writer
+ * Archives objects straight from a storage backend, without staging them on local disk
+ */
+
+const BLOCK_SIZE = 512
+const MAX_OCTAL_SIZE = 8 ** 11 // 8 GiB - larger sizes use GNU base-256 encoding
+
+const writeOctal = (header: Buffer, value: number, offset: number, length: number): void => {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'ascii')
+}
+
+const writeSize = (header: Buffer, size: number): void => {
+  if (size < MAX_OCTAL_SIZE) {
+    writeOctal(header, size, 124, 12)
+    return
+  }
+
+  // GNU base-256: high bit set in first byte, big-endian binary in the rest
+  let remaining = size
+  for (let i = 135; i > 124; i--) {
+    header[i] = remaining % 256
+    remaining = Math.floor(remaining / 256)
+  }
+  header[124] = 0x80
+}
+
+const splitName = (name: string): { name: string; prefix: string } => {
+  if (Buffer.byteLength(name) <= 100) {
+    return { name, prefix: '' }
+  }
+
+  // ustar allows a 155-byte prefix directory plus a 100-byte name
+  for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+    const prefix = name.slice(0, i)
+    const rest = name.slice(i + 1)
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) {
+      return { name: rest, prefix }
+    }
+  }
+
+  throw new Error(`Path too long for tar entry: ${name}`)
+}
+
+export const buildTarHeader = (entryName: string, size: number, mtime: Date): Buffer => {
+  const header = Buffer.alloc(BLOCK_SIZE)
+  const { name, prefix } = splitName(entryName)
+
+  header.write(name, 0, 100, 'utf8')
+  writeOctal(header, 0o644, 100, 8) // mode
+  writeOctal(header, 0, 108, 8) // uid
+  writeOctal(header, 0, 116, 8) // gid
+  writeSize(header, size)
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12)
+  header.fill(' ', 148, 156) // checksum placeholder
+  header.write('0', 156, 1, 'ascii') // regular file
+  header.write('ustar\0', 257, 6, 'ascii')
+  header.write('00', 263, 2, 'ascii')
+  header.write(prefix, 345, 155, 'utf8')
+
+  let checksum = 0
+  for (const byte of header) checksum += byte
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii')
+
+  return header
+}
+
+export class TarStreamWriter {
+  constructor(private readonly output: Writable) {}
+
+  /**
+   * Append a regular file entry; `size` must match the number of bytes in `source`
+   */
+  async addEntry(
+    name: string,
+    size: number,
+    source: Readable,
+    mtime: Date = new Date()
+  ): Promise<void> {
+    let written = 0
+    try {
+      await this.write(buildTarHeader(name, size, mtime))
+      for await (const chunk of source) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+        written += buffer.length
+        await this.write(buffer)
+      }
+    } catch (error) {
+      // Release the storage read when the output goes away mid-entry
+      source.destroy()
+      throw error
+    }
+
+    if (written !== size) {
+      throw new Error(`Tar entry ${name} size mismatch - expected: ${size}, got: ${written}`)
+    }
+
+    const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE
+    if (padding > 0) {
+      await this.write(Buffer.alloc(padding))
+    }
+  }
+
+  /**
+   * Write the end-of-archive marker and close the output
+   */
+  async finalize(): Promise<void> {
+    await this.write(Buffer.alloc(BLOCK_SIZE * 2))
+    this.output.end()
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    if (this.output.destroyed) {
+      throw new Error('Tar output closed before the archive was complete')
+    }
+    if (this.output.write(chunk)) return
+
+    // A client that disconnects closes the output without ever emitting 'drain'
+    await new Promise<void>((resolve, reject) => {
+      const settle = (error?: Error): void => {
+        this.output.off('drain', onDrain)
+        this.output.off('close', onClose)
+        this.output.off('error', settle)
+        if (error) reject(error)
+        else resolve()
+      }
+      const onDrain = (): void => settle()
+      const onClose = (): void =>
+        settle(new Error('Tar output closed before the archive was complete'))
+      this.output.on('drain', onDrain)
+      this.output.on('close', onClose)
+      this.output.on('error', settle)
+    })
+  }
+}
+
+export default TarStreamWriter
@@ -0,0 +1,119 @@
+/**
+ * Text extraction helpers
+ * Office XML to text, keyword selection and image encoding for OCR; I/O lives in ExtractionService.
+ */
+
+// tsvector values are limited to 1 MB, so indexed text is capped well below that
+export const MAX_TEXT_LENGTH = 500_000
+
+export const MAX_KEYWORDS = 20
+
+// Archive entries holding the text of office documents, in reading order
+export const OFFICE_TEXT_ENTRIES: Record<string, RegExp> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': /^xl\/sharedStrings\.xml$/,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+    /^ppt\/slides\/slide\d+\.xml$/,
+  'application/vnd.oasis.opendocument.text': /^content\.xml$/,
+  'application/vnd.oasis.opendocument.spreadsheet': /^content\.xml$/,
+  'application/vnd.oasis.opendocument.presentation': /^content\.xml$/
+}
+
+const POLISH_STOPWORDS =
+  'albo będą będzie bardzo było były czyli dlaczego gdzie jako jednak jego jest jeszcze ' +
+  'jeśli kiedy która które który których także tego tych tylko więc przez przy oraz może ' +
+  'można nich jeżeli został została zostały wszystkie swoje sobie tutaj potem'
+
+const ENGLISH_STOPWORDS =
+  'about after also been before being could from have into more most only other over should ' +
+  'some such than that their them then there these they this those through under very were ' +
+  'what when where which while will with would your'
+
+const STOPWORDS = new Set(`${POLISH_STOPWORDS} ${ENGLISH_STOPWORDS}`.split(' '))
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+
+/**
+ * Plain text of an OOXML / ODF part: paragraphs become lines, markup is dropped
+ */
+export const officeXmlToText = (xml: string): string =>
+  normalizeText(
+    decodeXmlEntities(
+      xml
+        .replace(/<(w:tab|text:tab)\b[^>]*\/>/g, '\t')
+        .replace(/<(w:br|a:br|text:line-break)\b[^>]*\/>/g, '\n')
+        .replace(/<text:s\b[^>]*\/>/g, ' ')
+        .replace(/<\/(w:p|a:p|text:p|text:h|si)>/g, '\n')
+        .replace(/<[^>]+>/g, '')
+    )
+  )
+
+/**
+ * Collapse whitespace, drop control characters and cap the length
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_TEXT_LENGTH)
+
+/**
+ * Most frequent meaningful words (4+ letters, no stopwords), most frequent first
+ */
+export const extractKeywords = (text: string, limit: number = MAX_KEYWORDS): string[] => {
+  const counts = new Map<string, number>()
+  for (const word of text.toLowerCase().match(/[a-ząćęłńóśźżäöüßéèêàâçíúñ]{4,}/g) ?? []) {
+    if (STOPWORDS.has(word)) continue
+    counts.set(word, (counts.get(word) ?? 0) + 1)
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word)
+}
+
+/**
+ * Encode decoded PDF image data as PNM, which the OCR engine reads without extra codecs
+ * kind follows pdf.js ImageKind: 1 = 1 bit grayscale (1 is white), 2 = RGB, 3 = RGBA
+ */
+export const encodePnm = (
+  width: number,
+  height: number,
+  kind: number,
+  data: Uint8Array | Uint8ClampedArray
+): Buffer => {
+  if (kind === 1) {
+    const rowBytes = Math.ceil(width / 8)
+    const pixels = Buffer.alloc(width * height)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7))
+        pixels[y * width + x] = bit ? 255 : 0
+      }
+    }
+    return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), pixels])
+  }
+
+  const channels = kind === 3 ? 4 : 3
+  const pixels = Buffer.alloc(width * height * 3)
+  for (let i = 0, j = 0; j < pixels.length; i += channels, j += 3) {
+    pixels[j] = data[i]
+    pixels[j + 1] = data[i + 1]
+    pixels[j + 2] = data[i + 2]
+  }
+  return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), pixels])
+}
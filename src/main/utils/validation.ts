@@ -1,5 +1,6 @@
 import Joi from 'joi'
 import { Request, Response, NextFunction } from 'express'
+import { RELATION_TYPES } from './relations'
 
 /**
  * Validation schemas for all API endpoints
@@ -27,19 +28,59 @@ export const authChangePasswordSchema = Joi.object({
 })
 
 // File schemas
+const facetValuesSchema = Joi.alternatives(Joi.string(), Joi.array().items(Joi.string()))
+
 export const fileSearchSchema = Joi.object({
-  q: Joi.string().required(),
+  q: Joi.string().allow('').max(1000).default(''),
+  advanced: Joi.boolean().default(false), // q uses the query language of utils/searchQuery
   category: Joi.string().valid('document', 'video', 'audio', 'image', 'software'),
-  creator: Joi.string(),
-  dateFrom: Joi.date().iso(),
-  dateTo: Joi.date().iso(),
-  accessLevel: Joi.string().valid('public', 'internal', 'restricted', 'confidential'),
+  type: facetValuesSchema,
+  language: facetValuesSchema,
+  creator: facetValuesSchema,
+  decade: facetValuesSchema,
+  accessLevel: facetValuesSchema,
+  format: facetValuesSchema,
+  collection: facetValuesSchema,
+  collectionId: Joi.string().uuid(),
+  dateFrom: Joi.string().isoDate(),
+  dateTo: Joi.string().isoDate(),
   limit: Joi.number().min(1).max(100).default(50),
   offset: Joi.number().min(0).default(0),
   orderBy: Joi.string().valid('relevance', 'date', 'title').default('relevance'),
   orderDir: Joi.string().valid('asc', 'desc').default('desc')
 })
 
+// A stored SearchQuery: filters only, paging/ordering and access level are applied per run
+const savedSearchQuerySchema = Joi.object({
+  q: Joi.string().allow('').max(1000).default(''),
+  advanced: Joi.boolean().default(false),
+  category: Joi.string().valid('document', 'video', 'audio', 'image', 'software'),
+  filters: Joi.object({
+    type: Joi.array().items(Joi.string()),
+    language: Joi.array().items(Joi.string()),
+    creator: Joi.array().items(Joi.string()),
+    decade: Joi.array().items(Joi.string()),
+    accessLevel: Joi.array().items(Joi.string()),
+    format: Joi.array().items(Joi.string()),
+    collection: Joi.array().items(Joi.string())
+  }),
+  collectionId: Joi.string().uuid(),
+  dateFrom: Joi.string().isoDate(),
+  dateTo: Joi.string().isoDate()
+})
+
+export const savedSearchCreateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255).required(),
+  query: savedSearchQuerySchema.required(),
+  notifyEmail: Joi.boolean().default(false)
+})
+
+export const savedSearchUpdateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255),
+  query: savedSearchQuerySchema,
+  notifyEmail: Joi.boolean()
+}).min(1)
+
 export const fileMetadataUpdateSchema = Joi.object({
   dublinCore: Joi.object({
     'dc:title': Joi.string(),
@@ -56,6 +97,105 @@ export const fileMetadataUpdateSchema = Joi.object({
   }),
   description: Joi.string(),
   a11yDescription: Joi.string(),
+  accessLevel: Joi.string().valid('public', 'internal', 'restricted', 'confidential'),
+  reason: Joi.string().max(1000)
+})
+
+const accessLevelSchema = Joi.string().valid('public', 'internal', 'restricted', 'confidential')
+
+// A collection's own description; identifier, title and type come from the collection
+const collectionDublinCoreSchema = Joi.object({
+  'dc:creator': Joi.string(),
+  'dc:subject': Joi.string(),
+  'dc:description': Joi.string(),
+  'dc:publisher': Joi.string(),
+  'dc:date': Joi.string(),
+  'dc:language': Joi.string(),
+  'dc:rights': Joi.string(),
+  'dc:source': Joi.string()
+})
+
+export const collectionCreateSchema = Joi.object({
+  parentId: Joi.string().uuid(),
+  level: Joi.string().valid('fonds', 'series', 'file', 'item').required(),
+  title: Joi.string().trim().min(1).max(500).required(),
+  accessLevel: accessLevelSchema,
+  dublinCore: collectionDublinCoreSchema
+})
+
+export const collectionUpdateSchema = Joi.object({
+  parentId: Joi.string().uuid().allow(null), // null moves to the top level
+  level: Joi.string().valid('fonds', 'series', 'file', 'item'),
+  title: Joi.string().trim().min(1).max(500),
+  accessLevel: accessLevelSchema.allow(null), // null inherits from the parent
+  dublinCore: collectionDublinCoreSchema
+}).min(1)
+
+export const collectionFilesSchema = Joi.object({
+  fileIds: Joi.array().items(Joi.string().uuid()).min(1).max(1000).required()
+})
+
+export const collectionOrderSchema = Joi.object({
+  collections: Joi.array().items(Joi.string().uuid()),
+  files: Joi.array().items(Joi.string().uuid())
+}).or('collections', 'files')
+
+// "<this file> <relation> <targetId>"; either direction of a pair may be given
+export const relationCreateSchema = Joi.object({
+  relation: Joi.string()
+    .valid(...RELATION_TYPES)
+    .required(),
+  targetId: Joi.string().uuid().required(),
+  note: Joi.string().max(1000).allow('')
+})
+
+export const metadataRevertSchema = Joi.object({
+  revision: Joi.number().integer().min(1).required(),
+  fields: Joi.array()
+    .items(
+      Joi.string().valid(
+        'dc:title',
+        'dc:creator',
+        'dc:subject',
+        'dc:description',
+        'dc:publisher',
+        'dc:type',
+        'dc:format',
+        'dc:language',
+        'dc:rights',
+        'dc:source'
+      )
+    )
+    .min(1)
+    .unique()
+    .required(),
+  reason: Joi.string().max(1000)
+})
+
+export const metadataAsOfSchema = Joi.object({
+  at: Joi.date().iso().required()
+})
+
+export const versionRestoreSchema = Joi.object({
+  reason: Joi.string().max(1000)
+})
+
+export const uploadSessionCreateSchema = Joi.object({
+  filename: Joi.string().max(255).required(),
+  mimeType: Joi.string().required(),
+  size: Joi.number().integer().min(1).required(),
+  description: Joi.string().allow(''),
+  accessLevel: Joi.string().valid('public', 'internal', 'restricted', 'confidential')
+})
+
+export const ingestJobCreateSchema = Joi.object({
+  folderPath: Joi.string().required(),
+  accessLevel: Joi.string().valid('public', 'internal', 'restricted', 'confidential'),
+  language: Joi.string().min(2).max(10)
+})
+
+export const bagImportSchema = Joi.object({
+  path: Joi.string().required(),
   accessLevel: Joi.string().valid('public', 'internal', 'restricted', 'confidential')
 })
 
@@ -64,6 +204,57 @@ export const userUpdateRoleSchema = Joi.object({
   role: Joi.string().valid('reader', 'curator', 'admin').required()
 })
 
+// A grant names one target (file or collection) and one grantee (user, role or group)
+export const accessRuleCreateSchema = Joi.object({
+  fileId: Joi.string().uuid(),
+  collectionId: Joi.string().uuid(),
+  userId: Joi.string().uuid(),
+  role: Joi.string().valid('reader', 'curator', 'admin'),
+  groupId: Joi.string().uuid(),
+  permissions: Joi.array()
+    .items(Joi.string().valid('read', 'download', 'modify', 'delete'))
+    .min(1)
+    .unique()
+    .required(),
+  expiresAt: Joi.date().iso().greater('now')
+})
+  .xor('fileId', 'collectionId')
+  .xor('userId', 'role', 'groupId')
+
+export const accessRuleQuerySchema = Joi.object({
+  fileId: Joi.string().uuid(),
+  collectionId: Joi.string().uuid(),
+  groupId: Joi.string().uuid()
+})
+
+export const groupCreateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255).required(),
+  description: Joi.string().max(2000).allow('')
+})
+
+export const groupUpdateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255),
+  description: Joi.string().max(2000).allow('')
+}).min(1)
+
+export const groupMembersSchema = Joi.object({
+  userIds: Joi.array().items(Joi.string().uuid()).min(1).max(1000).required()
+})
+
+export const shareLinkCreateSchema = Joi.object({
+  fileId: Joi.string().uuid(),
+  collectionId: Joi.string().uuid(),
+  mode: Joi.string().valid('view', 'download').required(),
+  expiresAt: Joi.date().iso().greater('now').required(),
+  password: Joi.string().min(6).max(128),
+  maxDownloads: Joi.number().integer().min(1).max(10000),
+  note: Joi.string().max(1000).allow('')
+}).xor('fileId', 'collectionId')
+
+export const shareLinkQuerySchema = Joi.object({
+  includeInactive: Joi.boolean().default(false)
+})
+
 export const userResetPasswordSchema = Joi.object({
   userId: Joi.string().uuid().required(),
   newPassword: Joi.string().min(8).required()
@@ -134,7 +325,8 @@ export const validateQuery = (schema: Joi.ObjectSchema) => {
       return
     }
 
-    req.query = value
+    // Express 5 exposes req.query as a getter, so the validated copy replaces the property
+    Object.defineProperty(req, 'query', { value, writable: true, configurable: true })
     next()
   }
 }
@@ -145,6 +337,8 @@ export default {
   authRefreshSchema,
   authChangePasswordSchema,
   fileSearchSchema,
+  savedSearchCreateSchema,
+  savedSearchUpdateSchema,
   fileMetadataUpdateSchema,
   userUpdateRoleSchema,
   userResetPasswordSchema,
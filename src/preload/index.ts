@@ -3,8 +3,23 @@ import { electronAPI } from '@electron-toolkit/preload'
 
 // Definiujemy API, które będzie dostępne w oknie przeglądarki jako window.api
 const api = {
-  // Skanowanie wybranego folderu z dysku
-  scanFolder: (): Promise<unknown[]> => ipcRenderer.invoke('scan-directory'),
+  // Wybór folderu do importu (import zbiorczy: POST /api/ingest/jobs)
+  selectFolder: (): Promise<string | null> => ipcRenderer.invoke('select-directory'),
+
+  // Postęp importu zbiorczego - zwraca funkcję wyrejestrowującą
+  onIngestProgress: (callback: (progress: unknown) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, progress: unknown): void =>
+      callback(progress)
+    ipcRenderer.on('ingest-progress', listener)
+    return () => ipcRenderer.removeListener('ingest-progress', listener)
+  },
+
+  // Zakończenie importu zbiorczego
+  onIngestFinished: (callback: (job: unknown) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, job: unknown): void => callback(job)
+    ipcRenderer.on('ingest-finished', listener)
+    return () => ipcRenderer.removeListener('ingest-finished', listener)
+  },
 
   // Pobieranie przykładowych danych z internetu
   loadDemoData: (): Promise<unknown[]> => ipcRenderer.invoke('load-demo-data'),
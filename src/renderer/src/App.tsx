@@ -3,10 +3,20 @@
 import React, { useState, useEffect, useRef } from 'react'
 import * as pdfjs from 'pdfjs-dist'
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.mjs?url'
-import apiClient, { setAuthToken } from './utils/api'
+import apiClient, {
+  setAuthToken,
+  type Collection,
+  type FacetBucket,
+  type IngestJob,
+  type IngestProgress
+} from './utils/api'
 import { useToast } from './hooks/useToast'
 import { Modal } from './components/Modal'
 import ToastContainer from './components/Toast'
+import VersionDiffView from './components/VersionDiffView'
+import IngestPanel from './components/IngestPanel'
+import CollectionTree from './components/CollectionTree'
+import RelatedItems from './components/RelatedItems'
 import {
   Library,
   Film,
@@ -34,7 +44,9 @@ import {
   SkipForward,
   Maximize,
   Minimize,
-  Cpu
+  Cpu,
+  GitCompare,
+  FolderInput
 } from 'lucide-react'
 
 // Ustawienie workera dla pdfjs
@@ -44,7 +56,6 @@ pdfjs.GlobalWorkerOptions.workerSrc = pdfWorker
 declare global {
   interface Window {
     api: {
-      scanFolder: () => Promise<ArchiveItem[]>
       loadDemoData: () => Promise<ArchiveItem[]>
       openFile: (path: string) => Promise<boolean>
       login: (username: string) => Promise<User | null>
@@ -55,12 +66,39 @@ declare global {
       getRating: (fileId: string) => Promise<number>
       fetchRemoteFile: (url: string) => Promise<Buffer>
       clearPdfCache: () => Promise<{ cleared: number; error?: string }>
+      selectFolder: () => Promise<string | null>
+      onIngestProgress: (callback: (progress: IngestProgress) => void) => () => void
+      onIngestFinished: (callback: (job: IngestJob) => void) => () => void
     }
   }
 }
 
 type MediaType = 'filmy' | 'oprogramowanie' | 'audio' | 'teksty' | 'obrazy' | 'kolekcje' | 'inne'
 
+// Dublin Core types returned by the `type` search facet
+const MEDIA_TYPE_BY_DC_TYPE: Record<string, MediaType> = {
+  document: 'teksty',
+  video: 'filmy',
+  audio: 'audio',
+  image: 'obrazy',
+  software: 'oprogramowanie',
+  collection: 'kolekcje'
+}
+
+const MEDIA_TYPE_ICONS: Partial<Record<MediaType, React.ElementType>> = {
+  audio: Music,
+  teksty: FileText,
+  filmy: Film,
+  obrazy: ImageIcon,
+  oprogramowanie: Cpu,
+  kolekcje: Disc
+}
+
+interface CategoryBucket {
+  mediaType: MediaType
+  count: number
+}
+
 interface PlaylistTrack {
   id: string
   title: string
@@ -625,7 +663,8 @@ const SidebarItem = ({
   active,
   onClick,
   aacMode,
-  highContrast
+  highContrast,
+  count
 }: {
   icon: React.ElementType
   label: string
@@ -633,6 +672,7 @@ const SidebarItem = ({
   onClick: () => void
   aacMode: boolean
   highContrast?: boolean
+  count?: number
 }): React.ReactElement => (
   <button
     onClick={onClick}
@@ -653,6 +693,14 @@ const SidebarItem = ({
     >
       {label}
     </span>
+    {count !== undefined && (
+      <span
+        className={`ml-auto ${aacMode ? 'text-xl' : 'text-sm'} font-bold tabular-nums opacity-70`}
+        aria-label={`${count} plików`}
+      >
+        {count}
+      </span>
+    )}
   </button>
 )
 
@@ -1202,6 +1250,10 @@ export default function App(): React.ReactElement {
   const [archiveItems, setArchiveItems] = useState<ArchiveItem[]>([])
   const [activeCategory, setActiveCategory] = useState<string>('wszystkie')
   const [searchQuery, setSearchQuery] = useState('')
+  const [typeFacets, setTypeFacets] = useState<FacetBucket[] | null>(null)
+  const [activeCollection, setActiveCollection] = useState<Collection | null>(null)
+  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [didYouMean, setDidYouMean] = useState<string | null>(null)
   const [selectedItem, setSelectedItem] = useState<ArchiveItem | null>(null)
   const [highContrast, setHighContrast] = useState(false)
   const [colorBlindMode, setColorBlindMode] = useState<
@@ -1230,6 +1282,8 @@ export default function App(): React.ReactElement {
   const [comments, setComments] = useState<Comment[]>([])
   const [newComment, setNewComment] = useState('')
   const [rating, setRating] = useState(0)
+  const [showVersionDiff, setShowVersionDiff] = useState(false)
+  const [showIngest, setShowIngest] = useState(false)
   const [showLogin, setShowLogin] = useState(false)
   const [isRegisterMode, setIsRegisterMode] = useState(false)
   const [loginInput, setLoginInput] = useState('')
@@ -1525,6 +1579,23 @@ export default function App(): React.ReactElement {
     }
   }
 
+  // Sidebar categories come from the archive's `type` facet; offline, from the loaded items
+  const categories: CategoryBucket[] = (() => {
+    const counts = new Map<MediaType, number>()
+    if (typeFacets) {
+      for (const bucket of typeFacets) {
+        const mediaType = MEDIA_TYPE_BY_DC_TYPE[bucket.value] ?? 'inne'
+        counts.set(mediaType, (counts.get(mediaType) ?? 0) + bucket.count)
+      }
+    } else {
+      for (const item of archiveItems) {
+        counts.set(item.mediaType, (counts.get(item.mediaType) ?? 0) + 1)
+      }
+    }
+    return [...counts.entries()].map(([mediaType, count]) => ({ mediaType, count }))
+  })()
+  const totalCount = categories.reduce((sum, category) => sum + category.count, 0)
+
   const filteredData = archiveItems.filter((item) => {
     const matchesCategory = activeCategory === 'wszystkie' || item.mediaType === activeCategory
     const matchesSearch = item.title.toLowerCase().includes(searchQuery.toLowerCase())
@@ -1610,6 +1681,29 @@ export default function App(): React.ReactElement {
     return () => clearTimeout(welcomeTimeout)
   }, [])
 
+  // Sidebar counts and search box hints follow the query; without a session the loaded items
+  // are counted instead
+  useEffect(() => {
+    if (!user) {
+      setTypeFacets(null)
+      setSuggestions([])
+      setDidYouMean(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      const [response, suggestResponse] = await Promise.all([
+        apiClient.files.search({ q: searchQuery, limit: 1, collectionId: activeCollection?.id }),
+        searchQuery.trim().length >= 2 ? apiClient.files.suggest(searchQuery) : null
+      ])
+      setTypeFacets(response.success && response.data ? response.data.facets.type : null)
+      setDidYouMean(response.data?.didYouMean ?? null)
+      setSuggestions(suggestResponse?.data?.map((suggestion) => suggestion.value) ?? [])
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [user, searchQuery, activeCollection])
+
   useEffect(() => {
     if (selectedItem) {
       // Załaduj komentarze z localStorage
@@ -2270,40 +2364,53 @@ export default function App(): React.ReactElement {
         </div>
 
         <nav className="flex-1 px-4 space-y-4 overflow-y-auto" aria-label="Kategorie">
-          {['Wszystkie', 'Filmy', 'Audio', 'Teksty', 'Oprogramowanie'].map((cat) => {
-            const getIcon = () => {
-              switch (cat) {
-                case 'Audio':
-                  return Music
-                case 'Teksty':
-                  return FileText
-                case 'Filmy':
-                  return Film
-                case 'Oprogramowanie':
-                  return Cpu
-                default:
-                  return Library
-              }
-            }
+          <SidebarItem
+            icon={Library}
+            label="Wszystkie"
+            count={totalCount}
+            active={activeCategory === 'wszystkie'}
+            aacMode={aacMode}
+            highContrast={highContrast}
+            onClick={() => {
+              setActiveCategory('wszystkie')
+              speak(`Wybrano kategorię Wszystkie. Znaleziono ${totalCount} plików.`)
+              if (window.innerWidth < 768) setIsSidebarOpen(false)
+            }}
+          />
+          {categories.map(({ mediaType, count }) => {
+            const label = mediaType.charAt(0).toUpperCase() + mediaType.slice(1)
             return (
               <SidebarItem
-                key={cat}
-                icon={getIcon()}
-                label={cat}
-                active={activeCategory === cat.toLowerCase()}
+                key={mediaType}
+                icon={MEDIA_TYPE_ICONS[mediaType] ?? Library}
+                label={label}
+                count={count}
+                active={activeCategory === mediaType}
                 aacMode={aacMode}
                 highContrast={highContrast}
                 onClick={() => {
-                  setActiveCategory(cat.toLowerCase())
-                  const count = archiveItems.filter(
-                    (i) => cat.toLowerCase() === 'wszystkie' || i.mediaType === cat.toLowerCase()
-                  ).length
-                  speak(`Wybrano kategorię ${cat}. Znaleziono ${count} plików.`)
+                  setActiveCategory(mediaType)
+                  speak(`Wybrano kategorię ${label}. Znaleziono ${count} plików.`)
                   if (window.innerWidth < 768) setIsSidebarOpen(false)
                 }}
               />
             )
           })}
+          {user && (
+            <CollectionTree
+              activeId={activeCollection?.id ?? null}
+              onSelect={(collection) => {
+                setActiveCollection(collection)
+                speak(
+                  collection
+                    ? `Wybrano kolekcję ${collection.title}`
+                    : 'Wyszukiwanie we wszystkich kolekcjach'
+                )
+              }}
+              aacMode={aacMode}
+              highContrast={highContrast}
+            />
+          )}
         </nav>
 
         <div className={`p-6 border-t ${highContrast ? 'border-black bg-white' : 'border-cyan-500/30 bg-gradient-to-t from-slate-950 to-slate-900'} space-y-4`}>
@@ -2376,13 +2483,38 @@ export default function App(): React.ReactElement {
                 placeholder="Wyszukaj w archiwum..."
                 aria-label="Wyszukaj pliki w archiwum"
                 value={searchQuery}
+                list="search-suggestions"
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className={`w-full ${highContrast ? 'bg-white border-black text-black placeholder:text-black' : 'bg-slate-800/50 border-2 border-slate-700/50'} rounded-2xl pl-14 pr-6 py-3 md:py-4 ${aacMode ? 'text-2xl' : 'text-base'} focus:ring-4 focus:ring-yellow-500/20 focus:border-yellow-500/50 outline-none transition-all placeholder:text-slate-600 font-bold`}
               />
+              <datalist id="search-suggestions">
+                {suggestions.map((suggestion) => (
+                  <option key={suggestion} value={suggestion} />
+                ))}
+              </datalist>
+              {didYouMean && (
+                <button
+                  type="button"
+                  onClick={() => setSearchQuery(didYouMean)}
+                  className={`absolute left-5 top-full mt-1 ${aacMode ? 'text-xl' : 'text-sm'} font-bold ${highContrast ? 'text-black' : 'text-yellow-500'} hover:underline`}
+                >
+                  Czy chodziło Ci o: {didYouMean}?
+                </button>
+              )}
             </div>
           </div>
 
           <div className="flex items-center gap-3 md:gap-6">
+            {user && (
+              <button
+                onClick={() => setShowIngest(true)}
+                className="p-3 md:p-4 rounded-2xl bg-slate-800/50 border border-slate-700/50 text-slate-300 hover:text-white hover:border-slate-600 transition-colors"
+                aria-label="Importuj folder"
+                title="Importuj folder"
+              >
+                <FolderInput size={24} />
+              </button>
+            )}
             {user ? (
               <div className="flex items-center gap-4 bg-slate-800/50 p-1.5 md:p-2 rounded-2xl border border-slate-700/50 shadow-lg pr-4 md:pr-6 hover:border-slate-600 transition-colors cursor-pointer group">
                 <div className="relative">
@@ -2752,6 +2884,7 @@ export default function App(): React.ReactElement {
                 <button
                   onClick={() => {
                     setSelectedItem(null)
+                    setShowVersionDiff(false)
                     setIsFocusMode(false)
                     speak('Zamknięto widok szczegółów')
                   }}
@@ -2809,6 +2942,35 @@ export default function App(): React.ReactElement {
                   </div>
                 </div>
 
+                {/* Versions */}
+                {user && (
+                  <div className={`p-6 border-b ${highContrast ? 'border-black' : 'border-slate-800'}`}>
+                    <button
+                      onClick={() => setShowVersionDiff(true)}
+                      className={`w-full flex items-center justify-center gap-2 py-2 px-4 text-sm rounded transition-colors ${highContrast ? 'bg-black text-white border border-black hover:bg-black/80' : 'bg-slate-800 hover:bg-slate-700 text-white'}`}
+                    >
+                      <GitCompare size={16} />
+                      Porównaj wersje
+                    </button>
+                  </div>
+                )}
+
+                {/* Related items */}
+                {user && (
+                  <RelatedItems
+                    fileId={selectedItem.id}
+                    highContrast={highContrast}
+                    onOpen={(relation) => {
+                      const related = archiveItems.find((item) => item.id === relation.fileId)
+                      if (related) {
+                        setSelectedItem(related)
+                      } else {
+                        showToast(`Obiekt „${relation.title}” nie jest dostępny w bieżącym widoku.`, 'warning')
+                      }
+                    }}
+                  />
+                )}
+
                 {/* Comments */}
                 <div className="flex-1 flex flex-col overflow-hidden">
                   <div className={`p-6 border-b ${highContrast ? 'border-black bg-white' : 'border-slate-800'}`}>
@@ -2903,6 +3065,18 @@ export default function App(): React.ReactElement {
             </div>
           </div>
         )}
+
+        {selectedItem && showVersionDiff && (
+          <VersionDiffView
+            fileId={selectedItem.id}
+            onClose={() => setShowVersionDiff(false)}
+            highContrast={highContrast}
+          />
+        )}
+
+        {showIngest && (
+          <IngestPanel onClose={() => setShowIngest(false)} highContrast={highContrast} />
+        )}
       </main>
     </div>
   )
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react'
+import { ChevronDown, ChevronRight, FolderTree } from 'lucide-react'
+import apiClient, { type Collection } from '../utils/api'
+
+interface CollectionTreeProps {
+  activeId: string | null
+  onSelect: (collection: Collection | null) => void
+  aacMode?: boolean
+  highContrast?: boolean
+}
+
+const LEVEL_LABELS: Record<Collection['level'], string> = {
+  fonds: 'Zespół',
+  series: 'Seria',
+  file: 'Jednostka',
+  item: 'Obiekt'
+}
+
+/**
+ * Sidebar tree of the archive's collections; sub-collections are loaded when a node is opened.
+ * Selecting a collection scopes the search to it and everything below it.
+ */
+function CollectionTree({
+  activeId,
+  onSelect,
+  aacMode = false,
+  highContrast = false
+}: CollectionTreeProps): React.JSX.Element | null {
+  const [roots, setRoots] = useState<Collection[]>([])
+  const [children, setChildren] = useState<Record<string, Collection[]>>({})
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    apiClient.collections.listRoots().then((response) => {
+      setRoots(response.success && response.data ? response.data : [])
+    })
+  }, [])
+
+  const toggle = async (collection: Collection): Promise<void> => {
+    const next = new Set(expanded)
+    if (next.has(collection.id)) {
+      next.delete(collection.id)
+    } else {
+      next.add(collection.id)
+      if (!children[collection.id]) {
+        const response = await apiClient.collections.getChildren(collection.id)
+        const loaded = response.success && response.data ? response.data.collections : []
+        setChildren((previous) => ({ ...previous, [collection.id]: loaded }))
+      }
+    }
+    setExpanded(next)
+  }
+
+  if (roots.length === 0) return null
+
+  const renderNode = (collection: Collection): React.JSX.Element => {
+    const active = collection.id === activeId
+    const isOpen = expanded.has(collection.id)
+    return (
+      <li key={collection.id}>
+        <div
+          className={`flex items-center rounded-lg ${
+            active
+              ? highContrast
+                ? 'bg-black text-white'
+                : 'bg-slate-800 text-white'
+              : highContrast
+                ? 'text-black hover:bg-black/10'
+                : 'text-slate-400 hover:bg-slate-800/50 hover:text-white'
+          }`}
+          style={{ paddingLeft: `${collection.depth * 12}px` }}
+        >
+          {collection.childCount > 0 ? (
+            <button
+              onClick={() => toggle(collection)}
+              className="p-1"
+              aria-expanded={isOpen}
+              aria-label={`${isOpen ? 'Zwiń' : 'Rozwiń'} ${collection.title}`}
+            >
+              {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+            </button>
+          ) : (
+            <span className="w-6" aria-hidden="true" />
+          )}
+          <button
+            onClick={() => onSelect(active ? null : collection)}
+            aria-current={active ? 'true' : undefined}
+            className={`flex-1 text-left py-2 pr-2 truncate focus:outline-none focus:ring-2 ${highContrast ? 'focus:ring-black' : 'focus:ring-yellow-400'} ${aacMode ? 'text-xl font-bold' : 'text-sm'}`}
+            title={`${LEVEL_LABELS[collection.level]}: ${collection.title}`}
+          >
+            {collection.title}
+            <span className="ml-2 text-xs opacity-60">{collection.fileCount}</span>
+          </button>
+        </div>
+        {isOpen && children[collection.id]?.length ? (
+          <ul>{children[collection.id].map(renderNode)}</ul>
+        ) : null}
+      </li>
+    )
+  }
+
+  return (
+    <div className={`pt-4 border-t ${highContrast ? 'border-black' : 'border-slate-800'}`}>
+      <h2
+        className={`flex items-center gap-2 px-2 mb-2 text-xs font-bold uppercase tracking-wider ${highContrast ? 'text-black' : 'text-slate-500'}`}
+      >
+        <FolderTree size={16} aria-hidden="true" />
+        Kolekcje
+      </h2>
+      <ul aria-label="Drzewo kolekcji">{roots.map(renderNode)}</ul>
+    </div>
+  )
+}
+
+export default CollectionTree
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from 'react'
+import { FolderOpen, Download, X } from 'lucide-react'
+import apiClient, { type IngestJob, type IngestProgress } from '../utils/api'
+import { ProgressBar } from './ProgressBar'
+
+interface IngestPanelProps {
+  onClose: () => void
+  highContrast?: boolean
+}
+
+// Items listed under the progress bar; the full list is in the report
+const MAX_LISTED_ITEMS = 200
+
+const STATUS_LABELS: Record<IngestProgress['item']['status'], string> = {
+  registered: 'dodano',
+  skipped: 'pominięto',
+  failed: 'błąd'
+}
+
+/**
+ * Save a downloaded blob under its file name
+ */
+const saveBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function IngestPanel({ onClose, highContrast = false }: IngestPanelProps): React.JSX.Element {
+  const [job, setJob] = useState<IngestJob | null>(null)
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null)
+  const [items, setItems] = useState<IngestProgress['item'][]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [starting, setStarting] = useState(false)
+  // Progress is broadcast for every job; only the one started here is shown
+  const jobId = useRef<string | null>(null)
+
+  useEffect(() => {
+    const stopProgress = window.api.onIngestProgress((event) => {
+      if (event.jobId !== jobId.current) return
+      setProgress({ processed: event.processed, total: event.total })
+      setItems((current) => [event.item, ...current].slice(0, MAX_LISTED_ITEMS))
+    })
+    const stopFinished = window.api.onIngestFinished((finished) => {
+      if (finished.id !== jobId.current) return
+      setJob(finished)
+    })
+    return () => {
+      stopProgress()
+      stopFinished()
+    }
+  }, [])
+
+  const start = async (): Promise<void> => {
+    const folderPath = await window.api.selectFolder()
+    if (!folderPath) return
+
+    setStarting(true)
+    setError(null)
+    setItems([])
+    setProgress(null)
+    const response = await apiClient.ingest.start(folderPath)
+    setStarting(false)
+    if (!response.success || !response.data) {
+      setError(response.error?.message || 'Nie udało się rozpocząć importu')
+      return
+    }
+    jobId.current = response.data.id
+    setJob(response.data)
+  }
+
+  const downloadReport = async (format: 'csv' | 'json'): Promise<void> => {
+    if (!job) return
+    const report = await apiClient.ingest.downloadReport(job.id, format)
+    if (!report) {
+      setError('Nie udało się pobrać raportu')
+      return
+    }
+    saveBlob(report.blob, report.filename)
+  }
+
+  const running = job?.status === 'running'
+  const muted = highContrast ? 'text-black' : 'text-slate-500'
+  const border = highContrast ? 'border-black' : 'border-slate-800'
+  const button = `flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-colors disabled:opacity-50 ${highContrast ? 'bg-black text-white' : 'bg-slate-800 hover:bg-slate-700 text-white'}`
+  const percent = progress && progress.total > 0 ? (progress.processed / progress.total) * 100 : 0
+
+  return (
+    <div
+      className={`fixed inset-0 z-[200] flex flex-col ${highContrast ? 'bg-white text-black' : 'bg-slate-950 text-white'}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Import folderu"
+    >
+      <div className={`flex items-center gap-4 px-6 py-4 border-b flex-shrink-0 ${border}`}>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg transition-colors ${highContrast ? 'bg-black text-white' : 'bg-slate-800 hover:bg-slate-700 text-white'}`}
+          aria-label="Zamknij import"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-lg font-bold">Import folderu</h2>
+        <button onClick={start} disabled={starting || running} className={button}>
+          <FolderOpen size={16} />
+          Wybierz folder
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {!job && !error && (
+          <p className={`text-sm ${muted}`}>
+            Wszystkie pliki z wybranego folderu i jego podfolderów zostaną dodane do archiwum;
+            duplikaty są pomijane.
+          </p>
+        )}
+
+        {job && (
+          <section aria-live="polite" className="space-y-3">
+            <p className="text-sm break-all">{job.sourcePath}</p>
+            <ProgressBar
+              progress={running ? percent : 100}
+              status={job.status === 'failed' ? 'error' : running ? 'loading' : 'complete'}
+              highContrast={highContrast}
+            />
+            <div className="flex flex-wrap gap-3 text-sm">
+              {running ? (
+                <span className={`px-3 py-1 rounded border ${border}`}>
+                  {progress ? `${progress.processed} / ${progress.total}` : 'Przygotowanie...'}
+                </span>
+              ) : (
+                <>
+                  <span className={`px-3 py-1 rounded border ${border}`}>
+                    Dodano: {job.registered}
+                  </span>
+                  <span className={`px-3 py-1 rounded border ${border}`}>
+                    Pominięto: {job.skipped}
+                  </span>
+                  <span className={`px-3 py-1 rounded border ${border}`}>Błędy: {job.failed}</span>
+                </>
+              )}
+            </div>
+            {job.errorMessage && <p className="text-sm text-red-400">{job.errorMessage}</p>}
+            {!running && (
+              <div className="flex gap-3">
+                <button onClick={() => downloadReport('csv')} className={button}>
+                  <Download size={16} />
+                  Raport CSV
+                </button>
+                <button onClick={() => downloadReport('json')} className={button}>
+                  <Download size={16} />
+                  Raport JSON
+                </button>
+              </div>
+            )}
+          </section>
+        )}
+
+        {items.length > 0 && (
+          <table className={`w-full text-sm border ${border}`}>
+            <thead>
+              <tr className={`border-b ${border}`}>
+                <th className="text-left p-2">Plik</th>
+                <th className="text-left p-2">Wynik</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.relativePath} className={`border-b ${border}`}>
+                  <td className="p-2 break-all">{item.relativePath}</td>
+                  <td className={`p-2 ${item.status === 'failed' ? 'text-red-400' : ''}`}>
+                    {STATUS_LABELS[item.status]}
+                    {item.message && <span className={muted}> – {item.message}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default IngestPanel
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react'
+import { Link2 } from 'lucide-react'
+import apiClient, { type FileRelation, type RelationType } from '../utils/api'
+
+interface RelatedItemsProps {
+  fileId: string
+  onOpen: (relation: FileRelation) => void
+  highContrast?: boolean
+}
+
+// Read as "<this file> <label> <other file>"
+const RELATION_LABELS: Record<RelationType, string> = {
+  isPartOf: 'Jest częścią',
+  hasPart: 'Zawiera',
+  isVersionOf: 'Jest wersją',
+  hasVersion: 'Ma wersję',
+  isFormatOf: 'Jest formatem',
+  hasFormat: 'Ma format',
+  references: 'Odwołuje się do',
+  isReferencedBy: 'Przywoływany przez',
+  replaces: 'Zastępuje',
+  isReplacedBy: 'Zastąpiony przez',
+  requires: 'Wymaga',
+  isRequiredBy: 'Wymagany przez'
+}
+
+/**
+ * Files related to the open one, grouped by relation; each title opens that file
+ */
+function RelatedItems({
+  fileId,
+  onOpen,
+  highContrast = false
+}: RelatedItemsProps): React.JSX.Element | null {
+  const [relations, setRelations] = useState<FileRelation[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    apiClient.files.getRelations(fileId).then((response) => {
+      if (!cancelled) setRelations(response.success && response.data ? response.data : [])
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [fileId])
+
+  if (relations.length === 0) return null
+
+  const groups = relations.reduce<Partial<Record<RelationType, FileRelation[]>>>(
+    (acc, relation) => ({
+      ...acc,
+      [relation.relation]: [...(acc[relation.relation] ?? []), relation]
+    }),
+    {}
+  )
+  const muted = highContrast ? 'text-black' : 'text-slate-500'
+
+  return (
+    <div className={`p-6 border-b ${highContrast ? 'border-black' : 'border-slate-800'}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <Link2 size={18} className={muted} aria-hidden="true" />
+        <h3 className={`text-xs font-bold uppercase tracking-wider ${muted}`}>Powiązane obiekty</h3>
+      </div>
+      <dl className="space-y-2 text-sm">
+        {(Object.keys(groups) as RelationType[]).map((type) => (
+          <div key={type}>
+            <dt className={`text-xs ${muted}`}>{RELATION_LABELS[type]}</dt>
+            {groups[type]?.map((relation) => (
+              <dd key={relation.id}>
+                <button
+                  onClick={() => onOpen(relation)}
+                  className={`text-left underline underline-offset-2 focus:outline-none focus:ring-2 ${highContrast ? 'text-black focus:ring-black' : 'text-sky-400 hover:text-sky-300 focus:ring-yellow-400'}`}
+                  title={relation.note || relation.title}
+                >
+                  {relation.title}
+                </button>
+              </dd>
+            ))}
+          </div>
+        ))}
+      </dl>
+    </div>
+  )
+}
+
+export default RelatedItems
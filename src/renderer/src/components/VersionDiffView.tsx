@@ -0,0 +1,285 @@
+import { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import apiClient, {
+  type DiffHunk,
+  type DiffLine,
+  type FileVersionInfo,
+  type VersionDiff
+} from '../utils/api'
+
+interface VersionDiffViewProps {
+  fileId: string
+  onClose: () => void
+  highContrast?: boolean
+}
+
+// One row of the side-by-side table; a missing side is rendered as an empty cell
+interface DiffRow {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+/**
+ * Pair the lines of a hunk into rows: unchanged lines sit on both sides, and a run of
+ * removed lines is matched up with the added lines that follow it
+ */
+const toRows = (hunk: DiffHunk): DiffRow[] => {
+  const rows: DiffRow[] = []
+  let removed: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = (): void => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const line of hunk.lines) {
+    if (line.type === 'equal') {
+      flush()
+      rows.push({ left: line, right: line })
+    } else if (line.type === 'delete') {
+      if (added.length > 0) flush()
+      removed.push(line)
+    } else {
+      added.push(line)
+    }
+  }
+  flush()
+  return rows
+}
+
+const formatSize = (bytes: number): string => {
+  const sign = bytes < 0 ? '-' : bytes > 0 ? '+' : ''
+  const value = Math.abs(bytes)
+  if (value >= 1024 * 1024) return `${sign}${(value / 1024 / 1024).toFixed(1)} MB`
+  if (value >= 1024) return `${sign}${(value / 1024).toFixed(1)} KB`
+  return `${sign}${value} B`
+}
+
+function VersionDiffView({
+  fileId,
+  onClose,
+  highContrast = false
+}: VersionDiffViewProps): React.JSX.Element {
+  const [versions, setVersions] = useState<FileVersionInfo[]>([])
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Compare the two newest versions by default
+  useEffect(() => {
+    apiClient.files.getVersions(fileId).then((response) => {
+      if (!response.success || !response.data) {
+        setError(response.error?.message || 'Nie udało się pobrać wersji')
+        return
+      }
+      const list = [...response.data].sort((a, b) => a.versionNumber - b.versionNumber)
+      setVersions(list)
+      if (list.length >= 2) {
+        setFromVersion(list[list.length - 2].versionNumber)
+        setToVersion(list[list.length - 1].versionNumber)
+      }
+    })
+  }, [fileId])
+
+  useEffect(() => {
+    if (fromVersion === null || toVersion === null || fromVersion === toVersion) {
+      setDiff(null)
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    apiClient.files.diffVersions(fileId, fromVersion, toVersion).then((response) => {
+      if (cancelled) return
+      setLoading(false)
+      if (response.success && response.data) {
+        setDiff(response.data)
+      } else {
+        setDiff(null)
+        setError(response.error?.message || 'Nie udało się porównać wersji')
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [fileId, fromVersion, toVersion])
+
+  const muted = highContrast ? 'text-black' : 'text-slate-500'
+  const border = highContrast ? 'border-black' : 'border-slate-800'
+  const changedClass = (side: 'left' | 'right'): string => {
+    if (highContrast) return side === 'left' ? 'bg-white line-through' : 'bg-white font-bold'
+    return side === 'left' ? 'bg-red-950/60 text-red-200' : 'bg-emerald-950/60 text-emerald-200'
+  }
+  const cellClass = (line: DiffLine | undefined, side: 'left' | 'right'): string => {
+    if (!line) return highContrast ? 'bg-white' : 'bg-slate-900/50'
+    return line.type === 'equal' ? '' : changedClass(side)
+  }
+
+  const versionSelect = (
+    label: string,
+    value: number | null,
+    onChange: (value: number) => void
+  ): React.JSX.Element => (
+    <label className="flex items-center gap-2 text-sm">
+      <span className={muted}>{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={`px-2 py-1 rounded text-sm ${highContrast ? 'bg-white border border-black text-black' : 'bg-slate-900 border border-slate-700 text-white'}`}
+      >
+        {versions.map((version) => (
+          <option key={version.versionNumber} value={version.versionNumber}>
+            v{version.versionNumber} – {new Date(version.createdAt).toLocaleString('pl-PL')}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div
+      className={`fixed inset-0 z-[200] flex flex-col ${highContrast ? 'bg-white text-black' : 'bg-slate-950 text-white'}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Porównanie wersji"
+    >
+      <div className={`flex items-center gap-4 px-6 py-4 border-b flex-shrink-0 ${border}`}>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg transition-colors ${highContrast ? 'bg-black text-white' : 'bg-slate-800 hover:bg-slate-700 text-white'}`}
+          aria-label="Zamknij porównanie"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-lg font-bold">Porównanie wersji</h2>
+        {versionSelect('Z', fromVersion, setFromVersion)}
+        {versionSelect('Do', toVersion, setToVersion)}
+      </div>
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {versions.length > 0 && versions.length < 2 && (
+          <p className={`text-sm ${muted}`}>Plik ma tylko jedną wersję.</p>
+        )}
+        {loading && <p className={`text-sm ${muted}`}>Porównywanie...</p>}
+
+        {diff && !loading && (
+          <>
+            <div className="flex flex-wrap gap-3 text-sm">
+              <span className={`px-3 py-1 rounded border ${border}`}>
+                Rozmiar: {formatSize(diff.diffSize)}
+              </span>
+              {diff.formatChanged && (
+                <span className={`px-3 py-1 rounded border ${border}`}>
+                  Format: {diff.from.mimeType ?? '?'} → {diff.to.mimeType ?? '?'}
+                </span>
+              )}
+              {diff.text && (
+                <span className={`px-3 py-1 rounded border ${border}`}>
+                  +{diff.text.added} / -{diff.text.removed} wierszy
+                </span>
+              )}
+            </div>
+
+            <section>
+              <h3 className={`text-xs font-bold uppercase tracking-wider mb-3 ${muted}`}>
+                Metadane
+              </h3>
+              {!diff.metadata ? (
+                <p className={`text-sm ${muted}`}>Brak zapisanych metadanych tej wersji.</p>
+              ) : diff.metadata.length === 0 ? (
+                <p className={`text-sm ${muted}`}>Metadane bez zmian.</p>
+              ) : (
+                <table className={`w-full text-sm border ${border}`}>
+                  <thead>
+                    <tr className={muted}>
+                      <th className="text-left p-2">Pole</th>
+                      <th className="text-left p-2">v{diff.from.versionNumber}</th>
+                      <th className="text-left p-2">v{diff.to.versionNumber}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.metadata.map((change) => (
+                      <tr key={change.field} className={`border-t ${border}`}>
+                        <td className="p-2 font-mono">{change.field}</td>
+                        <td className={`p-2 ${change.before ? changedClass('left') : ''}`}>
+                          {change.before ?? '—'}
+                        </td>
+                        <td className={`p-2 ${change.after ? changedClass('right') : ''}`}>
+                          {change.after ?? '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <section>
+              <h3 className={`text-xs font-bold uppercase tracking-wider mb-3 ${muted}`}>Treść</h3>
+              {diff.textPending ? (
+                <p className={`text-sm ${muted}`}>
+                  Tekst wersji jest jeszcze wyodrębniany, porównaj ponownie za chwilę.
+                </p>
+              ) : !diff.text ? (
+                <p className={`text-sm ${muted}`}>Ten format nie zawiera tekstu do porównania.</p>
+              ) : diff.text.hunks.length === 0 ? (
+                <p className={`text-sm ${muted}`}>Tekst bez zmian.</p>
+              ) : (
+                <div className="space-y-4">
+                  {diff.text.hunks.map((hunk) => (
+                    <table
+                      key={`${hunk.oldStart}-${hunk.newStart}`}
+                      className={`w-full table-fixed text-xs font-mono border ${border}`}
+                    >
+                      <caption className={`text-left py-1 ${muted}`}>
+                        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                      </caption>
+                      <tbody>
+                        {toRows(hunk).map((row, index) => (
+                          <tr key={index}>
+                            <td className={`w-12 px-2 text-right select-none ${muted}`}>
+                              {row.left?.oldLine}
+                            </td>
+                            <td
+                              className={`px-2 whitespace-pre-wrap break-words ${cellClass(row.left, 'left')}`}
+                            >
+                              {row.left?.text}
+                            </td>
+                            <td
+                              className={`w-12 px-2 text-right select-none border-l ${border} ${muted}`}
+                            >
+                              {row.right?.newLine}
+                            </td>
+                            <td
+                              className={`px-2 whitespace-pre-wrap break-words ${cellClass(row.right, 'right')}`}
+                            >
+                              {row.right?.text}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ))}
+                  {diff.text.truncated && (
+                    <p className={`text-sm ${muted}`}>
+                      Pokazano tylko część zmian – pozostałe pominięto ze względu na rozmiar.
+                    </p>
+                  )}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default VersionDiffView
@@ -91,37 +91,167 @@ const apiCall = async <T = Record<string, unknown>>(
   }
 }
 
-/**
- * Upload file with FormData (multipart/form-data)
- */
-const apiUpload = async <T = Record<string, unknown>>(
-  endpoint: string,
-  formData: FormData
-): Promise<ApiResponse<T>> => {
-  const headers: Record<string, string> = {}
+// ============================================================================
+// RESUMABLE UPLOADS
+// ============================================================================
+
+const UPLOAD_CHUNK_SIZE = 16 * 1024 * 1024 // 16 MB
+
+export interface ResumableUpload {
+  /**
+   * Start or resume the upload; resolves with the registered file once the last chunk is sent
+   */
+  start: () => Promise<ApiResponse<Record<string, unknown>>>
+  /**
+   * Stop after the current request; `start` continues from the last confirmed offset
+   */
+  pause: () => void
+  /**
+   * Abort the upload and discard the server-side session
+   */
+  cancel: () => Promise<void>
+}
+
+// Session ids are kept per file, so an upload can be resumed after an app restart
+const uploadStorageKey = (file: File): string =>
+  `e-archiwum:upload:${file.name}:${file.size}:${file.lastModified}`
 
+const uploadHeaders = (extra: Record<string, string> = {}): Record<string, string> => {
+  const headers: Record<string, string> = { ...extra }
   if (authToken) {
     headers['Authorization'] = `Bearer ${authToken}`
   }
+  return headers
+}
 
-  try {
-    const response = await fetch(`${API_BASE}${endpoint}`, {
+/**
+ * Get the confirmed offset of an upload session, or null when it can no longer be resumed
+ */
+const getUploadOffset = async (sessionId: string): Promise<number | null> => {
+  const response = await fetch(`${API_BASE}/api/files/uploads/${sessionId}`, {
+    method: 'HEAD',
+    headers: uploadHeaders()
+  })
+  if (!response.ok) return null
+  return Number(response.headers.get('Upload-Offset'))
+}
+
+const createResumableUpload = (
+  file: File,
+  metadata?: { description?: string; accessLevel?: string },
+  onProgress?: (uploaded: number, total: number) => void
+): ResumableUpload => {
+  const storageKey = uploadStorageKey(file)
+  let controller: AbortController | null = null
+
+  const openSession = async (): Promise<{ id: string; offset: number } | ApiResponse> => {
+    const existingId = localStorage.getItem(storageKey)
+    if (existingId) {
+      const offset = await getUploadOffset(existingId)
+      if (offset !== null) return { id: existingId, offset }
+      localStorage.removeItem(storageKey)
+    }
+
+    const created = await apiCall<{ id: string; offset: number }>('/api/files/uploads', {
       method: 'POST',
-      headers,
-      body: formData
+      body: {
+        filename: file.name,
+        mimeType: file.type,
+        size: file.size,
+        ...metadata
+      }
     })
+    if (!created.success || !created.data) return created
 
-    const data = await response.json()
-    return data
-  } catch (error) {
-    return {
-      success: false,
-      error: {
-        code: 'UPLOAD_ERROR',
-        message: `Upload error: ${error instanceof Error ? error.message : 'Unknown'}`
+    localStorage.setItem(storageKey, created.data.id)
+    return created.data
+  }
+
+  const start = async (): Promise<ApiResponse<Record<string, unknown>>> => {
+    controller = new AbortController()
+    const { signal } = controller
+
+    try {
+      const session = await openSession()
+      if (!('id' in session)) {
+        return session as ApiResponse<Record<string, unknown>>
       }
+
+      let offset = session.offset
+      onProgress?.(offset, file.size)
+
+      while (true) {
+        const chunk = file.slice(offset, offset + UPLOAD_CHUNK_SIZE)
+        const response = await fetch(`${API_BASE}/api/files/uploads/${session.id}`, {
+          method: 'PATCH',
+          headers: uploadHeaders({
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset)
+          }),
+          body: chunk,
+          signal
+        })
+
+        // Offset out of sync (e.g. a chunk was confirmed but the response was lost)
+        if (response.status === 409) {
+          const confirmed = await getUploadOffset(session.id)
+          if (confirmed === null || confirmed === offset) {
+            return await response.json()
+          }
+          offset = confirmed
+          continue
+        }
+
+        const result: ApiResponse<{
+          session: { offset: number; status: string }
+          file?: Record<string, unknown>
+        }> = await response.json()
+
+        if (!result.success || !result.data) {
+          return result as ApiResponse<Record<string, unknown>>
+        }
+
+        offset = result.data.session.offset
+        onProgress?.(offset, file.size)
+
+        if (result.data.file) {
+          localStorage.removeItem(storageKey)
+          return { success: true, data: result.data.file }
+        }
+      }
+    } catch (error) {
+      const paused = error instanceof Error && error.name === 'AbortError'
+      return {
+        success: false,
+        error: {
+          code: paused ? 'UPLOAD_PAUSED' : 'UPLOAD_INTERRUPTED',
+          message: paused
+            ? 'Upload paused'
+            : `Upload interrupted: ${error instanceof Error ? error.message : 'Unknown'}`
+        }
+      }
+    } finally {
+      controller = null
     }
   }
+
+  const pause = (): void => {
+    controller?.abort()
+  }
+
+  const cancel = async (): Promise<void> => {
+    pause()
+    const sessionId = localStorage.getItem(storageKey)
+    localStorage.removeItem(storageKey)
+    if (sessionId) {
+      await fetch(`${API_BASE}/api/files/uploads/${sessionId}`, {
+        method: 'DELETE',
+        headers: uploadHeaders()
+      }).catch(() => {})
+    }
+  }
+
+  return { start, pause, cancel }
 }
 
 /**
@@ -184,12 +314,21 @@ export const auth = {
     })
   },
 
-  refresh: async (refreshToken: string): Promise<ApiResponse<{ token: string }>> => {
+  /**
+   * Refresh tokens are single use: keep the returned one for next time
+   */
+  refresh: async (
+    refreshToken: string
+  ): Promise<ApiResponse<{ token: string; refreshToken: string }>> => {
     return apiCall('/api/auth/refresh', {
       method: 'POST',
       body: { refreshToken },
       requiresAuth: false
     })
+  },
+
+  logout: async (): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall('/api/auth/logout', { method: 'POST' })
   }
 }
 
@@ -197,28 +336,150 @@ export const auth = {
 // FILES
 // ============================================================================
 
+export type SearchFacet =
+  | 'type'
+  | 'language'
+  | 'creator'
+  | 'decade'
+  | 'accessLevel'
+  | 'format'
+  | 'collection'
+
+export interface FacetBucket {
+  value: string
+  label: string
+  count: number
+}
+
+export interface SearchResponse {
+  files: Record<string, unknown>[]
+  facets: Record<SearchFacet, FacetBucket[]>
+  total: number
+  limit: number
+  offset: number
+  executionTime: number
+  fuzzy?: boolean
+  didYouMean?: string
+}
+
+export interface SearchSuggestion {
+  value: string
+  field: 'title' | 'creator' | 'subject'
+  score: number
+}
+
+export interface FileVersionInfo {
+  versionNumber: number
+  fileHash: string
+  fileSize?: number
+  mimeType?: string
+  restoredFrom?: number
+  changeSummary?: string
+  createdAt: string
+}
+
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete'
+  text: string
+  oldLine?: number
+  newLine?: number
+}
+
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export interface FieldChange {
+  field: string
+  before?: string
+  after?: string
+}
+
+export interface VersionDiff {
+  fileId: string
+  from: FileVersionInfo
+  to: FileVersionInfo
+  diffSize: number
+  formatChanged: boolean
+  text?: { hunks: DiffHunk[]; added: number; removed: number; truncated: boolean }
+  textPending?: boolean
+  metadata?: FieldChange[]
+}
+
+export interface MetadataRevision {
+  id: string
+  revisionNumber: number
+  changes: FieldChange[]
+  record: Record<string, string>
+  reason?: string
+  createdBy?: string
+  createdByName?: string
+  createdAt: string
+}
+
+export type RelationType =
+  | 'isPartOf'
+  | 'hasPart'
+  | 'isVersionOf'
+  | 'hasVersion'
+  | 'isFormatOf'
+  | 'hasFormat'
+  | 'references'
+  | 'isReferencedBy'
+  | 'replaces'
+  | 'isReplacedBy'
+  | 'requires'
+  | 'isRequiredBy'
+
+// "<this file> <relation> <fileId>"
+export interface FileRelation {
+  id: string
+  relation: RelationType
+  fileId: string
+  title: string
+  mimeType: string
+  note?: string
+  createdBy?: string
+  createdAt: string
+}
+
 export const files = {
   search: async (query: {
     q?: string
+    advanced?: boolean // q uses field:value qualifiers and AND / OR / NOT
     category?: string
-    creator?: string
     dateFrom?: string
     dateTo?: string
     limit?: number
     offset?: number
-  }): Promise<ApiResponse<Record<string, unknown>[]>> => {
+    filters?: Partial<Record<SearchFacet, string[]>> // AND across facets, OR within one
+    collectionId?: string // Files in this collection or any collection below it
+  }): Promise<ApiResponse<SearchResponse>> => {
     const params = new URLSearchParams()
     if (query.q) params.append('q', query.q)
+    if (query.advanced) params.append('advanced', 'true')
     if (query.category) params.append('category', query.category)
-    if (query.creator) params.append('creator', query.creator)
     if (query.dateFrom) params.append('dateFrom', query.dateFrom)
     if (query.dateTo) params.append('dateTo', query.dateTo)
     if (query.limit) params.append('limit', query.limit.toString())
     if (query.offset) params.append('offset', query.offset.toString())
+    if (query.collectionId) params.append('collectionId', query.collectionId)
+    for (const [facet, values] of Object.entries(query.filters ?? {})) {
+      for (const value of values) params.append(facet, value)
+    }
 
     return apiCall(`/api/files/search?${params.toString()}`)
   },
 
+  suggest: async (prefix: string, limit: number = 10): Promise<ApiResponse<SearchSuggestion[]>> => {
+    const params = new URLSearchParams({ prefix, limit: limit.toString() })
+    return apiCall(`/api/files/suggest?${params.toString()}`)
+  },
+
   getFile: async (id: string): Promise<ApiResponse<Record<string, unknown>>> => {
     return apiCall(`/api/files/${id}`)
   },
@@ -231,20 +492,147 @@ export const files = {
     return apiCall('/api/files/stats')
   },
 
-  getVersions: async (id: string): Promise<ApiResponse<Record<string, unknown>[]>> => {
+  getVersions: async (id: string): Promise<ApiResponse<FileVersionInfo[]>> => {
     return apiCall(`/api/files/${id}/versions`)
   },
 
+  /**
+   * Upload new content as the file's next version
+   */
+  uploadVersion: async (
+    id: string,
+    file: File,
+    changeSummary?: string
+  ): Promise<ApiResponse<Record<string, unknown>>> => {
+    const form = new FormData()
+    form.append('file', file)
+    if (changeSummary) form.append('changeSummary', changeSummary)
+
+    try {
+      const response = await fetch(`${API_BASE}/api/files/${id}/versions`, {
+        method: 'POST',
+        headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+        body: form
+      })
+      return await response.json()
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }
+      }
+    }
+  },
+
+  /**
+   * Download the content of one version as blob
+   */
+  downloadVersion: async (id: string, versionNumber: number) => {
+    const result = await apiDownload(`/api/files/${id}/versions/${versionNumber}/download`)
+    if (!result) {
+      return null
+    }
+    return {
+      blob: result.blob,
+      filename:
+        result.headers.get('content-disposition')?.split('filename=')[1]?.replace(/"/g, '') ||
+        `version-${versionNumber}`
+    }
+  },
+
+  /**
+   * Make an earlier version's content the new current version
+   */
+  restoreVersion: async (
+    id: string,
+    versionNumber: number,
+    reason?: string
+  ): Promise<ApiResponse<Record<string, unknown>>> => {
+    return apiCall(`/api/files/${id}/versions/${versionNumber}/restore`, {
+      method: 'POST',
+      body: reason ? { reason } : {}
+    })
+  },
+
+  /**
+   * Text and Dublin Core differences between two versions
+   */
+  diffVersions: async (
+    id: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<ApiResponse<VersionDiff>> => {
+    return apiCall(`/api/files/${id}/versions/${fromVersion}/diff/${toVersion}`)
+  },
+
   updateMetadata: async (
     id: string,
-    metadata: Record<string, unknown>
+    metadata: Record<string, unknown>,
+    reason?: string
   ): Promise<ApiResponse<{ message: string }>> => {
     return apiCall(`/api/files/${id}/metadata`, {
       method: 'PUT',
-      body: { dublinCore: metadata }
+      body: reason ? { dublinCore: metadata, reason } : { dublinCore: metadata }
+    })
+  },
+
+  /**
+   * Dublin Core change history, newest first
+   */
+  getMetadataRevisions: async (id: string): Promise<ApiResponse<MetadataRevision[]>> => {
+    return apiCall(`/api/files/${id}/metadata/revisions`)
+  },
+
+  /**
+   * The Dublin Core record as it was at a point in time
+   */
+  getMetadataAsOf: async (id: string, at: Date): Promise<ApiResponse<MetadataRevision>> => {
+    return apiCall(`/api/files/${id}/metadata/as-of?at=${encodeURIComponent(at.toISOString())}`)
+  },
+
+  /**
+   * Set fields back to their values in an earlier revision
+   */
+  revertMetadata: async (
+    id: string,
+    revision: number,
+    fields: string[],
+    reason?: string
+  ): Promise<ApiResponse<Record<string, unknown>>> => {
+    return apiCall(`/api/files/${id}/metadata/revert`, {
+      method: 'POST',
+      body: reason ? { revision, fields, reason } : { revision, fields }
+    })
+  },
+
+  /**
+   * Files related to this one (parts, versions, formats, references...)
+   */
+  getRelations: async (id: string): Promise<ApiResponse<FileRelation[]>> => {
+    return apiCall(`/api/files/${id}/relations`)
+  },
+
+  addRelation: async (
+    id: string,
+    relation: RelationType,
+    targetId: string,
+    note?: string
+  ): Promise<ApiResponse<FileRelation>> => {
+    return apiCall(`/api/files/${id}/relations`, {
+      method: 'POST',
+      body: note ? { relation, targetId, note } : { relation, targetId }
     })
   },
 
+  removeRelation: async (
+    id: string,
+    relationId: string
+  ): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/files/${id}/relations/${relationId}`, { method: 'DELETE' })
+  },
+
   getAudit: async (
     id: string,
     limit?: number,
@@ -257,23 +645,27 @@ export const files = {
   },
 
   /**
-   * Upload a file with optional metadata
+   * Upload a file with optional metadata in resumable chunks.
+   * Aborting `signal` pauses the upload; calling `upload` again with the same file resumes it.
    */
   upload: async (
     file: File,
-    metadata?: { description?: string; accessLevel?: string }
-  ): Promise<ApiResponse<Record<string, unknown>>> => {
-    const formData = new FormData()
-    formData.append('file', file)
-    if (metadata?.description) {
-      formData.append('description', metadata.description)
-    }
-    if (metadata?.accessLevel) {
-      formData.append('accessLevel', metadata.accessLevel)
+    metadata?: { description?: string; accessLevel?: string },
+    options?: {
+      onProgress?: (uploaded: number, total: number) => void
+      signal?: AbortSignal
     }
-    return apiUpload('/api/files/upload', formData)
+  ): Promise<ApiResponse<Record<string, unknown>>> => {
+    const upload = createResumableUpload(file, metadata, options?.onProgress)
+    options?.signal?.addEventListener('abort', upload.pause)
+    return upload.start()
   },
 
+  /**
+   * Prepare a resumable upload with explicit pause / resume / cancel controls
+   */
+  createUpload: createResumableUpload,
+
   /**
    * Download a file as blob
    */
@@ -290,6 +682,17 @@ export const files = {
     }
   },
 
+  /**
+   * Download a METS/PREMIS package (AIP requires curator role)
+   */
+  downloadPackage: async (fileId: string, type: 'aip' | 'dip' = 'dip') => {
+    const result = await apiDownload(`/api/files/${fileId}/package?type=${type}`)
+    if (!result) {
+      return null
+    }
+    return { blob: result.blob, filename: `${type}-${fileId}.tar` }
+  },
+
   /**
    * Delete a file (soft delete)
    */
@@ -310,10 +713,450 @@ export const files = {
   }
 }
 
+// ============================================================================
+// CURRENT USER
+// ============================================================================
+
+export interface SavedSearchQuery {
+  q: string
+  advanced?: boolean
+  category?: string
+  filters?: Partial<Record<SearchFacet, string[]>>
+  dateFrom?: string
+  dateTo?: string
+  collectionId?: string
+}
+
+export interface SavedSearch {
+  id: string
+  name: string
+  query: SavedSearchQuery
+  notifyEmail: boolean
+  matchCount: number
+  lastRunAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Notification {
+  id: string
+  type: 'saved_search'
+  title: string
+  message?: string
+  data: Record<string, unknown>
+  readAt?: string
+  createdAt: string
+}
+
+// Where a user is logged in
+export interface AuthSession {
+  id: string
+  device: string
+  userAgent?: string
+  ipAddress?: string
+  createdAt: string
+  lastUsedAt: string
+  current: boolean
+}
+
+export const me = {
+  listSessions: async (): Promise<ApiResponse<AuthSession[]>> => {
+    return apiCall('/api/me/sessions')
+  },
+
+  /**
+   * Sign out one session; signing out the current one logs this app out
+   */
+  revokeSession: async (id: string): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/me/sessions/${id}`, { method: 'DELETE' })
+  },
+
+  listSavedSearches: async (): Promise<ApiResponse<SavedSearch[]>> => {
+    return apiCall('/api/me/saved-searches')
+  },
+
+  /**
+   * Save a search; files added or matching later are reported as notifications
+   */
+  createSavedSearch: async (
+    name: string,
+    query: SavedSearchQuery,
+    notifyEmail: boolean = false
+  ): Promise<ApiResponse<SavedSearch>> => {
+    return apiCall('/api/me/saved-searches', {
+      method: 'POST',
+      body: { name, query: { ...query }, notifyEmail }
+    })
+  },
+
+  updateSavedSearch: async (
+    id: string,
+    changes: { name?: string; query?: SavedSearchQuery; notifyEmail?: boolean }
+  ): Promise<ApiResponse<SavedSearch>> => {
+    return apiCall(`/api/me/saved-searches/${id}`, {
+      method: 'PUT',
+      body: { ...changes }
+    })
+  },
+
+  deleteSavedSearch: async (id: string): Promise<ApiResponse<{ id: string }>> => {
+    return apiCall(`/api/me/saved-searches/${id}`, { method: 'DELETE' })
+  },
+
+  getSavedSearchMatches: async (
+    id: string,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<ApiResponse<Record<string, unknown>[]>> => {
+    return apiCall(`/api/me/saved-searches/${id}/matches?limit=${limit}&offset=${offset}`)
+  },
+
+  getNotifications: async (
+    unreadOnly: boolean = false
+  ): Promise<ApiResponse<{ notifications: Notification[]; unread: number }>> => {
+    return apiCall(`/api/me/notifications${unreadOnly ? '?unread=true' : ''}`)
+  },
+
+  markNotificationRead: async (id: string): Promise<ApiResponse<Notification>> => {
+    return apiCall(`/api/me/notifications/${id}/read`, { method: 'POST' })
+  },
+
+  markAllNotificationsRead: async (): Promise<ApiResponse<{ updated: number }>> => {
+    return apiCall('/api/me/notifications/read', { method: 'POST' })
+  }
+}
+
+// ============================================================================
+// BATCH INGEST
+// ============================================================================
+
+export interface IngestJob {
+  id: string
+  sourcePath: string
+  status: 'running' | 'completed' | 'failed'
+  totalFiles: number
+  registered: number
+  skipped: number
+  failed: number
+  errorMessage?: string
+  startedAt: string
+  finishedAt?: string
+}
+
+export interface IngestProgress {
+  jobId: string
+  processed: number
+  total: number
+  item: { relativePath: string; status: 'registered' | 'skipped' | 'failed'; message?: string }
+}
+
+export const ingest = {
+  /**
+   * Start ingesting a local folder; per-file progress arrives via window.api.onIngestProgress
+   */
+  start: async (
+    folderPath: string,
+    options?: { accessLevel?: string; language?: string }
+  ): Promise<ApiResponse<IngestJob>> => {
+    return apiCall('/api/ingest/jobs', {
+      method: 'POST',
+      body: { folderPath, ...options }
+    })
+  },
+
+  getJob: async (jobId: string): Promise<ApiResponse<IngestJob>> => {
+    return apiCall(`/api/ingest/jobs/${jobId}`)
+  },
+
+  /**
+   * Download the ingest report (successes, skips and failures)
+   */
+  downloadReport: async (jobId: string, format: 'csv' | 'json' = 'csv') => {
+    const result = await apiDownload(`/api/ingest/jobs/${jobId}/report?format=${format}`)
+    if (!result) {
+      return null
+    }
+    return { blob: result.blob, filename: `ingest-${jobId}.${format}` }
+  }
+}
+
+// ============================================================================
+// COLLECTIONS
+// ============================================================================
+
+export type CollectionLevel = 'fonds' | 'series' | 'file' | 'item'
+
+export interface Collection {
+  id: string
+  parentId?: string
+  level: CollectionLevel
+  title: string
+  position: number
+  accessLevel?: string // Unset = inherited from the parent
+  effectiveAccessLevel: string
+  dublinCore: Record<string, string>
+  depth: number
+  childCount: number
+  fileCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CollectionChildren {
+  collection: Collection
+  ancestors: Array<{ id: string; title: string; level: CollectionLevel }>
+  collections: Collection[]
+  files: Array<{
+    id: string
+    filename: string
+    title: string
+    mimeType: string
+    fileSize: number
+    accessLevel: string
+    position: number
+  }>
+}
+
+export const collections = {
+  listRoots: async (): Promise<ApiResponse<Collection[]>> => {
+    return apiCall('/api/collections')
+  },
+
+  getCollection: async (id: string): Promise<ApiResponse<Collection>> => {
+    return apiCall(`/api/collections/${id}`)
+  },
+
+  /**
+   * Sub-collections and files of a collection, in their stored order
+   */
+  getChildren: async (id: string): Promise<ApiResponse<CollectionChildren>> => {
+    return apiCall(`/api/collections/${id}/children`)
+  },
+
+  createCollection: async (collection: {
+    parentId?: string
+    level: CollectionLevel
+    title: string
+    accessLevel?: string
+    dublinCore?: Record<string, string>
+  }): Promise<ApiResponse<Collection>> => {
+    return apiCall('/api/collections', { method: 'POST', body: collection })
+  },
+
+  /**
+   * Rename, describe or move a collection; accessLevel null inherits from the parent
+   */
+  updateCollection: async (
+    id: string,
+    changes: {
+      parentId?: string | null
+      level?: CollectionLevel
+      title?: string
+      accessLevel?: string | null
+      dublinCore?: Record<string, string>
+    }
+  ): Promise<ApiResponse<Collection>> => {
+    return apiCall(`/api/collections/${id}`, { method: 'PUT', body: changes })
+  },
+
+  deleteCollection: async (id: string): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/collections/${id}`, { method: 'DELETE' })
+  },
+
+  reorder: async (
+    id: string,
+    order: { collections?: string[]; files?: string[] }
+  ): Promise<ApiResponse<CollectionChildren>> => {
+    return apiCall(`/api/collections/${id}/order`, { method: 'PUT', body: order })
+  },
+
+  addFiles: async (id: string, fileIds: string[]): Promise<ApiResponse<{ added: number }>> => {
+    return apiCall(`/api/collections/${id}/files`, { method: 'POST', body: { fileIds } })
+  },
+
+  removeFile: async (id: string, fileId: string): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/collections/${id}/files/${fileId}`, { method: 'DELETE' })
+  },
+
+  getFileCollections: async (fileId: string): Promise<ApiResponse<Collection[]>> => {
+    return apiCall(`/api/files/${fileId}/collections`)
+  },
+
+  /**
+   * Download a collection with everything below it as a METS/PREMIS package (downloadable files only)
+   */
+  downloadPackage: async (id: string, type: 'aip' | 'dip' = 'dip') => {
+    const result = await apiDownload(`/api/collections/${id}/package?type=${type}`)
+    if (!result) {
+      return null
+    }
+    return { blob: result.blob, filename: `${type}-collection-${id}.tar` }
+  },
+
+  /**
+   * Export a collection with everything below it as a bag (downloadable files only)
+   */
+  exportBag: async (id: string) => {
+    const result = await apiDownload(`/api/collections/${id}/bag`)
+    if (!result) {
+      return null
+    }
+    return { blob: result.blob, filename: `collection-${id}.tar` }
+  }
+}
+
+// ============================================================================
+// BAGIT PACKAGES
+// ============================================================================
+
+export const bagit = {
+  /**
+   * Import a BagIt bag (directory or .zip path) as one accession
+   */
+  importBag: async (
+    path: string,
+    accessLevel?: string
+  ): Promise<ApiResponse<Record<string, unknown>>> => {
+    return apiCall('/api/bagit/import', {
+      method: 'POST',
+      body: { path, accessLevel }
+    })
+  },
+
+  getAccession: async (accessionId: string): Promise<ApiResponse<Record<string, unknown>>> => {
+    return apiCall(`/api/accessions/${accessionId}`)
+  },
+
+  /**
+   * Export files as a tar-serialized bag
+   */
+  exportFiles: async (fileIds: string[]) => {
+    const result = await apiDownload(
+      `/api/bagit/export?fileIds=${encodeURIComponent(fileIds.join(','))}`
+    )
+    if (!result) {
+      return null
+    }
+    return { blob: result.blob, filename: 'bag.tar' }
+  },
+
+  /**
+   * Export an accession as a bag
+   */
+  exportAccession: async (accessionId: string) => {
+    const result = await apiDownload(`/api/accessions/${accessionId}/bag`)
+    if (!result) {
+      return null
+    }
+    return { blob: result.blob, filename: `accession-${accessionId}.tar` }
+  }
+}
+
+// ============================================================================
+// SHARE LINKS
+// ============================================================================
+
+export type ShareLinkMode = 'view' | 'download'
+
+// Expiring link to a file or a collection for someone without an account
+export interface ShareLink {
+  id: string
+  token: string
+  fileId?: string
+  collectionId?: string
+  title: string
+  mode: ShareLinkMode
+  hasPassword: boolean
+  maxDownloads?: number
+  downloadCount: number
+  note?: string
+  status: 'active' | 'expired' | 'revoked' | 'exhausted'
+  createdBy?: string
+  createdByUsername?: string
+  createdAt: string
+  expiresAt: string
+  revokedAt?: string
+  lastAccessedAt?: string
+}
+
+export const shareLinks = {
+  /**
+   * The caller's links (admins: everyone's), active ones unless includeInactive
+   */
+  list: async (includeInactive = false): Promise<ApiResponse<ShareLink[]>> => {
+    return apiCall(`/api/share-links?includeInactive=${includeInactive}`)
+  },
+
+  create: async (link: {
+    fileId?: string
+    collectionId?: string
+    mode: ShareLinkMode
+    expiresAt: string
+    password?: string
+    maxDownloads?: number
+    note?: string
+  }): Promise<ApiResponse<ShareLink>> => {
+    return apiCall('/api/share-links', { method: 'POST', body: link })
+  },
+
+  revoke: async (id: string): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/share-links/${id}`, { method: 'DELETE' })
+  },
+
+  /**
+   * Address to hand to the recipient
+   */
+  url: (link: ShareLink): string => `${API_BASE}/api/share/${link.token}`
+}
+
 // ============================================================================
 // ADMIN
 // ============================================================================
 
+export type FilePermission = 'read' | 'download' | 'modify' | 'delete'
+
+// Grant on a file, or on a collection and every file below it, to one user, role or group
+export interface AccessRule {
+  id: string
+  fileId?: string
+  collectionId?: string
+  userId?: string
+  username?: string
+  role?: string
+  groupId?: string
+  groupName?: string
+  permissions: FilePermission[]
+  grantedBy?: string
+  createdAt: string
+  expiresAt?: string
+}
+
+export interface UserGroup {
+  id: string
+  name: string
+  description?: string
+  memberCount: number
+  createdBy?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface UserGroupMember {
+  userId: string
+  username: string
+  role: string
+  addedBy?: string
+  addedAt: string
+}
+
+export interface FileAccessEntry {
+  userId: string
+  username: string
+  role: string
+  permissions: FilePermission[]
+  ruleIds: string[]
+}
+
 export const admin = {
   listUsers: async (): Promise<ApiResponse<Record<string, unknown>[]>> => {
     return apiCall('/api/admin/users')
@@ -331,12 +1174,114 @@ export const admin = {
 
   getAuditLog: async (limit: number = 100): Promise<ApiResponse<Record<string, unknown>[]>> => {
     return apiCall(`/api/admin/audit?limit=${limit}`)
+  },
+
+  listGroups: async (): Promise<ApiResponse<UserGroup[]>> => {
+    return apiCall('/api/admin/groups')
+  },
+
+  getGroup: async (
+    groupId: string
+  ): Promise<ApiResponse<UserGroup & { members: UserGroupMember[] }>> => {
+    return apiCall(`/api/admin/groups/${groupId}`)
+  },
+
+  createGroup: async (group: {
+    name: string
+    description?: string
+  }): Promise<ApiResponse<UserGroup>> => {
+    return apiCall('/api/admin/groups', { method: 'POST', body: group })
+  },
+
+  updateGroup: async (
+    groupId: string,
+    changes: { name?: string; description?: string }
+  ): Promise<ApiResponse<UserGroup>> => {
+    return apiCall(`/api/admin/groups/${groupId}`, { method: 'PUT', body: changes })
+  },
+
+  deleteGroup: async (groupId: string): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/admin/groups/${groupId}`, { method: 'DELETE' })
+  },
+
+  addGroupMembers: async (
+    groupId: string,
+    userIds: string[]
+  ): Promise<ApiResponse<{ added: number }>> => {
+    return apiCall(`/api/admin/groups/${groupId}/members`, {
+      method: 'POST',
+      body: { userIds }
+    })
+  },
+
+  removeGroupMember: async (
+    groupId: string,
+    userId: string
+  ): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/admin/groups/${groupId}/members/${userId}`, { method: 'DELETE' })
+  },
+
+  listUserSessions: async (userId: string): Promise<ApiResponse<AuthSession[]>> => {
+    return apiCall(`/api/admin/users/${userId}/sessions`)
+  },
+
+  revokeUserSession: async (
+    userId: string,
+    sessionId: string
+  ): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/admin/users/${userId}/sessions/${sessionId}`, { method: 'DELETE' })
+  },
+
+  /**
+   * Sign a user out of every session
+   */
+  revokeUserSessions: async (userId: string): Promise<ApiResponse<{ revoked: number }>> => {
+    return apiCall(`/api/admin/users/${userId}/sessions`, { method: 'DELETE' })
+  },
+
+  getUserGroups: async (userId: string): Promise<ApiResponse<UserGroup[]>> => {
+    return apiCall(`/api/admin/users/${userId}/groups`)
+  },
+
+  listAccessRules: async (
+    target: { fileId?: string; collectionId?: string; groupId?: string } = {}
+  ): Promise<ApiResponse<AccessRule[]>> => {
+    const params = new URLSearchParams(target as Record<string, string>)
+    return apiCall(`/api/admin/access-rules?${params.toString()}`)
+  },
+
+  grantAccess: async (rule: {
+    fileId?: string
+    collectionId?: string
+    userId?: string
+    role?: string
+    groupId?: string
+    permissions: FilePermission[]
+    expiresAt?: string
+  }): Promise<ApiResponse<AccessRule>> => {
+    return apiCall('/api/admin/access-rules', { method: 'POST', body: rule })
+  },
+
+  revokeAccess: async (ruleId: string): Promise<ApiResponse<{ message: string }>> => {
+    return apiCall(`/api/admin/access-rules/${ruleId}`, { method: 'DELETE' })
+  },
+
+  /**
+   * Who can see a file, with their permissions
+   */
+  getFileAccess: async (fileId: string): Promise<ApiResponse<FileAccessEntry[]>> => {
+    return apiCall(`/api/admin/files/${fileId}/access`)
   }
 }
 
 export default {
   auth,
   files,
+  me,
+  collections,
+  ingest,
+  bagit,
+  shareLinks,
   admin,
   setAuthToken,
   getAuthToken